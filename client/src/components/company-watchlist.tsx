@@ -0,0 +1,241 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { getPlatformInfo } from '@shared/platforms';
+import type { WatchlistJob } from '@shared/schema';
+import { Building, Eye, ExternalLink, MapPin, RefreshCw, Trash2, AlertCircle } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+
+interface WatchlistEntry {
+  id: string;
+  company: string;
+  platform: string;
+  boardToken: string;
+  boardUrl: string | null;
+  newJobs: WatchlistJob[];
+  openJobCount: number;
+  lastPolledAt: string | null;
+  lastPollError: string | null;
+}
+
+interface CompanyWatchlistProps {
+  userId: string;
+}
+
+export function CompanyWatchlist({ userId }: CompanyWatchlistProps) {
+  const [company, setCompany] = useState('');
+  const [boardUrl, setBoardUrl] = useState('');
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ['/api/user/watchlist', userId];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const response = await fetch('/api/user/watchlist', {
+        headers: {
+          'x-user-id': userId
+        }
+      });
+      if (!response.ok) throw new Error('Failed to fetch watchlist');
+      return response.json();
+    },
+  });
+
+  const watchlistRequest = async (url: string, method: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-user-id': userId
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(result.error || 'Watchlist request failed');
+    return result;
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Watchlist',
+      description: error.message,
+      variant: 'destructive'
+    });
+  };
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey });
+
+  const addMutation = useMutation({
+    mutationFn: () => watchlistRequest('/api/user/watchlist', 'POST', {
+      company: company.trim(),
+      ...(boardUrl.trim() && { boardUrl: boardUrl.trim() })
+    }),
+    onSuccess: (result) => {
+      toast({
+        title: 'Company added',
+        description: `Watching ${result.entry.openJobCount} open roles at ${result.entry.company}.`
+      });
+      setCompany('');
+      setBoardUrl('');
+      refresh();
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: string) => watchlistRequest(`/api/user/watchlist/${id}`, 'DELETE'),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const pollMutation = useMutation({
+    mutationFn: (id: string) => watchlistRequest(`/api/user/watchlist/${id}/poll`, 'POST'),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: (id: string) => watchlistRequest(`/api/user/watchlist/${id}`, 'PATCH', { clearNewJobs: true }),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const watchlist: WatchlistEntry[] = data?.watchlist || [];
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="p-6">
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (company.trim()) addMutation.mutate();
+            }}
+          >
+            <div className="grid md:grid-cols-2 gap-3">
+              <Input
+                placeholder="Company name, e.g. Stripe"
+                value={company}
+                onChange={(e) => setCompany(e.target.value)}
+              />
+              <Input
+                placeholder="Link to one of their job postings (optional)"
+                value={boardUrl}
+                onChange={(e) => setBoardUrl(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                We check Greenhouse, Lever, Ashby and Workday boards every few hours for new roles.
+              </p>
+              <Button type="submit" disabled={!company.trim() || addMutation.isPending}>
+                {addMutation.isPending ? 'Finding board...' : 'Watch Company'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-4 border-primary border-t-transparent"></div>
+        </div>
+      ) : watchlist.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <Eye className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-xl font-semibold mb-2">No Companies Watched</h3>
+            <p className="text-muted-foreground">
+              Add the companies you care about and we'll tell you when they open new roles.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        watchlist.map((entry) => (
+          <Card key={entry.id} className="hover:shadow-lg transition-shadow">
+            <CardContent className="p-6">
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center space-x-2 mb-1">
+                    <Building className="w-4 h-4 text-primary" />
+                    <h3 className="font-semibold text-lg text-foreground">{entry.company}</h3>
+                    <Badge variant="secondary">{getPlatformInfo(entry.platform)?.name || entry.platform}</Badge>
+                    {entry.newJobs.length > 0 && (
+                      <Badge variant="default" className="bg-green-100 text-green-700">
+                        {entry.newJobs.length} new
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {entry.openJobCount} open roles
+                    {entry.lastPolledAt && ` · checked ${formatDistanceToNow(new Date(entry.lastPolledAt), { addSuffix: true })}`}
+                  </p>
+                  {entry.lastPollError && (
+                    <div className="flex items-center space-x-1 text-sm text-red-600 mt-1">
+                      <AlertCircle className="w-4 h-4" />
+                      <span>Last check failed: {entry.lastPollError}</span>
+                    </div>
+                  )}
+                </div>
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => pollMutation.mutate(entry.id)}
+                    disabled={pollMutation.isPending && pollMutation.variables === entry.id}
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => removeMutation.mutate(entry.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {entry.newJobs.length > 0 && (
+                <div className="mt-4 space-y-2">
+                  {entry.newJobs.map((job) => (
+                    <div key={job.url} className="flex items-center justify-between bg-muted p-3 rounded-lg">
+                      <div>
+                        <p className="font-medium text-foreground">{job.title}</p>
+                        <div className="flex items-center space-x-3 text-sm text-muted-foreground">
+                          {job.location && (
+                            <span className="flex items-center space-x-1">
+                              <MapPin className="w-3 h-3" />
+                              <span>{job.location}</span>
+                            </span>
+                          )}
+                          <span>Found {format(new Date(job.foundAt), 'MMM dd')}</span>
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => window.open(job.url, '_blank')}
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button variant="link" size="sm" className="px-0" onClick={() => clearMutation.mutate(entry.id)}>
+                    Mark all as seen
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
@@ -5,10 +5,10 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { ExternalLink, MapPin, Calendar, Bookmark, BookmarkCheck, Share, Check, Copy, FileText } from "lucide-react";
+import { ExternalLink, MapPin, Calendar, Bookmark, BookmarkCheck, Share, Check, Copy, FileText, DollarSign } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
-import type { Job } from "@shared/schema";
+import type { Job, JobSalary } from "@shared/schema";
 
 interface JobCardProps {
   job: Job;
@@ -196,6 +196,26 @@ export function JobCardEnhanced({ job, onSave, onApply, isSaved = false }: JobCa
     });
   };
 
+  const formatSalary = (salary: JobSalary | null) => {
+    if (!salary) return null;
+    if (salary.min === null || salary.max === null) return salary.equity ? 'Equity' : null;
+
+    const formatAmount = (amount: number) => new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: salary.currency,
+      notation: salary.period === 'year' || salary.period === 'month' ? 'compact' : 'standard',
+      maximumFractionDigits: salary.period === 'hour' ? 2 : 0
+    }).format(amount);
+
+    const range = salary.min === salary.max
+      ? formatAmount(salary.min)
+      : `${formatAmount(salary.min)} – ${formatAmount(salary.max)}`;
+    const periodLabels = { hour: '/hr', day: '/day', week: '/wk', month: '/mo', year: '/yr' };
+    return `${range}${periodLabels[salary.period]}${salary.equity ? ' + equity' : ''}`;
+  };
+
+  const salaryLabel = formatSalary(job.salary);
+
   return (
     <>
       <Card className="bg-card hover:shadow-lg border border-border transition-all duration-300 hover:transform hover:scale-[1.01] group">
@@ -238,6 +258,14 @@ export function JobCardEnhanced({ job, onSave, onApply, isSaved = false }: JobCa
                       </div>
                       <span className="font-medium whitespace-nowrap">{formatDate(job.postedAt, job.scrapedAt)}</span>
                     </div>
+                    {salaryLabel && (
+                      <div className="flex items-center space-x-2">
+                        <div className="w-8 h-8 bg-muted rounded-full flex items-center justify-center">
+                          <DollarSign className="w-4 h-4" />
+                        </div>
+                        <span className="font-medium whitespace-nowrap text-foreground">{salaryLabel}</span>
+                      </div>
+                    )}
                   </div>
                 </div>
                 
@@ -1,12 +1,13 @@
-import { useState } from "react";
+import { Fragment, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { searchRequestSchema, type SearchRequest } from "@shared/schema";
+import { platformCatalog, platformGroups } from "@shared/platforms";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Briefcase, Building, Search, Clock } from "lucide-react";
+import { Briefcase, Building, Search, Clock, MapPin } from "lucide-react";
 
 interface JobSearchFormProps {
   onSearch: (params: SearchRequest) => void;
@@ -20,6 +21,7 @@ export function JobSearchForm({ onSearch }: JobSearchFormProps) {
     defaultValues: {
       query: "",
       site: "all",
+      location: "",
       timeFilter: "all",
     },
   });
@@ -35,6 +37,7 @@ export function JobSearchForm({ onSearch }: JobSearchFormProps) {
     const searchData: SearchRequest = {
       query: trimmedQuery,
       site: data.site || "all",
+      location: data.location?.trim() || "all",
       timeFilter: data.timeFilter || "all",
       page: 1,
       limit: 25
@@ -64,6 +67,7 @@ export function JobSearchForm({ onSearch }: JobSearchFormProps) {
     const searchData: SearchRequest = {
       query: term.trim(),
       site: form.getValues("site") || "all",
+      location: form.getValues("location") || "all",
       timeFilter: form.getValues("timeFilter") || "all",
       page: 1,
       limit: 25
@@ -80,7 +84,7 @@ export function JobSearchForm({ onSearch }: JobSearchFormProps) {
       </div>
       <Form {...form}>
         <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-3">
             <div className="md:col-span-2 lg:col-span-2">
               <FormField
                 control={form.control}
@@ -107,6 +111,34 @@ export function JobSearchForm({ onSearch }: JobSearchFormProps) {
               />
             </div>
 
+            <div className="lg:col-span-1">
+              <FormField
+                control={form.control}
+                name="location"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium text-gray-700">
+                      Location
+                    </FormLabel>
+                    <FormControl>
+                      <div className="relative">
+                        <MapPin className="absolute left-4 top-1/2 transform -translate-y-1/2 text-muted-foreground w-5 h-5" />
+                        <Input
+                          {...field}
+                          value={field.value === "all" ? "" : field.value || ""}
+                          placeholder="e.g., Austin, TX within 50 miles"
+                          title='A city, state or country, optionally "within 50 miles", or "Remote (US or Canada only)"'
+                          className="pl-12 py-2.5 text-sm border-border focus:ring-2 focus:ring-primary bg-card hover:bg-muted/50 transition-colors"
+                          data-testid="input-location"
+                        />
+                      </div>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
             <div className="lg:col-span-1">
               <FormField
                 control={form.control}
@@ -129,62 +161,18 @@ export function JobSearchForm({ onSearch }: JobSearchFormProps) {
                           <SelectContent className="max-h-96 overflow-y-auto">
                             <SelectItem value="all">🔍 All Major Platforms</SelectItem>
                             
-                            {/* Major ATS Platforms */}
-                            <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground">Major ATS</div>
-                            <SelectItem value="greenhouse.io">🌱 Greenhouse</SelectItem>
-                            <SelectItem value="lever.co">🎯 Lever</SelectItem>
-                            <SelectItem value="ashbyhq.com">💼 Ashby</SelectItem>
-                            <SelectItem value="myworkdayjobs.com">📊 Workday</SelectItem>
-                            <SelectItem value="jobs.workable.com">⚡ Workable</SelectItem>
-                            <SelectItem value="adp">🏢 ADP</SelectItem>
-                            <SelectItem value="icims.com">📝 iCIMS</SelectItem>
-                            <SelectItem value="jobvite.com">🎨 Jobvite</SelectItem>
-                            
-                            {/* Newer Platforms */}
-                            <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground mt-2">Modern Platforms</div>
-                            <SelectItem value="remoterocketship.com">🚀 Remote Rocketship</SelectItem>
-                            <SelectItem value="wellfound.com">💡 Wellfound (AngelList)</SelectItem>
-                            <SelectItem value="workatastartup.com">⚡ Y Combinator</SelectItem>
-                            <SelectItem value="builtin.com">🏗️ Built In</SelectItem>
-                            <SelectItem value="rippling-ats.com">💫 Rippling</SelectItem>
-                            <SelectItem value="jobs.gusto.com">🎯 Gusto</SelectItem>
-                            <SelectItem value="dover.io">🌊 Dover</SelectItem>
-                            
-                            {/* HR Platforms */}
-                            <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground mt-2">HR Systems</div>
-                            <SelectItem value="recruiting.paylocity.com">💰 Paylocity</SelectItem>
-                            <SelectItem value="breezy.hr">🌬️ BreezyHR</SelectItem>
-                            <SelectItem value="applytojob.com">🎺 JazzHR</SelectItem>
-                            <SelectItem value="jobs.smartrecruiters.com">🧠 SmartRecruiters</SelectItem>
-                            <SelectItem value="trinethire.com">🔺 TriNet</SelectItem>
-                            <SelectItem value="recruitee.com">👥 Recruitee</SelectItem>
-                            <SelectItem value="teamtailor.com">✨ Teamtailor</SelectItem>
-                            <SelectItem value="homerun.co">🏃 Homerun</SelectItem>
-                            
-                            {/* Specialized Platforms */}
-                            <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground mt-2">Specialized</div>
-                            <SelectItem value="pinpointhq.com">📍 Pinpoint</SelectItem>
-                            <SelectItem value="keka.com">🎯 Keka</SelectItem>
-                            <SelectItem value="oraclecloud.com">☁️ Oracle Cloud</SelectItem>
-                            <SelectItem value="careerpuck.com">🏒 CareerPuck</SelectItem>
-                            <SelectItem value="jobappnetwork.com">🌐 TalentReef</SelectItem>
-                            <SelectItem value="gem.com">💎 Gem</SelectItem>
-                            <SelectItem value="trakstar.com">⭐ Trakstar</SelectItem>
-                            <SelectItem value="catsone.com">🐱 CATS</SelectItem>
-                            <SelectItem value="notion.site">📝 Notion Sites</SelectItem>
-                            
-                            {/* Major Job Boards */}
-                            <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground mt-2">Job Boards</div>
-                            <SelectItem value="linkedin.com">💼 LinkedIn</SelectItem>
-                            <SelectItem value="glassdoor.com">🚪 Glassdoor</SelectItem>
-                            
-                            {/* Generic Patterns */}
-                            <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground mt-2">Generic Patterns</div>
-                            <SelectItem value="jobs.*">🔍 Jobs Subdomains</SelectItem>
-                            <SelectItem value="careers.*">🚀 Career Pages</SelectItem>
-                            <SelectItem value="people.*">👥 People Subdomains</SelectItem>
-                            <SelectItem value="talent.*">⭐ Talent Subdomains</SelectItem>
-                            <SelectItem value="other-pages">📋 Other Job Pages</SelectItem>
+                            {platformGroups.map((group, index) => (
+                              <Fragment key={group}>
+                                <div className={`px-2 py-1.5 text-xs font-semibold text-muted-foreground${index > 0 ? " mt-2" : ""}`}>{group}</div>
+                                {platformCatalog
+                                  .filter((platform) => platform.group === group)
+                                  .map((platform) => (
+                                    <SelectItem key={platform.id} value={platform.id}>
+                                      {platform.icon} {platform.name}
+                                    </SelectItem>
+                                  ))}
+                              </Fragment>
+                            ))}
                           </SelectContent>
                         </Select>
                       </div>
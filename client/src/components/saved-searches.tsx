@@ -0,0 +1,276 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import type { SavedSearchFrequency, WatchlistJob } from '@shared/schema';
+import { AlertCircle, Bell, ExternalLink, Inbox, MapPin, RefreshCw, Search, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  site: string;
+  location: string | null;
+  frequency: SavedSearchFrequency;
+  emailAlerts: boolean;
+  email: string | null;
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+  lastRunError: string | null;
+}
+
+interface SearchAlert {
+  id: string;
+  savedSearchId: string;
+  title: string;
+  jobs: WatchlistJob[];
+  read: boolean;
+  emailedAt: string | null;
+  createdAt: string;
+}
+
+interface SavedSearchesProps {
+  userId: string;
+}
+
+export function SavedSearches({ userId }: SavedSearchesProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const searchesKey = ['/api/user/saved-searches', userId];
+  const alertsKey = ['/api/user/alerts', userId];
+
+  const savedSearchRequest = async (url: string, method: string = 'GET', body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-user-id': userId
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(result.error || 'Saved search request failed');
+    return result;
+  };
+
+  const { data: searchesData, isLoading } = useQuery({
+    queryKey: searchesKey,
+    queryFn: () => savedSearchRequest('/api/user/saved-searches'),
+  });
+
+  const { data: alertsData } = useQuery({
+    queryKey: alertsKey,
+    queryFn: () => savedSearchRequest('/api/user/alerts'),
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: 'Saved searches',
+      description: error.message,
+      variant: 'destructive'
+    });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: searchesKey });
+    queryClient.invalidateQueries({ queryKey: alertsKey });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...updates }: { id: string; frequency?: SavedSearchFrequency; emailAlerts?: boolean }) =>
+      savedSearchRequest(`/api/user/saved-searches/${id}`, 'PATCH', updates),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: string) => savedSearchRequest(`/api/user/saved-searches/${id}`, 'DELETE'),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: (id: string) => savedSearchRequest(`/api/user/saved-searches/${id}/run`, 'POST'),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: (ids?: string[]) => savedSearchRequest('/api/user/alerts/read', 'POST', ids ? { ids } : {}),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: alertsKey }),
+    onError,
+  });
+
+  const savedSearches: SavedSearch[] = searchesData?.savedSearches || [];
+  const alerts: SearchAlert[] = alertsData?.alerts || [];
+  const unreadCount: number = alertsData?.unreadCount || 0;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Inbox className="w-5 h-5 text-primary" />
+            <h3 className="font-semibold text-lg text-foreground">Alerts</h3>
+            {unreadCount > 0 && (
+              <Badge variant="default" className="bg-green-100 text-green-700">
+                {unreadCount} unread
+              </Badge>
+            )}
+          </div>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="px-0" onClick={() => markReadMutation.mutate(undefined)}>
+              Mark all as read
+            </Button>
+          )}
+        </div>
+
+        {alerts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            New jobs from your saved searches will show up here.
+          </p>
+        ) : (
+          alerts.map((alert) => (
+            <Card key={alert.id} className={alert.read ? '' : 'border-primary/40'}>
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <p className={`text-foreground ${alert.read ? 'font-medium' : 'font-semibold'}`}>{alert.title}</p>
+                  <div className="flex items-center space-x-3">
+                    <span className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(alert.createdAt), { addSuffix: true })}
+                    </span>
+                    {!alert.read && (
+                      <Button variant="link" size="sm" className="px-0 h-auto" onClick={() => markReadMutation.mutate([alert.id])}>
+                        Mark read
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  {alert.jobs.map((job) => (
+                    <div key={job.url} className="flex items-center justify-between bg-muted p-3 rounded-lg">
+                      <div>
+                        <p className="font-medium text-foreground">{job.title}</p>
+                        <div className="flex items-center space-x-3 text-sm text-muted-foreground">
+                          <span>{job.company}</span>
+                          {job.location && (
+                            <span className="flex items-center space-x-1">
+                              <MapPin className="w-3 h-3" />
+                              <span>{job.location}</span>
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => window.open(job.url, '_blank')}
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center space-x-2">
+          <Bell className="w-5 h-5 text-primary" />
+          <h3 className="font-semibold text-lg text-foreground">Saved Searches</h3>
+        </div>
+
+        {savedSearches.length === 0 ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <Search className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+              <h3 className="text-xl font-semibold mb-2">No Saved Searches</h3>
+              <p className="text-muted-foreground">
+                Run a search and choose "Save search" to get alerts when new jobs match it.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          savedSearches.map((search) => (
+            <Card key={search.id} className="hover:shadow-lg transition-shadow">
+              <CardContent className="p-6">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1">
+                    <h4 className="font-semibold text-lg text-foreground mb-1">{search.name}</h4>
+                    <p className="text-sm text-muted-foreground">
+                      {search.site === 'all' ? 'All platforms' : search.site}
+                      {search.lastRunAt
+                        ? ` · checked ${formatDistanceToNow(new Date(search.lastRunAt), { addSuffix: true })}`
+                        : ' · first check pending'}
+                    </p>
+                    {search.lastRunError && (
+                      <div className="flex items-center space-x-1 text-sm text-red-600 mt-1">
+                        <AlertCircle className="w-4 h-4" />
+                        <span>Last check failed: {search.lastRunError}</span>
+                      </div>
+                    )}
+                    <div className="flex items-center space-x-4 mt-3">
+                      <Select
+                        value={search.frequency}
+                        onValueChange={(frequency) => updateMutation.mutate({ id: search.id, frequency: frequency as SavedSearchFrequency })}
+                      >
+                        <SelectTrigger className="w-32 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="hourly">Hourly</SelectItem>
+                          <SelectItem value="daily">Daily</SelectItem>
+                          <SelectItem value="weekly">Weekly</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <label className="flex items-center space-x-2 text-sm text-muted-foreground">
+                        <Switch
+                          checked={search.emailAlerts}
+                          disabled={!search.email}
+                          onCheckedChange={(emailAlerts) => updateMutation.mutate({ id: search.id, emailAlerts })}
+                        />
+                        <span>Email{search.email ? ` ${search.email}` : ''}</span>
+                      </label>
+                    </div>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => runMutation.mutate(search.id)}
+                      disabled={runMutation.isPending && runMutation.variables === search.id}
+                    >
+                      <RefreshCw className={`w-4 h-4 ${runMutation.isPending && runMutation.variables === search.id ? 'animate-spin' : ''}`} />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => removeMutation.mutate(search.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
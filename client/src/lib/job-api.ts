@@ -13,11 +13,11 @@ export interface SearchResponse {
   };
 }
 
-export async function searchJobs(searchParams: SearchRequest): Promise<SearchResponse> {
-  const response = await apiRequest(
-    "GET",
-    `/api/search?${new URLSearchParams(searchParams as any).toString()}`
-  );
+export async function searchJobs(searchParams: SearchRequest, sessionId?: string): Promise<SearchResponse> {
+  const urlParams = new URLSearchParams(searchParams as any);
+  // Page through a streamed search's results instead of searching again
+  if (sessionId) urlParams.set('sessionId', sessionId);
+  const response = await apiRequest("GET", `/api/search?${urlParams.toString()}`);
   return response.json();
 }
 
@@ -31,13 +31,28 @@ export async function cleanupOldJobs(): Promise<void> {
 }
 
 export interface StreamingSearchEvent {
-  type: 'start' | 'progress' | 'jobs' | 'platform-complete' | 'platform-error' | 'complete' | 'error';
+  type: 'session' | 'start' | 'progress' | 'jobs' | 'jobs-updated' | 'platform-complete' | 'platform-error' | 'reconnecting' | 'complete' | 'cancelled' | 'error';
   data: any;
 }
 
+export interface StreamingSearchOptions {
+  // Aborting closes the stream and cancels the search on the server
+  signal?: AbortSignal;
+}
+
+// Dropped connections in a row before the search is given up on
+const MAX_RECONNECT_ATTEMPTS = 5;
+
+const PASSTHROUGH_EVENTS = ['session', 'start', 'progress', 'jobs', 'jobs-updated', 'platform-complete', 'platform-error'] as const;
+
+export async function cancelStreamingSearch(sessionId: string): Promise<void> {
+  await fetch(`/api/search-stream/${encodeURIComponent(sessionId)}`, { method: 'DELETE', keepalive: true });
+}
+
 export function searchJobsStreaming(
   searchParams: SearchRequest,
-  onEvent: (event: StreamingSearchEvent) => void
+  onEvent: (event: StreamingSearchEvent) => void,
+  options: StreamingSearchOptions = {}
 ): Promise<void> {
   return new Promise((resolve, reject) => {
     // Properly convert parameters to strings for URL
@@ -49,63 +64,93 @@ export function searchJobsStreaming(
       page: (searchParams.page || 1).toString(),
       limit: (searchParams.limit || 25).toString()
     });
-    const url = `/api/search-stream?${urlParams.toString()}`;
-    const eventSource = new EventSource(url);
-
-    eventSource.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        onEvent({ type: event.type as any || 'message', data });
-      } catch (error) {
-        console.error('Error parsing SSE data:', error);
-      }
+
+    let eventSource: EventSource;
+    let sessionId: string | null = null;
+    let lastEventId = '';
+    let reconnectAttempts = 0;
+    let finished = false;
+
+    const finish = (error?: Error) => {
+      if (finished) return;
+      finished = true;
+      eventSource.close();
+      options.signal?.removeEventListener('abort', onAbort);
+      if (error) reject(error);
+      else resolve();
     };
 
-    eventSource.addEventListener('start', (event) => {
-      const data = JSON.parse(event.data);
-      onEvent({ type: 'start', data });
-    });
+    const onAbort = () => {
+      if (sessionId) cancelStreamingSearch(sessionId).catch(() => {});
+      finish();
+    };
 
-    eventSource.addEventListener('progress', (event) => {
-      const data = JSON.parse(event.data);
-      onEvent({ type: 'progress', data });
-    });
+    const connect = (url: string) => {
+      eventSource = new EventSource(url);
 
-    eventSource.addEventListener('jobs', (event) => {
-      const data = JSON.parse(event.data);
-      onEvent({ type: 'jobs', data });
-    });
+      eventSource.onopen = () => {
+        reconnectAttempts = 0;
+      };
 
-    eventSource.addEventListener('platform-complete', (event) => {
-      const data = JSON.parse(event.data);
-      onEvent({ type: 'platform-complete', data });
-    });
+      PASSTHROUGH_EVENTS.forEach((type) => {
+        eventSource.addEventListener(type, (event) => {
+          const messageEvent = event as MessageEvent;
+          lastEventId = messageEvent.lastEventId || lastEventId;
+          const data = JSON.parse(messageEvent.data);
+          if (type === 'session') sessionId = data.sessionId;
+          onEvent({ type, data });
+        });
+      });
 
-    eventSource.addEventListener('complete', (event) => {
-      const data = JSON.parse(event.data);
-      onEvent({ type: 'complete', data });
-      eventSource.close();
-      resolve();
-    });
+      (['complete', 'cancelled'] as const).forEach((type) => {
+        eventSource.addEventListener(type, (event) => {
+          onEvent({ type, data: JSON.parse((event as MessageEvent).data) });
+          finish();
+        });
+      });
 
-    eventSource.addEventListener('error', (event) => {
-      try {
+      eventSource.addEventListener('error', (event) => {
         const messageEvent = event as MessageEvent;
-        const data = messageEvent.data ? JSON.parse(messageEvent.data) : { error: 'Unknown error' };
-        onEvent({ type: 'error', data });
-        eventSource.close();
-        reject(new Error(data.error || 'Search failed'));
-      } catch (parseError) {
-        onEvent({ type: 'error', data: { error: 'Connection error' } });
-        eventSource.close();
-        reject(new Error('Connection error'));
-      }
-    });
 
-    eventSource.onerror = (error) => {
-      console.error('EventSource error:', error);
-      eventSource.close();
-      reject(new Error('Connection error'));
+        // An error event sent by the server ends the search
+        if (messageEvent.data) {
+          let data = { error: 'Search failed' };
+          try {
+            data = JSON.parse(messageEvent.data);
+          } catch (parseError) {
+            console.error('Error parsing SSE data:', parseError);
+          }
+          onEvent({ type: 'error', data });
+          finish(new Error(data.error || 'Search failed'));
+          return;
+        }
+
+        // Otherwise the connection dropped; resume the session where it left off
+        reconnectAttempts++;
+        if (reconnectAttempts > MAX_RECONNECT_ATTEMPTS) {
+          onEvent({ type: 'error', data: { error: 'Connection error' } });
+          finish(new Error('Connection error'));
+          return;
+        }
+        onEvent({ type: 'reconnecting', data: { attempt: reconnectAttempts, sessionId } });
+
+        // EventSource retries by itself (sending Last-Event-ID) unless it gave up
+        if (eventSource.readyState === EventSource.CLOSED) {
+          if (!sessionId) {
+            finish(new Error('Connection error'));
+            return;
+          }
+          const resumeParams = lastEventId ? `?lastEventId=${encodeURIComponent(lastEventId)}` : '';
+          connect(`/api/search-stream/${encodeURIComponent(sessionId)}${resumeParams}`);
+        }
+      });
     };
+
+    if (options.signal?.aborted) {
+      resolve();
+      return;
+    }
+    options.signal?.addEventListener('abort', onAbort);
+    connect(`/api/search-stream?${urlParams.toString()}`);
   });
 }
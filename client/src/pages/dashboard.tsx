@@ -7,6 +7,8 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ResumeUpload } from '@/components/resume-upload';
 import { FeatureRequest } from '@/components/feature-request';
+import { CompanyWatchlist } from '@/components/company-watchlist';
+import { SavedSearches } from '@/components/saved-searches';
 import { 
   Briefcase, 
   BookmarkCheck, 
@@ -30,6 +32,7 @@ interface SavedJob {
   platform?: string;
   savedAt: Date;
   applied: boolean;
+  closedAt?: string | null;
 }
 
 interface Application {
@@ -239,10 +242,12 @@ export default function Dashboard() {
           {/* Left Column - Tabs */}
           <div className="lg:col-span-2">
             <Tabs defaultValue="recommendations" className="w-full">
-              <TabsList className="grid w-full grid-cols-3 mb-6">
+              <TabsList className="grid w-full grid-cols-5 mb-6">
                 <TabsTrigger value="recommendations">Recommendations</TabsTrigger>
                 <TabsTrigger value="saved-jobs">Saved Jobs</TabsTrigger>
                 <TabsTrigger value="applications">Applications</TabsTrigger>
+                <TabsTrigger value="watchlist">Watchlist</TabsTrigger>
+                <TabsTrigger value="saved-searches">Alerts</TabsTrigger>
               </TabsList>
 
               <TabsContent value="recommendations" className="space-y-4">
@@ -385,7 +390,7 @@ export default function Dashboard() {
                   </Card>
                 ) : (
                   savedJobs.map((job: SavedJob) => (
-                    <Card key={job.id} className="hover:shadow-lg transition-shadow">
+                    <Card key={job.id} className={`hover:shadow-lg transition-shadow ${job.closedAt ? 'opacity-60' : ''}`}>
                       <CardContent className="p-6">
                         <div className="flex items-start justify-between">
                           <div className="flex-1">
@@ -417,6 +422,11 @@ export default function Dashboard() {
                                       Applied
                                     </Badge>
                                   )}
+                                  {job.closedAt && (
+                                    <Badge variant="outline" className="text-red-600 border-red-200">
+                                      No longer accepting applications
+                                    </Badge>
+                                  )}
                                 </div>
                               </div>
                             </div>
@@ -501,6 +511,14 @@ export default function Dashboard() {
                   ))
                 )}
               </TabsContent>
+
+              <TabsContent value="watchlist" className="space-y-4">
+                <CompanyWatchlist userId={user.id} />
+              </TabsContent>
+
+              <TabsContent value="saved-searches" className="space-y-4">
+                <SavedSearches userId={user.id} />
+              </TabsContent>
             </Tabs>
           </div>
 
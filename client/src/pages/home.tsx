@@ -4,13 +4,14 @@ import { JobSearchForm } from "@/components/job-search-form";
 import { JobCardEnhanced } from "@/components/job-card-enhanced";
 import { LoadingSkeleton } from "@/components/loading-skeleton";
 import { searchJobs, searchJobsStreaming, type SearchResponse, type StreamingSearchEvent } from "@/lib/job-api";
-import { AlertCircle, Clock, Search, Building, Globe, ChevronLeft, ChevronRight, Briefcase, User, LogOut, MessageCircle } from "lucide-react";
+import { AlertCircle, Bell, Clock, Search, Building, Globe, ChevronLeft, ChevronRight, Briefcase, User, LogOut, MessageCircle } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { AuthModal } from "@/components/auth/auth-modal";
 import { FeatureRequest } from "@/components/feature-request";
 import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
 import type { Job, SearchRequest } from "@shared/schema";
 
 export default function Home() {
@@ -19,6 +20,8 @@ export default function Home() {
   const [authModalOpen, setAuthModalOpen] = useState(false);
   const [authMode, setAuthMode] = useState<'login' | 'register'>('login');
   const { user, loading, signOut } = useAuth();
+  const { toast } = useToast();
+  const [isSavingSearch, setIsSavingSearch] = useState(false);
   
   // Streaming search state
   const [streamingJobs, setStreamingJobs] = useState<Job[]>([]);
@@ -26,7 +29,11 @@ export default function Home() {
   const [streamingProgress, setStreamingProgress] = useState(0);
   const [streamingMessage, setStreamingMessage] = useState('');
   const [streamingError, setStreamingError] = useState<string | null>(null);
-  const eventSourceRef = useRef<EventSource | null>(null);
+  // Aborting cancels the running search on the server too
+  const searchAbortRef = useRef<AbortController | null>(null);
+
+  // Leaving the page stops the search instead of letting it run on
+  useEffect(() => () => searchAbortRef.current?.abort(), []);
 
   // Always use streaming jobs - no fallback to regular search
   const jobs = streamingJobs;
@@ -45,21 +52,66 @@ export default function Home() {
     hasPrevPage: false
   };
 
+  // Save the current search so the server re-runs it and alerts on new jobs
+  const handleSaveSearch = async () => {
+    if (!user || !searchParams) return;
+    setIsSavingSearch(true);
+
+    try {
+      const response = await fetch('/api/user/saved-searches', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-user-id': user.id
+        },
+        body: JSON.stringify({
+          query: searchParams.query,
+          site: searchParams.site,
+          location: searchParams.location || 'all',
+          ...(searchParams.timeFilter && { timeFilter: searchParams.timeFilter }),
+          frequency: 'daily',
+          emailAlerts: !!user.email,
+          ...(user.email && { email: user.email }),
+          seenJobUrls: streamingJobs.map(job => job.url)
+        })
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(result.error || 'Failed to save search');
+
+      toast({
+        title: 'Search saved',
+        description: `We'll check "${result.savedSearch.name}" daily and alert you about new jobs.`
+      });
+    } catch (error) {
+      toast({
+        title: 'Could not save search',
+        description: error instanceof Error ? error.message : 'Failed to save search',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSavingSearch(false);
+    }
+  };
+
   const handleSearch = (params: SearchRequest) => {
-    // Remove location parameter
-    const { location, ...searchParamsWithoutLocation } = params;
-    
-    setSearchParams(searchParamsWithoutLocation);
+    setSearchParams(params);
     setCurrentPage(1);
     
+    // A new search replaces whatever was still running
+    searchAbortRef.current?.abort();
+    const abortController = new AbortController();
+    searchAbortRef.current = abortController;
+    
     // Start streaming search
     setIsStreamingSearch(true);
     setStreamingJobs([]);
     setStreamingProgress(0);
     setStreamingMessage('Starting search...');
     setStreamingError(null);
+    // Server errors that would only repeat themselves turn this off
+    let retrySearch = true;
     
-    searchJobsStreaming(searchParamsWithoutLocation, (event: StreamingSearchEvent) => {
+    searchJobsStreaming(params, (event: StreamingSearchEvent) => {
       switch (event.type) {
         case 'start':
           setStreamingMessage(`Searching ${event.data.totalPlatforms} platforms for "${event.data.query}"...`);
@@ -80,6 +132,13 @@ export default function Home() {
             });
           }
           break;
+        case 'jobs-updated':
+          // A later platform found more about a job already shown
+          setStreamingJobs(prev => prev.map(job => {
+            const update = event.data.updates?.find((candidate: { url: string }) => candidate.url === job.url);
+            return update ? update.job : job;
+          }));
+          break;
         case 'platform-complete':
           // Update progress and message after each platform completes
           if (event.data.percentage !== undefined) {
@@ -103,6 +162,13 @@ export default function Home() {
             setIsStreamingSearch(false);
           }, 500);
           break;
+        case 'reconnecting':
+          setStreamingMessage('Connection dropped, picking the search back up...');
+          break;
+        case 'cancelled':
+          setStreamingMessage(`Search stopped. Found ${event.data.totalJobs} jobs`);
+          setIsStreamingSearch(false);
+          break;
         case 'platform-error':
           // Don't break the whole search for individual platform errors
           console.warn(`Platform ${event.data.platform} failed:`, event.data.error);
@@ -112,34 +178,37 @@ export default function Home() {
           break;
         case 'error':
           console.error('Streaming error:', event.data);
-          setStreamingError(event.data.error);
           setIsStreamingSearch(false);
-          // Retry streaming search instead of falling back
-          setStreamingError(`Connection issue. Retrying search...`);
-          setTimeout(() => {
-            setStreamingError(null);
-            // Retry the same search with streaming
-            if (searchParams) {
-              handleSearch(searchParams);
-            }
-          }, 2000);
+          setStreamingError(event.data.error || 'Search failed');
+          // The same query would fail to parse again
+          if (event.data.code === 'INVALID_QUERY') {
+            retrySearch = false;
+          }
           break;
       }
-    }).catch((error) => {
+    }, { signal: abortController.signal }).catch((error) => {
       console.error('Streaming connection error:', error);
-      // Retry streaming search instead of giving up
       setIsStreamingSearch(false);
-      setStreamingError(`Connection issue. Retrying search...`);
+      if (!retrySearch) return;
+      // Retry streaming search instead of giving up
+      setStreamingError(shown => shown || `Connection issue. Retrying search...`);
       setTimeout(() => {
         setStreamingError(null);
-        // Retry the same search with streaming
-        if (searchParams) {
-          handleSearch(searchParams);
+        // Retry the same search with streaming, unless another one replaced it
+        if (!abortController.signal.aborted) {
+          handleSearch(params);
         }
       }, 2000);
     });
   };
 
+  const handleStopSearch = () => {
+    searchAbortRef.current?.abort();
+    searchAbortRef.current = null;
+    setIsStreamingSearch(false);
+    setStreamingMessage(`Search stopped. Found ${streamingJobs.length} jobs`);
+  };
+
   const handlePageChange = (page: number) => {
     setCurrentPage(page);
     window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -297,9 +366,23 @@ export default function Home() {
                   {pagination ? `${pagination.totalJobs} jobs found across all platforms` : "Search for hidden opportunities across major job platforms"}
                 </p>
               </div>
-              <div className="flex items-center space-x-2 text-sm text-muted-foreground bg-muted px-3 py-2 rounded-lg">
-                <Clock className="w-4 h-4" />
-                <span>Live results</span>
+              <div className="flex items-center space-x-2">
+                {user && searchParams && !isStreamingSearch && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleSaveSearch}
+                    disabled={isSavingSearch}
+                    data-testid="button-save-search"
+                  >
+                    <Bell className="w-4 h-4 mr-2" />
+                    {isSavingSearch ? 'Saving...' : 'Save search'}
+                  </Button>
+                )}
+                <div className="flex items-center space-x-2 text-sm text-muted-foreground bg-muted px-3 py-2 rounded-lg">
+                  <Clock className="w-4 h-4" />
+                  <span>Live results</span>
+                </div>
               </div>
             </div>
           )}
@@ -316,9 +399,14 @@ export default function Home() {
                     <h3 className="text-lg font-semibold text-foreground">Searching Platforms</h3>
                     <p className="text-sm text-muted-foreground">{streamingMessage}</p>
                   </div>
-                  <div className="text-right">
-                    <div className="text-sm font-medium text-foreground">{jobs.length} jobs found</div>
-                    <div className="text-xs text-muted-foreground">{Math.round(streamingProgress)}% complete</div>
+                  <div className="flex items-center space-x-4">
+                    <div className="text-right">
+                      <div className="text-sm font-medium text-foreground">{jobs.length} jobs found</div>
+                      <div className="text-xs text-muted-foreground">{Math.round(streamingProgress)}% complete</div>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={handleStopSearch}>
+                      Stop
+                    </Button>
                   </div>
                 </div>
                 <Progress value={streamingProgress} className="w-full" />
@@ -0,0 +1,27 @@
+/**
+ * Guard for operator-only endpoints: callers send ADMIN_API_KEY in the
+ * x-admin-key header. Without ADMIN_API_KEY they are open in development
+ * and refused in production.
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+
+export function requireAdminKey(req: Request, res: Response, next: NextFunction) {
+  const adminKey = process.env.ADMIN_API_KEY;
+
+  if (!adminKey) {
+    if (process.env.NODE_ENV === 'production') {
+      return res.status(403).json({ error: 'Admin endpoints are disabled without ADMIN_API_KEY' });
+    }
+    return next();
+  }
+
+  const provided = Buffer.from(req.header('x-admin-key') || '');
+  const expected = Buffer.from(adminKey);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return res.status(401).json({ error: 'Admin key required' });
+  }
+
+  next();
+}
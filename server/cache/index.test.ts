@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.resetModules();
+});
+
+async function loadCacheModule() {
+  // The shared store is picked once per process, so each test gets a fresh module
+  vi.resetModules();
+  // The platforms registry is imported first, as in the app, to settle the import cycle back into the cache
+  await import('../platforms');
+  return import('./index');
+}
+
+describe('createCache', () => {
+  it('keeps entries in memory with the default store', async () => {
+    vi.stubEnv('CACHE_STORE', 'memory');
+    const { createCache } = await loadCacheModule();
+    const cache = createCache<{ jobs: number }>('test-memory', { ttlMs: 60000, maxEntries: 10 });
+
+    await cache.set('engineer', { jobs: 3 });
+
+    await expect(cache.get('engineer')).resolves.toEqual({ jobs: 3 });
+    await expect(cache.get('designer')).resolves.toBeUndefined();
+    expect(cache.stats()).toMatchObject({ store: 'memory', hits: 1, misses: 1, sets: 1, errors: 0 });
+  });
+
+  it('falls back to memory when Redis cannot be reached', async () => {
+    vi.stubEnv('CACHE_STORE', 'redis');
+    // Nothing listens on port 1, so the connection is refused straight away
+    vi.stubEnv('REDIS_URL', 'redis://127.0.0.1:1');
+    const { createCache } = await loadCacheModule();
+    const cache = createCache<string>('test-redis-down', { ttlMs: 60000, maxEntries: 10 });
+
+    await cache.set('key', 'value');
+    await expect(cache.get('key')).resolves.toBe('value');
+
+    await vi.waitFor(() => expect(cache.stats().store).toBe('memory'));
+    await cache.set('other', 'value');
+    await expect(cache.get('other')).resolves.toBe('value');
+    // Only the write made while connecting reached Redis and failed
+    expect(cache.stats().errors).toBe(1);
+  });
+});
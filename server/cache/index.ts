@@ -0,0 +1,189 @@
+/**
+ * Named caches with TTLs, LRU size limits and hit/miss counts. Entries live
+ * in process memory, and CACHE_STORE adds a shared tier so they survive
+ * restarts and are seen by every instance: "redis" (REDIS_URL) or
+ * "postgres" (the Supabase database). The default, "memory", has none.
+ */
+
+import { MemoryCacheStore } from './memory-store';
+import { RedisCacheStore } from './redis-store';
+import { PostgresCacheStore } from './postgres-store';
+import type { CacheStats, SharedCacheStore } from './types';
+
+export type { CacheStats, SharedCacheStore } from './types';
+
+const KEY_PREFIX = 'fhj';
+// Matches what JSON.stringify makes of a Date, so cached jobs get Dates back
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+// What goes to the shared store, so other instances know when it lapses
+interface SharedEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+let sharedStore: SharedCacheStore | null | undefined;
+
+/**
+ * The shared tier picked by CACHE_STORE, created on first use
+ */
+function getSharedStore(): SharedCacheStore | null {
+  if (sharedStore !== undefined) return sharedStore;
+
+  const kind = (process.env.CACHE_STORE || 'memory').trim().toLowerCase();
+  sharedStore = null;
+
+  if (kind === 'redis') {
+    if (process.env.REDIS_URL) {
+      const redis = new RedisCacheStore(process.env.REDIS_URL);
+      sharedStore = redis;
+      // An unreachable Redis would fail every lookup, so drop back to memory
+      redis.connect().catch(error => {
+        console.warn(`⚠️ Could not connect to Redis (${error instanceof Error ? error.message : error}), caching in memory only`);
+        if (sharedStore === redis) sharedStore = null;
+        redis.close();
+      });
+    } else {
+      console.warn('⚠️ CACHE_STORE=redis but REDIS_URL is not set, caching in memory only');
+    }
+  } else if (kind === 'postgres') {
+    if (process.env.SUPABASE_URL) {
+      sharedStore = new PostgresCacheStore();
+    } else {
+      console.warn('⚠️ CACHE_STORE=postgres but SUPABASE_URL is not set, caching in memory only');
+    }
+  } else if (kind !== 'memory') {
+    console.warn(`⚠️ Unknown CACHE_STORE "${kind}", caching in memory only`);
+  }
+
+  if (sharedStore) console.log(`🗄️ Using ${sharedStore.id} as the shared cache`);
+  return sharedStore;
+}
+
+function reviveDates(_key: string, value: unknown): unknown {
+  return typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value;
+}
+
+export class Cache<T> {
+  private memory: MemoryCacheStore<T>;
+  private hits = 0;
+  private sharedHits = 0;
+  private misses = 0;
+  private sets = 0;
+  private errors = 0;
+
+  constructor(
+    public readonly name: string,
+    private options: { ttlMs: number; maxEntries: number }
+  ) {
+    this.memory = new MemoryCacheStore<T>(options.maxEntries);
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const local = this.memory.get(key);
+    if (local !== undefined) {
+      this.hits++;
+      return local;
+    }
+
+    const shared = getSharedStore();
+    if (shared) {
+      try {
+        const raw = await shared.get(this.sharedKey(key));
+        const entry = raw !== null ? JSON.parse(raw, reviveDates) as SharedEntry<T> : null;
+        if (entry && entry.expiresAt > Date.now()) {
+          // Keep a local copy only as long as the shared one lasts
+          this.memory.set(key, entry.value, entry.expiresAt - Date.now());
+          this.hits++;
+          this.sharedHits++;
+          return entry.value;
+        }
+      } catch (error) {
+        this.onSharedError('read', error);
+      }
+    }
+
+    this.misses++;
+    return undefined;
+  }
+
+  async set(key: string, value: T, ttlMs: number = this.options.ttlMs): Promise<void> {
+    this.memory.set(key, value, ttlMs);
+    this.sets++;
+
+    const shared = getSharedStore();
+    if (!shared) return;
+    try {
+      const entry: SharedEntry<T> = { value, expiresAt: Date.now() + ttlMs };
+      await shared.set(this.sharedKey(key), JSON.stringify(entry), ttlMs);
+    } catch (error) {
+      this.onSharedError('write', error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.memory.delete(key);
+
+    const shared = getSharedStore();
+    if (!shared) return;
+    try {
+      await shared.delete(this.sharedKey(key));
+    } catch (error) {
+      this.onSharedError('delete', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+
+    const shared = getSharedStore();
+    if (!shared) return;
+    try {
+      await shared.clear(`${KEY_PREFIX}:${this.name}:`);
+    } catch (error) {
+      this.onSharedError('clear', error);
+    }
+  }
+
+  stats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      name: this.name,
+      store: getSharedStore()?.id || 'memory',
+      ttlMs: this.options.ttlMs,
+      maxEntries: this.options.maxEntries,
+      size: this.memory.size,
+      hits: this.hits,
+      sharedHits: this.sharedHits,
+      misses: this.misses,
+      sets: this.sets,
+      evictions: this.memory.evictions,
+      errors: this.errors,
+      hitRate: lookups > 0 ? Math.round((this.hits / lookups) * 1000) / 1000 : 0
+    };
+  }
+
+  private sharedKey(key: string): string {
+    return `${KEY_PREFIX}:${this.name}:${key}`;
+  }
+
+  private onSharedError(action: string, error: unknown): void {
+    this.errors++;
+    console.error(`❌ Shared cache ${action} failed for ${this.name}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+const caches: Cache<unknown>[] = [];
+
+/**
+ * Create a named cache; its counters show up in getCacheStats()
+ */
+export function createCache<T>(name: string, options: { ttlMs: number; maxEntries: number }): Cache<T> {
+  const cache = new Cache<T>(name, options);
+  caches.push(cache);
+  return cache;
+}
+
+export function getCacheStats(): CacheStats[] {
+  return caches.map(cache => cache.stats());
+}
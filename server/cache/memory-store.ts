@@ -0,0 +1,55 @@
+/**
+ * In-process cache tier: a Map kept in least-recently-used order, so the
+ * oldest untouched entry is the first evicted once `maxEntries` is reached
+ */
+
+interface MemoryEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export class MemoryCacheStore<T> {
+  private entries = new Map<string, MemoryEntry<T>>();
+  evictions = 0;
+
+  constructor(private maxEntries: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert so the entry moves to the most recently used end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: T, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
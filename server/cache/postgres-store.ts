@@ -0,0 +1,66 @@
+/**
+ * Shared cache in the Supabase Postgres database (the cache_entries table),
+ * for deployments that have a database but no Redis
+ */
+
+import { supabase } from '../supabase-storage';
+import type { SharedCacheStore } from './types';
+
+// Expired rows are swept after this many writes
+const PRUNE_EVERY = 100;
+
+export class PostgresCacheStore implements SharedCacheStore {
+  id = 'postgres';
+  private writes = 0;
+
+  async get(key: string): Promise<string | null> {
+    if (!supabase) return null;
+
+    const { data, error } = await supabase
+      .from('cache_entries')
+      .select('value, expires_at')
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data || new Date(data.expires_at).getTime() <= Date.now()) return null;
+    return data.value as string;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    if (!supabase) return;
+
+    const { error } = await supabase
+      .from('cache_entries')
+      .upsert({
+        key,
+        value,
+        expires_at: new Date(Date.now() + ttlMs).toISOString(),
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'key' });
+
+    if (error) throw error;
+
+    if (++this.writes % PRUNE_EVERY === 0) {
+      const { error: pruneError } = await supabase
+        .from('cache_entries')
+        .delete()
+        .lt('expires_at', new Date().toISOString());
+      if (pruneError) console.error('Error pruning expired cache entries:', pruneError);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    if (!supabase) return;
+
+    const { error } = await supabase.from('cache_entries').delete().eq('key', key);
+    if (error) throw error;
+  }
+
+  async clear(prefix: string): Promise<void> {
+    if (!supabase) return;
+
+    const { error } = await supabase.from('cache_entries').delete().like('key', `${prefix}%`);
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Redis-compatible shared cache (Redis, Valkey, KeyDB) at REDIS_URL, through
+ * ioredis. Use rediss:// for TLS.
+ */
+
+import Redis from 'ioredis';
+import type { SharedCacheStore } from './types';
+
+const CONNECT_TIMEOUT = 5000; // 5 seconds
+const COMMAND_TIMEOUT = 2000; // 2 seconds
+const MAX_RECONNECT_DELAY = 30 * 1000; // 30 seconds
+const SCAN_BATCH = 200;
+
+export class RedisCacheStore implements SharedCacheStore {
+  id = 'redis';
+  private client: Redis;
+  private connecting: Promise<void> | null = null;
+  // Errors are logged once per outage rather than on every reconnect attempt
+  private healthy = true;
+
+  constructor(url: string) {
+    this.client = new Redis(url, {
+      lazyConnect: true,
+      connectTimeout: CONNECT_TIMEOUT,
+      commandTimeout: COMMAND_TIMEOUT,
+      maxRetriesPerRequest: 1,
+      // While Redis is down, fail commands straight away and serve from memory
+      enableOfflineQueue: false,
+      retryStrategy: attempt => Math.min(attempt * 500, MAX_RECONNECT_DELAY)
+    });
+
+    this.client.on('error', (error: Error) => {
+      if (!this.healthy) return;
+      this.healthy = false;
+      console.error(`❌ Redis connection error: ${error.message}`);
+    });
+    this.client.on('ready', () => {
+      if (!this.healthy) console.log('🗄️ Redis connection restored');
+      this.healthy = true;
+    });
+  }
+
+  /**
+   * Open the connection; rejects when Redis can't be reached within the
+   * connect timeout
+   */
+  connect(): Promise<void> {
+    if (!this.connecting) this.connecting = this.client.connect();
+    return this.connecting;
+  }
+
+  close(): void {
+    this.client.disconnect();
+  }
+
+  async get(key: string): Promise<string | null> {
+    await this.connect();
+    return this.client.get(key);
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.connect();
+    await this.client.set(key, value, 'PX', Math.max(1, Math.round(ttlMs)));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.connect();
+    await this.client.del(key);
+  }
+
+  async clear(prefix: string): Promise<void> {
+    await this.connect();
+
+    // SCAN rather than KEYS so a large keyspace doesn't block the server
+    let cursor = '0';
+    do {
+      const [nextCursor, keys] = await this.client.scan(cursor, 'MATCH', `${prefix}*`, 'COUNT', SCAN_BATCH);
+      if (keys.length > 0) await this.client.del(...keys);
+      cursor = nextCursor;
+    } while (cursor !== '0');
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * A shared cache backend that outlives the process and can be read by other
+ * instances. Values arrive already serialized; stores handle expiry.
+ */
+
+export interface SharedCacheStore {
+  id: string;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Remove every key starting with `prefix`
+  clear(prefix: string): Promise<void>;
+}
+
+export interface CacheStats {
+  name: string;
+  store: string;
+  ttlMs: number;
+  maxEntries: number;
+  // Entries held in this process
+  size: number;
+  hits: number;
+  // Of the hits, how many came from the shared store rather than memory
+  sharedHits: number;
+  misses: number;
+  sets: number;
+  evictions: number;
+  // Shared store calls that failed; the cache carries on in memory
+  errors: number;
+  hitRate: number;
+}
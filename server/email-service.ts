@@ -1,5 +1,6 @@
 import { storage } from './storage';
 import { resendEmailService } from './resend-service';
+import type { WatchlistJob } from '@shared/schema';
 
 // Job recommendation interface
 interface JobRecommendation {
@@ -43,6 +44,21 @@ export class EmailService {
     }
   }
 
+  async sendSavedSearchAlert(
+    userId: string,
+    userEmail: string,
+    title: string,
+    jobs: WatchlistJob[]
+  ): Promise<void> {
+    try {
+      await resendEmailService.sendSavedSearchAlert(userEmail, title, jobs);
+      await this.logEmailSent(userId, 'saved_search_alert', jobs.map(job => job.url));
+    } catch (error) {
+      console.error(`❌ Failed to send saved search alert to ${userEmail}:`, error);
+      throw error;
+    }
+  }
+
   async sendWelcomeEmail(userEmail: string, firstName: string): Promise<void> {
     try {
       await resendEmailService.sendWelcomeEmail(userEmail, firstName);
@@ -4,6 +4,7 @@
  */
 
 import { logger } from './logger';
+import { loadGoogleApiKeys } from './search-providers/google';
 
 interface EnvConfig {
   required: string[];
@@ -13,7 +14,6 @@ interface EnvConfig {
 const envConfig: EnvConfig = {
   required: [
     // Core functionality
-    'GOOGLE_SEARCH_API_KEY',
     'GOOGLE_SEARCH_ENGINE_ID',
     'SUPABASE_URL',
     'SUPABASE_SERVICE_ROLE_KEY',
@@ -29,6 +29,27 @@ const envConfig: EnvConfig = {
     // AI features
     'OPENAI_API_KEY',
     
+    // Google API keys: one in GOOGLE_SEARCH_API_KEY or a comma-separated pool
+    'GOOGLE_SEARCH_API_KEY',
+    'GOOGLE_SEARCH_API_KEYS',
+    
+    // Search discovery: provider priority (e.g. "google,searxng") and a SearXNG instance for failover
+    'SEARCH_PROVIDERS',
+    'SEARXNG_URL',
+    
+    // Platform fan-out: discovery calls per minute across all searches, platforms searched at once
+    'SEARCH_REQUESTS_PER_MINUTE',
+    'PLATFORM_CONCURRENCY',
+    
+    // Headless rendering of client-side career pages (needs playwright and Chromium)
+    'RENDER_FALLBACK',
+    'RENDER_MAX_CONCURRENT',
+    'RENDER_TIMEOUT_MS',
+    
+    // Shared cache: CACHE_STORE is memory (default), redis (needs REDIS_URL) or postgres
+    'CACHE_STORE',
+    'REDIS_URL',
+    
     // Database
     'DATABASE_URL',
     
@@ -74,14 +95,27 @@ export function validateEnvironment(): void {
       logger.warn('Resume analysis will use fallback parser without OPENAI_API_KEY');
     }
     
+    if (!process.env.SEARXNG_URL) {
+      logger.warn('Searches have no fallback when Google quota runs out without SEARXNG_URL');
+    }
+    
+    if (process.env.CACHE_STORE === 'redis' && !process.env.REDIS_URL) {
+      logger.warn('CACHE_STORE=redis needs REDIS_URL; caches will stay in memory');
+    }
+    
     if (!process.env.ADMIN_API_KEY && isProduction) {
-      logger.warn('Admin endpoints are not protected without ADMIN_API_KEY');
+      logger.warn('Admin endpoints are disabled without ADMIN_API_KEY');
     }
   }
   
+  const googleKeys = loadGoogleApiKeys();
+  if (googleKeys.length === 0) {
+    logger.warn('Google search is disabled without GOOGLE_SEARCH_API_KEY or GOOGLE_SEARCH_API_KEYS');
+  }
+  
   // Validate API key formats
-  if (process.env.GOOGLE_SEARCH_API_KEY && !process.env.GOOGLE_SEARCH_API_KEY.startsWith('AIza')) {
-    logger.warn('GOOGLE_SEARCH_API_KEY format looks incorrect');
+  if (googleKeys.some(key => !key.startsWith('AIza'))) {
+    logger.warn('A Google search API key format looks incorrect');
   }
   
   if (process.env.JWT_SECRET && process.env.JWT_SECRET.length < 32) {
@@ -0,0 +1,406 @@
+/**
+ * Offline gazetteer used by the location normalizer and radius search:
+ * countries, first-level regions (US states, Canadian provinces, ...), the
+ * cities jobs are most often posted in with their coordinates, and metro
+ * areas. Small on purpose; anything missing still normalizes from its region
+ * or country.
+ */
+
+export interface GazetteerCountry {
+  // ISO 3166-1 alpha-2
+  code: string;
+  name: string;
+  aliases: string[];
+}
+
+export interface GazetteerRegion {
+  // State/province abbreviation as written in addresses ("TX", "ON")
+  code: string;
+  name: string;
+  country: string;
+}
+
+export interface GazetteerCity {
+  name: string;
+  // Region code, null for city-states and countries we don't track regions for
+  region: string | null;
+  country: string;
+  lat: number;
+  lon: number;
+  aliases?: string[];
+}
+
+export interface MetroArea {
+  name: string;
+  // Its principal city, as named in CITIES
+  city: string;
+  aliases: string[];
+  lat: number;
+  lon: number;
+  // How far out the metro reaches from its center
+  radiusMiles: number;
+}
+
+export const COUNTRIES: GazetteerCountry[] = [
+  { code: 'US', name: 'United States', aliases: ['usa', 'us', 'u.s.', 'u.s.a.', 'united states of america', 'america'] },
+  { code: 'CA', name: 'Canada', aliases: ['can'] },
+  { code: 'MX', name: 'Mexico', aliases: ['méxico'] },
+  { code: 'BR', name: 'Brazil', aliases: ['brasil'] },
+  { code: 'AR', name: 'Argentina', aliases: [] },
+  { code: 'CL', name: 'Chile', aliases: [] },
+  { code: 'CO', name: 'Colombia', aliases: [] },
+  { code: 'PE', name: 'Peru', aliases: [] },
+  { code: 'UY', name: 'Uruguay', aliases: [] },
+  { code: 'CR', name: 'Costa Rica', aliases: [] },
+  { code: 'GB', name: 'United Kingdom', aliases: ['uk', 'u.k.', 'great britain', 'britain', 'england', 'scotland', 'wales', 'northern ireland'] },
+  { code: 'IE', name: 'Ireland', aliases: ['republic of ireland'] },
+  { code: 'DE', name: 'Germany', aliases: ['deutschland'] },
+  { code: 'FR', name: 'France', aliases: [] },
+  { code: 'ES', name: 'Spain', aliases: ['españa'] },
+  { code: 'PT', name: 'Portugal', aliases: [] },
+  { code: 'IT', name: 'Italy', aliases: ['italia'] },
+  { code: 'NL', name: 'Netherlands', aliases: ['the netherlands', 'holland'] },
+  { code: 'BE', name: 'Belgium', aliases: [] },
+  { code: 'LU', name: 'Luxembourg', aliases: [] },
+  { code: 'CH', name: 'Switzerland', aliases: [] },
+  { code: 'AT', name: 'Austria', aliases: [] },
+  { code: 'DK', name: 'Denmark', aliases: [] },
+  { code: 'SE', name: 'Sweden', aliases: [] },
+  { code: 'NO', name: 'Norway', aliases: [] },
+  { code: 'FI', name: 'Finland', aliases: [] },
+  { code: 'IS', name: 'Iceland', aliases: [] },
+  { code: 'PL', name: 'Poland', aliases: [] },
+  { code: 'CZ', name: 'Czech Republic', aliases: ['czechia'] },
+  { code: 'SK', name: 'Slovakia', aliases: [] },
+  { code: 'HU', name: 'Hungary', aliases: [] },
+  { code: 'RO', name: 'Romania', aliases: [] },
+  { code: 'BG', name: 'Bulgaria', aliases: [] },
+  { code: 'GR', name: 'Greece', aliases: [] },
+  { code: 'HR', name: 'Croatia', aliases: [] },
+  { code: 'RS', name: 'Serbia', aliases: [] },
+  { code: 'UA', name: 'Ukraine', aliases: [] },
+  { code: 'EE', name: 'Estonia', aliases: [] },
+  { code: 'LV', name: 'Latvia', aliases: [] },
+  { code: 'LT', name: 'Lithuania', aliases: [] },
+  { code: 'TR', name: 'Turkey', aliases: ['türkiye', 'turkiye'] },
+  { code: 'IL', name: 'Israel', aliases: [] },
+  { code: 'AE', name: 'United Arab Emirates', aliases: ['uae', 'u.a.e.'] },
+  { code: 'SA', name: 'Saudi Arabia', aliases: [] },
+  { code: 'EG', name: 'Egypt', aliases: [] },
+  { code: 'ZA', name: 'South Africa', aliases: [] },
+  { code: 'NG', name: 'Nigeria', aliases: [] },
+  { code: 'KE', name: 'Kenya', aliases: [] },
+  { code: 'IN', name: 'India', aliases: [] },
+  { code: 'PK', name: 'Pakistan', aliases: [] },
+  { code: 'SG', name: 'Singapore', aliases: [] },
+  { code: 'MY', name: 'Malaysia', aliases: [] },
+  { code: 'ID', name: 'Indonesia', aliases: [] },
+  { code: 'PH', name: 'Philippines', aliases: [] },
+  { code: 'VN', name: 'Vietnam', aliases: ['viet nam'] },
+  { code: 'TH', name: 'Thailand', aliases: [] },
+  { code: 'CN', name: 'China', aliases: ['prc'] },
+  { code: 'HK', name: 'Hong Kong', aliases: [] },
+  { code: 'TW', name: 'Taiwan', aliases: [] },
+  { code: 'JP', name: 'Japan', aliases: [] },
+  { code: 'KR', name: 'South Korea', aliases: ['korea', 'republic of korea'] },
+  { code: 'AU', name: 'Australia', aliases: [] },
+  { code: 'NZ', name: 'New Zealand', aliases: [] }
+];
+
+export const REGIONS: GazetteerRegion[] = [
+  { code: 'AL', name: 'Alabama', country: 'US' },
+  { code: 'AK', name: 'Alaska', country: 'US' },
+  { code: 'AZ', name: 'Arizona', country: 'US' },
+  { code: 'AR', name: 'Arkansas', country: 'US' },
+  { code: 'CA', name: 'California', country: 'US' },
+  { code: 'CO', name: 'Colorado', country: 'US' },
+  { code: 'CT', name: 'Connecticut', country: 'US' },
+  { code: 'DE', name: 'Delaware', country: 'US' },
+  { code: 'DC', name: 'District of Columbia', country: 'US' },
+  { code: 'FL', name: 'Florida', country: 'US' },
+  { code: 'GA', name: 'Georgia', country: 'US' },
+  { code: 'HI', name: 'Hawaii', country: 'US' },
+  { code: 'ID', name: 'Idaho', country: 'US' },
+  { code: 'IL', name: 'Illinois', country: 'US' },
+  { code: 'IN', name: 'Indiana', country: 'US' },
+  { code: 'IA', name: 'Iowa', country: 'US' },
+  { code: 'KS', name: 'Kansas', country: 'US' },
+  { code: 'KY', name: 'Kentucky', country: 'US' },
+  { code: 'LA', name: 'Louisiana', country: 'US' },
+  { code: 'ME', name: 'Maine', country: 'US' },
+  { code: 'MD', name: 'Maryland', country: 'US' },
+  { code: 'MA', name: 'Massachusetts', country: 'US' },
+  { code: 'MI', name: 'Michigan', country: 'US' },
+  { code: 'MN', name: 'Minnesota', country: 'US' },
+  { code: 'MS', name: 'Mississippi', country: 'US' },
+  { code: 'MO', name: 'Missouri', country: 'US' },
+  { code: 'MT', name: 'Montana', country: 'US' },
+  { code: 'NE', name: 'Nebraska', country: 'US' },
+  { code: 'NV', name: 'Nevada', country: 'US' },
+  { code: 'NH', name: 'New Hampshire', country: 'US' },
+  { code: 'NJ', name: 'New Jersey', country: 'US' },
+  { code: 'NM', name: 'New Mexico', country: 'US' },
+  { code: 'NY', name: 'New York', country: 'US' },
+  { code: 'NC', name: 'North Carolina', country: 'US' },
+  { code: 'ND', name: 'North Dakota', country: 'US' },
+  { code: 'OH', name: 'Ohio', country: 'US' },
+  { code: 'OK', name: 'Oklahoma', country: 'US' },
+  { code: 'OR', name: 'Oregon', country: 'US' },
+  { code: 'PA', name: 'Pennsylvania', country: 'US' },
+  { code: 'RI', name: 'Rhode Island', country: 'US' },
+  { code: 'SC', name: 'South Carolina', country: 'US' },
+  { code: 'SD', name: 'South Dakota', country: 'US' },
+  { code: 'TN', name: 'Tennessee', country: 'US' },
+  { code: 'TX', name: 'Texas', country: 'US' },
+  { code: 'UT', name: 'Utah', country: 'US' },
+  { code: 'VT', name: 'Vermont', country: 'US' },
+  { code: 'VA', name: 'Virginia', country: 'US' },
+  { code: 'WA', name: 'Washington', country: 'US' },
+  { code: 'WV', name: 'West Virginia', country: 'US' },
+  { code: 'WI', name: 'Wisconsin', country: 'US' },
+  { code: 'WY', name: 'Wyoming', country: 'US' },
+  { code: 'PR', name: 'Puerto Rico', country: 'US' },
+  { code: 'AB', name: 'Alberta', country: 'CA' },
+  { code: 'BC', name: 'British Columbia', country: 'CA' },
+  { code: 'MB', name: 'Manitoba', country: 'CA' },
+  { code: 'NB', name: 'New Brunswick', country: 'CA' },
+  { code: 'NL', name: 'Newfoundland and Labrador', country: 'CA' },
+  { code: 'NS', name: 'Nova Scotia', country: 'CA' },
+  { code: 'NT', name: 'Northwest Territories', country: 'CA' },
+  { code: 'NU', name: 'Nunavut', country: 'CA' },
+  { code: 'ON', name: 'Ontario', country: 'CA' },
+  { code: 'PE', name: 'Prince Edward Island', country: 'CA' },
+  { code: 'QC', name: 'Quebec', country: 'CA' },
+  { code: 'SK', name: 'Saskatchewan', country: 'CA' },
+  { code: 'YT', name: 'Yukon', country: 'CA' },
+  { code: 'NSW', name: 'New South Wales', country: 'AU' },
+  { code: 'VIC', name: 'Victoria', country: 'AU' },
+  { code: 'QLD', name: 'Queensland', country: 'AU' },
+  { code: 'WA', name: 'Western Australia', country: 'AU' },
+  { code: 'SA', name: 'South Australia', country: 'AU' },
+  { code: 'TAS', name: 'Tasmania', country: 'AU' },
+  { code: 'ACT', name: 'Australian Capital Territory', country: 'AU' }
+];
+
+export const CITIES: GazetteerCity[] = [
+  // United States
+  { name: 'New York', region: 'NY', country: 'US', lat: 40.7128, lon: -74.006, aliases: ['new york city', 'nyc', 'manhattan', 'brooklyn'] },
+  { name: 'San Francisco', region: 'CA', country: 'US', lat: 37.7749, lon: -122.4194, aliases: ['sf', 'san francisco bay area', 'bay area', 'sf bay area'] },
+  { name: 'Los Angeles', region: 'CA', country: 'US', lat: 34.0522, lon: -118.2437, aliases: ['la', 'l.a.'] },
+  { name: 'San Jose', region: 'CA', country: 'US', lat: 37.3382, lon: -121.8863 },
+  { name: 'San Diego', region: 'CA', country: 'US', lat: 32.7157, lon: -117.1611 },
+  { name: 'Oakland', region: 'CA', country: 'US', lat: 37.8044, lon: -122.2712 },
+  { name: 'Palo Alto', region: 'CA', country: 'US', lat: 37.4419, lon: -122.143 },
+  { name: 'Mountain View', region: 'CA', country: 'US', lat: 37.3861, lon: -122.0839 },
+  { name: 'Sunnyvale', region: 'CA', country: 'US', lat: 37.3688, lon: -122.0363 },
+  { name: 'Santa Clara', region: 'CA', country: 'US', lat: 37.3541, lon: -121.9552 },
+  { name: 'Menlo Park', region: 'CA', country: 'US', lat: 37.453, lon: -122.1817 },
+  { name: 'Redwood City', region: 'CA', country: 'US', lat: 37.4852, lon: -122.2364 },
+  { name: 'San Mateo', region: 'CA', country: 'US', lat: 37.563, lon: -122.3255 },
+  { name: 'Cupertino', region: 'CA', country: 'US', lat: 37.323, lon: -122.0322 },
+  { name: 'Irvine', region: 'CA', country: 'US', lat: 33.6846, lon: -117.8265 },
+  { name: 'Santa Monica', region: 'CA', country: 'US', lat: 34.0195, lon: -118.4912 },
+  { name: 'Sacramento', region: 'CA', country: 'US', lat: 38.5816, lon: -121.4944 },
+  { name: 'Berkeley', region: 'CA', country: 'US', lat: 37.8715, lon: -122.273 },
+  { name: 'Fremont', region: 'CA', country: 'US', lat: 37.5485, lon: -121.9886 },
+  { name: 'South San Francisco', region: 'CA', country: 'US', lat: 37.6547, lon: -122.4077 },
+  { name: 'Pasadena', region: 'CA', country: 'US', lat: 34.1478, lon: -118.1445 },
+  { name: 'Seattle', region: 'WA', country: 'US', lat: 47.6062, lon: -122.3321 },
+  { name: 'Bellevue', region: 'WA', country: 'US', lat: 47.6101, lon: -122.2015 },
+  { name: 'Redmond', region: 'WA', country: 'US', lat: 47.674, lon: -122.1215 },
+  { name: 'Kirkland', region: 'WA', country: 'US', lat: 47.6815, lon: -122.2087 },
+  { name: 'Tacoma', region: 'WA', country: 'US', lat: 47.2529, lon: -122.4443 },
+  { name: 'Portland', region: 'OR', country: 'US', lat: 45.5152, lon: -122.6784 },
+  { name: 'Boston', region: 'MA', country: 'US', lat: 42.3601, lon: -71.0589 },
+  { name: 'Cambridge', region: 'MA', country: 'US', lat: 42.3736, lon: -71.1097 },
+  { name: 'Somerville', region: 'MA', country: 'US', lat: 42.3876, lon: -71.0995 },
+  { name: 'Waltham', region: 'MA', country: 'US', lat: 42.3765, lon: -71.2356 },
+  { name: 'Chicago', region: 'IL', country: 'US', lat: 41.8781, lon: -87.6298 },
+  { name: 'Austin', region: 'TX', country: 'US', lat: 30.2672, lon: -97.7431 },
+  { name: 'Dallas', region: 'TX', country: 'US', lat: 32.7767, lon: -96.797 },
+  { name: 'Houston', region: 'TX', country: 'US', lat: 29.7604, lon: -95.3698 },
+  { name: 'San Antonio', region: 'TX', country: 'US', lat: 29.4241, lon: -98.4936 },
+  { name: 'Plano', region: 'TX', country: 'US', lat: 33.0198, lon: -96.6989 },
+  { name: 'Fort Worth', region: 'TX', country: 'US', lat: 32.7555, lon: -97.3308 },
+  { name: 'Irving', region: 'TX', country: 'US', lat: 32.814, lon: -96.9489 },
+  { name: 'Frisco', region: 'TX', country: 'US', lat: 33.1507, lon: -96.8236 },
+  { name: 'Round Rock', region: 'TX', country: 'US', lat: 30.5083, lon: -97.6789 },
+  { name: 'Denver', region: 'CO', country: 'US', lat: 39.7392, lon: -104.9903 },
+  { name: 'Boulder', region: 'CO', country: 'US', lat: 40.015, lon: -105.2705 },
+  { name: 'Atlanta', region: 'GA', country: 'US', lat: 33.749, lon: -84.388 },
+  { name: 'Alpharetta', region: 'GA', country: 'US', lat: 34.0754, lon: -84.2941 },
+  { name: 'Miami', region: 'FL', country: 'US', lat: 25.7617, lon: -80.1918 },
+  { name: 'Tampa', region: 'FL', country: 'US', lat: 27.9506, lon: -82.4572 },
+  { name: 'Orlando', region: 'FL', country: 'US', lat: 28.5383, lon: -81.3792 },
+  { name: 'Fort Lauderdale', region: 'FL', country: 'US', lat: 26.1224, lon: -80.1373 },
+  { name: 'Boca Raton', region: 'FL', country: 'US', lat: 26.3683, lon: -80.1289 },
+  { name: 'Jacksonville', region: 'FL', country: 'US', lat: 30.3322, lon: -81.6557 },
+  { name: 'Washington', region: 'DC', country: 'US', lat: 38.9072, lon: -77.0369, aliases: ['washington dc', 'washington d.c.', 'd.c.'] },
+  { name: 'Arlington', region: 'VA', country: 'US', lat: 38.8816, lon: -77.091 },
+  { name: 'Reston', region: 'VA', country: 'US', lat: 38.9586, lon: -77.357 },
+  { name: 'McLean', region: 'VA', country: 'US', lat: 38.9339, lon: -77.1773 },
+  { name: 'Baltimore', region: 'MD', country: 'US', lat: 39.2904, lon: -76.6122 },
+  { name: 'Philadelphia', region: 'PA', country: 'US', lat: 39.9526, lon: -75.1652, aliases: ['philly'] },
+  { name: 'Pittsburgh', region: 'PA', country: 'US', lat: 40.4406, lon: -79.9959 },
+  { name: 'Newark', region: 'NJ', country: 'US', lat: 40.7357, lon: -74.1724 },
+  { name: 'Jersey City', region: 'NJ', country: 'US', lat: 40.7178, lon: -74.0431 },
+  { name: 'Hoboken', region: 'NJ', country: 'US', lat: 40.744, lon: -74.0324 },
+  { name: 'Stamford', region: 'CT', country: 'US', lat: 41.0534, lon: -73.5387 },
+  { name: 'Phoenix', region: 'AZ', country: 'US', lat: 33.4484, lon: -112.074 },
+  { name: 'Scottsdale', region: 'AZ', country: 'US', lat: 33.4942, lon: -111.9261 },
+  { name: 'Tempe', region: 'AZ', country: 'US', lat: 33.4255, lon: -111.94 },
+  { name: 'Chandler', region: 'AZ', country: 'US', lat: 33.3062, lon: -111.8413 },
+  { name: 'Las Vegas', region: 'NV', country: 'US', lat: 36.1699, lon: -115.1398 },
+  { name: 'Salt Lake City', region: 'UT', country: 'US', lat: 40.7608, lon: -111.891, aliases: ['slc'] },
+  { name: 'Lehi', region: 'UT', country: 'US', lat: 40.3916, lon: -111.8508 },
+  { name: 'Provo', region: 'UT', country: 'US', lat: 40.2338, lon: -111.6585 },
+  { name: 'Minneapolis', region: 'MN', country: 'US', lat: 44.9778, lon: -93.265 },
+  { name: 'Detroit', region: 'MI', country: 'US', lat: 42.3314, lon: -83.0458 },
+  { name: 'Ann Arbor', region: 'MI', country: 'US', lat: 42.2808, lon: -83.743 },
+  { name: 'Columbus', region: 'OH', country: 'US', lat: 39.9612, lon: -82.9988 },
+  { name: 'Cleveland', region: 'OH', country: 'US', lat: 41.4993, lon: -81.6944 },
+  { name: 'Cincinnati', region: 'OH', country: 'US', lat: 39.1031, lon: -84.512 },
+  { name: 'Indianapolis', region: 'IN', country: 'US', lat: 39.7684, lon: -86.1581 },
+  { name: 'St. Louis', region: 'MO', country: 'US', lat: 38.627, lon: -90.1994, aliases: ['saint louis', 'st louis'] },
+  { name: 'Kansas City', region: 'MO', country: 'US', lat: 39.0997, lon: -94.5786 },
+  { name: 'Nashville', region: 'TN', country: 'US', lat: 36.1627, lon: -86.7816 },
+  { name: 'Raleigh', region: 'NC', country: 'US', lat: 35.7796, lon: -78.6382 },
+  { name: 'Durham', region: 'NC', country: 'US', lat: 35.994, lon: -78.8986 },
+  { name: 'Cary', region: 'NC', country: 'US', lat: 35.7915, lon: -78.7811 },
+  { name: 'Charlotte', region: 'NC', country: 'US', lat: 35.2271, lon: -80.8431 },
+  { name: 'Madison', region: 'WI', country: 'US', lat: 43.0731, lon: -89.4012 },
+  { name: 'Milwaukee', region: 'WI', country: 'US', lat: 43.0389, lon: -87.9065 },
+  { name: 'New Orleans', region: 'LA', country: 'US', lat: 29.9511, lon: -90.0715 },
+  { name: 'Honolulu', region: 'HI', country: 'US', lat: 21.3069, lon: -157.8583 },
+  // Canada
+  { name: 'Toronto', region: 'ON', country: 'CA', lat: 43.6532, lon: -79.3832 },
+  { name: 'Ottawa', region: 'ON', country: 'CA', lat: 45.4215, lon: -75.6972 },
+  { name: 'Waterloo', region: 'ON', country: 'CA', lat: 43.4643, lon: -80.5204 },
+  { name: 'Vancouver', region: 'BC', country: 'CA', lat: 49.2827, lon: -123.1207 },
+  { name: 'Victoria', region: 'BC', country: 'CA', lat: 48.4284, lon: -123.3656 },
+  { name: 'Montreal', region: 'QC', country: 'CA', lat: 45.5017, lon: -73.5673, aliases: ['montréal'] },
+  { name: 'Calgary', region: 'AB', country: 'CA', lat: 51.0447, lon: -114.0719 },
+  { name: 'Edmonton', region: 'AB', country: 'CA', lat: 53.5461, lon: -113.4938 },
+  { name: 'Winnipeg', region: 'MB', country: 'CA', lat: 49.8951, lon: -97.1384 },
+  { name: 'Halifax', region: 'NS', country: 'CA', lat: 44.6488, lon: -63.5752 },
+  // Latin America
+  { name: 'Mexico City', region: null, country: 'MX', lat: 19.4326, lon: -99.1332, aliases: ['ciudad de méxico', 'cdmx'] },
+  { name: 'Guadalajara', region: null, country: 'MX', lat: 20.6597, lon: -103.3496 },
+  { name: 'São Paulo', region: null, country: 'BR', lat: -23.5505, lon: -46.6333, aliases: ['sao paulo'] },
+  { name: 'Rio de Janeiro', region: null, country: 'BR', lat: -22.9068, lon: -43.1729 },
+  { name: 'Buenos Aires', region: null, country: 'AR', lat: -34.6037, lon: -58.3816 },
+  { name: 'Santiago', region: null, country: 'CL', lat: -33.4489, lon: -70.6693 },
+  { name: 'Bogotá', region: null, country: 'CO', lat: 4.711, lon: -74.0721, aliases: ['bogota'] },
+  { name: 'Medellín', region: null, country: 'CO', lat: 6.2442, lon: -75.5812, aliases: ['medellin'] },
+  { name: 'Lima', region: null, country: 'PE', lat: -12.0464, lon: -77.0428 },
+  { name: 'Montevideo', region: null, country: 'UY', lat: -34.9011, lon: -56.1645 },
+  // Europe
+  { name: 'London', region: null, country: 'GB', lat: 51.5074, lon: -0.1278 },
+  { name: 'Manchester', region: null, country: 'GB', lat: 53.4808, lon: -2.2426 },
+  { name: 'Edinburgh', region: null, country: 'GB', lat: 55.9533, lon: -3.1883 },
+  { name: 'Cambridge', region: null, country: 'GB', lat: 52.2053, lon: 0.1218 },
+  { name: 'Dublin', region: null, country: 'IE', lat: 53.3498, lon: -6.2603 },
+  { name: 'Berlin', region: null, country: 'DE', lat: 52.52, lon: 13.405 },
+  { name: 'Munich', region: null, country: 'DE', lat: 48.1351, lon: 11.582, aliases: ['münchen'] },
+  { name: 'Hamburg', region: null, country: 'DE', lat: 53.5511, lon: 9.9937 },
+  { name: 'Frankfurt', region: null, country: 'DE', lat: 50.1109, lon: 8.6821 },
+  { name: 'Paris', region: null, country: 'FR', lat: 48.8566, lon: 2.3522 },
+  { name: 'Madrid', region: null, country: 'ES', lat: 40.4168, lon: -3.7038 },
+  { name: 'Barcelona', region: null, country: 'ES', lat: 41.3874, lon: 2.1686 },
+  { name: 'Lisbon', region: null, country: 'PT', lat: 38.7223, lon: -9.1393, aliases: ['lisboa'] },
+  { name: 'Milan', region: null, country: 'IT', lat: 45.4642, lon: 9.19, aliases: ['milano'] },
+  { name: 'Amsterdam', region: null, country: 'NL', lat: 52.3676, lon: 4.9041 },
+  { name: 'Brussels', region: null, country: 'BE', lat: 50.8503, lon: 4.3517 },
+  { name: 'Zurich', region: null, country: 'CH', lat: 47.3769, lon: 8.5417, aliases: ['zürich'] },
+  { name: 'Geneva', region: null, country: 'CH', lat: 46.2044, lon: 6.1432 },
+  { name: 'Vienna', region: null, country: 'AT', lat: 48.2082, lon: 16.3738, aliases: ['wien'] },
+  { name: 'Copenhagen', region: null, country: 'DK', lat: 55.6761, lon: 12.5683 },
+  { name: 'Stockholm', region: null, country: 'SE', lat: 59.3293, lon: 18.0686 },
+  { name: 'Oslo', region: null, country: 'NO', lat: 59.9139, lon: 10.7522 },
+  { name: 'Helsinki', region: null, country: 'FI', lat: 60.1699, lon: 24.9384 },
+  { name: 'Warsaw', region: null, country: 'PL', lat: 52.2297, lon: 21.0122 },
+  { name: 'Krakow', region: null, country: 'PL', lat: 50.0647, lon: 19.945, aliases: ['kraków'] },
+  { name: 'Prague', region: null, country: 'CZ', lat: 50.0755, lon: 14.4378 },
+  { name: 'Budapest', region: null, country: 'HU', lat: 47.4979, lon: 19.0402 },
+  { name: 'Bucharest', region: null, country: 'RO', lat: 44.4268, lon: 26.1025 },
+  { name: 'Athens', region: null, country: 'GR', lat: 37.9838, lon: 23.7275 },
+  { name: 'Kyiv', region: null, country: 'UA', lat: 50.4501, lon: 30.5234, aliases: ['kiev'] },
+  { name: 'Tallinn', region: null, country: 'EE', lat: 59.437, lon: 24.7536 },
+  { name: 'Istanbul', region: null, country: 'TR', lat: 41.0082, lon: 28.9784 },
+  // Middle East and Africa
+  { name: 'Tel Aviv', region: null, country: 'IL', lat: 32.0853, lon: 34.7818 },
+  { name: 'Dubai', region: null, country: 'AE', lat: 25.2048, lon: 55.2708 },
+  { name: 'Cape Town', region: null, country: 'ZA', lat: -33.9249, lon: 18.4241 },
+  { name: 'Johannesburg', region: null, country: 'ZA', lat: -26.2041, lon: 28.0473 },
+  { name: 'Lagos', region: null, country: 'NG', lat: 6.5244, lon: 3.3792 },
+  { name: 'Nairobi', region: null, country: 'KE', lat: -1.2921, lon: 36.8219 },
+  // Asia-Pacific
+  { name: 'Bangalore', region: null, country: 'IN', lat: 12.9716, lon: 77.5946, aliases: ['bengaluru'] },
+  { name: 'Hyderabad', region: null, country: 'IN', lat: 17.385, lon: 78.4867 },
+  { name: 'Mumbai', region: null, country: 'IN', lat: 19.076, lon: 72.8777 },
+  { name: 'Pune', region: null, country: 'IN', lat: 18.5204, lon: 73.8567 },
+  { name: 'Chennai', region: null, country: 'IN', lat: 13.0827, lon: 80.2707 },
+  { name: 'Gurgaon', region: null, country: 'IN', lat: 28.4595, lon: 77.0266, aliases: ['gurugram'] },
+  { name: 'New Delhi', region: null, country: 'IN', lat: 28.6139, lon: 77.209, aliases: ['delhi'] },
+  { name: 'Singapore', region: null, country: 'SG', lat: 1.3521, lon: 103.8198 },
+  { name: 'Kuala Lumpur', region: null, country: 'MY', lat: 3.139, lon: 101.6869 },
+  { name: 'Jakarta', region: null, country: 'ID', lat: -6.2088, lon: 106.8456 },
+  { name: 'Manila', region: null, country: 'PH', lat: 14.5995, lon: 120.9842 },
+  { name: 'Ho Chi Minh City', region: null, country: 'VN', lat: 10.8231, lon: 106.6297 },
+  { name: 'Bangkok', region: null, country: 'TH', lat: 13.7563, lon: 100.5018 },
+  { name: 'Shanghai', region: null, country: 'CN', lat: 31.2304, lon: 121.4737 },
+  { name: 'Beijing', region: null, country: 'CN', lat: 39.9042, lon: 116.4074 },
+  { name: 'Shenzhen', region: null, country: 'CN', lat: 22.5431, lon: 114.0579 },
+  { name: 'Hong Kong', region: null, country: 'HK', lat: 22.3193, lon: 114.1694 },
+  { name: 'Taipei', region: null, country: 'TW', lat: 25.033, lon: 121.5654 },
+  { name: 'Tokyo', region: null, country: 'JP', lat: 35.6762, lon: 139.6503 },
+  { name: 'Seoul', region: null, country: 'KR', lat: 37.5665, lon: 126.978 },
+  { name: 'Sydney', region: 'NSW', country: 'AU', lat: -33.8688, lon: 151.2093 },
+  { name: 'Melbourne', region: 'VIC', country: 'AU', lat: -37.8136, lon: 144.9631 },
+  { name: 'Brisbane', region: 'QLD', country: 'AU', lat: -27.4698, lon: 153.0251 },
+  { name: 'Perth', region: 'WA', country: 'AU', lat: -31.9505, lon: 115.8605 },
+  { name: 'Auckland', region: null, country: 'NZ', lat: -36.8485, lon: 174.7633 },
+  { name: 'Wellington', region: null, country: 'NZ', lat: -41.2865, lon: 174.7762 }
+];
+
+// Metro areas postings and searches name instead of a city
+export const METRO_AREAS: MetroArea[] = [
+  { name: 'San Francisco Bay Area', city: 'San Francisco', aliases: ['bay area', 'sf bay area', 'silicon valley'], lat: 37.6, lon: -122.2, radiusMiles: 50 },
+  { name: 'Greater New York', city: 'New York', aliases: ['nyc metro', 'new york metro', 'new york metropolitan area', 'tri-state area'], lat: 40.7128, lon: -74.006, radiusMiles: 35 },
+  { name: 'Greater Los Angeles', city: 'Los Angeles', aliases: ['la metro', 'los angeles metro', 'socal'], lat: 34.0522, lon: -118.2437, radiusMiles: 45 },
+  { name: 'Greater Seattle', city: 'Seattle', aliases: ['seattle metro', 'seattle area', 'puget sound'], lat: 47.6062, lon: -122.3321, radiusMiles: 30 },
+  { name: 'Greater Boston', city: 'Boston', aliases: ['boston metro', 'boston area'], lat: 42.3601, lon: -71.0589, radiusMiles: 30 },
+  { name: 'Chicagoland', city: 'Chicago', aliases: ['chicago metro', 'chicago area', 'greater chicago'], lat: 41.8781, lon: -87.6298, radiusMiles: 35 },
+  { name: 'Dallas-Fort Worth', city: 'Dallas', aliases: ['dfw', 'dallas fort worth', 'dallas metro'], lat: 32.8, lon: -97.0, radiusMiles: 40 },
+  { name: 'Greater Austin', city: 'Austin', aliases: ['austin metro', 'austin area'], lat: 30.2672, lon: -97.7431, radiusMiles: 30 },
+  { name: 'Greater Houston', city: 'Houston', aliases: ['houston metro', 'houston area'], lat: 29.7604, lon: -95.3698, radiusMiles: 40 },
+  { name: 'Washington Metro', city: 'Washington', aliases: ['dc metro', 'dmv', 'greater washington', 'dc area'], lat: 38.9072, lon: -77.0369, radiusMiles: 35 },
+  { name: 'Research Triangle', city: 'Raleigh', aliases: ['raleigh-durham', 'raleigh durham', 'the triangle', 'rtp'], lat: 35.85, lon: -78.8, radiusMiles: 25 },
+  { name: 'Denver Metro', city: 'Denver', aliases: ['front range', 'greater denver', 'denver area'], lat: 39.7392, lon: -104.9903, radiusMiles: 35 },
+  { name: 'Greater Phoenix', city: 'Phoenix', aliases: ['phoenix metro', 'valley of the sun'], lat: 33.4484, lon: -112.074, radiusMiles: 35 },
+  { name: 'South Florida', city: 'Miami', aliases: ['miami metro', 'greater miami'], lat: 26.1, lon: -80.2, radiusMiles: 50 },
+  { name: 'Twin Cities', city: 'Minneapolis', aliases: ['minneapolis-st. paul', 'minneapolis st paul'], lat: 44.9778, lon: -93.265, radiusMiles: 25 },
+  { name: 'Greater Toronto Area', city: 'Toronto', aliases: ['gta', 'toronto area'], lat: 43.6532, lon: -79.3832, radiusMiles: 40 },
+  { name: 'Greater London', city: 'London', aliases: ['london area'], lat: 51.5074, lon: -0.1278, radiusMiles: 30 }
+];
+
+export interface RemoteArea {
+  name: string;
+  pattern: RegExp;
+  // Countries applicants from the area may live in; empty for "anywhere"
+  countries: string[];
+}
+
+const EUROPE = ['GB', 'IE', 'DE', 'FR', 'ES', 'PT', 'IT', 'NL', 'BE', 'LU', 'CH', 'AT', 'DK', 'SE', 'NO', 'FI', 'IS', 'PL', 'CZ', 'SK', 'HU', 'RO', 'BG', 'GR', 'HR', 'RS', 'UA', 'EE', 'LV', 'LT'];
+const LATIN_AMERICA = ['MX', 'BR', 'AR', 'CL', 'CO', 'PE', 'UY', 'CR'];
+
+// Multi-country areas remote postings are often limited to
+export const REMOTE_AREAS: RemoteArea[] = [
+  { name: 'North America', pattern: /\bnorth america(n)?\b/i, countries: ['US', 'CA', 'MX'] },
+  { name: 'Latin America', pattern: /\blatin america\b|\blatam\b|\bsouth america\b/i, countries: LATIN_AMERICA },
+  { name: 'Americas', pattern: /\bamericas\b/i, countries: ['US', 'CA', ...LATIN_AMERICA] },
+  { name: 'Europe', pattern: /\beurope(an)?\b|\beu\b/i, countries: EUROPE },
+  { name: 'EMEA', pattern: /\bemea\b/i, countries: [...EUROPE, 'TR', 'IL', 'AE', 'SA', 'EG', 'ZA', 'NG', 'KE'] },
+  { name: 'APAC', pattern: /\bapac\b|\basia[- ]pacific\b/i, countries: ['IN', 'PK', 'SG', 'MY', 'ID', 'PH', 'VN', 'TH', 'CN', 'HK', 'TW', 'JP', 'KR', 'AU', 'NZ'] },
+  { name: 'Worldwide', pattern: /\bworldwide\b|\banywhere\b|\bglobal(ly)?\b/i, countries: [] }
+];
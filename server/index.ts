@@ -2,6 +2,11 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { recommendationScheduler } from "./scheduler";
+import { watchlistPoller } from "./watchlist";
+import { savedSearchRunner } from "./saved-searches";
+import { jobLivenessChecker } from "./job-liveness";
+import { searchSessions } from "./search-sessions";
+import { pageRenderer } from "./page-renderer";
 import { validateEnvironment } from "./env-validator";
 import { logger } from "./logger";
 
@@ -86,6 +91,18 @@ app.use((req, res, next) => {
         recommendationScheduler.start();
         log('📅 Job recommendation scheduler started (9PM EST daily)');
         
+        // Start polling watched company boards
+        watchlistPoller.start();
+        log('👀 Company watchlist poller started (every 6 hours)');
+        
+        // Run saved searches on their hourly/daily/weekly schedules
+        savedSearchRunner.start();
+        log('🔔 Saved search runner started (checks every 15 minutes)');
+        
+        // Start re-checking stored postings for ones that were taken down
+        jobLivenessChecker.start();
+        log('🩺 Job liveness checker started (hourly batches)');
+        
         if (process.env.NODE_ENV !== 'production') {
           log('⚠️ Note: In development mode, scheduler runs but respects 9PM EST timing');
         }
@@ -107,6 +124,11 @@ app.use((req, res, next) => {
       process.on('SIGTERM', () => {
         log('SIGTERM received, shutting down gracefully...');
         recommendationScheduler.stop();
+        watchlistPoller.stop();
+        savedSearchRunner.stop();
+        jobLivenessChecker.stop();
+        searchSessions.stop();
+        pageRenderer.close();
         serverInstance.close(() => {
           process.exit(0);
         });
@@ -115,6 +137,11 @@ app.use((req, res, next) => {
       process.on('SIGINT', () => {
         log('SIGINT received, shutting down gracefully...');
         recommendationScheduler.stop();
+        watchlistPoller.stop();
+        savedSearchRunner.stop();
+        jobLivenessChecker.stop();
+        searchSessions.stop();
+        pageRenderer.close();
         serverInstance.close(() => {
           process.exit(0);
         });
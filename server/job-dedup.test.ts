@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import type { InsertJob } from '@shared/schema';
+import './platforms';
+import {
+  canonicalJobId,
+  deduplicateJobs,
+  jobKeys,
+  keysMatch,
+  mergeStoredJob,
+  normalizeJobUrl,
+  SeenJobs
+} from './job-dedup';
+
+function job(overrides: Partial<InsertJob>): InsertJob {
+  return {
+    title: 'Backend Engineer',
+    company: 'Acme Robotics',
+    location: 'Remote',
+    url: 'https://acmerobotics.com/careers/backend-engineer',
+    platform: 'Company Site',
+    ...overrides
+  };
+}
+
+describe('normalizeJobUrl', () => {
+  it.each([
+    ['drops tracking parameters and the fragment',
+      'https://boards.greenhouse.io/acme/jobs/123?utm_source=linkedin&gh_src=abc#apply',
+      'https://boards.greenhouse.io/acme/jobs/123'],
+    ['lowercases the host and drops www',
+      'https://WWW.AcmeRobotics.com/careers/42',
+      'https://acmerobotics.com/careers/42'],
+    ['upgrades http and drops a trailing slash',
+      'http://jobs.lever.co/acme/backend/',
+      'https://jobs.lever.co/acme/backend'],
+    ['sorts the parameters that are kept',
+      'https://acmerobotics.com/careers?b=2&ref=newsletter&a=1',
+      'https://acmerobotics.com/careers?a=1&b=2'],
+    ['leaves something that is not a URL alone',
+      '  not a url ',
+      'not a url']
+  ])('%s', (_, url, expected) => {
+    expect(normalizeJobUrl(url)).toBe(expected);
+  });
+});
+
+describe('canonicalJobId', () => {
+  it.each([
+    ['the same ATS posting on different hosts',
+      job({ url: 'https://boards.greenhouse.io/acme/jobs/123' }),
+      job({ url: 'https://job-boards.greenhouse.io/acme/jobs/123?gh_src=abc', title: 'Backend Engineer II' })],
+    ['an ATS posting embedded on the careers page',
+      job({ url: 'https://boards.greenhouse.io/acme/jobs/123' }),
+      job({ url: 'https://acmerobotics.com/careers?gh_jid=123' })],
+    ['company suffixes, title abbreviations and location detail',
+      job({ company: 'Acme Robotics Inc.', title: 'Sr. Backend Engineer (Remote)', location: 'Remote - US' }),
+      job({ company: 'Acme Robotics', title: 'Senior Backend Engineer', location: 'Remote' })]
+  ])('gives one id to %s', (_, a, b) => {
+    expect(canonicalJobId(a)).toBe(canonicalJobId(b));
+  });
+
+  it.each([
+    ['different ATS postings',
+      job({ url: 'https://boards.greenhouse.io/acme/jobs/123' }),
+      job({ url: 'https://boards.greenhouse.io/acme/jobs/124' })],
+    ['the same title in different cities',
+      job({ location: 'Berlin, Germany' }),
+      job({ location: 'London, UK' })],
+    ['the same title at different companies',
+      job({ company: 'Acme Robotics' }),
+      job({ company: 'Fourth Coffee' })]
+  ])('keeps %s apart', (_, a, b) => {
+    expect(canonicalJobId(a)).not.toBe(canonicalJobId(b));
+  });
+
+  it('marks ids taken from an ATS job id', () => {
+    expect(canonicalJobId(job({ url: 'https://boards.greenhouse.io/acme/jobs/123' }))).toMatch(/^ats_/);
+    expect(canonicalJobId(job({}))).toMatch(/^job_/);
+  });
+});
+
+describe('keysMatch', () => {
+  it.each([
+    ['the same URL once normalized', true,
+      job({ url: 'https://acmerobotics.com/careers/1?utm_source=x', title: 'Backend Engineer' }),
+      job({ url: 'https://www.acmerobotics.com/careers/1', title: 'Staff Data Scientist' })],
+    ['the same ATS job id', true,
+      job({ url: 'https://boards.greenhouse.io/acme/jobs/123' }),
+      job({ url: 'https://acmerobotics.com/careers?gh_jid=123', title: 'Backend Engineer, Platform' })],
+    ['different ATS job ids, even with the same title', false,
+      job({ url: 'https://boards.greenhouse.io/acme/jobs/123' }),
+      job({ url: 'https://boards.greenhouse.io/acme/jobs/124' })],
+    ['a close title with one location unknown', true,
+      job({ title: 'Senior Backend Engineer', location: 'Berlin, Germany' }),
+      job({ url: 'https://acmerobotics.com/jobs/sr-backend', title: 'Sr Backend Engineer', location: null })],
+    ['titles that only share a word', false,
+      job({ title: 'Backend Engineer' }),
+      job({ url: 'https://acmerobotics.com/careers/frontend-engineer', title: 'Frontend Engineer' })],
+    ['known locations that disagree', false,
+      job({ location: 'Berlin, Germany' }),
+      job({ url: 'https://acmerobotics.com/careers/backend-engineer-london', location: 'London, UK' })],
+    ['different companies', false,
+      job({}),
+      job({ url: 'https://fourthcoffee.com/careers/backend-engineer', company: 'Fourth Coffee' })]
+  ])('%s → %s', (_, expected, a, b) => {
+    expect(keysMatch(jobKeys(a), jobKeys(b))).toBe(expected);
+  });
+});
+
+describe('deduplicateJobs', () => {
+  const repost = job({
+    url: 'https://www.linkedin.com/jobs/view/backend-engineer-at-acme-robotics',
+    platform: 'LinkedIn',
+    description: 'Build the robots.',
+    postedAt: new Date('2026-03-01')
+  });
+  const original = job({
+    url: 'https://boards.greenhouse.io/acme/jobs/123',
+    platform: 'Greenhouse',
+    postedAt: new Date('2026-03-04')
+  });
+  const otherRole = job({ url: 'https://acmerobotics.com/careers/designer', title: 'Product Designer' });
+
+  it('lets the ATS original take over a repost found first, in the repost\'s place', () => {
+    const jobs = deduplicateJobs([repost, otherRole, original]);
+
+    expect(jobs.map(found => found.url)).toEqual([original.url, otherRole.url]);
+    expect(jobs[0]).toMatchObject({
+      platform: 'Greenhouse',
+      canonicalId: canonicalJobId(original),
+      description: 'Build the robots.',
+      postedAt: new Date('2026-03-01')
+    });
+    expect(jobs[0].sourceUrls).toEqual([original.url, repost.url]);
+  });
+
+  it('keeps the first record when the later one is no better', () => {
+    const jobs = deduplicateJobs([original, repost]);
+
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]).toMatchObject({ url: original.url, description: 'Build the robots.' });
+  });
+
+  it('leaves distinct roles alone, in order', () => {
+    expect(deduplicateJobs([otherRole, original]).map(found => found.url)).toEqual([otherRole.url, original.url]);
+  });
+});
+
+describe('mergeStoredJob', () => {
+  it('keeps what the stored row has that a new sighting lacks', () => {
+    const stored = job({
+      url: 'https://boards.greenhouse.io/acme/jobs/123',
+      platform: 'Greenhouse',
+      description: 'Build the robots.',
+      canonicalId: 'ats_stored'
+    });
+    const sighting = job({ url: 'https://www.linkedin.com/jobs/view/123', platform: 'LinkedIn', location: 'Not specified' });
+
+    expect(mergeStoredJob(stored, sighting)).toMatchObject({
+      url: stored.url,
+      description: 'Build the robots.',
+      location: 'Remote',
+      canonicalId: 'ats_stored'
+    });
+  });
+});
+
+describe('SeenJobs', () => {
+  it('merges a later duplicate into the job sent first and reports it under its first URL', () => {
+    const seen = new SeenJobs();
+    const repost = job({ url: 'https://www.linkedin.com/jobs/view/123', platform: 'LinkedIn' });
+    const original = job({ url: 'https://boards.greenhouse.io/acme/jobs/123', platform: 'Greenhouse', description: 'Build the robots.' });
+
+    expect(seen.add([repost]).added.map(found => found.url)).toEqual([repost.url]);
+
+    const { added, updated } = seen.add([original]);
+    expect(added).toEqual([]);
+    expect(updated).toHaveLength(1);
+    expect(updated[0].url).toBe(repost.url);
+    expect(updated[0].job).toMatchObject({ url: original.url, description: 'Build the robots.' });
+  });
+});
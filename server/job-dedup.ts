@@ -0,0 +1,303 @@
+/**
+ * Cross-platform job identity
+ * The same role is often found on the company careers page, its ATS board and
+ * an aggregator like LinkedIn. Every job gets a canonical id, and duplicates
+ * are merged into one record that keeps all the URLs it was found at.
+ */
+
+import { createHash } from 'crypto';
+import type { InsertJob } from '@shared/schema';
+import { cleanCompanyName } from './job-extraction';
+import { getAtsJobId } from './platforms';
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = [
+  /^utm_/, /^gh_src$/, /^lever-/, /^ref$/, /^referrer$/, /^source$/, /^src$/, /^trk/, /^gclid$/,
+  /^fbclid$/, /^mc_[ce]id$/, /^_hs/, /^li_fat_id$/, /^iis$/, /^iisn$/, /^ccuid$/, /^cmpid$/
+];
+
+// Sites that repost jobs from elsewhere; their copies lose to the original
+const AGGREGATOR_PLATFORMS = ['LinkedIn', 'Glassdoor', 'Built In', 'Remote Rocketship', 'Wellfound', 'Work at a Startup'];
+
+const TITLE_SIMILARITY_THRESHOLD = 0.85;
+
+const TITLE_ABBREVIATIONS: Record<string, string> = {
+  sr: 'senior',
+  jr: 'junior',
+  eng: 'engineer',
+  engr: 'engineer',
+  mgr: 'manager',
+  dev: 'developer',
+  swe: 'software engineer'
+};
+
+export type DedupedJob = InsertJob & { canonicalId: string; sourceUrls: string[] };
+
+/**
+ * Drop tracking parameters, fragments and cosmetic differences from a job URL
+ */
+export function normalizeJobUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    parsed.protocol = 'https:';
+
+    Array.from(parsed.searchParams.keys()).forEach(key => {
+      if (TRACKING_PARAMS.some(pattern => pattern.test(key.toLowerCase()))) {
+        parsed.searchParams.delete(key);
+      }
+    });
+    parsed.searchParams.sort();
+
+    const normalized = parsed.toString();
+    return parsed.search ? normalized : normalized.replace(/\/+$/, '');
+  } catch {
+    return url.trim();
+  }
+}
+
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9+#]+/g, ' ')
+    .trim();
+}
+
+export function normalizeTitle(title: string): string {
+  return normalizeText(
+    title
+      // "Senior Engineer (Remote)" / "Senior Engineer - New York"
+      .replace(/\([^)]*\)/g, ' ')
+      .replace(/\s[-–|]\s.*$/, '')
+  )
+    .split(' ')
+    .flatMap(word => (TITLE_ABBREVIATIONS[word] || word).split(' '))
+    .join(' ');
+}
+
+export function normalizeCompany(company: string): string {
+  return normalizeText(cleanCompanyName(company))
+    .replace(/\b(inc|llc|ltd|corp|corporation|co|gmbh|plc|technologies|labs)\b/g, '')
+    .replace(/\s+/g, '');
+}
+
+/**
+ * Coarse location key: "remote", the first place name, or "" when unknown
+ */
+export function locationKey(location: string | null | undefined): string {
+  if (!location || /not specified/i.test(location)) return '';
+  if (/remote/i.test(location)) return 'remote';
+  return normalizeText(location.split(/[,;·|]/)[0]);
+}
+
+function shortHash(value: string): string {
+  return createHash('sha1').update(value).digest('hex').slice(0, 16);
+}
+
+/**
+ * Stable id for a role: the ATS job id when the URL has one, otherwise
+ * normalized company + title + location
+ */
+export function canonicalJobId(job: Pick<InsertJob, 'url' | 'title' | 'company' | 'location'>): string {
+  const atsJobId = getAtsJobId(job.url);
+  if (atsJobId) return `ats_${shortHash(atsJobId)}`;
+
+  return `job_${shortHash([normalizeCompany(job.company), normalizeTitle(job.title), locationKey(job.location)].join('|'))}`;
+}
+
+function titleSimilarity(a: string, b: string): number {
+  const wordsA = new Set(a.split(' ').filter(Boolean));
+  const wordsB = new Set(b.split(' ').filter(Boolean));
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  const shared = Array.from(wordsA).filter(word => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+export interface JobKeys {
+  url: string;
+  atsJobId: string | null;
+  company: string;
+  title: string;
+  location: string;
+}
+
+export function jobKeys(job: InsertJob): JobKeys {
+  return {
+    url: normalizeJobUrl(job.url),
+    atsJobId: getAtsJobId(job.url),
+    company: normalizeCompany(job.company),
+    title: normalizeTitle(job.title),
+    location: locationKey(job.location)
+  };
+}
+
+export function keysMatch(a: JobKeys, b: JobKeys): boolean {
+  if (a.url === b.url) return true;
+  if (a.atsJobId && b.atsJobId) return a.atsJobId === b.atsJobId;
+
+  if (a.company !== b.company) return false;
+  if (titleSimilarity(a.title, b.title) < TITLE_SIMILARITY_THRESHOLD) return false;
+
+  // Unknown locations match anything; known ones have to agree
+  return !a.location || !b.location || a.location === b.location;
+}
+
+/**
+ * Whether two jobs are the same role posted in different places
+ */
+export function isSameJob(a: InsertJob, b: InsertJob): boolean {
+  return keysMatch(jobKeys(a), jobKeys(b));
+}
+
+/**
+ * Higher is a better record to keep: original ATS postings beat aggregator
+ * reposts, and richer records beat snippet-only ones
+ */
+function recordQuality(job: InsertJob): number {
+  let quality = 0;
+  if (getAtsJobId(job.url)) quality += 4;
+  if (!AGGREGATOR_PLATFORMS.includes(job.platform)) quality += 2;
+  if (job.description) quality += 1;
+  if (job.location && !/not specified/i.test(job.location)) quality += 1;
+  return quality;
+}
+
+function sourceUrlsOf(job: InsertJob): string[] {
+  return Array.isArray(job.sourceUrls) ? job.sourceUrls as string[] : [];
+}
+
+/**
+ * Fold `duplicate` into `primary`, keeping primary's fields where it has them
+ */
+export function mergeJobs(primary: DedupedJob, duplicate: InsertJob): DedupedJob {
+  const postedDates = [primary.postedAt, duplicate.postedAt]
+    .filter((date): date is Date => !!date)
+    .map(date => new Date(date));
+
+  const keepsLocation = !!primary.location && !/not specified/i.test(primary.location);
+
+  return {
+    ...primary,
+    description: primary.description || duplicate.description,
+    location: keepsLocation ? primary.location : duplicate.location || primary.location,
+    normalizedLocation: keepsLocation ? primary.normalizedLocation : duplicate.normalizedLocation || primary.normalizedLocation,
+    logo: primary.logo || duplicate.logo,
+    salary: primary.salary || duplicate.salary,
+    validThrough: primary.validThrough || duplicate.validThrough,
+    tags: Array.from(new Set([...(primary.tags || []), ...(duplicate.tags || [])])),
+    // The earliest sighting is the closest to the real posting date
+    postedAt: postedDates.length > 0 ? new Date(Math.min(...postedDates.map(date => date.getTime()))) : null,
+    sourceUrls: Array.from(new Set([...primary.sourceUrls, duplicate.url, ...sourceUrlsOf(duplicate)]))
+  };
+}
+
+export function withCanonicalId(job: InsertJob): DedupedJob {
+  return {
+    ...job,
+    canonicalId: job.canonicalId || canonicalJobId(job),
+    sourceUrls: Array.from(new Set([job.url, ...sourceUrlsOf(job)]))
+  };
+}
+
+/**
+ * Merge a duplicate into the record already kept for its role. The better
+ * record (usually the ATS original) takes over, id included.
+ */
+function mergeDuplicate(existing: DedupedJob, job: InsertJob): DedupedJob {
+  if (recordQuality(job) > recordQuality(existing)) {
+    return mergeJobs(withCanonicalId(job), existing);
+  }
+  return mergeJobs(existing, job);
+}
+
+/**
+ * Combine a job found again with the stored copy of its role, so a poorer
+ * sighting can't blank out what the stored copy already had. The stored
+ * canonical id is kept, since that's what the row is keyed on.
+ */
+export function mergeStoredJob(stored: InsertJob | undefined, job: InsertJob): DedupedJob {
+  if (!stored) return withCanonicalId(job);
+
+  const storedJob = withCanonicalId(stored);
+  return { ...mergeDuplicate(storedJob, job), canonicalId: storedJob.canonicalId };
+}
+
+/**
+ * Assign canonical ids and merge duplicates, keeping the first-seen order
+ */
+export function deduplicateJobs(jobs: InsertJob[]): DedupedJob[] {
+  const merged: DedupedJob[] = [];
+  const mergedKeys: JobKeys[] = [];
+
+  for (const job of jobs) {
+    const keys = jobKeys(job);
+    const existingIndex = mergedKeys.findIndex(candidate => keysMatch(candidate, keys));
+    if (existingIndex === -1) {
+      merged.push(withCanonicalId(job));
+      mergedKeys.push(keys);
+      continue;
+    }
+
+    const existing = merged[existingIndex];
+    merged[existingIndex] = mergeDuplicate(existing, job);
+    if (merged[existingIndex].url !== existing.url) {
+      mergedKeys[existingIndex] = keys;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Remembers jobs already handed out, for results that arrive in batches
+ * (e.g. the streaming search sends each platform's jobs as they come in)
+ */
+export class SeenJobs {
+  private jobs: DedupedJob[] = [];
+  private keys: JobKeys[] = [];
+  // URL each job was first handed out under, which later updates refer to
+  private sentUrls: string[] = [];
+
+  /**
+   * Remember a batch. Jobs not seen before are `added`; duplicates are merged
+   * into the earlier job, which comes back in `updated` under its first URL.
+   */
+  add(jobs: InsertJob[]): { added: DedupedJob[]; updated: Array<{ url: string; job: DedupedJob }> } {
+    const added: DedupedJob[] = [];
+    const updatedIndexes = new Set<number>();
+
+    for (const job of deduplicateJobs(jobs)) {
+      const keys = jobKeys(job);
+      const index = this.keys.findIndex(seen => keysMatch(seen, keys));
+      if (index === -1) {
+        this.jobs.push(job);
+        this.keys.push(keys);
+        this.sentUrls.push(job.url);
+        added.push(job);
+        continue;
+      }
+
+      const existing = this.jobs[index];
+      this.jobs[index] = mergeDuplicate(existing, job);
+      if (this.jobs[index].url !== existing.url) {
+        this.keys[index] = keys;
+      }
+      updatedIndexes.add(index);
+    }
+
+    return {
+      added,
+      updated: Array.from(updatedIndexes).map(index => ({ url: this.sentUrls[index], job: this.jobs[index] }))
+    };
+  }
+
+  /**
+   * Keep only jobs not seen before, and remember them
+   */
+  filterNew(jobs: InsertJob[]): DedupedJob[] {
+    return this.add(jobs).added;
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Text heuristics shared by the search pipeline and the platform adapters
+ */
+
+export function extractLocationFromText(text: string): string | null {
+  if (!text) return null;
+
+  const locationPatterns = [
+    // City, State patterns
+    /(?:location|based|office|headquarters).*?([A-Z][a-z]+,\s*[A-Z]{2})/i,
+    // Remote work patterns
+    /(?:remote|work from home|wfh|distributed)/i,
+    // City patterns
+    /(?:location|based|office).*?([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/i,
+    // Address patterns
+    /([A-Z][a-z]+,\s*[A-Z]{2}(?:\s+\d{5})?)/,
+    // State only patterns
+    /(?:location|based|office).*?([A-Z]{2})/i
+  ];
+
+  for (const pattern of locationPatterns) {
+    const match = text.match(pattern);
+    if (match) {
+      if (pattern === locationPatterns[1]) { // Remote pattern
+        return 'Remote';
+      }
+      return match[1]?.trim() || null;
+    }
+  }
+
+  return null;
+}
+
+export function extractPostingDateFromText(text: string): Date | null {
+  if (!text) return null;
+
+  const datePatterns = [
+    // "Posted X days ago" patterns
+    /posted\s+(\d+)\s+days?\s+ago/i,
+    /(\d+)\s+days?\s+ago/i,
+    // "Posted on DATE" patterns
+    /posted\s+on\s+([A-Za-z]+\s+\d{1,2},?\s+\d{4})/i,
+    // Direct date patterns
+    /([A-Za-z]+\s+\d{1,2},?\s+\d{4})/,
+    // ISO date patterns
+    /(\d{4}-\d{2}-\d{2})/
+  ];
+
+  for (const pattern of datePatterns) {
+    const match = text.match(pattern);
+    if (match) {
+      if (pattern === datePatterns[0] || pattern === datePatterns[1]) {
+        // Days ago format
+        const daysAgo = parseInt(match[1]);
+        if (!isNaN(daysAgo)) {
+          const date = new Date();
+          date.setDate(date.getDate() - daysAgo);
+          return date;
+        }
+      } else {
+        // Try to parse as date
+        const parsedDate = new Date(match[1]);
+        if (!isNaN(parsedDate.getTime())) {
+          return parsedDate;
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+export function extractTags(title: string, description: string): string[] {
+  const content = `${title} ${description}`.toLowerCase();
+  const tags: string[] = [];
+
+  // Common tech tags
+  const techTerms = [
+    'react', 'vue', 'angular', 'javascript', 'typescript', 'python', 'java', 'node.js',
+    'aws', 'docker', 'kubernetes', 'sql', 'nosql', 'mongodb', 'postgresql',
+    'remote', 'full-time', 'part-time', 'contract', 'senior', 'junior', 'lead'
+  ];
+
+  techTerms.forEach(term => {
+    if (content.includes(term)) {
+      tags.push(term.charAt(0).toUpperCase() + term.slice(1));
+    }
+  });
+
+  const uniqueTags = Array.from(new Set(tags));
+  return uniqueTags.slice(0, 5); // Limit to 5 unique tags
+}
+
+export function isLikelyCompanyName(text: string): boolean {
+  if (!text || text.length < 2) return false;
+
+  // Exclude obvious non-company patterns
+  const excludePatterns = [
+    /^\d+$/,                    // Just numbers
+    /^(remote|onsite|hybrid)$/i, // Work types
+    /^(full.?time|part.?time|contract|freelance)$/i, // Employment types
+    /^(ca|ny|tx|fl|wa|ma|il|pa|oh|ga|nc|mi|nj|va|tn|in|az|mo|md|wi|mn|co|al|sc|la|ky|or|ok|ct|ia|ms|ar|ks|ut|nv|nm|ne|wv|id|hi|nh|me|ri|mt|de|sd|nd|ak|dc|vt|wy)$/i, // US states
+    /^(united states|usa|us|canada|uk|europe|asia)$/i, // Countries/regions
+    /^(new york|los angeles|chicago|houston|phoenix|philadelphia|san antonio|san diego|dallas|san jose|austin|jacksonville|fort worth|columbus|charlotte|san francisco|indianapolis|seattle|denver|washington|boston|el paso|detroit|nashville|portland|memphis|oklahoma city|las vegas|louisville|baltimore|milwaukee|albuquerque|tucson|fresno|sacramento|mesa|kansas city|atlanta|long beach|colorado springs|raleigh|miami|virginia beach|omaha|oakland|minneapolis|tulsa|cleveland|wichita|arlington)$/i, // Major cities
+    /^(apply|hiring|careers?|jobs?|opportunities|openings|positions)$/i, // Job-related terms
+    /^(am|pm|est|pst|cst|mst|utc|gmt)$/i, // Time zones
+    /^(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec|january|february|march|april|june|july|august|september|october|november|december)$/i, // Months
+  ];
+
+  return !excludePatterns.some(pattern => pattern.test(text.trim()));
+}
+
+export function cleanCompanyName(company: string): string {
+  return company
+    .split(' ')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Turn a URL slug like "acme-corp" into "Acme Corp"
+ */
+export function companyFromSlug(slug: string): string {
+  return slug.replace(/[-_]/g, ' ')
+    .split(' ')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
@@ -0,0 +1,149 @@
+/**
+ * Ranking and filtering for the local index of previously scraped jobs.
+ * Storage backends narrow the candidate set (Postgres full-text search in
+ * Supabase, a scan in memory) and share this scoring so results rank the same.
+ */
+
+import type { Job } from '@shared/schema';
+import { jobLocationOf } from './location-normalizer';
+import { matchesLocationQuery, type LocationQuery } from './location-filter';
+
+export interface JobIndexQuery {
+  query: string;
+  platform?: string;
+  // Only jobs posted (or first seen) on or after this date
+  postedAfter?: Date;
+  remote?: boolean;
+  location?: LocationQuery | null;
+  limit: number;
+  offset: number;
+}
+
+export interface JobIndexResult {
+  jobs: Job[];
+  total: number;
+}
+
+// How much a query term counts depending on where it matches
+const FIELD_WEIGHTS = {
+  title: 5,
+  tags: 3,
+  company: 3,
+  location: 1,
+  description: 1
+};
+const TITLE_PHRASE_BONUS = 10;
+const RECENCY_WINDOW_DAYS = 30;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'at', 'for', 'in', 'of', 'or', 'the', 'to', 'with']);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9+#.]+/)
+    .map(token => token.replace(/^\.+|\.+$/g, ''))
+    .filter(token => token && !STOP_WORDS.has(token));
+}
+
+function stripHtml(html: string | null): string {
+  return html ? html.replace(/<[^>]*>/g, ' ') : '';
+}
+
+function jobDate(job: Job): Date | null {
+  return job.postedAt || job.scrapedAt || null;
+}
+
+export function isRemoteJob(job: Job): boolean {
+  return jobLocationOf(job).remoteType === 'remote';
+}
+
+export function matchesJobFilters(job: Job, filters: Omit<JobIndexQuery, 'query' | 'limit' | 'offset'>): boolean {
+  // Postings the liveness checker found taken down never show up in search,
+  // nor do ones past the closing date they published
+  if (job.closedAt) return false;
+  if (job.validThrough && job.validThrough < new Date()) return false;
+
+  if (filters.platform && job.platform.toLowerCase() !== filters.platform.toLowerCase()) {
+    return false;
+  }
+
+  if (filters.postedAfter) {
+    const date = jobDate(job);
+    if (!date || date < filters.postedAfter) return false;
+  }
+
+  if (filters.remote && !isRemoteJob(job)) {
+    return false;
+  }
+
+  if (filters.location && !matchesLocationQuery(job, filters.location)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Relevance of a job for the query terms; 0 when some term matches nowhere
+ */
+export function scoreJob(job: Job, terms: string[], phrase: string, now: Date = new Date()): number {
+  if (terms.length === 0) return 1;
+
+  const fields = {
+    title: tokenize(job.title),
+    tags: tokenize((job.tags || []).join(' ')),
+    company: tokenize(job.company),
+    location: tokenize(job.location || ''),
+    description: tokenize(stripHtml(job.description))
+  };
+
+  let score = 0;
+  for (const term of terms) {
+    let termScore = 0;
+    for (const [field, tokens] of Object.entries(fields) as Array<[keyof typeof FIELD_WEIGHTS, string[]]>) {
+      // Prefix matches in both directions stand in for stemming (engineer ~ engineers ~ engineering)
+      const hits = tokens.filter(token =>
+        token.startsWith(term) || (token.length >= 4 && term.startsWith(token))
+      ).length;
+      if (hits > 0) {
+        // Repeats help a little, but a single title hit beats a wall of description
+        termScore += FIELD_WEIGHTS[field] * (1 + Math.log(hits));
+      }
+    }
+    if (termScore === 0) return 0;
+    score += termScore;
+  }
+
+  if (phrase && job.title.toLowerCase().includes(phrase)) {
+    score += TITLE_PHRASE_BONUS;
+  }
+
+  // Fresh postings rank higher; the boost fades out over the recency window
+  const date = jobDate(job);
+  if (date) {
+    const ageDays = (now.getTime() - date.getTime()) / (24 * 60 * 60 * 1000);
+    score *= 1 + Math.max(0, RECENCY_WINDOW_DAYS - ageDays) / RECENCY_WINDOW_DAYS * 0.5;
+  }
+
+  return score;
+}
+
+/**
+ * Filter and rank candidate jobs, then cut the requested page
+ */
+export function rankJobs(candidates: Job[], params: JobIndexQuery): JobIndexResult {
+  const terms = Array.from(new Set(tokenize(params.query)));
+  const phrase = params.query.trim().toLowerCase();
+  const now = new Date();
+
+  const ranked = candidates
+    .filter(job => matchesJobFilters(job, params))
+    .map(job => ({ job, score: scoreJob(job, terms, phrase, now) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  return {
+    jobs: ranked.slice(params.offset, params.offset + params.limit).map(({ job }) => job),
+    total: ranked.length
+  };
+}
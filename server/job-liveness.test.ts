@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import './platforms';
+import { checkJobLiveness, findClosedPageText, isGenericRedirect } from './job-liveness';
+import { politeFetcher, PoliteFetchError } from './polite-fetch';
+import { fakeResponse, mockBoardApi } from './platforms/__fixtures__/board-api-mock';
+
+const POSTING_URL = 'https://careers.woodgrovebank.com/job/platform-engineer';
+const OPEN_PAGE = readFileSync(path.join(import.meta.dirname, '__fixtures__', 'career-page-posting.html'), 'utf-8');
+
+function page(text: string): string {
+  return `<html><body><h1>Platform Engineer</h1><p>${text}</p></body></html>`;
+}
+
+/**
+ * Answer the posting fetch with one response, as if it ended at `finalUrl`
+ */
+function mockPage(status: number, body: string, finalUrl: string = POSTING_URL) {
+  return vi.spyOn(politeFetcher, 'fetch').mockResolvedValue(fakeResponse(finalUrl, status, body));
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('isGenericRedirect', () => {
+  it.each([
+    ['the same posting with tracking added', POSTING_URL, `${POSTING_URL}?utm_source=linkedin`, false],
+    ['a careers page', POSTING_URL, 'https://careers.woodgrovebank.com/careers', true],
+    ['another posting', POSTING_URL, 'https://careers.woodgrovebank.com/job/platform-engineer-2', false],
+    ['the same ATS job on another host',
+      'https://boards.greenhouse.io/acmerobotics/jobs/123', 'https://job-boards.greenhouse.io/acmerobotics/jobs/123', false],
+    ['the ATS board',
+      'https://boards.greenhouse.io/acmerobotics/jobs/123', 'https://boards.greenhouse.io/acmerobotics', true],
+    ['the board flagged with ?error=true',
+      'https://boards.greenhouse.io/acmerobotics/jobs/123', 'https://boards.greenhouse.io/acmerobotics?error=true', true]
+  ])('%s → %s', (_, requestedUrl, finalUrl, expected) => {
+    expect(isGenericRedirect(requestedUrl, finalUrl)).toBe(expected);
+  });
+});
+
+describe('findClosedPageText', () => {
+  it.each([
+    ['This position is no longer accepting applications.', 'no longer accepting applications'],
+    ['Sorry, this job has been filled.', 'job has been filled'],
+    ['The page you are looking for does not exist.', 'page you are looking for does not exist']
+  ])('finds "%s"', (text, expected) => {
+    expect(findClosedPageText(page(text), POSTING_URL)).toBe(expected);
+  });
+
+  it('uses the platform\'s own wording for its pages', () => {
+    const html = page('The job you are looking for is no longer open.');
+    expect(findClosedPageText(html, 'https://boards.greenhouse.io/acmerobotics/jobs/123')).toBe('The job you are looking for is no longer open');
+    expect(findClosedPageText(html, POSTING_URL)).toBeNull();
+  });
+
+  it('ignores scripts and open postings', () => {
+    expect(findClosedPageText(`<body><script>const closed = "no longer accepting applications";</script></body>`, POSTING_URL)).toBeNull();
+    expect(findClosedPageText(OPEN_PAGE, POSTING_URL)).toBeNull();
+  });
+});
+
+describe('checkJobLiveness', () => {
+  it.each([
+    [404, 'closed', 'HTTP 404'],
+    [410, 'closed', 'HTTP 410'],
+    [403, 'unknown', 'HTTP 403'],
+    [503, 'unknown', 'HTTP 503']
+  ])('reads HTTP %i as %s', async (status, expected, reason) => {
+    mockPage(status, '');
+    await expect(checkJobLiveness(POSTING_URL)).resolves.toEqual({ status: expected, reason });
+  });
+
+  it('calls a posting closed when it redirects to the careers page', async () => {
+    mockPage(200, OPEN_PAGE, 'https://careers.woodgrovebank.com/careers');
+    await expect(checkJobLiveness(POSTING_URL)).resolves.toEqual({
+      status: 'closed',
+      reason: 'redirected to https://careers.woodgrovebank.com/careers'
+    });
+  });
+
+  it('calls a posting closed when the page says so', async () => {
+    mockPage(200, page('This position is no longer accepting applications.'));
+    await expect(checkJobLiveness(POSTING_URL)).resolves.toEqual({
+      status: 'closed',
+      reason: 'page says "no longer accepting applications"'
+    });
+  });
+
+  it('calls a posting open when the page is still up', async () => {
+    mockPage(200, OPEN_PAGE);
+    await expect(checkJobLiveness(POSTING_URL)).resolves.toEqual({ status: 'open' });
+  });
+
+  it('leaves a posting unknown when the page can\'t be fetched', async () => {
+    vi.spyOn(politeFetcher, 'fetch').mockRejectedValue(new PoliteFetchError(POSTING_URL, 'robots', `robots.txt disallows ${POSTING_URL}`));
+    await expect(checkJobLiveness(POSTING_URL)).resolves.toEqual({ status: 'unknown', reason: `robots.txt disallows ${POSTING_URL}` });
+  });
+
+  it('asks the board API first for platforms that have one', async () => {
+    const url = 'https://boards.greenhouse.io/acmerobotics/jobs/123';
+
+    const closed = mockBoardApi({});
+    await expect(checkJobLiveness(url)).resolves.toEqual({ status: 'closed', reason: 'removed from Greenhouse board' });
+    expect(closed).toHaveBeenCalledTimes(1);
+    closed.mockRestore();
+
+    mockBoardApi({ 'https://boards-api.greenhouse.io/v1/boards/acmerobotics/jobs/123': { id: 123 } });
+    await expect(checkJobLiveness(url)).resolves.toEqual({ status: 'open' });
+  });
+});
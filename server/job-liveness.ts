@@ -0,0 +1,179 @@
+/**
+ * Job liveness: re-checks stored and saved postings on a schedule and records
+ * when they were taken down, so search, saved jobs and emails can hide them
+ */
+
+import * as cheerio from 'cheerio';
+import { storage } from './storage';
+import { getAdapterForUrl, getAtsJobId, isDirectJobUrl } from './platforms';
+import { normalizeJobUrl } from './job-dedup';
+import { politeFetcher } from './polite-fetch';
+
+const CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+const REVERIFY_AFTER = 24 * 60 * 60 * 1000; // Each posting is re-checked about once a day
+const BATCH_SIZE = 50;
+const CHECK_DELAY = 1000; // Pause between postings to stay polite
+const PAGE_TIMEOUT = 10000; // 10 seconds
+
+// What ATSs and career sites show in place of a posting that was closed
+const CLOSED_PAGE_PATTERNS = [
+  /no longer accepting applications/i,
+  /(job|position|posting|role|vacancy|opening) (is )?no longer (available|open|active|posted)/i,
+  /(job|position|posting|role|vacancy) has (been )?(closed|filled|expired|removed)/i,
+  /this (job|position|posting) (has )?expired/i,
+  /(job|position|posting|page) you('re| are) looking for (could not be found|does not exist|no longer exists)/i
+];
+
+export type LivenessStatus = 'open' | 'closed' | 'unknown';
+
+export interface LivenessResult {
+  status: LivenessStatus;
+  reason?: string;
+}
+
+/**
+ * Whether following a posting URL ended on a generic careers or board page
+ * instead of the posting itself
+ */
+export function isGenericRedirect(requestedUrl: string, finalUrl: string): boolean {
+  if (normalizeJobUrl(requestedUrl) === normalizeJobUrl(finalUrl)) return false;
+
+  // Greenhouse sends removed postings to the board with ?error=true
+  if (/[?&]error=true/.test(finalUrl)) return true;
+
+  const requestedId = getAtsJobId(requestedUrl);
+  if (requestedId) return getAtsJobId(finalUrl) !== requestedId;
+
+  return isDirectJobUrl(requestedUrl) && !isDirectJobUrl(finalUrl);
+}
+
+/**
+ * Page text that says the posting is closed, if any
+ */
+export function findClosedPageText(html: string, url: string): string | null {
+  const $ = cheerio.load(html);
+  $('script, style, noscript').remove();
+  const text = $('body').text().replace(/\s+/g, ' ');
+
+  const patterns = [...CLOSED_PAGE_PATTERNS, ...(getAdapterForUrl(url)?.closedPagePatterns || [])];
+  const match = patterns.map(pattern => text.match(pattern)).find(Boolean);
+  return match ? match[0] : null;
+}
+
+/**
+ * Check whether a posting is still up: the platform's API when it has one,
+ * otherwise the page itself (status, redirects, "no longer accepting" text)
+ */
+export async function checkJobLiveness(url: string): Promise<LivenessResult> {
+  const adapter = getAdapterForUrl(url);
+  const apiAnswer = await adapter?.isPostingOpen?.(url).catch(() => null);
+  if (apiAnswer === true) return { status: 'open' };
+  if (apiAnswer === false) return { status: 'closed', reason: `removed from ${adapter?.displayName} board` };
+
+  try {
+    const response = await politeFetcher.fetch(url, {
+      headers: { 'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8' },
+      timeoutMs: PAGE_TIMEOUT
+    });
+
+    if (response.status === 404 || response.status === 410) {
+      return { status: 'closed', reason: `HTTP ${response.status}` };
+    }
+    // Blocks, rate limits and server errors say nothing about the posting
+    if (!response.ok) return { status: 'unknown', reason: `HTTP ${response.status}` };
+
+    if (isGenericRedirect(url, response.url)) {
+      return { status: 'closed', reason: `redirected to ${response.url}` };
+    }
+
+    const closedText = findClosedPageText(response.body, url);
+    if (closedText) return { status: 'closed', reason: `page says "${closedText}"` };
+
+    return { status: 'open' };
+  } catch (error) {
+    return { status: 'unknown', reason: error instanceof Error ? error.message : 'fetch failed' };
+  }
+}
+
+export class JobLivenessChecker {
+  private isRunning: boolean = false;
+  private isChecking: boolean = false;
+  private intervalId: NodeJS.Timeout | null = null;
+
+  start(): void {
+    if (this.isRunning) {
+      console.log('🩺 Job liveness checker is already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('🚀 Starting job liveness checker...');
+
+    this.intervalId = setInterval(() => {
+      this.checkDueJobs();
+    }, CHECK_INTERVAL);
+
+    // First batch after a few minutes so startup stays quick
+    setTimeout(() => {
+      this.checkDueJobs();
+    }, 5 * 60 * 1000);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.isRunning = false;
+    console.log('🛑 Job liveness checker stopped');
+  }
+
+  /**
+   * Re-check the postings that have gone longest without a check
+   */
+  async checkDueJobs(): Promise<void> {
+    if (this.isChecking) return;
+    this.isChecking = true;
+
+    try {
+      const urls = await storage.getUrlsDueForVerification(new Date(Date.now() - REVERIFY_AFTER), BATCH_SIZE);
+      if (urls.length === 0) return;
+
+      console.log(`🩺 Checking ${urls.length} job postings for liveness`);
+      let closed = 0;
+
+      for (const url of urls) {
+        const result = await this.checkUrl(url);
+        if (result.status === 'closed') closed++;
+        await new Promise(resolve => setTimeout(resolve, CHECK_DELAY));
+      }
+
+      console.log(`✅ Liveness check done: ${closed} of ${urls.length} postings closed`);
+    } catch (error) {
+      console.error('❌ Error in job liveness checker:', error);
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  /**
+   * Check one posting now and record the outcome
+   */
+  async checkUrl(url: string): Promise<LivenessResult> {
+    const result = await checkJobLiveness(url);
+    const now = new Date();
+
+    if (result.status === 'closed') {
+      console.log(`🚫 Posting closed (${result.reason}): ${url}`);
+    } else if (result.status === 'unknown') {
+      console.log(`⚠️ Could not verify ${url}: ${result.reason}`);
+    }
+
+    // Inconclusive checks still count so one flaky site can't hold up the
+    // queue; the posting stays open and comes up again when it is next due
+    await storage.recordJobLiveness(url, result.status === 'closed' ? now : null, now);
+    return result;
+  }
+}
+
+export const jobLivenessChecker = new JobLivenessChecker();
@@ -0,0 +1,171 @@
+/**
+ * schema.org JobPosting extraction from a page's ld+json blocks. Most ATSs and
+ * career sites publish one for Google for Jobs, and it is far more reliable
+ * than any selector, so scrapeJobDetails tries it first on every platform.
+ */
+
+import * as cheerio from 'cheerio';
+import type { JobSalary } from '@shared/schema';
+import { salaryFromJsonLd } from './salary-extraction';
+
+export interface JobPostingLd {
+  title?: string;
+  company?: string;
+  logo?: string;
+  description?: string;
+  location?: string;
+  remote: boolean;
+  // applicantLocationRequirements: where remote applicants may live
+  remoteRegions: string[];
+  employmentTypes: string[];
+  postedAt: Date | null;
+  validThrough: Date | null;
+  salary: JobSalary | null;
+}
+
+const EMPLOYMENT_TYPE_LABELS: Record<string, string> = {
+  FULL_TIME: 'Full-time',
+  PART_TIME: 'Part-time',
+  CONTRACTOR: 'Contract',
+  TEMPORARY: 'Temporary',
+  INTERN: 'Internship',
+  PER_DIEM: 'Per diem'
+};
+
+function asArray<T>(value: T | T[] | null | undefined): T[] {
+  if (value === null || value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function hasType(node: any, type: string): boolean {
+  return asArray(node?.['@type']).some(value => typeof value === 'string' && value.toLowerCase() === type.toLowerCase());
+}
+
+function textOf(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (value && typeof value === 'object' && 'name' in value) return textOf((value as { name: unknown }).name);
+  return undefined;
+}
+
+function parseLdDate(value: unknown): Date | null {
+  if (typeof value !== 'string' || !value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Every node in the page's ld+json blocks, with arrays and @graph flattened
+ */
+export function collectLdNodes($: cheerio.CheerioAPI): any[] {
+  const nodes: any[] = [];
+  const visit = (node: any) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+    } else if (node && typeof node === 'object') {
+      nodes.push(node);
+      if (node['@graph']) visit(node['@graph']);
+    }
+  };
+
+  $('script[type="application/ld+json"]').each((_, element) => {
+    const raw = $(element).contents().text()
+      .replace(/^\s*<!\[CDATA\[|\]\]>\s*$/g, '')
+      .trim();
+    if (!raw) return;
+
+    try {
+      visit(JSON.parse(raw));
+    } catch {
+      // Some sites emit invalid JSON (raw newlines in strings); one retry without them
+      try {
+        visit(JSON.parse(raw.replace(/[\r\n\t]+/g, ' ')));
+      } catch {
+        // Not parseable, skip this block
+      }
+    }
+  });
+
+  return nodes;
+}
+
+function formatPlace(place: any): string | undefined {
+  const address = place?.address;
+  if (typeof address === 'string') return address.trim() || undefined;
+  if (!address) return textOf(place);
+
+  const parts = [
+    textOf(address.addressLocality),
+    textOf(address.addressRegion),
+    textOf(address.addressCountry)
+  ].filter((part): part is string => !!part);
+  return Array.from(new Set(parts)).join(', ') || undefined;
+}
+
+function applicantRegions(posting: any): string[] {
+  return asArray(posting.applicantLocationRequirements)
+    .map(textOf)
+    .filter((region): region is string => !!region);
+}
+
+function formatLocation(posting: any, remote: boolean): string | undefined {
+  const places = asArray(posting.jobLocation)
+    .map(formatPlace)
+    .filter((place): place is string => !!place);
+
+  if (remote) {
+    const regions = applicantRegions(posting);
+    const remoteLabel = regions.length > 0 ? `Remote (${regions.join(', ')})` : 'Remote';
+    return [remoteLabel, ...places].join('; ');
+  }
+
+  return places.length > 0 ? Array.from(new Set(places)).join('; ') : undefined;
+}
+
+function unescapeDescription(description: unknown): string | undefined {
+  if (typeof description !== 'string' || !description.trim()) return undefined;
+  // Some publishers HTML-escape the description a second time
+  return /&lt;\/?[a-z]/i.test(description)
+    ? cheerio.load(description, null, false).text()
+    : description;
+}
+
+/**
+ * The page's JobPosting, mapped onto the fields we store; null when it has none
+ */
+export function extractJobPostingLd($: cheerio.CheerioAPI): JobPostingLd | null {
+  const posting = collectLdNodes($).find(node => hasType(node, 'JobPosting'));
+  if (!posting) return null;
+
+  const remote = asArray(posting.jobLocationType).some(type => /telecommute/i.test(String(type)));
+  const organization = posting.hiringOrganization;
+
+  const employmentTypes = asArray(posting.employmentType)
+    .flatMap(type => String(type).split(','))
+    .map(type => EMPLOYMENT_TYPE_LABELS[type.trim().toUpperCase().replace(/[\s-]+/g, '_')])
+    .filter((label): label is string => !!label);
+
+  return {
+    title: textOf(posting.title),
+    company: textOf(organization),
+    logo: typeof organization?.logo === 'string' ? organization.logo : textOf(organization?.logo?.url),
+    description: unescapeDescription(posting.description),
+    location: formatLocation(posting, remote),
+    remote,
+    remoteRegions: remote ? applicantRegions(posting) : [],
+    employmentTypes: Array.from(new Set(employmentTypes)),
+    postedAt: parseLdDate(posting.datePosted),
+    validThrough: parseLdDate(posting.validThrough),
+    salary: salaryFromJsonLd(posting.baseSalary)
+  };
+}
+
+/**
+ * Hiring company from any ld+json block, for pages without a full JobPosting
+ */
+export function extractLdCompany($: cheerio.CheerioAPI): string | undefined {
+  for (const node of collectLdNodes($)) {
+    const company = textOf(node.hiringOrganization) || textOf(node.organizationName) || textOf(node.publisher);
+    if (company) return company;
+  }
+  return undefined;
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { locationSearchTerms, matchesLocationQuery, parseLocationQuery } from './location-filter';
+
+function matches(filter: string, jobLocation: string | null): boolean {
+  return matchesLocationQuery({ location: jobLocation }, parseLocationQuery(filter));
+}
+
+describe('parseLocationQuery', () => {
+  it('reads a radius in miles or kilometres', () => {
+    expect(parseLocationQuery('Austin, TX within 50 miles')).toMatchObject({
+      city: 'Austin',
+      region: 'TX',
+      country: 'US',
+      center: { lat: 30.2672, lon: -97.7431 },
+      radiusMiles: 50
+    });
+    expect(parseLocationQuery('Berlin within 20 km')).toMatchObject({ city: 'Berlin', country: 'DE', radiusMiles: 12.4 });
+  });
+
+  it('gives a bare city a default radius', () => {
+    expect(parseLocationQuery('Austin, TX')).toMatchObject({ city: 'Austin', radiusMiles: 25 });
+  });
+
+  it('centers a metro area on the metro, with its own radius', () => {
+    expect(parseLocationQuery('bay area')).toMatchObject({
+      city: 'San Francisco',
+      region: 'CA',
+      center: { lat: 37.6, lon: -122.2 },
+      radiusMiles: 50
+    });
+  });
+
+  it('reads "Remote (US or Canada only)" as remote work open to those countries, not a place', () => {
+    expect(parseLocationQuery('Remote (US or Canada only)')).toMatchObject({
+      city: null,
+      country: null,
+      center: null,
+      remoteType: 'remote',
+      remoteRegions: ['US', 'CA']
+    });
+  });
+
+  it.each([
+    ['remote', { remoteType: 'remote', country: null }],
+    ['hybrid', { remoteType: 'hybrid', country: null }],
+    ['onsite', { remoteType: 'onsite', country: null }],
+    ['united-states', { remoteType: null, country: 'US' }]
+  ])('reads the %s preset', (preset, expected) => {
+    expect(parseLocationQuery(preset)).toMatchObject(expected);
+  });
+
+  it('filters nothing for "all" or an empty location', () => {
+    expect(parseLocationQuery('all')).toBeNull();
+    expect(parseLocationQuery('  ')).toBeNull();
+    expect(parseLocationQuery(undefined)).toBeNull();
+  });
+});
+
+describe('matchesLocationQuery', () => {
+  it.each([
+    ['Austin, TX within 50 miles', 'Round Rock, TX', true],
+    ['Austin, TX within 50 miles', 'Austin, Texas', true],
+    ['Austin, TX within 50 miles', 'San Antonio, TX', false],
+    ['Austin, TX within 100 miles', 'San Antonio, TX', true],
+    ['Austin, TX within 50 miles', 'Houston, TX', false],
+    ['Austin, TX within 50 miles', 'Remote', false]
+  ])('radius: %s takes %s → %s', (filter, jobLocation, expected) => {
+    expect(matches(filter, jobLocation)).toBe(expected);
+  });
+
+  it.each([
+    ['Oakland, CA', true],
+    ['South San Francisco, CA', true],
+    ['Seattle, WA', false],
+    ['Remote', false]
+  ])('metro: the bay area takes %s → %s', (jobLocation, expected) => {
+    expect(matches('bay area', jobLocation)).toBe(expected);
+  });
+
+  it.each([
+    ['Remote - US', true],
+    ['Remote - Canada', true],
+    ['Remote', true],
+    ['Remote - UK', false],
+    ['Remote (EMEA)', false],
+    ['Toronto, ON', false]
+  ])('remote region: "Remote (US or Canada only)" takes %s → %s', (jobLocation, expected) => {
+    expect(matches('Remote (US or Canada only)', jobLocation)).toBe(expected);
+  });
+
+  it.each([
+    ['hybrid', 'Hybrid - Austin, TX', true],
+    ['hybrid', 'Austin, TX', false],
+    ['hybrid', 'Remote', false],
+    ['united-states', 'Austin, TX', true],
+    ['united-states', 'Remote - US', true],
+    ['united-states', 'Remote - UK', false],
+    ['united-states', 'Toronto, ON', false]
+  ])('preset: %s takes %s → %s', (filter, jobLocation, expected) => {
+    expect(matches(filter, jobLocation)).toBe(expected);
+  });
+
+  it('lets through jobs with no location, and matches unknown places as text', () => {
+    expect(matches('Austin, TX within 50 miles', null)).toBe(true);
+    expect(matches('Atlantis', 'Atlantis HQ')).toBe(true);
+    expect(matches('Atlantis', 'Austin, TX')).toBe(false);
+  });
+});
+
+describe('locationSearchTerms', () => {
+  it.each([
+    ['Austin, TX within 50 miles', '("Austin" OR "Round Rock")'],
+    ['Remote (US or Canada only)', 'remote ("United States" OR "Canada")'],
+    ['hybrid', 'hybrid'],
+    ['united-states', '"United States"'],
+    ['Atlantis', '"Atlantis"'],
+    ['all', '']
+  ])('turns %s into %s', (filter, expected) => {
+    expect(locationSearchTerms(parseLocationQuery(filter))).toBe(expected);
+  });
+
+  it('names the metro\'s center city first, then its nearest neighbours', () => {
+    const terms = locationSearchTerms(parseLocationQuery('bay area'));
+    expect(terms.startsWith('("San Francisco" OR ')).toBe(true);
+    expect(terms.split(' OR ')).toHaveLength(5);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Location filters for search: the form's presets (remote, hybrid, ...) and
+ * free text like "Austin, TX within 50 miles" or "Remote (US or Canada only)".
+ * Each filter becomes extra Google query terms and a check run on every job's
+ * normalized location, with distances taken from the offline gazetteer.
+ */
+
+import type { JobLocation } from '@shared/schema';
+import { CITIES, COUNTRIES, METRO_AREAS, REGIONS, REMOTE_AREAS } from './gazetteer';
+import { isOpenToCountry, jobLocationOf, normalizeLocation, type LocatedJob } from './location-normalizer';
+
+export interface LocationQuery {
+  // What the user typed, used as-is when nothing in it is recognized
+  text: string;
+  city: string | null;
+  region: string | null;
+  country: string | null;
+  // Center of the search circle, when the place has known coordinates
+  center: { lat: number; lon: number } | null;
+  radiusMiles: number | null;
+  remoteType: JobLocation['remoteType'];
+  // Countries or areas remote jobs must be open to
+  remoteRegions: string[];
+}
+
+// "Austin, TX" without a radius still covers the city's suburbs
+const DEFAULT_RADIUS_MILES = 25;
+const MAX_RADIUS_MILES = 500;
+const KM_PER_MILE = 1.609344;
+// Nearby cities added to the Google query for a radius search
+const MAX_QUERY_PLACES = 5;
+
+const RADIUS_PATTERN = /\b(?:within|up to|in)?\s*(\d+(?:\.\d+)?)\s*(mi|miles?|km|kms|kilometers?|kilometres?)\b(?:\s+radius)?(?:\s+(?:of|from|around))?/i;
+
+const PRESETS: Record<string, Partial<LocationQuery>> = {
+  remote: { remoteType: 'remote' },
+  hybrid: { remoteType: 'hybrid' },
+  onsite: { remoteType: 'onsite' },
+  'united-states': { country: 'US' }
+};
+
+function emptyQuery(text: string): LocationQuery {
+  return {
+    text,
+    city: null,
+    region: null,
+    country: null,
+    center: null,
+    radiusMiles: null,
+    remoteType: null,
+    remoteRegions: []
+  };
+}
+
+/**
+ * Great-circle distance between two points in miles
+ */
+export function distanceMiles(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 +
+            Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 3958.8 * 2 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Coordinates of a normalized location's city, when the gazetteer has it
+ */
+export function coordinatesOf(location: Pick<JobLocation, 'city' | 'region' | 'country'>): { lat: number; lon: number } | null {
+  if (!location.city) return null;
+  const name = location.city.toLowerCase();
+  const city = CITIES.find(candidate =>
+    (candidate.name.toLowerCase() === name || (candidate.aliases || []).includes(name)) &&
+    (!location.region || !candidate.region || candidate.region === location.region) &&
+    (!location.country || candidate.country === location.country)
+  );
+  return city ? { lat: city.lat, lon: city.lon } : null;
+}
+
+/**
+ * Parse the `location` search parameter; null when it doesn't filter anything
+ */
+export function parseLocationQuery(input: string | null | undefined): LocationQuery | null {
+  const text = (input || '').trim();
+  if (!text || text.toLowerCase() === 'all') return null;
+
+  const preset = PRESETS[text.toLowerCase()];
+  if (preset) return { ...emptyQuery(text), ...preset };
+
+  const query = emptyQuery(text);
+  let place = text;
+
+  const radius = text.match(RADIUS_PATTERN);
+  if (radius) {
+    const amount = parseFloat(radius[1]);
+    const miles = /^k/i.test(radius[2]) ? amount / KM_PER_MILE : amount;
+    query.radiusMiles = Math.min(Math.round(miles * 10) / 10, MAX_RADIUS_MILES);
+    place = text.replace(radius[0], ' ').replace(/^[\s,]+|[\s,]+$/g, '').replace(/\s+/g, ' ');
+  }
+
+  const key = place.toLowerCase();
+  const metro = METRO_AREAS.find(candidate => candidate.name.toLowerCase() === key || candidate.aliases.includes(key));
+  if (metro) {
+    const principal = CITIES.find(city => city.name === metro.city);
+    return {
+      ...query,
+      city: metro.city,
+      region: principal?.region || null,
+      country: principal?.country || null,
+      center: { lat: metro.lat, lon: metro.lon },
+      radiusMiles: query.radiusMiles ?? metro.radiusMiles
+    };
+  }
+
+  const normalized = normalizeLocation(place);
+  query.remoteType = normalized.remoteType === 'onsite' && !/\b(on-?site|in[- ]office|in[- ]person)\b/i.test(place)
+    ? null // A bare place says where, not how
+    : normalized.remoteType;
+  query.remoteRegions = normalized.remoteRegions;
+
+  // "Remote - US" restricts who can apply; it isn't an office location
+  const remoteOnly = query.remoteType === 'remote' && !normalized.city && !normalized.region;
+  if (!remoteOnly) {
+    query.city = normalized.city;
+    query.region = normalized.region;
+    query.country = normalized.country;
+  }
+
+  query.center = coordinatesOf(normalized);
+  if (query.center && query.radiusMiles === null) {
+    query.radiusMiles = DEFAULT_RADIUS_MILES;
+  }
+  return query;
+}
+
+function remoteRegionCountries(regions: string[]): string[] {
+  return regions.flatMap(region => REMOTE_AREAS.find(area => area.name === region)?.countries || [region]);
+}
+
+function isOpenRemoteJob(location: JobLocation, query: LocationQuery): boolean {
+  if (location.remoteType !== 'remote') return false;
+  if (query.remoteRegions.length === 0) return true;
+  return query.remoteRegions.some(region => location.remoteRegions.includes(region)) ||
+         remoteRegionCountries(query.remoteRegions).some(country => isOpenToCountry(location, country));
+}
+
+function isInPlace(location: JobLocation, query: LocationQuery): boolean {
+  if (query.center && query.radiusMiles !== null) {
+    const coordinates = coordinatesOf(location);
+    if (coordinates) return distanceMiles(query.center, coordinates) <= query.radiusMiles;
+  }
+
+  if (query.city) {
+    return !!location.city && location.city.toLowerCase() === query.city.toLowerCase() &&
+           (!query.region || !location.region || location.region === query.region);
+  }
+  if (query.region) {
+    return location.region === query.region && (!query.country || location.country === query.country);
+  }
+  if (query.country) {
+    // A country covers remote jobs open to it as well as offices in it
+    return location.country === query.country || (location.remoteType === 'remote' && isOpenToCountry(location, query.country));
+  }
+  return false;
+}
+
+/**
+ * Whether a job satisfies a location query. Jobs with no location at all
+ * pass, since there is nothing to filter them on; text we can't place is
+ * matched against the job's location string instead.
+ */
+export function matchesLocationQuery(
+  job: LocatedJob,
+  query: LocationQuery | null
+): boolean {
+  if (!query) return true;
+
+  const location = jobLocationOf(job);
+  if (!location.remoteType && !location.country) return true;
+
+  const hasPlace = !!(query.city || query.region || query.country || query.center);
+  if (!hasPlace && !query.remoteType && query.remoteRegions.length === 0) {
+    return (job.location || '').toLowerCase().includes(query.text.toLowerCase());
+  }
+
+  if (query.remoteType === 'hybrid' || query.remoteType === 'onsite') {
+    if (location.remoteType !== query.remoteType) return false;
+    return !hasPlace || isInPlace(location, query);
+  }
+  if (query.remoteType === 'remote') {
+    return isOpenRemoteJob(location, query) || (hasPlace && isInPlace(location, query));
+  }
+  return isInPlace(location, query);
+}
+
+function quoted(term: string): string {
+  return `"${term.replace(/"/g, '')}"`;
+}
+
+/**
+ * Place names for the Google query: the city plus its nearest neighbours in
+ * the radius, or the region/country
+ */
+function placeTerms(query: LocationQuery): string[] {
+  if (query.center && query.radiusMiles !== null) {
+    const center = query.center;
+    const nearby = CITIES
+      .map(city => ({ name: city.name, distance: distanceMiles(center, city) }))
+      .filter(city => city.distance <= query.radiusMiles!)
+      .sort((a, b) => a.distance - b.distance)
+      .map(city => city.name);
+    // The named city leads, then its closest neighbours
+    const names = Array.from(new Set([...(query.city ? [query.city] : []), ...nearby])).slice(0, MAX_QUERY_PLACES);
+    if (names.length > 0) return names;
+  }
+  if (query.city) return [query.city];
+  if (query.region) return [REGIONS.find(region => region.code === query.region && region.country === query.country)?.name || query.region];
+  if (query.country) return [COUNTRIES.find(country => country.code === query.country)?.name || query.country];
+  return [];
+}
+
+/**
+ * Extra terms for the Google discovery query, e.g. `("Austin" OR "Round Rock")`
+ * or `remote ("United States" OR "Canada")`; empty when there are none
+ */
+export function locationSearchTerms(query: LocationQuery | null): string {
+  if (!query) return '';
+
+  const places = placeTerms(query).map(quoted);
+  const regions = query.remoteRegions
+    .map(region => COUNTRIES.find(country => country.code === region)?.name || region)
+    .map(quoted);
+  const group = (terms: string[]) => terms.length > 1 ? `(${terms.join(' OR ')})` : terms[0] || '';
+
+  switch (query.remoteType) {
+    case 'remote':
+      // A remote search with a place also takes jobs in that place
+      return places.length > 0
+        ? group(['remote', ...places])
+        : ['remote', group(regions)].filter(Boolean).join(' ');
+    case 'hybrid':
+    case 'onsite':
+      return [query.remoteType, group(places)].filter(Boolean).join(' ');
+    default:
+      return places.length > 0 ? group(places) : quoted(query.text);
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * Location normalization: turns the free-text location on a posting ("Remote
+ * (US or Canada only)", "Austin, TX · Hybrid") into city, region, country and
+ * remote type using the offline gazetteer, without a geocoding service
+ */
+
+import type { JobLocation } from '@shared/schema';
+import {
+  CITIES,
+  COUNTRIES,
+  REGIONS,
+  REMOTE_AREAS,
+  type GazetteerCity,
+  type GazetteerCountry,
+  type GazetteerRegion
+} from './gazetteer';
+
+export interface LocationHints {
+  // ATS workplace field ("remote", "hybrid", "onSite", "In office", ...)
+  workplaceType?: string | null;
+  remote?: boolean;
+  tags?: string[] | null;
+  // Where remote applicants may live, from structured data (JSON-LD applicantLocationRequirements)
+  remoteRegions?: string[];
+}
+
+// How closely a job's location matches a wanted one, best first
+export type LocationMatch = 'city' | 'region' | 'remote' | 'country';
+
+// Stored jobs and freshly scraped ones (whose json columns are loosely typed)
+export interface LocatedJob {
+  location?: string | null;
+  tags?: unknown;
+  normalizedLocation?: unknown;
+}
+
+interface Place {
+  city: string | null;
+  region: string | null;
+  country: string | null;
+}
+
+const REMOTE_PATTERN = /\b(remote|work from home|wfh|telecommute|distributed|anywhere)\b/i;
+const HYBRID_PATTERN = /\bhybrid\b/i;
+const ONSITE_PATTERN = /\b(on-?site|in[- ]office|in[- ]person)\b/i;
+const UNKNOWN_PATTERN = /not specified|^\s*(n\/?a|tbd)?\s*$/i;
+
+// Pieces of a location string that each name one place (or a remote note)
+const SEGMENT_SEPARATOR = /;|\||·|•|\/|\(|\)|\[|\]|\n|\s[-–—]\s/;
+// Words around place names that aren't part of them: "Remote - US only", "Based in Berlin"
+const FILLER_WORDS = /\b(remote|hybrid|on-?site|in[- ]office|in[- ]person|fully|only|based(?: in| out of)?|located in|anywhere in|first|friendly|preferred|work from home|wfh|telecommute|distributed|hq|headquarters|office|within)\b/gi;
+const PLACE_NAME = /^[A-Za-zÀ-ÿ][A-Za-zÀ-ÿ .'-]{1,40}$/;
+
+const cityIndex = new Map<string, GazetteerCity[]>();
+for (const city of CITIES) {
+  for (const name of [city.name, ...(city.aliases || [])]) {
+    const key = name.toLowerCase();
+    cityIndex.set(key, [...(cityIndex.get(key) || []), city]);
+  }
+}
+
+const countriesByName = new Map<string, GazetteerCountry>();
+for (const country of COUNTRIES) {
+  for (const name of [country.name, ...country.aliases]) {
+    countriesByName.set(name.toLowerCase(), country);
+  }
+}
+
+// Country names as they appear inside longer text ("US or Canada only").
+// Short aliases (US, UK, UAE) only count in capitals so "us" the word doesn't.
+const countryMentions = COUNTRIES.map(country => {
+  const names = [country.name, ...country.aliases.filter(alias => alias.length > 3 || alias.includes('.'))]
+    .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  // "CA", "IN", "DE" in running text are as likely states as countries
+  const codes = [country.code, ...country.aliases.filter(alias => alias.length <= 3 && !alias.includes('.'))]
+    .map(code => code.toUpperCase())
+    .filter(code => !REGIONS.some(region => region.code === code));
+  return {
+    code: country.code,
+    names: new RegExp(`(^|[^a-zà-ÿ])(${names.join('|')})(?![a-zà-ÿ])`, 'i'),
+    codes: codes.length > 0 ? new RegExp(`\\b(${Array.from(new Set(codes)).join('|')})\\b`) : null
+  };
+});
+
+function cleanPart(part: string): string {
+  return part
+    .replace(FILLER_WORDS, ' ')
+    .replace(/[:]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(in|at|near|around) /i, '');
+}
+
+/**
+ * Region named by a state/province code (as written, capitals) or full name
+ */
+function findRegion(part: string, countryCode?: string | null): GazetteerRegion | null {
+  const candidates = /^[A-Z]{2,3}$/.test(part)
+    ? REGIONS.filter(region => region.code === part)
+    : REGIONS.filter(region => region.name.toLowerCase() === part.toLowerCase());
+  return candidates.find(region => !countryCode || region.country === countryCode) || null;
+}
+
+function findCountry(part: string): GazetteerCountry | null {
+  if (/^[A-Z]{2}$/.test(part)) {
+    const byCode = COUNTRIES.find(country => country.code === part);
+    if (byCode) return byCode;
+  }
+  return countriesByName.get(part.toLowerCase()) || null;
+}
+
+/**
+ * Parse one comma-separated place: "Austin, TX, US", "London, UK", "Ontario"
+ */
+function parsePlace(segment: string): Place | null {
+  const parts = segment.split(',').map(cleanPart).filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const [first, ...rest] = parts;
+  let region: GazetteerRegion | null = null;
+  let country: GazetteerCountry | null = null;
+
+  for (const part of rest) {
+    const partRegion = findRegion(part, country?.code);
+    const partCountry = findCountry(part);
+    if (partRegion && partCountry) {
+      // "CA" is California right after a city and Canada after a province
+      if (!region) region = partRegion;
+      else if (!country) country = partCountry;
+    } else if (partRegion && !region) {
+      region = partRegion;
+    } else if (partCountry && !country) {
+      country = partCountry;
+    }
+  }
+  if (region && country && region.country !== country.code) {
+    region = findRegion(region.code, country.code) || findRegion(region.name, country.code);
+  }
+
+  const cities = (cityIndex.get(first.toLowerCase()) || []).filter(city =>
+    (!region || (city.region === region.code && city.country === region.country)) &&
+    (!country || city.country === country.code)
+  );
+  const firstRegion = findRegion(first, country?.code);
+  const firstCountry = findCountry(first);
+  let city: string | null = null;
+
+  if (cities.length > 0) {
+    city = cities[0].name;
+    country = country || COUNTRIES.find(candidate => candidate.code === cities[0].country) || null;
+    region = region || (cities[0].region ? findRegion(cities[0].region, cities[0].country) : null);
+  } else if (firstRegion || firstCountry) {
+    // "Texas, US", "Germany", or a list of countries ("United States, Canada")
+    region = region || firstRegion;
+    country = firstCountry || country;
+  } else if ((region || country) && PLACE_NAME.test(first)) {
+    // A city the gazetteer doesn't know, placed by its region or country
+    city = first;
+  }
+
+  if (!city && !region && !country) return null;
+  return {
+    city,
+    region: region?.code || null,
+    country: country?.code || region?.country || null
+  };
+}
+
+/**
+ * Countries and areas ("Europe", "LATAM") mentioned anywhere in a piece of text
+ */
+export function findRemoteRegions(text: string): string[] {
+  const countries = countryMentions
+    .filter(mention => mention.names.test(text) || !!mention.codes?.test(text))
+    .map(mention => mention.code);
+  const areas = REMOTE_AREAS
+    .filter(area => area.pattern.test(text))
+    .map(area => area.name);
+  return Array.from(new Set([...countries, ...areas]));
+}
+
+function workplaceFromHint(workplaceType: string | null | undefined): JobLocation['remoteType'] {
+  if (!workplaceType) return null;
+  if (/remote|telecommute/i.test(workplaceType)) return 'remote';
+  if (/hybrid/i.test(workplaceType)) return 'hybrid';
+  if (/on-?site|office|in[- ]?person/i.test(workplaceType)) return 'onsite';
+  return null;
+}
+
+/**
+ * Structured location for a posting's location text. The first recognized
+ * place becomes city/region/country; for remote jobs, places without a city
+ * ("Remote - US", "Remote (Europe)") are where applicants may live instead.
+ */
+export function normalizeLocation(text: string | null | undefined, hints: LocationHints = {}): JobLocation {
+  const raw = text && !UNKNOWN_PATTERN.test(text) ? text : '';
+  const remoteTag = (hints.tags || []).some(tag => /^remote$/i.test(tag.trim()));
+
+  const segments = raw.split(SEGMENT_SEPARATOR).map(segment => segment.trim()).filter(Boolean);
+  const places = segments.map(segment => ({ segment, place: parsePlace(segment) }));
+  const located = places.find(({ place }) => place?.city)?.place ||
+                  places.find(({ place }) => place)?.place ||
+                  null;
+
+  let remoteType = workplaceFromHint(hints.workplaceType);
+  if (!remoteType) {
+    if (HYBRID_PATTERN.test(raw)) remoteType = 'hybrid';
+    else if (hints.remote || REMOTE_PATTERN.test(raw) || remoteTag) remoteType = 'remote';
+    else if (ONSITE_PATTERN.test(raw) || located) remoteType = 'onsite';
+  }
+
+  let remoteRegions: string[] = [];
+  if (remoteType === 'remote') {
+    const structured = (hints.remoteRegions || []).flatMap(region => {
+      const found = findRemoteRegions(region);
+      return found.length > 0 ? found : [region.trim()];
+    });
+    const written = places
+      .filter(({ place }) => !place?.city)
+      .flatMap(({ segment }) => findRemoteRegions(segment));
+    remoteRegions = Array.from(new Set([...structured, ...written])).filter(region => region && region !== 'Worldwide');
+  }
+
+  const countries = remoteRegions.filter(region => /^[A-Z]{2}$/.test(region));
+  return {
+    city: located?.city || null,
+    region: located?.region || null,
+    // "Remote - US" has no office, but the job is still in the US
+    country: located?.country || (countries.length === 1 ? countries[0] : null),
+    remoteType,
+    remoteRegions
+  };
+}
+
+/**
+ * A job's structured location: the stored one, or parsed from its location text
+ */
+export function jobLocationOf(job: LocatedJob): JobLocation {
+  return (job.normalizedLocation as JobLocation | null) ||
+         normalizeLocation(job.location, { tags: Array.isArray(job.tags) ? job.tags : [] });
+}
+
+/**
+ * Whether someone living in `country` can take the job: it is there, or it is
+ * remote with no restriction that leaves them out
+ */
+export function isOpenToCountry(location: JobLocation, country: string): boolean {
+  if (location.remoteType === 'remote') {
+    if (location.remoteRegions.length === 0) return !location.country || location.country === country;
+    return location.remoteRegions.includes(country) || REMOTE_AREAS.some(area => location.remoteRegions.includes(area.name) && area.countries.includes(country));
+  }
+  return location.country === country;
+}
+
+/**
+ * How well a job's location fits a wanted location (e.g. one from the user's
+ * preferences); null when it doesn't
+ */
+export function matchLocation(job: JobLocation, wanted: JobLocation): LocationMatch | null {
+  if (wanted.city && job.city && wanted.city.toLowerCase() === job.city.toLowerCase() &&
+      (!wanted.country || !job.country || wanted.country === job.country)) {
+    return 'city';
+  }
+  if (wanted.region && job.region === wanted.region && job.country === wanted.country) return 'region';
+  if (wanted.country && job.remoteType === 'remote' && isOpenToCountry(job, wanted.country)) return 'remote';
+  if (!wanted.city && !wanted.region && wanted.country && job.country === wanted.country) return 'country';
+  return null;
+}
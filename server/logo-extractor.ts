@@ -4,6 +4,7 @@
  */
 
 import * as cheerio from 'cheerio';
+import { findPlatformAdapter } from './platforms';
 
 interface LogoExtractionResult {
   logo: string | null;
@@ -54,92 +55,17 @@ export function extractCompanyLogo(
  * Extract logo from ATS page using platform-specific selectors
  */
 function extractLogoFromATS($: cheerio.CheerioAPI, platform: string, url: string): string | null {
-  let logoSelectors: string[] = [];
-  
-  // Platform-specific logo selectors
-  switch (platform.toLowerCase()) {
-    case 'greenhouse':
-    case 'greenhouse.io':
-      logoSelectors = [
-        '.company-logo img',
-        '.header-company-logo img',
-        '[data-qa="company-logo"] img',
-        '.company-header img',
-        'header img[alt*="logo" i]',
-        'header img[src*="logo" i]',
-        '.company-info img'
-      ];
-      break;
-      
-    case 'lever':
-    case 'lever.co':
-      logoSelectors = [
-        '.company-logo img',
-        '.posting-header img',
-        '.header img',
-        'img[alt*="logo" i]',
-        '.company-img img'
-      ];
-      break;
-      
-    case 'ashby':
-    case 'ashbyhq.com':
-      logoSelectors = [
-        '[data-testid="company-logo"] img',
-        '[data-testid*="logo"] img',
-        '[data-testid*="company"] img',
-        '.company-logo img',
-        'header img',
-        'img[alt*="logo" i]',
-        'img[src*="logo" i]'
-      ];
-      break;
-      
-    case 'workday':
-    case 'myworkdayjobs.com':
-      logoSelectors = [
-        '.company-logo img',
-        '[data-automation-id="company-logo"] img',
-        'header img',
-        '.wd-header img'
-      ];
-      break;
-      
-    case 'workable':
-    case 'jobs.workable.com':
-      logoSelectors = [
-        '[data-ui="company-logo"] img',
-        '[data-ui*="logo"] img',
-        '.company-logo img',
-        '.header-logo img',
-        'header img[alt*="logo" i]',
-        '.company-header img',
-        'img[src*="logo" i]'
-      ];
-      break;
-      
-    case 'adp':
-      logoSelectors = [
-        '.company-logo img',
-        '.header img',
-        'img[alt*="logo" i]',
-        '.company-branding img'
-      ];
-      break;
-      
-    default:
-      // Generic selectors for unknown platforms
-      logoSelectors = [
-        '.company-logo img',
-        '.logo img',
-        'header img',
-        'img[alt*="logo" i]',
-        'img[src*="logo" i]',
-        'img[class*="logo" i]',
-        '.company img',
-        '.brand img'
-      ];
-  }
+  // Platform-specific logo selectors, generic selectors for unknown platforms
+  const logoSelectors = findPlatformAdapter(platform)?.logoSelectors || [
+    '.company-logo img',
+    '.logo img',
+    'header img',
+    'img[alt*="logo" i]',
+    'img[src*="logo" i]',
+    'img[class*="logo" i]',
+    '.company img',
+    '.brand img'
+  ];
   
   // Try each selector
   for (const selector of logoSelectors) {
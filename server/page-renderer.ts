@@ -0,0 +1,224 @@
+/**
+ * Headless-browser rendering for career pages that build their content in
+ * JavaScript, so a static fetch only sees an empty shell. Opt in with
+ * RENDER_FALLBACK=true; it needs the optional playwright package and a
+ * Chromium install (`npx playwright install chromium`). Scraping only
+ * calls it after static extraction comes up empty. Page loads follow
+ * robots.txt and take per-host turns with static fetches.
+ */
+
+import type { Browser, BrowserContext } from 'playwright';
+import { POLITE_USER_AGENT, PoliteFetchError, politeFetcher } from './polite-fetch';
+
+const DEFAULT_MAX_CONCURRENT = 2;
+const DEFAULT_TIMEOUT = 15 * 1000; // 15 seconds per page, start to finish
+// Time allowed after DOMContentLoaded for client-side requests to settle
+const SETTLE_TIMEOUT = 5 * 1000; // 5 seconds
+// Contexts are reused, then thrown away to keep browser memory in check
+const RENDERS_PER_CONTEXT = 20;
+// The browser is shut down after this long without a render
+const IDLE_SHUTDOWN = 5 * 60 * 1000; // 5 minutes
+const MAX_HTML_LENGTH = 2 * 1024 * 1024; // Same cap as static fetches
+// Not needed to read a posting, and the bulk of what a page downloads
+const BLOCKED_RESOURCES = ['image', 'media', 'font', 'stylesheet'];
+
+interface PooledContext {
+  context: BrowserContext;
+  renders: number;
+}
+
+function positiveIntFromEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return value > 0 ? value : fallback;
+}
+
+export class PageRenderer {
+  private browser: Promise<Browser> | null = null;
+  private idleContexts: PooledContext[] = [];
+  private active = 0;
+  private waiters: Array<() => void> = [];
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  // Set when playwright or Chromium turned out to be missing
+  private unavailable = false;
+
+  isEnabled(): boolean {
+    return process.env.RENDER_FALLBACK === 'true' && !this.unavailable;
+  }
+
+  get maxConcurrent(): number {
+    return positiveIntFromEnv('RENDER_MAX_CONCURRENT', DEFAULT_MAX_CONCURRENT);
+  }
+
+  /**
+   * Rendered HTML for a page, or null when rendering is off, the renderer
+   * can't start, or the page didn't load in time
+   */
+  async render(url: string, signal?: AbortSignal): Promise<string | null> {
+    if (!this.isEnabled() || signal?.aborted) return null;
+
+    await this.acquire();
+    let pooled: PooledContext | null = null;
+    try {
+      if (signal?.aborted) return null;
+      pooled = await this.takeContext();
+      if (!pooled) return null;
+      return await this.renderInContext(pooled, url, signal);
+    } catch (error) {
+      // Blocked by robots.txt or cancelled before loading; the context is fine
+      if (error instanceof PoliteFetchError) {
+        console.log(`⚠️ Skipped rendering ${url}: ${error.message}`);
+        return null;
+      }
+      console.log(`⚠️ Rendering ${url} failed: ${error instanceof Error ? error.message : error}`);
+      // A context that errored may be wedged, so don't hand it out again
+      if (pooled) {
+        pooled.context.close().catch(() => undefined);
+        pooled = null;
+      }
+      return null;
+    } finally {
+      if (pooled) this.returnContext(pooled);
+      this.release();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    const browser = this.browser;
+    this.browser = null;
+    this.idleContexts = [];
+    if (browser) {
+      await browser.then(b => b.close()).catch(() => undefined);
+      console.log('🖥️ Page renderer browser closed');
+    }
+  }
+
+  private async renderInContext(pooled: PooledContext, url: string, signal?: AbortSignal): Promise<string | null> {
+    const timeoutMs = positiveIntFromEnv('RENDER_TIMEOUT_MS', DEFAULT_TIMEOUT);
+    const deadline = Date.now() + timeoutMs;
+    const page = await pooled.context.newPage();
+    pooled.renders++;
+
+    const onAbort = () => { page.close().catch(() => undefined); };
+    signal?.addEventListener('abort', onAbort);
+
+    try {
+      page.setDefaultTimeout(timeoutMs);
+      await page.route('**/*', route => {
+        return BLOCKED_RESOURCES.includes(route.request().resourceType()) ? route.abort() : route.continue();
+      });
+
+      const startedAt = Date.now();
+      // The load counts against the host like any other request to it
+      const loaded = await politeFetcher.withHostSlot(url, async () => {
+        const response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout: timeoutMs });
+        if (response && !response.ok()) {
+          console.log(`⚠️ Rendering ${url} got HTTP ${response.status()}`);
+          return false;
+        }
+
+        // Single-page apps fetch the posting after load; give them a moment
+        const settleMs = Math.min(SETTLE_TIMEOUT, deadline - Date.now());
+        if (settleMs > 0) {
+          await page.waitForLoadState('networkidle', { timeout: settleMs }).catch(() => undefined);
+        }
+        return true;
+      }, signal);
+      if (!loaded) return null;
+
+      const html = await page.content();
+      console.log(`🖥️ Rendered ${url} in ${Date.now() - startedAt}ms`);
+      return html.length > MAX_HTML_LENGTH ? html.substring(0, MAX_HTML_LENGTH) : html;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      await page.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Wait for one of the RENDER_MAX_CONCURRENT render slots
+   */
+  private async acquire(): Promise<void> {
+    while (this.active >= this.maxConcurrent) {
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+    this.active++;
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  private release(): void {
+    this.active--;
+    this.waiters.shift()?.();
+
+    if (this.active === 0 && this.browser && !this.idleTimer) {
+      this.idleTimer = setTimeout(() => {
+        this.idleTimer = null;
+        if (this.active === 0) this.close();
+      }, IDLE_SHUTDOWN);
+      // An idle browser shouldn't keep the process alive on its own
+      this.idleTimer.unref?.();
+    }
+  }
+
+  private async takeContext(): Promise<PooledContext | null> {
+    const pooled = this.idleContexts.pop();
+    if (pooled) return pooled;
+
+    const browser = await this.launch();
+    if (!browser) return null;
+
+    const context = await browser.newContext({
+      userAgent: POLITE_USER_AGENT,
+      javaScriptEnabled: true,
+      serviceWorkers: 'block'
+    });
+    return { context, renders: 0 };
+  }
+
+  private returnContext(pooled: PooledContext): void {
+    if (pooled.renders >= RENDERS_PER_CONTEXT || !this.browser) {
+      pooled.context.close().catch(() => undefined);
+      return;
+    }
+    this.idleContexts.push(pooled);
+  }
+
+  /**
+   * Start Chromium on first use; a missing playwright package or browser
+   * turns rendering off instead of failing every scrape
+   */
+  private async launch(): Promise<Browser | null> {
+    if (this.unavailable) return null;
+    if (!this.browser) {
+      this.browser = import('playwright').then(async ({ chromium }) => {
+        const browser = await chromium.launch({ headless: true });
+        browser.on('disconnected', () => {
+          this.browser = null;
+          this.idleContexts = [];
+        });
+        console.log('🖥️ Page renderer browser started');
+        return browser;
+      });
+    }
+
+    const launching = this.browser;
+    try {
+      return await launching;
+    } catch (error) {
+      // Renders that were waiting on the same launch only report it once
+      if (this.browser !== launching) return null;
+      this.browser = null;
+      this.unavailable = true;
+      console.error('❌ Page rendering is unavailable, scraping will use static pages only:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+}
+
+export const pageRenderer = new PageRenderer();
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { InsertJob } from '@shared/schema';
+import { PlatformSearchError, prioritizePlatforms, RateBudget, runPlatformSearches } from './platform-scheduler';
+
+function jobs(count: number): InsertJob[] {
+  return Array.from({ length: count }, (_, index) => ({
+    title: 'Backend Engineer',
+    company: 'Acme Robotics',
+    location: 'Remote',
+    url: `https://acmerobotics.com/careers/${index}`,
+    platform: 'Company Site'
+  }));
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('RateBudget', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // One request a second, with ten seconds' worth banked
+    vi.stubEnv('SEARCH_REQUESTS_PER_MINUTE', '60');
+  });
+
+  it('lets a burst through, then one request per refill', async () => {
+    const budget = new RateBudget();
+    const granted: number[] = [];
+    const takes = Array.from({ length: 12 }, (_, index) => budget.take().then(() => granted.push(index)));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toHaveLength(10);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(granted).toHaveLength(11);
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all(takes);
+    expect(granted).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+  });
+
+  it('gives up on an aborted wait without holding up the callers behind it', async () => {
+    const budget = new RateBudget();
+    await Promise.all(Array.from({ length: 10 }, () => budget.take()));
+
+    const controller = new AbortController();
+    const abandoned = budget.take(controller.signal);
+    const next = budget.take();
+    controller.abort();
+
+    await expect(abandoned).resolves.toBe(false);
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(next).resolves.toBe(true);
+  });
+});
+
+describe('prioritizePlatforms', () => {
+  it('puts the platforms finding the most jobs first and the empty ones last', async () => {
+    const found: Record<string, number> = { 'prio-high': 8, 'prio-low': 2, 'prio-empty': 0 };
+    await runPlatformSearches(['prio-high', 'prio-low', 'prio-empty', 'prio-failing'], async platform => {
+      if (platform === 'prio-failing') throw new Error('Search providers unavailable');
+      return jobs(found[platform]);
+    });
+
+    // A platform that only failed has no yield yet, so it keeps its catalog place among the new ones
+    expect(prioritizePlatforms(['prio-empty', 'prio-new', 'prio-failing', 'prio-low', 'prio-high']))
+      .toEqual(['prio-high', 'prio-low', 'prio-new', 'prio-failing', 'prio-empty']);
+  });
+
+  it('keeps catalog order for platforms not searched yet', () => {
+    expect(prioritizePlatforms(['unseen-c', 'unseen-a', 'unseen-b'])).toEqual(['unseen-c', 'unseen-a', 'unseen-b']);
+  });
+});
+
+describe('runPlatformSearches', () => {
+  it('reports a failed platform alongside the others', async () => {
+    const failure = new Error('Search providers unavailable');
+    const results = await runPlatformSearches(['run-ok', 'run-failing'], async platform => {
+      if (platform === 'run-failing') throw failure;
+      return jobs(2);
+    });
+
+    expect(results.find(result => result.platform === 'run-ok')).toMatchObject({ jobs: jobs(2) });
+    expect(results.find(result => result.platform === 'run-failing')).toMatchObject({ jobs: [], error: failure });
+  });
+
+  it('rejects when every platform failed', async () => {
+    const failure = new Error('Every search provider is cooling down after hitting its limit');
+    const run = runPlatformSearches(['all-failing-a', 'all-failing-b'], async () => { throw failure; });
+
+    await expect(run).rejects.toBeInstanceOf(PlatformSearchError);
+    await expect(run).rejects.toMatchObject({ message: failure.message, firstError: failure });
+  });
+
+  it('treats a cancelled run as stopped, not failed', async () => {
+    const controller = new AbortController();
+    const results = await runPlatformSearches(['cancel-a', 'cancel-b'], async () => {
+      controller.abort();
+      throw new Error('The operation was aborted');
+    }, { concurrency: 1, signal: controller.signal });
+
+    expect(results.map(result => result.platform)).toEqual(['cancel-a']);
+  });
+
+  it('keeps to the concurrency limit', async () => {
+    let running = 0;
+    let mostRunning = 0;
+    await runPlatformSearches(['limit-a', 'limit-b', 'limit-c', 'limit-d', 'limit-e'], async () => {
+      running++;
+      mostRunning = Math.max(mostRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return [];
+    }, { concurrency: 2 });
+
+    expect(mostRunning).toBe(2);
+  });
+});
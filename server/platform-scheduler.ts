@@ -0,0 +1,188 @@
+/**
+ * Fans a search out across platforms. Platforms run concurrently, the ones
+ * that have been finding the most jobs go first, and every discovery API
+ * call draws from one requests-per-minute budget shared by all searches.
+ */
+
+import type { InsertJob } from '@shared/schema';
+
+const DEFAULT_REQUESTS_PER_MINUTE = 60;
+// Unused budget banks up to this many seconds' worth, so short searches start at once
+const BURST_SECONDS = 10;
+const DEFAULT_CONCURRENCY = 6;
+// Weight of the newest search in a platform's running yield
+const YIELD_SMOOTHING = 0.3;
+
+export interface PlatformRunResult {
+  platform: string;
+  jobs: InsertJob[];
+  error?: unknown;
+  durationMs: number;
+}
+
+export interface PlatformRunOptions {
+  // Platforms searched at once (PLATFORM_CONCURRENCY, default 6)
+  concurrency?: number;
+  // Platforms not yet started are skipped once this aborts
+  signal?: AbortSignal;
+  onStart?(platform: string): void;
+  // Called as each platform finishes, in completion order
+  onComplete?(result: PlatformRunResult): void;
+}
+
+/**
+ * Every platform of a search failed, usually because no search provider
+ * could answer. The message is the first platform's error.
+ */
+export class PlatformSearchError extends Error {
+  failures: PlatformRunResult[];
+  firstError: unknown;
+
+  constructor(failures: PlatformRunResult[]) {
+    const firstError = failures[0]?.error;
+    super(firstError instanceof Error ? firstError.message : 'Every platform search failed');
+    this.name = 'PlatformSearchError';
+    this.failures = failures;
+    this.firstError = firstError;
+  }
+}
+
+function positiveIntFromEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return value > 0 ? value : fallback;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * Token bucket refilled at SEARCH_REQUESTS_PER_MINUTE. Callers are served
+ * in the order they asked.
+ */
+export class RateBudget {
+  private tokens: number | null = null;
+  private updatedAt = Date.now();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  get perMinute(): number {
+    return positiveIntFromEnv('SEARCH_REQUESTS_PER_MINUTE', DEFAULT_REQUESTS_PER_MINUTE);
+  }
+
+  /**
+   * Wait for one request's worth of budget; false if `signal` aborted first
+   */
+  take(signal?: AbortSignal): Promise<boolean> {
+    const turn = this.queue.then(() => this.waitForToken(signal));
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async waitForToken(signal?: AbortSignal): Promise<boolean> {
+    let waited = false;
+    while (!signal?.aborted) {
+      const perMs = this.perMinute / 60000;
+      const capacity = Math.max(1, this.perMinute * BURST_SECONDS / 60);
+      const now = Date.now();
+      this.tokens = Math.min(capacity, (this.tokens ?? capacity) + (now - this.updatedAt) * perMs);
+      this.updatedAt = now;
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return true;
+      }
+
+      if (!waited) {
+        console.log(`⏳ Discovery budget of ${this.perMinute}/min used up, waiting for the next slot`);
+        waited = true;
+      }
+      await sleep(Math.ceil((1 - this.tokens) / perMs), signal);
+    }
+    return false;
+  }
+}
+
+export const discoveryBudget = new RateBudget();
+
+// Smoothed jobs-per-search for each platform, learned as searches finish
+const platformYields = new Map<string, number>();
+
+function recordYield(platform: string, jobCount: number): void {
+  const previous = platformYields.get(platform);
+  platformYields.set(
+    platform,
+    previous === undefined ? jobCount : previous + YIELD_SMOOTHING * (jobCount - previous)
+  );
+}
+
+/**
+ * Platforms ordered by how many jobs they have been finding. Ones not
+ * searched yet keep their catalog order, after platforms that found jobs
+ * and before ones that came up empty.
+ */
+export function prioritizePlatforms(platforms: string[]): string[] {
+  return platforms
+    .map((platform, index) => ({ platform, index, yield: platformYields.get(platform) }))
+    .sort((a, b) => {
+      if (a.yield !== undefined && b.yield !== undefined && a.yield !== b.yield) return b.yield - a.yield;
+      if (a.yield !== undefined && b.yield === undefined) return a.yield > 0 ? -1 : 1;
+      if (a.yield === undefined && b.yield !== undefined) return b.yield > 0 ? 1 : -1;
+      return a.index - b.index;
+    })
+    .map(entry => entry.platform);
+}
+
+/**
+ * Search every platform with a pool of workers and return the results in
+ * the order the platforms finished. A platform that throws is reported with
+ * its error and no jobs; the others carry on. When every platform throws,
+ * the run rejects with a PlatformSearchError instead.
+ */
+export async function runPlatformSearches(
+  platforms: string[],
+  search: (platform: string) => Promise<InsertJob[]>,
+  options: PlatformRunOptions = {}
+): Promise<PlatformRunResult[]> {
+  const pending = prioritizePlatforms(platforms);
+  const results: PlatformRunResult[] = [];
+  const concurrency = Math.min(
+    options.concurrency || positiveIntFromEnv('PLATFORM_CONCURRENCY', DEFAULT_CONCURRENCY),
+    pending.length
+  );
+
+  const worker = async () => {
+    while (pending.length > 0 && !options.signal?.aborted) {
+      const platform = pending.shift()!;
+      options.onStart?.(platform);
+      const startedAt = Date.now();
+
+      let result: PlatformRunResult;
+      try {
+        const jobs = await search(platform);
+        recordYield(platform, jobs.length);
+        result = { platform, jobs, durationMs: Date.now() - startedAt };
+      } catch (error) {
+        result = { platform, jobs: [], error, durationMs: Date.now() - startedAt };
+      }
+
+      results.push(result);
+      options.onComplete?.(result);
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, worker));
+
+  // Nothing but failures is a failed search, not an empty one
+  if (results.length > 0 && results.every(result => result.error) && !options.signal?.aborted) {
+    throw new PlatformSearchError(results);
+  }
+  return results;
+}
@@ -0,0 +1,279 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import './platforms';
+import {
+  classifySearchResults,
+  discoverSearchResults,
+  enrichDiscoveredUrls,
+  extractJobFromHtml,
+  fallbackFromSearchData,
+  scrapeJobDetails,
+  scrapeJobsFromPlatform
+} from './platform-search';
+import { fakeProvider } from './search-providers/fake';
+import type { SearchResultItem } from './search-providers';
+import { politeFetcher } from './polite-fetch';
+import { fakeResponse, loadFixture, mockBoardApi } from './platforms/__fixtures__/board-api-mock';
+
+const GREENHOUSE_BOARD_API = 'https://boards-api.greenhouse.io/v1/boards';
+const ASHBY_POSTING = 'https://jobs.ashbyhq.com/fabrikam/0b7c9d3e-3333-4a2b-9c8d-7e6f5a4b3c2d';
+const CAREER_PAGE_POSTING = 'https://careers.tailspintoys.example/jobs/site-reliability-engineer-204';
+
+function loadPage(name: string): string {
+  return readFileSync(path.join(import.meta.dirname, '__fixtures__', name), 'utf-8');
+}
+
+/**
+ * Serve the given response bodies (pages or board API JSON) through the
+ * polite fetcher and 404 anything else
+ */
+function mockFetch(bodies: Record<string, string>) {
+  return vi.spyOn(politeFetcher, 'fetch').mockImplementation(async url =>
+    url in bodies ? fakeResponse(url, 200, bodies[url]) : fakeResponse(url, 404, 'Not found')
+  );
+}
+
+beforeEach(() => {
+  vi.stubEnv('SEARCH_PROVIDERS', 'fake');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('cached search results', () => {
+  it('classify the same as the fresh results they were cached from', async () => {
+    const search = vi.spyOn(fakeProvider, 'search');
+    const query = '(site:ashbyhq.com OR site:greenhouse.io) intext:"apply" intext:"engineer"';
+
+    const fresh = await discoverSearchResults(query);
+    const freshCalls = search.mock.calls.length;
+    const cached = await discoverSearchResults(query);
+    expect(search).toHaveBeenCalledTimes(freshCalls);
+
+    expect(cached).toEqual(fresh);
+    const freshClassified = classifySearchResults(fresh);
+    expect(freshClassified.jobs.length).toBeGreaterThan(0);
+    expect(freshClassified.urlsToScrape.length).toBeGreaterThan(0);
+    expect(classifySearchResults(cached)).toEqual(freshClassified);
+  });
+
+  it('give the same jobs as a fresh platform search', async () => {
+    // Board APIs and posting pages all fail, so scraped URLs take the snippet fallback
+    mockBoardApi({});
+    const search = vi.spyOn(fakeProvider, 'search');
+
+    const fresh = await scrapeJobsFromPlatform('engineer', 'ashbyhq.com', 'all');
+    const freshCalls = search.mock.calls.length;
+    const cached = await scrapeJobsFromPlatform('engineer', 'ashbyhq.com', 'all');
+
+    expect(search).toHaveBeenCalledTimes(freshCalls);
+    expect(fresh.map(job => [job.url, job.company])).toEqual([
+      ['https://jobs.ashbyhq.com/fabrikam/0b7c9d3e-3333-4a2b-9c8d-7e6f5a4b3c2d', 'Fabrikam']
+    ]);
+    expect(cached).toEqual(fresh);
+  });
+});
+
+describe('extractJobFromHtml', () => {
+  it('reads a posting from its JSON-LD', () => {
+    const { job } = extractJobFromHtml(loadPage('ashby-posting.html'), ASHBY_POSTING);
+
+    expect(job).toMatchObject({
+      title: 'Machine Learning Engineer',
+      company: 'Fabrikam',
+      location: 'San Francisco, CA, US',
+      platform: 'Ashby',
+      url: ASHBY_POSTING
+    });
+    expect(job?.postedAt).toEqual(new Date('2026-09-28'));
+    expect(job?.salary).toMatchObject({ min: 170000, max: 210000, currency: 'USD', period: 'year' });
+  });
+
+  it('falls back to career page heuristics without JSON-LD', () => {
+    const { job } = extractJobFromHtml(loadPage('career-page-posting.html'), CAREER_PAGE_POSTING);
+
+    expect(job).toMatchObject({
+      title: 'Site Reliability Engineer',
+      company: 'Tailspin Toys',
+      location: 'Denver, CO',
+      platform: 'Career Pages'
+    });
+  });
+
+  it('marks a posting past its validThrough as expired', () => {
+    const extraction = extractJobFromHtml(loadPage('expired-posting.html'), CAREER_PAGE_POSTING);
+    expect(extraction).toEqual({ job: null, expired: true });
+  });
+
+  it('gives up on a client-rendered shell without marking it expired', () => {
+    const extraction = extractJobFromHtml(loadPage('client-rendered-shell.html'), ASHBY_POSTING);
+    expect(extraction).toEqual({ job: null });
+  });
+});
+
+describe('scrapeJobDetails', () => {
+  it('fetches the posting page and extracts the job', async () => {
+    mockFetch({ [ASHBY_POSTING]: loadPage('ashby-posting.html') });
+
+    const job = await scrapeJobDetails(ASHBY_POSTING, 'engineer');
+    expect(job).toMatchObject({ title: 'Machine Learning Engineer', company: 'Fabrikam' });
+  });
+
+  it('returns null when the page is missing', async () => {
+    mockFetch({});
+    expect(await scrapeJobDetails(ASHBY_POSTING, 'engineer')).toBeNull();
+  });
+});
+
+describe('classifySearchResults', () => {
+  it('builds direct job links from the result and queues the rest for scraping', () => {
+    const ashbyItem: SearchResultItem = {
+      url: ASHBY_POSTING,
+      title: 'Machine Learning Engineer @ Fabrikam',
+      snippet: 'San Francisco, CA. Fabrikam is hiring. Apply today.'
+    };
+    const { jobs, urlsToScrape, searchData } = classifySearchResults([
+      {
+        url: 'https://boards.greenhouse.io/northwindlabs/jobs/4102001',
+        title: 'Senior Backend Engineer - Northwind Labs',
+        snippet: 'Northwind Labs is hiring a Senior Backend Engineer (Remote - US).'
+      },
+      ashbyItem,
+      {
+        url: 'https://tailspintoys.example/blog/how-we-hire',
+        title: 'How we hire engineers',
+        snippet: 'Apply the lessons from our hiring process.'
+      }
+    ]);
+
+    expect(jobs.map(job => [job.title, job.company, job.platform])).toEqual([
+      ['Senior Backend Engineer', 'Northwind Labs', 'Greenhouse']
+    ]);
+    expect(urlsToScrape).toEqual([ASHBY_POSTING]);
+    expect(searchData.get(ASHBY_POSTING)).toBe(ashbyItem);
+  });
+});
+
+describe('ADP search results', () => {
+  const cid = 'a1b2c3d4-0000-4e5f-9a8b-7c6d5e4f3a21';
+  const adpPosting = `https://workforcenow.adp.com/mascsr/default/mdf/recruitment/recruitment.html?cid=${cid}&jobId=9200099&lang=en_US`;
+  const requisitionApi = `https://workforcenow.adp.com/mascsr/default/careercenter/public/events/staffing/v1/job-requisitions/9200099?cid=${cid}&lang=en_US&locale=en_US`;
+  const item: SearchResultItem = {
+    url: adpPosting,
+    title: 'Staff Data Engineer - ADP Workforce Now',
+    snippet: 'Seattle, WA. Apply for Staff Data Engineer. Full time.'
+  };
+
+  it('are never turned into jobs from the snippet', () => {
+    const { jobs, urlsToScrape, searchData } = classifySearchResults([item]);
+
+    expect(jobs).toEqual([]);
+    expect(urlsToScrape).toEqual([adpPosting]);
+    expect(searchData.has(adpPosting)).toBe(false);
+  });
+
+  it('become jobs from the requisition API with its company', async () => {
+    mockBoardApi({ [requisitionApi]: loadFixture('adp-requisition.json') });
+
+    const { urlsToScrape, searchData } = classifySearchResults([item]);
+    const { jobs, failedUrls } = await enrichDiscoveredUrls(urlsToScrape, 'engineer', []);
+
+    expect(jobs.map(job => [job.title, job.company, job.platform])).toEqual([
+      ['Staff Data Engineer', 'Fourth Coffee Inc.', 'ADP']
+    ]);
+    expect(fallbackFromSearchData(failedUrls, searchData)).toEqual([]);
+  });
+
+  it('are dropped when the requisition names no company', async () => {
+    mockBoardApi({ [requisitionApi]: loadFixture('adp-requisition-no-company.json') });
+
+    const { urlsToScrape, searchData } = classifySearchResults([item]);
+    const { jobs, failedUrls } = await enrichDiscoveredUrls(urlsToScrape, 'engineer', []);
+
+    expect(jobs).toEqual([]);
+    expect(failedUrls).toEqual([adpPosting]);
+    expect(fallbackFromSearchData(failedUrls, searchData)).toEqual([]);
+  });
+});
+
+describe('enrichDiscoveredUrls', () => {
+  it('reads known boards from their API and scrapes the remaining pages', async () => {
+    const spy = mockFetch({
+      [`${GREENHOUSE_BOARD_API}/acmerobotics/jobs?content=true`]: JSON.stringify(loadFixture('greenhouse-board.json')),
+      [`${GREENHOUSE_BOARD_API}/acmerobotics`]: JSON.stringify(loadFixture('greenhouse-board-info.json')),
+      [ASHBY_POSTING]: loadPage('ashby-posting.html'),
+      [CAREER_PAGE_POSTING]: loadPage('career-page-posting.html')
+    });
+    const missingPosting = 'https://careers.tailspintoys.example/jobs/retired-role-17';
+    const controller = new AbortController();
+
+    const { jobs, failedUrls } = await enrichDiscoveredUrls(
+      ['https://boards.greenhouse.io/acmerobotics/jobs/4056789', ASHBY_POSTING, CAREER_PAGE_POSTING, missingPosting],
+      'engineer',
+      [],
+      controller.signal
+    );
+
+    expect(jobs.map(job => [job.title, job.company])).toEqual([
+      // Kept from the board: one matches the query, the other was discovered
+      ['Senior Software Engineer, Platform', 'Acme Robotics'],
+      ['Field Operations Manager', 'Acme Robotics'],
+      ['Machine Learning Engineer', 'Fabrikam'],
+      ['Site Reliability Engineer', 'Tailspin Toys']
+    ]);
+    expect(failedUrls).toEqual([missingPosting]);
+    // Board API requests are cancelled along with the search
+    const boardCalls = spy.mock.calls.filter(([url]) => url.startsWith(GREENHOUSE_BOARD_API));
+    expect(boardCalls.length).toBeGreaterThan(0);
+    boardCalls.forEach(([, options]) => expect(options?.signal).toBe(controller.signal));
+  });
+
+  it('skips scraping once search results already gave enough jobs', async () => {
+    const spy = mockFetch({});
+    const jobsSoFar = Array.from({ length: 10 }, (_, index) => ({
+      title: `Engineer ${index}`,
+      company: 'Northwind Labs',
+      location: 'Remote',
+      url: `https://boards.greenhouse.io/northwindlabs/jobs/41020${index}`
+    }));
+
+    const { jobs, failedUrls } = await enrichDiscoveredUrls([CAREER_PAGE_POSTING], 'engineer', jobsSoFar);
+
+    expect(jobs).toEqual([]);
+    expect(failedUrls).toEqual([]);
+    expect(spy).not.toHaveBeenCalled();
+  });
+});
+
+describe('fallbackFromSearchData', () => {
+  it('builds a job from the search result when it names the company', () => {
+    const jobs = fallbackFromSearchData([ASHBY_POSTING], new Map([[ASHBY_POSTING, {
+      url: ASHBY_POSTING,
+      title: 'Machine Learning Engineer - Fabrikam',
+      snippet: 'San Francisco, CA. $170,000 - $210,000 a year.'
+    }]]));
+
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]).toMatchObject({
+      title: 'Machine Learning Engineer',
+      company: 'Fabrikam',
+      url: ASHBY_POSTING,
+      description: null
+    });
+    expect(jobs[0].salary).toMatchObject({ min: 170000, max: 210000 });
+  });
+
+  it('skips results whose company would only be a guess from the domain', () => {
+    const url = 'https://recruiting.contoso.example/positions/884';
+    const jobs = fallbackFromSearchData([url], new Map([[url, {
+      url,
+      title: 'Senior Accountant',
+      snippet: 'Chicago, IL. Hybrid schedule with competitive benefits.'
+    }]]));
+
+    expect(jobs).toEqual([]);
+  });
+});
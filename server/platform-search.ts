@@ -0,0 +1,740 @@
+/**
+ * Searching one platform: discover search results → classify them into
+ * jobs and URLs → enrich the URLs from board APIs and posting pages →
+ * fall back to the search snippet for postings that couldn't be read
+ */
+
+import * as cheerio from "cheerio";
+import type { InsertJob } from "@shared/schema";
+import { extractSalary } from "./salary-extraction";
+import { normalizeLocation } from "./location-normalizer";
+import { matchesLocationQuery, parseLocationQuery } from "./location-filter";
+import { matchesSearchQuery, parseSearchQuery } from "./search-query";
+import { extractJobPostingLd, extractLdCompany } from "./json-ld";
+import { extractCompanyLogo } from "./logo-extractor";
+import { extractLocationFromText, extractPostingDateFromText, extractTags, isLikelyCompanyName, cleanCompanyName } from "./job-extraction";
+import {
+  buildSearchQuery,
+  careerPagesAdapter,
+  fetchBoardJobsForUrls,
+  getAdapterForUrl,
+  getCompanySlugPatterns,
+  getPlatformFromUrl,
+  isDirectJobUrl
+} from "./platforms";
+import { greenhouseAdapter } from "./platforms/greenhouse";
+import { searchWithFailover, type SearchResultItem } from "./search-providers";
+import { createCache } from "./cache";
+import { discoveryBudget } from "./platform-scheduler";
+import { politeFetcher, PoliteFetchError } from "./polite-fetch";
+import { pageRenderer } from "./page-renderer";
+
+// Raw search discovery results, per query and results page
+const searchCache = createCache<{ provider: string; items: SearchResultItem[] }>('search-results', {
+  ttlMs: 60 * 60 * 1000, // 1 hour
+  maxEntries: 1000
+});
+
+/**
+ * One page of raw search results for a query, from the cache when possible
+ */
+async function searchWithProviders(searchQuery: string, startIndex: number = 1, timeFilter?: string, signal?: AbortSignal): Promise<{ provider: string; items: SearchResultItem[] }> {
+  console.log(`🔍 Search discovery called with query: "${searchQuery}"`);
+  
+  // Check cache first (using query-based cache key)
+  const cacheKey = `${searchQuery}_${startIndex}_${timeFilter || 'all'}`;
+  const cached = await searchCache.get(cacheKey);
+  if (cached) {
+    console.log(`📦 Using cached result for: ${searchQuery}`);
+    return cached;
+  }
+  
+  // Every live discovery call counts against the shared requests-per-minute budget
+  if (!(await discoveryBudget.take(signal))) {
+    return { provider: 'none', items: [] };
+  }
+  
+  try {
+    const { provider, items } = await searchWithFailover({ query: searchQuery, start: startIndex, num: 10, timeFilter });
+    
+    // Cache the successful result
+    await searchCache.set(cacheKey, { provider, items });
+    return { provider, items };
+  } catch (error) {
+    console.error('❌ All search providers failed:', error instanceof Error ? error.message : error);
+    throw error;
+  }
+}
+
+export interface ClassifiedSearchResults {
+  // Jobs built straight from a search result
+  jobs: InsertJob[];
+  urlsToScrape: string[];
+  // The search result behind each URL to scrape, for the snippet fallback;
+  // left out for platforms that never get snippet jobs
+  searchData: Map<string, SearchResultItem>;
+}
+
+/**
+ * Classify stage: sort raw search results into jobs built straight from the
+ * result and URLs that still need scraping
+ */
+export function classifySearchResults(items: SearchResultItem[]): ClassifiedSearchResults {
+  const jobs: InsertJob[] = [];
+  
+  // Separate URLs for traditional scraping
+  const urlsForScraping: string[] = [];
+  
+  // Original search result data, so any failed scrape can fall back to it
+  const searchData = new Map<string, SearchResultItem>();
+
+  items.forEach((item) => {
+    const link = item.url;
+    const title = item.title.toLowerCase();
+    const snippet = item.snippet.toLowerCase();
+    
+    if (!link) return;
+    
+    const adapter = getAdapterForUrl(link);
+    // Platforms whose results can't name the company (ADP) only get jobs from their API or page
+    const snippetJobs = !adapter?.noSnippetJobs;
+    
+    // Extract job title from Google search result
+    const extractedJobTitle = snippetJobs ? extractJobTitleFromSearchResult(item.title || '', item.snippet || '', link) : null;
+    
+    // If we successfully extracted a job title AND it's a direct job URL, add it directly
+    if (extractedJobTitle && isDirectJobUrl(link)) {
+      // Clean company name for logo fetching
+      const cleanCompany = extractedJobTitle.company
+        .toLowerCase()
+        .replace(/[^a-z0-9]/g, '')
+        .replace(/\s+/g, '');
+      
+      const jobFromSearchResult: InsertJob = {
+        title: extractedJobTitle.jobTitle,
+        company: extractedJobTitle.company,
+        location: extractLocationFromText(item.snippet || item.title || '') || 'Location not specified',
+        description: null, // Remove descriptions as requested
+        url: link,
+        // Enhanced logo extraction for Google search results
+        logo: (() => {
+          const logoResult = extractCompanyLogo(cheerio.load(''), extractedJobTitle.company, link, getPlatformFromUrl(link));
+          return logoResult.logo;
+        })(),
+        platform: getPlatformFromUrl(link),
+        tags: extractTags(extractedJobTitle.jobTitle, item.snippet || ''),
+        postedAt: extractPostingDateFromText(item.snippet || item.title || '')
+      };
+      
+      console.log(`✅ Created job from search result: "${jobFromSearchResult.title}" at ${jobFromSearchResult.company}`);
+      jobs.push(jobFromSearchResult);
+      return;
+    }
+    
+    // Handle company career pages with gh_jid as fallback
+    if (link.includes('gh_jid=')) {
+      const directUrl = greenhouseAdapter.canonicalizeUrl?.(link);
+      if (directUrl) {
+        urlsForScraping.push(directUrl);
+        searchData.set(directUrl, item);
+        return;
+      }
+    }
+    
+    const isOtherJobPlatform = !!adapter?.isJobUrl?.(link);
+    
+    // Check if URL suggests a job posting (for non-Greenhouse platforms)
+    const hasJobUrl = link && (
+      link.includes('/careers/') ||
+      link.includes('/career/') ||
+      link.includes('/jobs/') ||
+      link.includes('/job/') ||
+      link.includes('/employment/') ||
+      link.includes('/opportunities/') ||
+      link.includes('/openings/') ||
+      link.includes('/apply/') ||
+      link.includes('/position/') ||
+      link.includes('/vacancy/') ||
+      link.includes('/hiring/')
+    );
+    
+    // Check if title/snippet suggests it's a specific job posting
+    const hasJobIndicators = (
+      title.includes('hiring') ||
+      title.includes('job') ||
+      title.includes('position') ||
+      title.includes('opening') ||
+      title.includes('opportunity') ||
+      title.includes('director') ||
+      snippet.includes('apply') ||
+      snippet.includes('hiring') ||
+      snippet.includes('job description') ||
+      snippet.includes('requirements') ||
+      snippet.includes('qualifications') ||
+      snippet.includes('director') ||
+      snippet.includes('technology')
+    );
+    
+    // Exclude obvious non-job pages
+    const isExcluded = link && (
+      link.includes('/blog/') ||
+      link.includes('/news/') ||
+      link.includes('/about/') ||
+      link.includes('/contact/') ||
+      link.includes('wikipedia.org') ||
+      link.includes('linkedin.com/company/') || // Company pages, not job posts
+      link.includes('glassdoor.com/Overview/') // Company overview pages
+    );
+    
+    // Accept all URLs from known ATS platforms, or URLs that match job patterns
+    if (!isExcluded && (isOtherJobPlatform || (hasJobUrl && hasJobIndicators))) {
+      urlsForScraping.push(link);
+      if (snippetJobs) searchData.set(link, item);
+      console.log(`✅ Added ${isOtherJobPlatform ? adapter!.displayName : 'OTHER'} job URL: ${link}`);
+    } else if (!isExcluded && adapter?.isJobUrl) {
+      // Log rejected ATS URLs for debugging
+      console.log(`❌ ${adapter.displayName} URL rejected: ${link}`);
+      console.log(`   hasJobUrl: ${hasJobUrl}`);
+      console.log(`   hasJobIndicators: ${hasJobIndicators}`);
+    }
+  });
+  
+  console.log(`📊 Search results: ${jobs.length} jobs from search results, ${urlsForScraping.length} URLs for scraping`);
+  
+  return { jobs, urlsToScrape: urlsForScraping, searchData };
+}
+
+// Helper function to create jobs from search result data when scraping fails
+function createJobFromSearchData(
+  searchData: SearchResultItem,
+  url: string
+): InsertJob | null {
+  try {
+    // Extract job title from Google search result
+    const extractedJobTitle = extractJobTitleFromSearchResult(searchData.title, searchData.snippet, url);
+    
+    if (!extractedJobTitle) {
+      console.log(`❌ Could not extract job title from search data for: ${url}`);
+      return null;
+    }
+    
+    // Without a named company the job would carry a placeholder or a guess from the domain
+    if (!extractedJobTitle.companySource || extractedJobTitle.companySource === 'domain') {
+      console.log(`⚠️ No company in search data for: ${url}`);
+      return null;
+    }
+    
+    // Extract platform from URL
+    const platform = getPlatformFromUrl(url);
+    
+    // Create job object from search result data
+    const fallbackJob: InsertJob = {
+      title: extractedJobTitle.jobTitle,
+      company: extractedJobTitle.company,
+      location: extractLocationFromText(searchData.snippet || searchData.title) || 'Location not specified',
+      description: null, // No description from search results
+      url: url,
+      logo: (() => {
+        const logoResult = extractCompanyLogo(cheerio.load(''), extractedJobTitle.company, url, platform);
+        return logoResult.logo;
+      })(),
+      platform: platform,
+      tags: extractTags(extractedJobTitle.jobTitle, searchData.snippet),
+      postedAt: extractPostingDateFromText(searchData.snippet || searchData.title),
+      salary: extractSalary({ text: searchData.snippet })
+    };
+    fallbackJob.normalizedLocation = normalizeLocation(fallbackJob.location, { tags: fallbackJob.tags as string[] });
+    
+    return fallbackJob;
+  } catch (error) {
+    console.error('❌ Error creating job from search data:', error);
+    return null;
+  }
+}
+
+
+export async function scrapeJobDetails(link: string, searchQuery?: string, signal?: AbortSignal): Promise<InsertJob | null> {
+  try {
+    console.log(`🔧 Scraping job details from: ${link}`);
+    
+    const adapter = getAdapterForUrl(link);
+    
+    const response = await politeFetcher.fetch(link, {
+      headers: {
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.5'
+      },
+      timeoutMs: adapter?.slowToFetch ? 15000 : 8000, // 15s for problematic sites, 8s for others
+      signal
+    });
+    
+    if (!response.ok) {
+      // Don't return fallback data - just return null for failed scrapes
+      return null;
+    }
+    
+    const extracted = extractJobFromHtml(response.body, link, searchQuery);
+    if (extracted.job || extracted.expired || !pageRenderer.isEnabled()) {
+      return extracted.job;
+    }
+    
+    // Client-rendered pages come back as an empty shell; try again in a browser
+    console.log(`🖥️ Static extraction failed, rendering ${link}`);
+    const renderedHtml = await pageRenderer.render(link, signal);
+    return renderedHtml ? extractJobFromHtml(renderedHtml, link, searchQuery).job : null;
+  } catch (error) {
+    if (error instanceof PoliteFetchError) {
+      console.log(`⚠️ Skipped ${link}: ${error.message}`);
+      return null;
+    }
+    console.error(`Error scraping ${link}:`, error);
+    // Don't return fallback data - just return null for failed scrapes
+    return null;
+  }
+}
+
+export interface PageExtraction {
+  job: InsertJob | null;
+  // JSON-LD says the posting closed, so rendering the page won't help
+  expired?: boolean;
+}
+
+/**
+ * Build a job from a posting page's HTML: JSON-LD first, then the platform's
+ * extractor, keeping it only if it passes title and company validation
+ */
+export function extractJobFromHtml(html: string, link: string, searchQuery?: string): PageExtraction {
+  const adapter = getAdapterForUrl(link);
+  const $ = cheerio.load(html);
+
+  // A schema.org JobPosting beats any selector heuristics, so it goes first
+  const ldPosting = extractJobPostingLd($);
+  if (ldPosting?.validThrough && ldPosting.validThrough < new Date()) {
+    console.log(`⌛ Posting expired on ${ldPosting.validThrough.toISOString()} - skipping ${link}`);
+    return { job: null, expired: true };
+  }
+  
+  // Company from structured data and meta tags, for the platform extractors
+  const metaCompany = ldPosting?.company ||
+                      extractLdCompany($) ||
+                      $('meta[property="og:site_name"]').attr('content') ||
+                      $('meta[name="application-name"]').attr('content') ||
+                      '';
+
+  // Platforms without their own extractor fall back to career page heuristics
+  const platform = adapter?.extractDetails ? adapter.displayName : careerPagesAdapter.displayName;
+  const extractDetails = adapter?.extractDetails || careerPagesAdapter.extractDetails!;
+  const ldComplete = !!(ldPosting?.title && ldPosting.company && ldPosting.location && ldPosting.description);
+  const scraped = ldComplete ? {} : extractDetails({ $, url: link, searchQuery, metaCompany });
+
+  let title = ldPosting?.title || scraped.title;
+  const company = ldPosting?.company || scraped.company;
+  let location = ldPosting?.location || scraped.location;
+  const description = ldPosting?.description || scraped.description;
+
+  // No fallback logic - only use real extracted data
+  if (!title || title.length < 3 || title.toLowerCase().includes('find your future') || 
+      title.toLowerCase().includes('careers') || title.toLowerCase().includes('jobs')) {
+    console.log(`❌ No valid title extracted for ${platform}: "${title}" - skipping job`);
+    return { job: null };
+  }
+
+  // Extract location from description if not found or is "Not specified"
+  const fullText = `${title} ${company} ${description || ''}`;
+  if (!location || location === 'Not specified' || location.toLowerCase().includes('not specified')) {
+    const extractedLocation = extractLocationFromText(fullText);
+    if (extractedLocation) {
+      location = extractedLocation;
+    }
+  }
+  
+  // Posting date from JSON-LD, otherwise from the description
+  const postedAt = ldPosting?.postedAt || extractPostingDateFromText(fullText);
+
+  // Only return job if we have BOTH title AND company - strict validation
+  if (title && company && title.length > 3 && company.length > 1) {
+    console.log(`✅ Successfully extracted job${ldPosting ? ' (JSON-LD)' : ''}: "${title}" at ${company}`);
+    
+    // Enhanced logo extraction using multiple approaches
+    const logoResult = extractCompanyLogo($, company, link, platform);
+    
+    const tags = [
+      ...(ldPosting?.employmentTypes || []),
+      ...(ldPosting?.remote ? ['Remote'] : []),
+      ...extractTags(title, description || '')
+    ];
+    const normalizedLocation = normalizeLocation(location, {
+      remote: ldPosting?.remote,
+      remoteRegions: ldPosting?.remoteRegions,
+      tags
+    });
+    
+    return {
+      job: {
+        title,
+        company,
+        location: location || 'Not specified',
+        description: description ? description.substring(0, 1000) : null,
+        url: link, // Keep original URL for apply button
+        logo: logoResult.logo || ldPosting?.logo || null,
+        platform,
+        tags: Array.from(new Set(tags)),
+        postedAt,
+        validThrough: ldPosting?.validThrough || null,
+        normalizedLocation,
+        // Read pay from the full description; the stored one is cut short
+        salary: extractSalary({ structured: ldPosting?.salary, text: description })
+      }
+    };
+  }
+  
+  console.log(`❌ Could not extract job details from ${link}`);
+  return { job: null };
+}
+
+function extractJobTitleFromSearchResult(
+  title: string,
+  snippet: string,
+  url: string
+): { jobTitle: string; company: string; companySource: CompanySource | null } | null {
+  if (!title) return null;
+  
+  // Extract company FIRST with comprehensive matching
+  const found = extractCompanyFromMultipleSources(title, snippet, url);
+  const company = found?.name || '';
+  
+  // Clean up the title - remove company names and common suffixes
+  let cleanTitle = title;
+  
+  // Remove company name from title if we found it
+  if (company) {
+    // Create pattern to match company name (case insensitive, handle spaces/punctuation)
+    const companyPattern = new RegExp(`\\s*[-|–]?\\s*${company.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`, 'i');
+    cleanTitle = cleanTitle.replace(companyPattern, '');
+    
+    // Also try removing "at Company" pattern
+    const atCompanyPattern = new RegExp(`\\s*at\\s+${company.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`, 'i');
+    cleanTitle = cleanTitle.replace(atCompanyPattern, '');
+  }
+  
+  // Clean up the title further
+  cleanTitle = cleanTitle
+    .replace(/\s*\|\s*.+$/, '') // Remove "| Company Name"
+    .replace(/\s*-\s*.+$/, '')  // Remove "- Company Name"  
+    .replace(/\s*–\s*.+$/, '')  // Remove "– Company Name"
+    .replace(/\s*at\s+.+$/i, '') // Remove "at Company"
+    .replace(/\s*\(.+\)$/, '')   // Remove "(Location)"
+    .replace(/\s*job\s*$/i, '')  // Remove trailing "job"
+    .replace(/\s*position\s*$/i, '') // Remove trailing "position"
+    .replace(/\s*opening\s*$/i, '') // Remove trailing "opening"
+    .trim();
+  
+  // Basic validation - reject generic titles, but check snippet for actual job content
+  const invalidTitles = ['careers', 'jobs', 'opportunities', 'openings', 'apply', 'home', 'about', 'hiring'];
+  const hasInvalidTitle = invalidTitles.some(invalid => cleanTitle.toLowerCase().includes(invalid) && cleanTitle.length < 30);
+  
+  // If title seems generic, try to extract from snippet instead
+  if (hasInvalidTitle && snippet) {
+    const snippetJobMatch = snippet.match(/(?:director|manager|engineer|analyst|specialist|lead|senior|principal|staff|developer|designer|scientist|architect|consultant)\s+(?:of\s+)?(?:technology|engineering|product|data|marketing|sales|operations|design|security|software|web|mobile|ai|ml)/i);
+    if (snippetJobMatch) {
+      cleanTitle = snippetJobMatch[0];
+      console.log(`🔄 Extracted job title from snippet: "${cleanTitle}" for ${url}`);
+    } else {
+      return null;
+    }
+  }
+  
+  // Must have reasonable length
+  if (cleanTitle.length < 3 || cleanTitle.length > 100) {
+    return null;
+  }
+  
+  return {
+    jobTitle: cleanTitle,
+    company: company || 'Company',
+    companySource: found?.source ?? null
+  };
+}
+
+// Where a search result's company name came from; 'domain' is only a guess
+type CompanySource = 'title' | 'url' | 'snippet' | 'domain';
+
+function extractCompanyFromMultipleSources(title: string, snippet: string, url: string): { name: string; source: CompanySource } | null {
+  let company = '';
+  let source: CompanySource = 'title';
+  
+  // Method 1: Extract from title with various separators
+  const titleSeparators = [
+    /\|\s*(.+)$/,           // "Job Title | Company"
+    /-\s*(.+)$/,            // "Job Title - Company"  
+    /–\s*(.+)$/,            // "Job Title – Company"
+    /\sat\s+(.+)$/i,        // "Job Title at Company"
+    /\swith\s+(.+)$/i,      // "Job Title with Company"
+    /\s@\s*(.+)$/,          // "Job Title @ Company"
+    /:\s*(.+)$/,            // "Job Title: Company"
+  ];
+  
+  for (const separator of titleSeparators) {
+    const match = title.match(separator);
+    if (match && match[1]) {
+      const extracted = match[1].trim();
+      // Validate it's likely a company name (not location, etc.)
+      if (isLikelyCompanyName(extracted)) {
+        company = cleanCompanyName(extracted);
+        console.log(`📝 Extracted company from title separator: "${company}"`);
+        break;
+      }
+    }
+  }
+  
+  // Method 2: Extract from URL patterns
+  if (!company) {
+    const urlPatterns = [
+      ...getCompanySlugPatterns(),
+      { pattern: /careers\.([^.]+)\./, platform: 'Careers Page' },
+      { pattern: /([^.]+)\.careers\./, platform: 'Careers Subdomain' },
+      { pattern: /jobs\.([^.]+)\./, platform: 'Jobs Page' },
+      { pattern: /([^.]+)\.jobs\./, platform: 'Jobs Subdomain' },
+    ];
+    
+    for (const { pattern, platform } of urlPatterns) {
+      const match = url.match(pattern);
+      if (match && match[1]) {
+        let extracted = match[1];
+        
+        // Clean up common URL artifacts
+        extracted = extracted
+          .replace(/careers?$/, '')
+          .replace(/jobs?$/, '')
+          .replace(/[-_]/g, ' ')
+          .trim();
+        
+        if (extracted && isLikelyCompanyName(extracted)) {
+          company = cleanCompanyName(extracted);
+          source = 'url';
+          console.log(`🔗 Extracted company from ${platform} URL: "${company}"`);
+          break;
+        }
+      }
+    }
+  }
+  
+  // Method 3: Extract from snippet patterns
+  if (!company && snippet) {
+    const snippetPatterns = [
+      /(?:work\s+at|join|hiring\s+at|career\s+at|opportunity\s+at)\s+([A-Z][a-zA-Z\s&.,-]+?)(?:\s|$|\.)/i,
+      /([A-Z][a-zA-Z\s&.,-]+?)\s+is\s+(?:hiring|looking|seeking)/i,
+      /Apply\s+to\s+([A-Z][a-zA-Z\s&.,-]+?)(?:\s|$|\.)/i,
+      /([A-Z][a-zA-Z\s&.,-]+?)\s+(?:job|position|role|opening)/i,
+    ];
+    
+    for (const pattern of snippetPatterns) {
+      const match = snippet.match(pattern);
+      if (match && match[1]) {
+        const extracted = match[1].trim();
+        if (isLikelyCompanyName(extracted)) {
+          company = cleanCompanyName(extracted);
+          source = 'snippet';
+          console.log(`📰 Extracted company from snippet: "${company}"`);
+          break;
+        }
+      }
+    }
+  }
+  
+  // Method 4: Extract from domain if all else fails
+  if (!company) {
+    try {
+      const urlObj = new URL(url);
+      const hostname = urlObj.hostname.replace('www.', '');
+      const parts = hostname.split('.');
+      
+      // Skip common subdomains and ATS platforms
+      const skipDomains = ['boards', 'jobs', 'careers', 'apply', 'greenhouse', 'lever', 'ashby', 'workday', 'workable', 'adp'];
+      const mainDomain = parts.find(part => !skipDomains.includes(part)) || parts[0];
+      
+      if (mainDomain && mainDomain.length > 2) {
+        company = cleanCompanyName(mainDomain);
+        source = 'domain';
+        console.log(`🌐 Extracted company from domain: "${company}"`);
+      }
+    } catch (e) {
+      // URL parsing failed, continue
+    }
+  }
+  
+  return company ? { name: company, source } : null;
+}
+
+/**
+ * Discover stage: page through search results for a platform query, up to
+ * 5 pages (50 results) or until maxResults is reached
+ */
+export async function discoverSearchResults(searchQuery: string, timeFilter?: string, maxResults?: number, signal?: AbortSignal): Promise<SearchResultItem[]> {
+  const items: SearchResultItem[] = [];
+  const seenUrls = new Set<string>();
+  const maxPages = maxResults ? Math.min(Math.ceil(maxResults / 10), 5) : 5;
+  
+  for (let page = 1; page <= maxPages && !signal?.aborted; page++) {
+    const startIndex = (page - 1) * 10 + 1;
+    let found: { provider: string; items: SearchResultItem[] };
+    try {
+      found = await searchWithProviders(searchQuery, startIndex, timeFilter, signal);
+    } catch (error) {
+      // Without a first page there is nothing to show; later pages are a bonus
+      if (page === 1) throw error;
+      console.log(`⚠️ Stopping at page ${page - 1}: ${error instanceof Error ? error.message : error}`);
+      break;
+    }
+    const { provider, items: pageItems } = found;
+    
+    if (pageItems.length === 0) {
+      console.log(`No more results found on page ${page}, stopping...`);
+      break;
+    }
+    
+    console.log(`✅ ${provider} returned ${pageItems.length} results on page ${page}`);
+    pageItems.forEach(item => {
+      if (seenUrls.has(item.url)) return;
+      seenUrls.add(item.url);
+      items.push(item);
+    });
+    
+    // Check if we've hit the maxResults limit
+    if (maxResults && items.length >= maxResults) {
+      console.log(`Reached max results limit of ${maxResults}`);
+      break;
+    }
+  }
+  
+  return items;
+}
+
+/**
+ * Enrich stage: read known company boards straight from their ATS APIs, then
+ * scrape the remaining posting pages. URLs whose scrape failed come back in
+ * `failedUrls` for the fallback stage.
+ */
+export async function enrichDiscoveredUrls(
+  urlsToScrape: string[],
+  query: string,
+  jobsSoFar: InsertJob[],
+  signal?: AbortSignal
+): Promise<{ jobs: InsertJob[]; failedUrls: string[] }> {
+  const jobs: InsertJob[] = [];
+  const failedUrls: string[] = [];
+  
+  const { jobs: boardJobs, coveredUrls } = await fetchBoardJobsForUrls(urlsToScrape, query, signal);
+  const knownUrls = new Set(jobsSoFar.map(job => job.url));
+  boardJobs.forEach(job => {
+    if (!knownUrls.has(job.url)) {
+      knownUrls.add(job.url);
+      jobs.push(job);
+    }
+  });
+  if (boardJobs.length > 0) {
+    console.log(`🌱 Added ${boardJobs.length} jobs from company board APIs, ${coveredUrls.size} discovered URLs already covered`);
+  }
+  const remainingUrls = urlsToScrape.filter(url => !coveredUrls.has(url));
+  
+  // Only scrape URLs if we don't have enough jobs from search results
+  if (jobsSoFar.length >= 10 || remainingUrls.length === 0) {
+    return { jobs, failedUrls };
+  }
+  console.log(`Scraping additional URLs since we only have ${jobsSoFar.length} jobs from search results`);
+  
+  // Process URLs in smaller batches to avoid overwhelming the system
+  const BATCH_SIZE = 5;
+  const urlsToFetch = remainingUrls.slice(0, 20);
+  for (let i = 0; i < urlsToFetch.length && !signal?.aborted; i += BATCH_SIZE) {
+    const batch = urlsToFetch.slice(i, i + BATCH_SIZE);
+    const batchResults = await Promise.allSettled(batch.map(link => scrapeJobDetails(link, query, signal)));
+    
+    batchResults.forEach((result, index) => {
+      const url = batch[index];
+      if (result.status === 'fulfilled' && result.value) {
+        jobs.push(result.value);
+        console.log(`✅ Successfully scraped job from: ${url}`);
+        return;
+      }
+      
+      if (result.status === 'rejected') {
+        console.log(`❌ Failed to scrape ${url}: ${result.reason}`);
+      } else {
+        console.log(`⚠️ Scraping returned null for: ${url}`);
+      }
+      failedUrls.push(url);
+    });
+  }
+  
+  return { jobs, failedUrls };
+}
+
+/**
+ * Fallback stage: build jobs from the search result title and snippet for
+ * postings that couldn't be scraped (client-rendered pages, blocked fetches),
+ * as long as the result names the company
+ */
+export function fallbackFromSearchData(failedUrls: string[], searchData: Map<string, SearchResultItem>): InsertJob[] {
+  const jobs: InsertJob[] = [];
+  
+  failedUrls.forEach(url => {
+    const data = searchData.get(url);
+    if (!data) return;
+    
+    const fallbackJob = createJobFromSearchData(data, url);
+    if (fallbackJob) {
+      jobs.push(fallbackJob);
+      console.log(`✨ Created fallback job from search data: "${fallbackJob.title}" at ${fallbackJob.company}`);
+    } else {
+      console.log(`⚠️ Failed to create fallback job from search data for: ${url}`);
+    }
+  });
+  
+  return jobs;
+}
+
+/**
+ * Search one platform: discover → classify → enrich → fallback, then keep
+ * the jobs that really match the location and query. Rejects when discovery
+ * fails, so the scheduler can tell a failed platform from an empty one.
+ */
+export async function scrapeJobsFromPlatform(query: string, site: string, location: string, timeFilter?: string, maxResults?: number, signal?: AbortSignal): Promise<InsertJob[]> {
+  console.log(`\n🔍 Scraping platform: ${site} for query: "${query}"`);
+  
+  // Use site-specific search query with time filter
+  const searchQuery = buildSearchQuery(query, site, location, timeFilter);
+  console.log(`🎯 Final search query: ${searchQuery}`);
+  
+  const items = await discoverSearchResults(searchQuery, timeFilter, maxResults, signal);
+  const { jobs: jobsFromSearchResults, urlsToScrape, searchData } = classifySearchResults(items);
+  
+  console.log(`Found ${jobsFromSearchResults.length} jobs from search results and ${urlsToScrape.length} URLs to scrape for ${site}`);
+  
+  const { jobs: enrichedJobs, failedUrls } = await enrichDiscoveredUrls(urlsToScrape, query, jobsFromSearchResults, signal);
+  const fallbackJobs = fallbackFromSearchData(failedUrls, searchData);
+  
+  const jobs: InsertJob[] = [...jobsFromSearchResults, ...enrichedJobs, ...fallbackJobs];
+
+  // Google matched the location words anywhere on the page; keep the jobs that are actually there
+  const locationQuery = parseLocationQuery(location);
+  const jobsInLocation = jobs.filter(job => matchesLocationQuery(job, locationQuery));
+  if (jobsInLocation.length < jobs.length) {
+    console.log(`📍 Dropped ${jobs.length - jobsInLocation.length} jobs outside "${location}"`);
+  }
+
+  // Google can't express every operator (company:, grouped exclusions), so enforce the query here
+  const parsedQuery = parseSearchQuery(query);
+  const matchingJobs = parsedQuery.plain
+    ? jobsInLocation
+    : jobsInLocation.filter(job => matchesSearchQuery(job, parsedQuery));
+  if (matchingJobs.length < jobsInLocation.length) {
+    console.log(`🧮 Dropped ${jobsInLocation.length - matchingJobs.length} jobs not matching "${query}"`);
+  }
+
+  // Apply maxResults limit if specified
+  const finalJobs = maxResults && matchingJobs.length > maxResults ? matchingJobs.slice(0, maxResults) : matchingJobs;
+  
+  console.log(`Successfully scraped ${finalJobs.length} jobs from ${site}${maxResults ? ` (limited to ${maxResults})` : ''}`);
+  return finalJobs;
+}
\ No newline at end of file
@@ -0,0 +1,46 @@
+/**
+ * Serve recorded board API responses through the polite fetcher, so adapter
+ * tests run the real request and parsing code without the network
+ */
+
+import { vi } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { Headers } from 'node-fetch';
+import { politeFetcher, type PoliteResponse } from '../../polite-fetch';
+
+export function loadFixture<T = unknown>(name: string): T {
+  return JSON.parse(readFileSync(path.join(import.meta.dirname, name), 'utf-8'));
+}
+
+export function fakeResponse(url: string, status: number, body: string): PoliteResponse {
+  return {
+    url,
+    status,
+    ok: status >= 200 && status < 300,
+    headers: new Headers({ 'content-type': 'application/json' }),
+    body,
+    json: <T>() => JSON.parse(body) as T
+  };
+}
+
+/**
+ * Answer requests for the given URLs with their JSON bodies and anything
+ * else with a 404. A function route gets the parsed request body, for POST
+ * endpoints that page through results. The returned spy records the
+ * requests made.
+ */
+export function mockBoardApi(routes: Record<string, unknown | ((body: any) => unknown)>) {
+  return vi.spyOn(politeFetcher, 'fetch').mockImplementation(async (url, options = {}) => {
+    if (!(url in routes)) return fakeResponse(url, 404, '{"error":"Not found"}');
+
+    const route = routes[url];
+    const requestBody = typeof options.body === 'string' ? JSON.parse(options.body) : undefined;
+    const body = typeof route === 'function' ? route(requestBody) : route;
+    return fakeResponse(url, 200, JSON.stringify(body));
+  });
+}
+
+export function requestedUrls(spy: ReturnType<typeof mockBoardApi>): string[] {
+  return spy.mock.calls.map(([url]) => url);
+}
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import './index';
+import { adpAdapter, adpCompanyName, parseADPCareerCenter, type ADPRequisition } from './adp';
+import { getAdapterForUrl } from './index';
+import { loadFixture, mockBoardApi, requestedUrls } from './__fixtures__/board-api-mock';
+
+const CID = 'a1b2c3d4-0000-4e5f-9a8b-7c6d5e4f3a21';
+const CC_ID = '19000101_000001';
+const POSTING_URL = `https://workforcenow.adp.com/mascsr/default/mdf/recruitment/recruitment.html?cid=${CID}&ccId=${CC_ID}&jobId=9200099&lang=en_US&source=CC2`;
+const API = 'https://workforcenow.adp.com/mascsr/default/careercenter/public/events/staffing/v1/job-requisitions';
+const CENTER_QUERY = `cid=${CID}&lang=en_US&locale=en_US&ccId=${CC_ID}`;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('adp URL parsing', () => {
+  it('claims career center and MyJobs hosts only', () => {
+    expect(adpAdapter.matchesUrl!(POSTING_URL)).toBe(true);
+    expect(adpAdapter.matchesUrl!('https://myjobs.adp.com/fourthcoffeecareers/cx/job-details?reqId=5001')).toBe(true);
+    expect(adpAdapter.matchesUrl!('https://support.adp.com/s/article/payroll-faq')).toBe(false);
+    expect(adpAdapter.matchesUrl!('https://login.adp.com/welcome')).toBe(false);
+    expect(getAdapterForUrl('https://apps.adp.com/en-US/apps/410562')).toBeUndefined();
+  });
+
+  it('reads the career center and board token', () => {
+    expect(parseADPCareerCenter(POSTING_URL)).toEqual({ cid: CID, ccId: CC_ID });
+    expect(adpAdapter.boardTokenFromUrl!(POSTING_URL)).toBe(`${CID}/${CC_ID}`);
+    expect(adpAdapter.boardTokenFromUrl!('https://myjobs.adp.com/fourthcoffeecareers/cx/job-details?reqId=5001')).toBeNull();
+  });
+
+  it('qualifies requisition ids with the client id', () => {
+    expect(adpAdapter.jobIdFromUrl!(POSTING_URL)).toBe(`${CID}:9200099`);
+  });
+});
+
+describe('adpCompanyName', () => {
+  it('takes the company unit and never makes one up', () => {
+    expect(adpCompanyName(loadFixture<ADPRequisition>('adp-requisition.json'))).toBe('Fourth Coffee Inc.');
+    expect(adpCompanyName(loadFixture<ADPRequisition>('adp-requisition-no-company.json'))).toBeNull();
+  });
+});
+
+describe('adp fetchBoardJobs', () => {
+  it('reads discovered requisitions directly and only title matches from the list', async () => {
+    const spy = mockBoardApi({
+      [`${API}?${CENTER_QUERY}&$top=20&$skip=0`]: loadFixture('adp-requisitions.json'),
+      // Discovered, but not on the first pages of the list
+      [`${API}/9200099?${CENTER_QUERY}`]: loadFixture('adp-requisition.json'),
+      [`${API}/9200011?${CENTER_QUERY}`]: {
+        ...loadFixture<ADPRequisition>('adp-requisition.json'),
+        itemID: '9200011',
+        requisitionTitle: 'Senior Software Engineer'
+      },
+      [`${API}/9200013?${CENTER_QUERY}`]: loadFixture('adp-requisition-no-company.json')
+    });
+
+    const jobs = await adpAdapter.fetchBoardJobs!(`${CID}/${CC_ID}`, { query: 'engineer', postingUrls: [POSTING_URL] });
+
+    // The payroll requisition doesn't match, so it is never read
+    expect(requestedUrls(spy)).toEqual([
+      `${API}?${CENTER_QUERY}&$top=20&$skip=0`,
+      `${API}/9200099?${CENTER_QUERY}`,
+      `${API}/9200011?${CENTER_QUERY}`,
+      `${API}/9200013?${CENTER_QUERY}`
+    ]);
+    // The QA requisition names no company, so it is left out
+    expect(jobs.map(job => [job.title, job.company])).toEqual([
+      ['Staff Data Engineer', 'Fourth Coffee Inc.'],
+      ['Senior Software Engineer', 'Fourth Coffee Inc.']
+    ]);
+    expect(jobs[0]).toMatchObject({
+      location: 'Seattle, WA',
+      url: `https://workforcenow.adp.com/mascsr/default/mdf/recruitment/recruitment.html?cid=${CID}&ccId=${CC_ID}&jobId=9200099&lang=en_US`,
+      platform: 'ADP'
+    });
+    expect(jobs[0].tags).toContain('Full Time');
+    expect(jobs[0].postedAt).toEqual(new Date('2026-10-08T00:00:00Z'));
+    expect(jobs[0].salary).toMatchObject({ min: 150000, max: 180000 });
+    expect(adpAdapter.jobIdFromUrl!(jobs[0].url)).toBe(adpAdapter.jobIdFromUrl!(POSTING_URL));
+  });
+
+  it('still reads discovered requisitions when the list is unavailable', async () => {
+    mockBoardApi({ [`${API}/9200099?${CENTER_QUERY}`]: loadFixture('adp-requisition.json') });
+
+    const jobs = await adpAdapter.fetchBoardJobs!(`${CID}/${CC_ID}`, { query: 'engineer', postingUrls: [POSTING_URL] });
+    expect(jobs.map(job => job.title)).toEqual(['Staff Data Engineer']);
+  });
+});
@@ -0,0 +1,316 @@
+import * as cheerio from 'cheerio';
+import type { InsertJob } from '@shared/schema';
+import { extractCompanyLogo } from '../logo-extractor';
+import { companyFromSlug, extractTags, isLikelyCompanyName } from '../job-extraction';
+import { extractSalaryFromText } from '../salary-extraction';
+import { normalizeLocation } from '../location-normalizer';
+import { boardPostingExists, fetchBoardJson, parseDate, titleHasWords, toDescription } from './board-api';
+import type { PlatformAdapter } from './types';
+
+const CAREER_CENTER_API = 'https://workforcenow.adp.com/mascsr/default/careercenter/public/events/staffing/v1/job-requisitions';
+const POSTING_PAGE = 'https://workforcenow.adp.com/mascsr/default/mdf/recruitment/recruitment.html';
+const ADP_PAGE_SIZE = 20;
+const ADP_MAX_JOBS = 60;
+// Requisitions a search reads per board beyond the discovered ones; each is a request
+const ADP_MAX_DETAILS = 10;
+const ADP_DETAIL_BATCH = 5;
+// Organizational unit types that name the hiring company rather than a department
+const COMPANY_UNIT_TYPES = /company|legal entity|employer/i;
+
+/**
+ * One requisition from the public WorkforceNow career center API, the JSON
+ * behind recruitment.html?cid=...&jobId=...
+ */
+export interface ADPRequisition {
+  itemID: string;
+  requisitionTitle: string;
+  // Only on the single-requisition response
+  requisitionDescription?: string;
+  requisitionLocations?: ADPRequisitionLocation[];
+  postDate?: string;
+  workLevelCode?: ADPCode;
+  organizationalUnits?: Array<{ typeCode?: ADPCode; nameCode?: ADPCode }>;
+}
+
+export interface ADPRequisitionLocation {
+  nameCode?: ADPCode;
+  address?: {
+    cityName?: string;
+    countrySubdivisionLevel1?: ADPCode;
+    country?: ADPCode;
+  };
+}
+
+interface ADPCode {
+  codeValue?: string;
+  shortName?: string;
+  longName?: string;
+}
+
+export interface ADPRequisitionList {
+  jobRequisitions?: ADPRequisition[];
+  meta?: { totalNumber?: number };
+}
+
+/**
+ * WorkforceNow career center a posting URL belongs to: the client id (cid)
+ * and, on sites with several, the career center id (ccId)
+ */
+export interface ADPCareerCenter {
+  cid: string;
+  ccId: string | null;
+}
+
+function isADPUrl(url: string): boolean {
+  return url.includes('workforcenow.adp.com') || url.includes('myjobs.adp.com');
+}
+
+function urlParam(url: string, name: string): string | null {
+  try {
+    return new URL(url).searchParams.get(name);
+  } catch {
+    return null;
+  }
+}
+
+export function parseADPCareerCenter(url: string): ADPCareerCenter | null {
+  if (!url.includes('workforcenow.adp.com')) return null;
+  const cid = urlParam(url, 'cid');
+  return cid ? { cid, ccId: urlParam(url, 'ccId') } : null;
+}
+
+function centerQuery(center: ADPCareerCenter): string {
+  const params = new URLSearchParams({ cid: center.cid, lang: 'en_US', locale: 'en_US' });
+  if (center.ccId) params.set('ccId', center.ccId);
+  return params.toString();
+}
+
+/**
+ * Posting page URL in the same shape search results link to
+ */
+export function adpPostingUrl(center: ADPCareerCenter, jobId: string): string {
+  const params = new URLSearchParams({ cid: center.cid });
+  if (center.ccId) params.set('ccId', center.ccId);
+  params.set('jobId', jobId);
+  params.set('lang', 'en_US');
+  return `${POSTING_PAGE}?${params.toString()}`;
+}
+
+/**
+ * Name of the hiring company, when the requisition carries one. There is no
+ * placeholder: a requisition without it is left out.
+ */
+export function adpCompanyName(requisition: ADPRequisition): string | null {
+  const unit = (requisition.organizationalUnits || []).find(unit =>
+    COMPANY_UNIT_TYPES.test(`${unit.typeCode?.codeValue || ''} ${unit.typeCode?.shortName || ''}`)
+  );
+  const name = (unit?.nameCode?.longName || unit?.nameCode?.shortName || '').trim();
+  return name && isLikelyCompanyName(name) ? name : null;
+}
+
+function formatADPLocation(location: ADPRequisitionLocation): string | null {
+  const address = location.address;
+  const city = address?.cityName?.trim();
+  const region = address?.countrySubdivisionLevel1?.codeValue || address?.countrySubdivisionLevel1?.shortName;
+  if (city) return [city, region].filter(Boolean).join(', ');
+  return location.nameCode?.shortName?.trim() || null;
+}
+
+export const adpAdapter: PlatformAdapter = {
+  id: 'adp',
+  displayName: 'ADP',
+  siteFilter: '(site:workforcenow.adp.com OR site:myjobs.adp.com)',
+  companySlugPattern: /myjobs\.adp\.com\/([^/]+)/,
+  // "<cid>" or "<cid>/<ccId>"
+  boardTokenPattern: /^[a-z0-9-]+(\/[a-z0-9_-]+)?$/i,
+  logoSelectors: [
+    '.company-logo img',
+    '.header img',
+    'img[alt*="logo" i]',
+    '.company-branding img'
+  ],
+  slowToFetch: true,
+  // Results only show the ADP host, so the company has to come from the requisition
+  noSnippetJobs: true,
+
+  matchesUrl(url) {
+    return isADPUrl(url);
+  },
+
+  isJobUrl(url) {
+    return isADPUrl(url);
+  },
+
+  // Requisition ids are only unique within a client
+  jobIdFromUrl(url) {
+    const center = parseADPCareerCenter(url);
+    const jobId = urlParam(url, 'jobId');
+    return center && jobId ? `${center.cid}:${jobId}` : null;
+  },
+
+  // Token is "<cid>" or "<cid>/<ccId>"
+  boardTokenFromUrl(url) {
+    const center = parseADPCareerCenter(url);
+    if (!center) return null;
+    return center.ccId ? `${center.cid}/${center.ccId}` : center.cid;
+  },
+
+  async fetchBoardJobs(token, options = {}) {
+    const [cid, ccId] = token.split('/');
+    if (!cid) {
+      throw new Error(`Invalid ADP board token: ${token}`);
+    }
+
+    const center: ADPCareerCenter = { cid, ccId: ccId || null };
+    const { signal } = options;
+
+    // Discovered postings are read directly, wherever they sit in the list
+    const discoveredIds = Array.from(new Set((options.postingUrls || [])
+      .filter(url => parseADPCareerCenter(url)?.cid === cid)
+      .map(url => urlParam(url, 'jobId'))
+      .filter((jobId): jobId is string => !!jobId)));
+
+    // The list has no descriptions or companies and can't be searched, so
+    // a search only reads the few requisitions whose title matches it
+    const listed = await listADPRequisitions(center, signal).catch(error => {
+      if (discoveredIds.length === 0) throw error;
+      console.log(`⚠️ ADP career center "${token}" list unavailable: ${error instanceof Error ? error.message : error}`);
+      return [];
+    });
+    const matching = listed
+      .filter(summary => !discoveredIds.includes(summary.itemID))
+      .filter(summary => titleHasWords(summary.requisitionTitle || '', options.query || ''))
+      .slice(0, options.query ? ADP_MAX_DETAILS : ADP_MAX_JOBS);
+
+    const summaries: ADPRequisition[] = [
+      ...discoveredIds.map(itemID => ({ itemID, requisitionTitle: '' })),
+      ...matching
+    ];
+    const details: Array<ADPRequisition | null> = [];
+    for (let i = 0; i < summaries.length; i += ADP_DETAIL_BATCH) {
+      const batch = summaries.slice(i, i + ADP_DETAIL_BATCH);
+      const results = await Promise.allSettled(batch.map(summary => fetchADPRequisition(center, summary.itemID, signal)));
+      results.forEach(result => details.push(result.status === 'fulfilled' ? result.value : null));
+    }
+
+    const jobs = parseADPRequisitions(center, summaries, details);
+    console.log(`🏢 ADP career center "${token}": ${jobs.length} of ${summaries.length} requisitions read with a named company`);
+    return jobs;
+  },
+
+  // Posting pages are rendered client-side, so ask the career center API
+  async isPostingOpen(url) {
+    const center = parseADPCareerCenter(url);
+    const jobId = urlParam(url, 'jobId');
+    if (!center || !jobId) return null;
+    return boardPostingExists(requisitionUrl(center, jobId));
+  },
+
+  extractDetails({ $, url }) {
+    // Only rendered pages have content; the static page is an empty shell
+    const title = $('[data-automation-id="jobPostingHeader"]').text().trim() ||
+                  $('[data-automation-id="jobTitle"]').text().trim() ||
+                  $('.job-posting-title').text().trim() ||
+                  $('.job-title').text().trim() ||
+                  $('h1').first().text().trim();
+
+    let company = $('[data-automation-id="jobPostingCompany"]').text().trim() ||
+                  $('[data-automation-id="companyName"]').text().trim() ||
+                  $('[data-automation-id="company"]').text().trim() ||
+                  $('.company-name').text().trim();
+
+    // MyJobs URLs carry the company: myjobs.adp.com/<company>/cx/...
+    if (!company) {
+      const slugMatch = url.match(/myjobs\.adp\.com\/([^/?#]+)/);
+      if (slugMatch) company = companyFromSlug(slugMatch[1].replace(/careers?$/i, ''));
+    }
+
+    const location = $('[data-automation-id="jobPostingLocation"]').text().trim() ||
+                     $('[data-automation-id="location"]').text().trim() ||
+                     $('.job-location').text().trim() ||
+                     $('.location').first().text().trim();
+
+    const description = $('[data-automation-id="jobPostingDescription"]').html() ||
+                        $('[data-automation-id="jobDescription"]').html() ||
+                        $('[data-automation-id="description"]').html() ||
+                        $('.job-description').html();
+
+    // Empty fields fail validation in scrapeJobDetails rather than being made up
+    return { title, company: company || undefined, location: location || undefined, description };
+  }
+};
+
+function requisitionUrl(center: ADPCareerCenter, jobId: string): string {
+  return `${CAREER_CENTER_API}/${encodeURIComponent(jobId)}?${centerQuery(center)}`;
+}
+
+/**
+ * One requisition in full: description, locations and the company unit
+ */
+function fetchADPRequisition(center: ADPCareerCenter, jobId: string, signal?: AbortSignal): Promise<ADPRequisition> {
+  return fetchBoardJson<ADPRequisition>(requisitionUrl(center, jobId), { signal });
+}
+
+async function listADPRequisitions(center: ADPCareerCenter, signal?: AbortSignal): Promise<ADPRequisition[]> {
+  const requisitions: ADPRequisition[] = [];
+
+  for (let skip = 0; skip < ADP_MAX_JOBS; skip += ADP_PAGE_SIZE) {
+    const page = await fetchBoardJson<ADPRequisitionList>(
+      `${CAREER_CENTER_API}?${centerQuery(center)}&$top=${ADP_PAGE_SIZE}&$skip=${skip}`,
+      { signal }
+    );
+
+    requisitions.push(...(page.jobRequisitions || []));
+    const total = page.meta?.totalNumber ?? 0;
+    if (!page.jobRequisitions?.length || skip + ADP_PAGE_SIZE >= total) break;
+  }
+
+  return requisitions;
+}
+
+/**
+ * Map career center requisitions (and their detail responses, when fetched)
+ * onto our job shape, dropping any without a company name
+ */
+export function parseADPRequisitions(
+  center: ADPCareerCenter,
+  summaries: ADPRequisition[],
+  details: Array<ADPRequisition | null> = []
+): InsertJob[] {
+  const jobs: InsertJob[] = [];
+
+  summaries.forEach((summary, index) => {
+    const requisition = { ...summary, ...(details[index] || {}) };
+    const title = requisition.requisitionTitle?.trim();
+    const company = adpCompanyName(requisition);
+    if (!title || !company) return;
+
+    const url = adpPostingUrl(center, requisition.itemID);
+    const locations = (requisition.requisitionLocations || [])
+      .map(formatADPLocation)
+      .filter((location): location is string => !!location);
+    const location = Array.from(new Set(locations)).join('; ');
+    const descriptionHtml = requisition.requisitionDescription || '';
+
+    const tags = [
+      requisition.workLevelCode?.shortName,
+      ...extractTags(title, descriptionHtml ? cheerio.load(descriptionHtml).text() : '')
+    ].filter((tag): tag is string => !!tag);
+
+    jobs.push({
+      title,
+      company,
+      location: location || 'Location not specified',
+      description: toDescription(descriptionHtml),
+      url,
+      logo: extractCompanyLogo(cheerio.load(''), company, url, 'ADP').logo,
+      platform: 'ADP',
+      tags: Array.from(new Set(tags)),
+      postedAt: parseDate(requisition.postDate),
+      salary: extractSalaryFromText(descriptionHtml),
+      normalizedLocation: normalizeLocation(location)
+    });
+  });
+
+  return jobs;
+}
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import './index';
+import { ashbyAdapter } from './ashby';
+import { loadFixture, mockBoardApi, requestedUrls } from './__fixtures__/board-api-mock';
+
+const JOB_ID = '3c9d1e52-8f4a-4b6e-a1d7-5e2f9c0b7a13';
+const BOARD_URL = 'https://api.ashbyhq.com/posting-api/job-board/lumen-labs?includeCompensation=true';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('ashby URL parsing', () => {
+  it('reads the organization slug from job board URLs', () => {
+    expect(ashbyAdapter.boardTokenFromUrl!(`https://jobs.ashbyhq.com/lumen-labs/${JOB_ID}`)).toBe('lumen-labs');
+    expect(ashbyAdapter.boardTokenFromUrl!('https://jobs.ashbyhq.com/Lumen%20Labs?departmentId=1')).toBe('Lumen Labs');
+    expect(ashbyAdapter.boardTokenFromUrl!('https://www.ashbyhq.com/customers')).toBeNull();
+  });
+
+  it('reads the job id from posting and application URLs', () => {
+    expect(ashbyAdapter.jobIdFromUrl!(`https://jobs.ashbyhq.com/lumen-labs/${JOB_ID}`)).toBe(JOB_ID);
+    expect(ashbyAdapter.jobIdFromUrl!(`https://jobs.ashbyhq.com/lumen-labs/${JOB_ID.toUpperCase()}/application`)).toBe(JOB_ID);
+    expect(ashbyAdapter.jobIdFromUrl!('https://jobs.ashbyhq.com/lumen-labs')).toBeNull();
+  });
+});
+
+describe('ashby fetchBoardJobs', () => {
+  it('maps listed jobs from the posting API onto jobs', async () => {
+    const spy = mockBoardApi({ [BOARD_URL]: loadFixture('ashby-job-board.json') });
+
+    const jobs = await ashbyAdapter.fetchBoardJobs!('lumen-labs');
+
+    expect(requestedUrls(spy)).toEqual([BOARD_URL]);
+    // The unlisted posting is left out
+    expect(jobs.map(job => job.title)).toEqual(['Machine Learning Engineer', 'Head of People']);
+
+    const [engineer, people] = jobs;
+    expect(engineer).toMatchObject({
+      company: 'Lumen Labs',
+      location: 'San Francisco; New York; Remote',
+      url: `https://jobs.ashbyhq.com/lumen-labs/${JOB_ID}`,
+      platform: 'Ashby'
+    });
+    expect(engineer.description).toMatch(/^<p><strong>Compensation:<\/strong> \$180K - \$240K<\/p>/);
+    expect(engineer.tags).toEqual(expect.arrayContaining(['Full-time', 'Applied ML', 'Engineering', 'Remote']));
+    expect(engineer.postedAt).toEqual(new Date('2026-09-20T17:04:11.316+00:00'));
+    expect(engineer.salary).toMatchObject({ min: 180000, max: 240000, currency: 'USD', period: 'year', equity: true, source: 'ats' });
+
+    // Equity without a published salary still records the equity
+    expect(people.location).toBe('Remote - US');
+    expect(people.salary).toMatchObject({ min: null, max: null, equity: true });
+  });
+
+  it('throws when the organization has no job board', async () => {
+    mockBoardApi({});
+
+    await expect(ashbyAdapter.fetchBoardJobs!('no-such-org')).rejects.toThrow('Board API 404');
+  });
+});
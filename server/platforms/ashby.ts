@@ -0,0 +1,208 @@
+import * as cheerio from 'cheerio';
+import type { InsertJob } from '@shared/schema';
+import { extractCompanyLogo } from '../logo-extractor';
+import { companyFromSlug, extractTags } from '../job-extraction';
+import { buildSalary, extractSalary, parseSalaryPeriod } from '../salary-extraction';
+import { normalizeLocation } from '../location-normalizer';
+import { fetchBoardJson, parseDate, toDescription } from './board-api';
+import type { PlatformAdapter } from './types';
+
+/**
+ * Response of the public Ashby job posting API
+ * https://developers.ashbyhq.com/docs/public-job-posting-api
+ */
+export interface AshbyJobBoardResponse {
+  jobs: AshbyJobPosting[];
+}
+
+export interface AshbyJobPosting {
+  id: string;
+  title: string;
+  department?: string;
+  team?: string;
+  employmentType?: string;
+  location?: string;
+  secondaryLocations?: Array<{ location: string }>;
+  isRemote?: boolean;
+  workplaceType?: string | null;
+  isListed?: boolean;
+  publishedAt?: string;
+  jobUrl: string;
+  applyUrl?: string;
+  descriptionHtml?: string;
+  descriptionPlain?: string;
+  compensation?: {
+    compensationTierSummary?: string | null;
+    scrapeableCompensationSalarySummary?: string | null;
+    summaryComponents?: AshbyCompensationComponent[];
+  };
+}
+
+export interface AshbyCompensationComponent {
+  // Salary, EquityPercentage, EquityCashValue, Bonus, Commission, ...
+  compensationType: string;
+  interval?: string;
+  currencyCode?: string | null;
+  minValue?: number | null;
+  maxValue?: number | null;
+}
+
+const EMPLOYMENT_TYPE_LABELS: Record<string, string> = {
+  FullTime: 'Full-time',
+  PartTime: 'Part-time',
+  Intern: 'Internship',
+  Contract: 'Contract',
+  Temporary: 'Temporary'
+};
+
+export const ashbyAdapter: PlatformAdapter = {
+  id: 'ashbyhq.com',
+  aliases: ['jobs.ashbyhq.com'],
+  displayName: 'Ashby',
+  siteFilter: 'site:ashbyhq.com',
+  companySlugPattern: /jobs\.ashbyhq\.com\/([^/]+)/,
+  // Organization names are URL-decoded, so they can hold spaces
+  boardTokenPattern: /^[a-z0-9][a-z0-9 ._-]*$/i,
+  logoSelectors: [
+    '[data-testid="company-logo"] img',
+    '[data-testid*="logo"] img',
+    '[data-testid*="company"] img',
+    '.company-logo img',
+    'header img',
+    'img[alt*="logo" i]',
+    'img[src*="logo" i]'
+  ],
+  slowToFetch: true,
+
+  matchesUrl(url) {
+    return url.includes('ashbyhq.com');
+  },
+
+  isJobUrl(url) {
+    return url.includes('jobs.ashbyhq.com');
+  },
+
+  jobIdFromUrl(url) {
+    const idMatch = url.match(/ashbyhq\.com\/[^/]+\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i);
+    return idMatch ? idMatch[1].toLowerCase() : null;
+  },
+
+  boardTokenFromUrl(url) {
+    const orgMatch = url.match(/jobs\.ashbyhq\.com\/([^/?#]+)/);
+    return orgMatch ? decodeURIComponent(orgMatch[1]) : null;
+  },
+
+  async fetchBoardJobs(token, options = {}) {
+    const board = await fetchBoardJson<AshbyJobBoardResponse>(
+      `https://api.ashbyhq.com/posting-api/job-board/${encodeURIComponent(token)}?includeCompensation=true`,
+      { signal: options.signal }
+    );
+
+    const jobs = parseAshbyJobBoard(board, token);
+    console.log(`🏹 Ashby board "${token}": ${jobs.length} open jobs`);
+    return jobs;
+  },
+
+  extractDetails({ $, url }) {
+    // Updated Ashby selectors for 2024+ - they use modern CSS-in-JS with generated class names
+    const title = $('[data-testid="job-title"]').text().trim() ||
+                  $('h1[data-testid*="title"]').text().trim() ||
+                  $('h1').text().trim() ||
+                  $('[class*="JobTitle"]').text().trim() ||
+                  $('[class*="job-title"]').text().trim() ||
+                  $('.posting-headline h1').text().trim() ||
+                  $('.job-posting-title').text().trim() ||
+                  $('meta[property="og:title"]').attr('content')?.split(' at ')[0] ||
+                  $('title').text().split(' | ')[0].split(' at ')[0].trim();
+
+    // Company extraction for Ashby - multiple fallback approaches
+    let company = $('[data-testid="company-name"]').text().trim() ||
+                  $('[data-testid*="company"]').text().trim() ||
+                  $('a[data-testid*="company"]').text().trim() ||
+                  $('.company-name').text().trim() ||
+                  $('[class*="CompanyName"]').text().trim() ||
+                  $('meta[property="og:site_name"]').attr('content') ||
+                  '';
+
+    // Extract company from URL if not found
+    if (!company) {
+      const ashbyMatch = url.match(/jobs\.ashbyhq\.com\/([^/]+)/);
+      if (ashbyMatch) {
+        company = companyFromSlug(ashbyMatch[1]);
+      }
+    }
+
+    const location = $('[data-testid="job-location"]').text().trim() ||
+                     $('[data-testid*="location"]').text().trim() ||
+                     $('.job-location').text().trim() ||
+                     $('.posting-location').text().trim() ||
+                     $('[class*="Location"]').text().trim() ||
+                     'Location not specified';
+
+    const description = $('[data-testid="job-description"]').html() ||
+                        $('.job-description').html() ||
+                        $('.posting-description').html() ||
+                        $('[class*="Description"]').html() ||
+                        $('.content').html() ||
+                        '';
+
+    return { title, company, location, description };
+  }
+};
+
+/**
+ * Map an Ashby job board response onto our job shape
+ */
+export function parseAshbyJobBoard(board: AshbyJobBoardResponse, orgSlug: string, companyName?: string | null): InsertJob[] {
+  const company = companyName?.trim() || companyFromSlug(orgSlug);
+
+  return (board.jobs || [])
+    .filter(job => job.isListed !== false)
+    .map(job => {
+      const places = [job.location, ...(job.secondaryLocations || []).map(secondary => secondary.location)]
+        .filter((place): place is string => !!place);
+      const remote = job.isRemote || job.workplaceType === 'Remote';
+      if (remote && !places.some(place => /remote/i.test(place))) {
+        places.push('Remote');
+      }
+
+      const compensation = job.compensation?.scrapeableCompensationSalarySummary ||
+                           job.compensation?.compensationTierSummary ||
+                           null;
+      // Keep published pay in the description so it shows on the job card
+      const descriptionHtml = `${compensation ? `<p><strong>Compensation:</strong> ${compensation}</p>` : ''}${job.descriptionHtml || ''}`;
+      const plainText = job.descriptionPlain || cheerio.load(descriptionHtml).text();
+
+      const components = job.compensation?.summaryComponents || [];
+      const base = components.find(component => component.compensationType === 'Salary');
+      const hasEquity = components.some(component => /equity/i.test(component.compensationType));
+      const salary = extractSalary({
+        structured: base
+          ? buildSalary(base.minValue ?? null, base.maxValue ?? null, base.currencyCode || 'USD', parseSalaryPeriod(base.interval) || 'year', 'ats', hasEquity)
+          : null,
+        text: `${compensation || ''} ${plainText}`
+      }) || (hasEquity ? buildSalary(null, null, 'USD', 'year', 'ats', true) : null);
+
+      const tags = [
+        job.employmentType ? EMPLOYMENT_TYPE_LABELS[job.employmentType] || job.employmentType : undefined,
+        job.team,
+        job.department,
+        remote ? 'Remote' : undefined,
+        ...extractTags(job.title, plainText)
+      ].filter((tag): tag is string => !!tag);
+
+      return {
+        title: job.title.trim(),
+        company,
+        location: places.join('; ') || 'Location not specified',
+        description: toDescription(descriptionHtml),
+        url: job.jobUrl,
+        logo: extractCompanyLogo(cheerio.load(''), company, job.jobUrl, 'Ashby').logo,
+        platform: 'Ashby',
+        tags: Array.from(new Set(tags)),
+        postedAt: parseDate(job.publishedAt) || new Date(),
+        salary,
+        normalizedLocation: normalizeLocation(places.join('; '), { workplaceType: job.workplaceType, remote })
+      };
+    });
+}
@@ -0,0 +1,92 @@
+/**
+ * Helpers for adapters that read public ATS job board APIs
+ */
+
+import type { InsertJob } from '@shared/schema';
+import { matchesSearchQuery, parseSearchQuery, QueryParseError, type ParsedSearchQuery } from '../search-query';
+import { politeFetcher } from '../polite-fetch';
+
+const BOARD_API_TIMEOUT = 10000; // 10 seconds
+
+export async function fetchBoardJson<T>(url: string, init: { method?: string; body?: unknown; signal?: AbortSignal } = {}): Promise<T> {
+  // Board APIs are published for programs to read, so robots.txt doesn't apply
+  const response = await politeFetcher.fetch(url, {
+    method: init.method || 'GET',
+    headers: {
+      'Accept': 'application/json',
+      ...(init.body !== undefined && { 'Content-Type': 'application/json' })
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+    timeoutMs: BOARD_API_TIMEOUT,
+    robots: false,
+    signal: init.signal
+  });
+
+  if (!response.ok) {
+    throw new Error(`Board API ${response.status} for ${url}`);
+  }
+
+  return response.json<T>();
+}
+
+/**
+ * Whether a single posting is still on the board: false when the API answers
+ * 404/410, null when it could not answer at all
+ */
+export async function boardPostingExists(url: string): Promise<boolean | null> {
+  try {
+    const response = await politeFetcher.fetch(url, {
+      headers: { 'Accept': 'application/json' },
+      timeoutMs: BOARD_API_TIMEOUT,
+      robots: false
+    });
+
+    if (response.status === 404 || response.status === 410) return false;
+    return response.ok ? true : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keep board jobs whose title matches the search query: every word of a plain
+ * query, or the query's operators applied to the title
+ */
+export function filterBoardJobs(jobs: InsertJob[], query: string): InsertJob[] {
+  let parsed: ParsedSearchQuery | null = null;
+  try {
+    parsed = parseSearchQuery(query);
+  } catch (error) {
+    if (!(error instanceof QueryParseError)) throw error;
+  }
+
+  if (parsed && !parsed.plain) {
+    return jobs.filter(job => matchesSearchQuery(job, parsed!, { titleOnly: true }));
+  }
+
+  return jobs.filter(job => titleHasWords(job.title, query));
+}
+
+/**
+ * Whether a title contains every word of a plain query; an empty query
+ * matches everything
+ */
+export function titleHasWords(title: string, query: string): boolean {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const lowerTitle = title.toLowerCase();
+  return words.every(word => lowerTitle.includes(word));
+}
+
+/**
+ * Cap ATS-provided description HTML at the length kept for scraped pages
+ */
+export function toDescription(html: string | null | undefined): string | null {
+  if (!html) return null;
+  return html.substring(0, 1000);
+}
+
+export function parseDate(value: string | number | null | undefined): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
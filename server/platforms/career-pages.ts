@@ -0,0 +1,55 @@
+import type { PlatformAdapter } from './types';
+
+/**
+ * Company-hosted career pages. Its extractor is also the fallback for any
+ * platform without a dedicated one.
+ */
+export const careerPagesAdapter: PlatformAdapter = {
+  id: 'careers.*',
+  displayName: 'Career Pages',
+  siteFilter: '(site:careers.* OR site:*/careers/* OR site:*/career/*)',
+
+  matchesUrl(url) {
+    return url.includes('/careers/') || url.includes('/career/');
+  },
+
+  extractDetails({ $, url }) {
+    // Try multiple selectors for title
+    const title = $('h1').first().text().trim() ||
+                  $('.job-title').text().trim() ||
+                  $('[class*="title"]').first().text().trim() ||
+                  $('meta[property="og:title"]').attr('content') ||
+                  $('title').text().split(' - ')[0] || '';
+
+    // Try to extract company name from various sources
+    let company = $('.company-name').text().trim() ||
+                  $('[class*="company"]').first().text().trim() ||
+                  $('meta[property="og:site_name"]').attr('content') ||
+                  $('meta[name="author"]').attr('content') ||
+                  '';
+
+    // If no company found, try to extract from domain
+    if (!company) {
+      try {
+        const hostname = new URL(url).hostname.replace('www.', '').split('.')[0];
+        company = hostname.charAt(0).toUpperCase() + hostname.slice(1);
+      } catch {}
+    }
+
+    const location = $('.location').text().trim() ||
+                     $('[class*="location"]').first().text().trim() ||
+                     $('[class*="place"]').first().text().trim() ||
+                     $('meta[name="geo.placename"]').attr('content') ||
+                     '';
+
+    const description = $('.job-description').html() ||
+                        $('.description').html() ||
+                        $('[class*="description"]').first().html() ||
+                        $('[class*="details"]').first().html() ||
+                        $('[class*="content"]').first().html() ||
+                        $('main').html() ||
+                        '';
+
+    return { title, company, location, description };
+  }
+};
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import './index';
+import { refreshCompanyBoard } from './index';
+import { greenhouseAdapter } from './greenhouse';
+import { loadFixture, mockBoardApi, requestedUrls } from './__fixtures__/board-api-mock';
+
+const BOARD_API = 'https://boards-api.greenhouse.io/v1/boards';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('greenhouse URL parsing', () => {
+  it('reads the board token from board, job-board, EU and embed URLs', () => {
+    expect(greenhouseAdapter.boardTokenFromUrl!('https://boards.greenhouse.io/AcmeRobotics/jobs/4012345')).toBe('acmerobotics');
+    expect(greenhouseAdapter.boardTokenFromUrl!('https://job-boards.greenhouse.io/acmerobotics')).toBe('acmerobotics');
+    expect(greenhouseAdapter.boardTokenFromUrl!('https://job-boards.eu.greenhouse.io/acmerobotics/jobs/4012345')).toBe('acmerobotics');
+    expect(greenhouseAdapter.boardTokenFromUrl!('https://boards.greenhouse.io/embed/job_board?for=acmerobotics&b=https://acme.com')).toBe('acmerobotics');
+  });
+
+  it('has no board token for an embed URL without "for" or a company page', () => {
+    expect(greenhouseAdapter.boardTokenFromUrl!('https://boards.greenhouse.io/embed/job_app?token=4012345')).toBeNull();
+    expect(greenhouseAdapter.boardTokenFromUrl!('https://acme.com/careers?gh_jid=4012345')).toBeNull();
+  });
+
+  it('reads the job id from board postings and gh_jid links', () => {
+    expect(greenhouseAdapter.jobIdFromUrl!('https://boards.greenhouse.io/acmerobotics/jobs/4012345')).toBe('4012345');
+    expect(greenhouseAdapter.jobIdFromUrl!('https://acme.com/careers/open-roles?gh_jid=4012345')).toBe('4012345');
+    expect(greenhouseAdapter.jobIdFromUrl!('https://boards.greenhouse.io/acmerobotics')).toBeNull();
+  });
+
+  it('turns gh_jid career page links into board posting URLs', () => {
+    expect(greenhouseAdapter.canonicalizeUrl!('https://acmerobotics.com/careers?gh_jid=4012345'))
+      .toBe('https://boards.greenhouse.io/acmerobotics/jobs/4012345');
+  });
+});
+
+describe('greenhouse board refresh', () => {
+  it('rejects tokens that are not board tokens without fetching', async () => {
+    const spy = mockBoardApi({});
+
+    await expect(refreshCompanyBoard('greenhouse', 'acme/../../admin')).rejects.toThrow('Invalid Greenhouse board token');
+    await expect(refreshCompanyBoard('greenhouse', 'acme?x=1')).rejects.toThrow('Invalid Greenhouse board token');
+    expect(spy).not.toHaveBeenCalled();
+  });
+});
+
+describe('greenhouse fetchBoardJobs', () => {
+  it('maps the board API response onto jobs', async () => {
+    const spy = mockBoardApi({
+      [`${BOARD_API}/acmerobotics/jobs?content=true`]: loadFixture('greenhouse-board.json'),
+      [`${BOARD_API}/acmerobotics`]: loadFixture('greenhouse-board-info.json')
+    });
+
+    const jobs = await greenhouseAdapter.fetchBoardJobs!('acmerobotics');
+
+    expect(requestedUrls(spy).sort()).toEqual([
+      `${BOARD_API}/acmerobotics`,
+      `${BOARD_API}/acmerobotics/jobs?content=true`
+    ]);
+    expect(jobs).toHaveLength(2);
+
+    const [engineer, manager] = jobs;
+    expect(engineer).toMatchObject({
+      title: 'Senior Software Engineer, Platform',
+      company: 'Acme Robotics',
+      location: 'San Francisco, CA',
+      url: 'https://boards.greenhouse.io/acmerobotics/jobs/4012345',
+      platform: 'Greenhouse'
+    });
+    expect(engineer.description).toContain('<strong>About the role</strong>');
+    expect(engineer.tags).toContain('Engineering');
+    expect(engineer.postedAt).toEqual(new Date('2026-09-02T10:00:00-04:00'));
+    expect(engineer.salary).toMatchObject({ min: 160000, max: 210000, currency: 'USD', period: 'year' });
+
+    // No location field: the offices stand in, and updated_at stands in for first_published
+    expect(manager.location).toBe('Austin, TX; Remote - US');
+    expect(manager.postedAt).toEqual(new Date('2026-10-01T09:30:00-04:00'));
+    expect(manager.salary).toBeNull();
+  });
+
+  it('names the company from the token when the board info request fails', async () => {
+    mockBoardApi({
+      [`${BOARD_API}/acme-robotics/jobs?content=true`]: loadFixture('greenhouse-board.json')
+    });
+
+    const jobs = await greenhouseAdapter.fetchBoardJobs!('acme-robotics');
+
+    expect(jobs.map(job => job.company)).toEqual(['Acme Robotics', 'Acme Robotics']);
+  });
+
+  it('throws when the board does not exist', async () => {
+    mockBoardApi({});
+
+    await expect(greenhouseAdapter.fetchBoardJobs!('no-such-board')).rejects.toThrow('Board API 404');
+  });
+});
+
+describe('greenhouse isPostingOpen', () => {
+  it('asks the board API for the single posting', async () => {
+    const spy = mockBoardApi({
+      [`${BOARD_API}/acmerobotics/jobs/4012345`]: loadFixture<{ jobs: unknown[] }>('greenhouse-board.json').jobs[0]
+    });
+
+    await expect(greenhouseAdapter.isPostingOpen!('https://boards.greenhouse.io/acmerobotics/jobs/4012345')).resolves.toBe(true);
+    await expect(greenhouseAdapter.isPostingOpen!('https://boards.greenhouse.io/acmerobotics/jobs/4099999')).resolves.toBe(false);
+    expect(requestedUrls(spy)).toEqual([
+      `${BOARD_API}/acmerobotics/jobs/4012345`,
+      `${BOARD_API}/acmerobotics/jobs/4099999`
+    ]);
+  });
+});
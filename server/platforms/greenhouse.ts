@@ -0,0 +1,253 @@
+import * as cheerio from 'cheerio';
+import type { InsertJob } from '@shared/schema';
+import { extractCompanyLogo, extractCompanyWithLogo } from '../logo-extractor';
+import { companyFromSlug, extractTags, isLikelyCompanyName } from '../job-extraction';
+import { extractSalaryFromText } from '../salary-extraction';
+import { normalizeLocation } from '../location-normalizer';
+import { boardPostingExists, fetchBoardJson, parseDate, toDescription } from './board-api';
+import type { PlatformAdapter } from './types';
+
+const GREENHOUSE_BOARD_API = 'https://boards-api.greenhouse.io/v1/boards';
+
+/**
+ * Response shapes of the public Greenhouse Job Board API
+ * https://developers.greenhouse.io/job-board.html
+ */
+export interface GreenhouseBoardJob {
+  id: number;
+  title: string;
+  absolute_url: string;
+  updated_at: string;
+  first_published?: string | null;
+  location?: { name: string } | null;
+  departments?: Array<{ id: number; name: string }>;
+  offices?: Array<{ id: number; name: string; location?: string | null }>;
+  // HTML-escaped description, only present with ?content=true
+  content?: string;
+}
+
+export interface GreenhouseBoardResponse {
+  jobs: GreenhouseBoardJob[];
+  meta?: { total: number };
+}
+
+export interface GreenhouseBoardInfo {
+  name: string;
+  content?: string;
+}
+
+export const greenhouseAdapter: PlatformAdapter = {
+  id: 'greenhouse.io',
+  aliases: ['boards.greenhouse.io'],
+  displayName: 'Greenhouse',
+  siteFilter: 'site:greenhouse.io',
+  companySlugPattern: /boards\.greenhouse\.io\/([^/]+)/,
+  boardTokenPattern: /^[a-z0-9][a-z0-9_-]*$/i,
+  directJobPatterns: [/gh_jid=/],
+  logoSelectors: [
+    '.company-logo img',
+    '.header-company-logo img',
+    '[data-qa="company-logo"] img',
+    '.company-header img',
+    'header img[alt*="logo" i]',
+    'header img[src*="logo" i]',
+    '.company-info img'
+  ],
+
+  matchesUrl(url) {
+    return url.includes('greenhouse.io');
+  },
+
+  isJobUrl(url) {
+    return url.includes('boards.greenhouse.io');
+  },
+
+  // Company career pages embed Greenhouse postings as ?gh_jid=<id>
+  canonicalizeUrl(url) {
+    const ghJidMatch = url.match(/gh_jid=(\d+)/);
+    if (!ghJidMatch) {
+      console.log(`❌ Could not extract job ID from gh_jid URL: ${url}`);
+      return null;
+    }
+
+    const domainMatch = url.match(/https?:\/\/(?:www\.)?([^\/]+)/);
+    if (!domainMatch) return null;
+
+    const jobId = ghJidMatch[1];
+    const companySlug = domainMatch[1].split('.')[0];
+    const directUrl = `https://boards.greenhouse.io/${companySlug}/jobs/${jobId}`;
+    console.log(`🔄 Converted career page: ${url} -> ${directUrl}`);
+    console.log(`   Company slug: ${companySlug}, Job ID: ${jobId}`);
+    return directUrl;
+  },
+
+  // gh_jid links on company career pages carry the same id as the board posting
+  jobIdFromUrl(url) {
+    const idMatch = url.match(/gh_jid=(\d+)/) || url.match(/greenhouse\.io\/[^?#]*\/jobs\/(\d+)/);
+    return idMatch ? idMatch[1] : null;
+  },
+
+  boardTokenFromUrl(url) {
+    // Embedded boards: boards.greenhouse.io/embed/job_board?for=<token>
+    const embedMatch = url.match(/greenhouse\.io\/embed\/[^?]*\?(?:.*&)?for=([^&#]+)/);
+    if (embedMatch) return embedMatch[1].toLowerCase();
+
+    const boardMatch = url.match(/(?:boards|job-boards)(?:\.eu)?\.greenhouse\.io\/([^/?#]+)/);
+    if (!boardMatch || boardMatch[1] === 'embed') return null;
+    return boardMatch[1].toLowerCase();
+  },
+
+  async fetchBoardJobs(token, options = {}) {
+    const { signal } = options;
+    const [board, info] = await Promise.all([
+      fetchBoardJson<GreenhouseBoardResponse>(`${GREENHOUSE_BOARD_API}/${encodeURIComponent(token)}/jobs?content=true`, { signal }),
+      fetchBoardJson<GreenhouseBoardInfo>(`${GREENHOUSE_BOARD_API}/${encodeURIComponent(token)}`, { signal }).catch(() => null)
+    ]);
+
+    const jobs = parseGreenhouseBoard(board, token, info?.name);
+    console.log(`🌱 Greenhouse board "${token}": ${jobs.length} open jobs`);
+    return jobs;
+  },
+
+  closedPagePatterns: [/the job you are looking for is no longer open/i],
+
+  async isPostingOpen(url) {
+    const token = greenhouseAdapter.boardTokenFromUrl?.(url);
+    const jobId = greenhouseAdapter.jobIdFromUrl?.(url);
+    if (!token || !jobId) return null;
+    return boardPostingExists(`${GREENHOUSE_BOARD_API}/${encodeURIComponent(token)}/jobs/${jobId}`);
+  },
+
+  extractDetails({ $, url, metaCompany }) {
+    let title = $('h1').first().text().trim() ||
+                $('[data-automation="jobPostingHeader"]').text().trim() ||
+                $('.app-title').text().trim() ||
+                $('#header h1').text().trim() ||
+                $('h1.job-title').text().trim() ||
+                $('.posting-headline').text().trim() ||
+                $('title').text().split(' - ')[0].trim();
+
+    // Use enhanced company extraction with logo context
+    const companyData = extractCompanyWithLogo($, url);
+    let company = companyData.company || metaCompany || '';
+
+    // Extract company from URL if not found in content
+    if (!company) {
+      const urlMatch = url.match(/boards\.greenhouse\.io\/([^/]+)/);
+      if (urlMatch) {
+        const extracted = companyFromSlug(urlMatch[1]);
+
+        // Only use if it's a real company name
+        if (isLikelyCompanyName(extracted)) {
+          company = extracted;
+        }
+      }
+    }
+
+    const location = $('.location').text().trim() ||
+                     $('[data-automation="jobPostingLocation"]').text().trim() ||
+                     $('.job-location').text().trim() ||
+                     $('div:contains("Location")').next().text().trim() ||
+                     'Location not specified';
+
+    const description = cleanDescription($, $('#content').html() ||
+                        $('[data-automation="jobPostingDescription"]').html() ||
+                        $('.job-description').html() ||
+                        $('#description').html() ||
+                        $('.posting-requirements').html() ||
+                        $('.posting-description').html() ||
+                        $('.content').html() ||
+                        '');
+
+    // Clean up title - remove company names that might be prepended
+    if (title) {
+      title = title.replace(/^.*?\s-\s/, '').replace(/\sat\s.*$/, '').trim();
+      // Remove common unwanted text
+      title = title.replace(/find your future/gi, '').trim();
+    }
+
+    return { title, company, location, description };
+  }
+};
+
+function cleanDescription($: cheerio.CheerioAPI, description: string): string | null {
+  if (!description) return description;
+
+  // Remove all Elementor and page builder content
+  const cleaned = description
+    .replace(/<section[^>]*elementor[^>]*>[\s\S]*?<\/section>/gi, '')
+    .replace(/<div[^>]*elementor[^>]*>[\s\S]*?<\/div>/gi, '')
+    .replace(/<div[^>]*data-id="[^"]*"[^>]*>[\s\S]*?<\/div>/gi, '')
+    .replace(/<div[^>]*data-element[^>]*>[\s\S]*?<\/div>/gi, '')
+    .replace(/<header[\s\S]*?<\/header>/gi, '')
+    .replace(/<nav[\s\S]*?<\/nav>/gi, '')
+    .replace(/<footer[\s\S]*?<\/footer>/gi, '')
+    .replace(/<aside[\s\S]*?<\/aside>/gi, '')
+    .replace(/<form[\s\S]*?<\/form>/gi, '')
+    .replace(/<script[\s\S]*?<\/script>/gi, '')
+    .replace(/<style[\s\S]*?<\/style>/gi, '')
+    .replace(/data-[a-zA-Z-]+=["'][^"']*["']/gi, '')
+    .replace(/class="[^"]*elementor[^"]*"/gi, '')
+    .replace(/<[^>]*>\s*<\/[^>]*>/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  // If description is still mostly empty or contains unwanted content, try text-only extraction
+  const plainText = cleaned.replace(/<[^>]*>/g, '').trim();
+  if (plainText.length >= 100 && !plainText.includes('elementor') && !plainText.includes('data-id')) {
+    return cleaned;
+  }
+
+  // Try to get plain text from specific elements
+  const textContent = $('#content').text().trim() ||
+                      $('[data-automation="jobPostingDescription"]').text().trim() ||
+                      $('.job-description').text().trim() ||
+                      $('.posting-requirements').text().trim() ||
+                      $('.posting-description').text().trim();
+
+  if (textContent && textContent.length > 50) {
+    // Convert plain text back to basic HTML for display
+    return textContent.split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .map(line => `<p>${line}</p>`)
+      .join('');
+  }
+
+  return null;
+}
+
+/**
+ * Map a Greenhouse board API response onto our job shape
+ */
+export function parseGreenhouseBoard(
+  board: GreenhouseBoardResponse,
+  token: string,
+  companyName?: string | null
+): InsertJob[] {
+  const company = companyName?.trim() || companyFromSlug(token);
+
+  return (board.jobs || []).map(job => {
+    // The API escapes the description HTML once more
+    const descriptionHtml = job.content ? cheerio.load(job.content, null, false).text() : '';
+    const departments = (job.departments || []).map(department => department.name).filter(Boolean);
+    const location = job.location?.name?.trim() ||
+                     job.offices?.map(office => office.location || office.name).filter(Boolean).join('; ') ||
+                     'Location not specified';
+    const logo = extractCompanyLogo(cheerio.load(''), company, job.absolute_url, 'Greenhouse').logo;
+
+    return {
+      title: job.title.trim(),
+      company,
+      location,
+      description: toDescription(descriptionHtml),
+      url: job.absolute_url,
+      logo,
+      platform: 'Greenhouse',
+      tags: Array.from(new Set([...departments, ...extractTags(job.title, descriptionHtml)])),
+      postedAt: parseDate(job.first_published) || parseDate(job.updated_at) || new Date(),
+      salary: extractSalaryFromText(descriptionHtml),
+      normalizedLocation: normalizeLocation(location)
+    };
+  });
+}
@@ -0,0 +1,261 @@
+/**
+ * Registry of job platform adapters
+ * Every place that needs per-platform behaviour (search queries, URL
+ * classification, detail scraping, logo selectors) reads from here.
+ */
+
+import { platformCatalog } from '@shared/platforms';
+import { greenhouseAdapter } from './greenhouse';
+import { leverAdapter } from './lever';
+import { ashbyAdapter } from './ashby';
+import { workdayAdapter } from './workday';
+import { workableAdapter } from './workable';
+import { adpAdapter } from './adp';
+import { careerPagesAdapter } from './career-pages';
+import { searchOnlyAdapters } from './search-only';
+import { filterBoardJobs } from './board-api';
+import { locationSearchTerms, parseLocationQuery } from '../location-filter';
+import { parseSearchQuery, positiveSearchText, QueryParseError, toGoogleQuery } from '../search-query';
+import type { InsertJob } from '@shared/schema';
+import type { PlatformAdapter } from './types';
+
+export type { PlatformAdapter, ExtractedJobDetails, DetailExtractionContext, BoardFetchOptions } from './types';
+export { careerPagesAdapter };
+
+// URL matching walks this list in order, so the catch-all career pages go last
+const adapters: PlatformAdapter[] = [
+  greenhouseAdapter,
+  leverAdapter,
+  ashbyAdapter,
+  workdayAdapter,
+  workableAdapter,
+  adpAdapter,
+  ...searchOnlyAdapters,
+  careerPagesAdapter
+];
+
+// Platforms combined into the single Google query used for site "all"
+const ALL_QUERY_PLATFORM_IDS = ['greenhouse.io', 'lever.co', 'ashbyhq.com', 'myworkdayjobs.com', 'jobs.workable.com'];
+
+/**
+ * Platform ids searched by "All Platforms", in catalog order
+ */
+export const searchablePlatformIds: string[] = platformCatalog
+  .map(platform => platform.id)
+  .filter(id => adapters.some(adapter => adapter.id === id));
+
+/**
+ * Look up an adapter by the `site` value of a search request
+ */
+export function getPlatformAdapter(site: string): PlatformAdapter | undefined {
+  return adapters.find(adapter => adapter.id === site || adapter.aliases?.includes(site));
+}
+
+/**
+ * Look up an adapter by id, alias or display name (case-insensitive)
+ */
+export function findPlatformAdapter(platform: string): PlatformAdapter | undefined {
+  const needle = platform.toLowerCase();
+  return adapters.find(adapter =>
+    adapter.id === needle ||
+    adapter.displayName.toLowerCase() === needle ||
+    adapter.aliases?.includes(needle)
+  );
+}
+
+export function getAdapterForUrl(url: string): PlatformAdapter | undefined {
+  return adapters.find(adapter => adapter.matchesUrl?.(url));
+}
+
+/**
+ * Pull whole company boards through the platforms' public APIs for the
+ * boards that discovered posting URLs belong to. Board jobs are kept when
+ * their title matches the query or when they are one of the discovered
+ * postings; `coveredUrls` are the discovered URLs that no longer need scraping.
+ */
+export async function fetchBoardJobsForUrls(
+  urls: string[],
+  query: string,
+  signal?: AbortSignal,
+  maxBoards: number = 5
+): Promise<{ jobs: InsertJob[]; coveredUrls: Set<string> }> {
+  const boards = new Map<string, { adapter: PlatformAdapter; token: string; urls: string[] }>();
+
+  for (const url of urls) {
+    const board = resolveBoardFromUrl(url);
+    if (!board) continue;
+    const { adapter, token } = board;
+
+    const key = `${adapter.id}:${token}`;
+    if (!boards.has(key)) {
+      if (boards.size >= maxBoards) continue;
+      boards.set(key, { adapter, token, urls: [] });
+    }
+    boards.get(key)!.urls.push(url);
+  }
+
+  const jobs: InsertJob[] = [];
+  const coveredUrls = new Set<string>();
+  const seenUrls = new Set<string>();
+  // Board keyword searches (Workday) only understand plain words
+  const boardQuery = boardSearchText(query);
+
+  const results = await Promise.allSettled(
+    Array.from(boards.values()).map(board => board.adapter.fetchBoardJobs!(board.token, { query: boardQuery, postingUrls: board.urls, signal }))
+  );
+
+  Array.from(boards.values()).forEach((board, index) => {
+    const result = results[index];
+    if (result.status === 'rejected') {
+      console.log(`⚠️ ${board.adapter.displayName} board "${board.token}" unavailable: ${result.reason}`);
+      return;
+    }
+
+    const boardJobs = result.value;
+    const boardUrls = new Set(boardJobs.map(job => job.url));
+    // Discovered links can carry extra parameters (ADP), so match on job ids too
+    const boardJobIds = new Set(boardJobs.map(job => getAtsJobId(job.url)).filter(Boolean));
+    const discoveredJobIds = new Set(board.urls.map(getAtsJobId).filter(Boolean));
+    const matching = new Set(filterBoardJobs(boardJobs, query));
+
+    for (const job of boardJobs) {
+      const discovered = board.urls.includes(job.url) || discoveredJobIds.has(getAtsJobId(job.url));
+      if ((matching.has(job) || discovered) && !seenUrls.has(job.url)) {
+        seenUrls.add(job.url);
+        jobs.push(job);
+      }
+    }
+
+    board.urls
+      .filter(url => boardUrls.has(url) || boardJobIds.has(getAtsJobId(url)))
+      .forEach(url => coveredUrls.add(url));
+  });
+
+  return { jobs, coveredUrls };
+}
+
+function boardSearchText(query: string): string {
+  try {
+    return positiveSearchText(parseSearchQuery(query));
+  } catch (error) {
+    if (error instanceof QueryParseError) return query;
+    throw error;
+  }
+}
+
+/**
+ * Company board a posting or board URL belongs to, for platforms with a board API
+ */
+export function resolveBoardFromUrl(url: string): { adapter: PlatformAdapter; token: string } | null {
+  const adapter = getAdapterForUrl(url);
+  const token = adapter?.fetchBoardJobs ? adapter.boardTokenFromUrl?.(url) : null;
+  return adapter && token ? { adapter, token } : null;
+}
+
+/**
+ * Re-read one known company board, e.g. ("lever", "netflix")
+ */
+export async function refreshCompanyBoard(platform: string, token: string): Promise<InsertJob[]> {
+  const adapter = findPlatformAdapter(platform);
+  if (!adapter?.fetchBoardJobs) {
+    throw new Error(`No board API for platform "${platform}"`);
+  }
+  if (!isBoardToken(adapter, token)) {
+    throw new Error(`Invalid ${adapter.displayName} board token: ${token}`);
+  }
+  return adapter.fetchBoardJobs(token);
+}
+
+/**
+ * Whether a token has the shape of the platform's board tokens; adapters
+ * without a pattern accept none
+ */
+export function isBoardToken(adapter: PlatformAdapter, token: string): boolean {
+  return !!adapter.boardTokenPattern?.test(token);
+}
+
+/**
+ * Platform name stored on jobs from a URL. Search-only platforms keep the
+ * names their jobs were stored under before they had adapters, so existing
+ * filters and saved jobs still line up.
+ */
+export function getPlatformFromUrl(url: string): string {
+  const adapter = getAdapterForUrl(url);
+  if (adapter && !searchOnlyAdapters.includes(adapter)) return adapter.displayName;
+  if (url.includes('linkedin.com')) return 'LinkedIn';
+  if (url.includes('glassdoor.com')) return 'Glassdoor';
+  return careerPagesAdapter.matchesUrl?.(url) ? careerPagesAdapter.displayName : 'Other';
+}
+
+/**
+ * Platform-qualified ATS job id (e.g. "greenhouse.io:4012345") for any URL
+ * that carries one, including company pages embedding an ATS posting
+ */
+export function getAtsJobId(url: string): string | null {
+  for (const adapter of adapters) {
+    const jobId = adapter.jobIdFromUrl?.(url);
+    if (jobId) return `${adapter.id}:${jobId}`;
+  }
+  return null;
+}
+
+/**
+ * Company slug patterns for platforms whose URLs carry the company name
+ */
+export function getCompanySlugPatterns(): Array<{ pattern: RegExp; platform: string }> {
+  return adapters
+    .filter(adapter => adapter.companySlugPattern)
+    .map(adapter => ({ pattern: adapter.companySlugPattern!, platform: adapter.displayName }));
+}
+
+export function buildSearchQuery(query: string, site: string, location: string = "all", timeFilter?: string): string {
+  // Build location filter: presets add a word, places add their (nearby) names
+  const locationTerms = locationSearchTerms(parseLocationQuery(location));
+  const locationFilter = locationTerms ? ` ${locationTerms}` : "";
+
+  // Plain queries stay a single intext phrase; operators compile to Google syntax
+  const intextQuery = toGoogleQuery(parseSearchQuery(query));
+
+  console.log(`🔍 Building search query for site: ${site}, query: "${query}", location: "${locationFilter}", timeFilter: "${timeFilter || 'none'}"`);
+
+  let siteFilter: string;
+  if (site === 'all') {
+    // For "all", we'll search across the most common platforms
+    siteFilter = `(${ALL_QUERY_PLATFORM_IDS.map(id => getPlatformAdapter(id)!.siteFilter).join(' OR ')})`;
+  } else {
+    // Default fallback for custom domains
+    siteFilter = getPlatformAdapter(site)?.siteFilter || `site:${site}`;
+  }
+
+  const searchQuery = `${siteFilter}${locationFilter} intext:"apply" ${intextQuery}`;
+
+  console.log(`🎯 Final search query: ${searchQuery}`);
+  return searchQuery;
+}
+
+export function isDirectJobUrl(url: string): boolean {
+  // Check if URL points to a specific job posting vs general career page
+  const directJobPatterns = [
+    /\/jobs\/\d+/,           // /jobs/123456
+    /\/job\/[a-zA-Z0-9-_]+/, // /job/job-id
+    /\/applications\/[a-zA-Z0-9-_]+/, // Some ATS: /applications/job-id
+    /jobId=/,                // Query parameter: ?jobId=123
+    /job_id=/,               // Query parameter: ?job_id=123
+    ...adapters.flatMap(adapter => adapter.directJobPatterns || [])
+  ];
+
+  // Must match at least one direct job pattern
+  const hasJobPattern = directJobPatterns.some(pattern => pattern.test(url));
+
+  // Exclude obvious generic pages
+  const isGenericPage = [
+    /\/careers\/?$/,        // ends with /careers or /careers/
+    /\/jobs\/?$/,           // ends with /jobs or /jobs/
+    /\/opportunities\/?$/,   // ends with /opportunities
+    /\/openings\/?$/,       // ends with /openings
+    /\/apply\/?$/,          // ends with /apply
+    /\/employment\/?$/      // ends with /employment
+  ].some(pattern => pattern.test(url));
+
+  return hasJobPattern && !isGenericPage;
+}
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import './index';
+import { leverAdapter } from './lever';
+import { loadFixture, mockBoardApi, requestedUrls } from './__fixtures__/board-api-mock';
+
+const POSTING_ID = '5f1c2a9e-3b7d-4c11-9a2e-0d6b8e4f7a21';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('lever URL parsing', () => {
+  it('reads the site token from global and EU posting URLs', () => {
+    expect(leverAdapter.boardTokenFromUrl!(`https://jobs.lever.co/Northwind/${POSTING_ID}`)).toBe('northwind');
+    expect(leverAdapter.boardTokenFromUrl!(`https://jobs.eu.lever.co/northwind/${POSTING_ID}/apply`)).toBe('northwind');
+    expect(leverAdapter.boardTokenFromUrl!('https://www.lever.co/customers')).toBeNull();
+  });
+
+  it('reads the posting id only when it is a Lever UUID', () => {
+    expect(leverAdapter.jobIdFromUrl!(`https://jobs.lever.co/northwind/${POSTING_ID.toUpperCase()}`)).toBe(POSTING_ID);
+    expect(leverAdapter.jobIdFromUrl!('https://jobs.lever.co/northwind/apply')).toBeNull();
+  });
+});
+
+describe('lever fetchBoardJobs', () => {
+  it('maps the postings API response onto jobs', async () => {
+    const spy = mockBoardApi({
+      'https://api.lever.co/v0/postings/northwind?mode=json': loadFixture('lever-postings.json')
+    });
+
+    const jobs = await leverAdapter.fetchBoardJobs!('northwind');
+
+    expect(requestedUrls(spy)).toEqual(['https://api.lever.co/v0/postings/northwind?mode=json']);
+    expect(jobs).toHaveLength(2);
+
+    const [engineer, designer] = jobs;
+    expect(engineer).toMatchObject({
+      title: 'Data Engineer',
+      company: 'Northwind',
+      location: 'Toronto, ON · Hybrid',
+      url: `https://jobs.lever.co/northwind/${POSTING_ID}`,
+      platform: 'Lever'
+    });
+    expect(engineer.description).toContain("<h3>What you'll do</h3><ul><li>Build Spark");
+    expect(engineer.tags).toEqual(expect.arrayContaining(['Full-time', 'Data Platform', 'Engineering', 'Hybrid']));
+    expect(engineer.postedAt).toEqual(new Date(1727280000000));
+    expect(engineer.salary).toMatchObject({ min: 120000, max: 150000, currency: 'CAD', period: 'year', source: 'ats' });
+
+    // No primary location: every location is listed; pay comes from the text
+    expect(designer.location).toBe('New York, NY; Boston, MA · Remote');
+    expect(designer.salary).toMatchObject({ min: 60, max: 80, currency: 'USD', period: 'hour' });
+  });
+
+  it('falls back to the EU API when the global one does not know the site', async () => {
+    const spy = mockBoardApi({
+      'https://api.eu.lever.co/v0/postings/northwind?mode=json': loadFixture('lever-postings.json')
+    });
+
+    const jobs = await leverAdapter.fetchBoardJobs!('northwind');
+
+    expect(requestedUrls(spy)).toEqual([
+      'https://api.lever.co/v0/postings/northwind?mode=json',
+      'https://api.eu.lever.co/v0/postings/northwind?mode=json'
+    ]);
+    expect(jobs).toHaveLength(2);
+  });
+});
+
+describe('lever isPostingOpen', () => {
+  it('asks the API of the region the posting is hosted in', async () => {
+    const spy = mockBoardApi({
+      [`https://api.eu.lever.co/v0/postings/northwind/${POSTING_ID}`]: loadFixture<unknown[]>('lever-postings.json')[0]
+    });
+
+    await expect(leverAdapter.isPostingOpen!(`https://jobs.eu.lever.co/northwind/${POSTING_ID}`)).resolves.toBe(true);
+    await expect(leverAdapter.isPostingOpen!(`https://jobs.lever.co/northwind/${POSTING_ID}`)).resolves.toBe(false);
+    expect(requestedUrls(spy)).toEqual([
+      `https://api.eu.lever.co/v0/postings/northwind/${POSTING_ID}`,
+      `https://api.lever.co/v0/postings/northwind/${POSTING_ID}`
+    ]);
+  });
+});
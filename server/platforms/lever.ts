@@ -0,0 +1,205 @@
+import * as cheerio from 'cheerio';
+import type { InsertJob } from '@shared/schema';
+import { extractCompanyLogo } from '../logo-extractor';
+import { companyFromSlug, extractTags, isLikelyCompanyName } from '../job-extraction';
+import { buildSalary, extractSalary, parseSalaryPeriod } from '../salary-extraction';
+import { normalizeLocation } from '../location-normalizer';
+import { boardPostingExists, fetchBoardJson, parseDate, toDescription } from './board-api';
+import type { PlatformAdapter } from './types';
+
+/**
+ * One posting from the public Lever postings API
+ * https://github.com/lever/postings-api
+ */
+export interface LeverPosting {
+  id: string;
+  text: string;
+  hostedUrl: string;
+  applyUrl?: string;
+  createdAt?: number;
+  workplaceType?: 'onsite' | 'remote' | 'hybrid' | 'unspecified';
+  country?: string;
+  categories?: {
+    location?: string;
+    allLocations?: string[];
+    commitment?: string;
+    team?: string;
+    department?: string;
+  };
+  description?: string;
+  descriptionPlain?: string;
+  lists?: Array<{ text: string; content: string }>;
+  additional?: string;
+  // Only on postings where the company publishes pay
+  salaryRange?: {
+    min?: number;
+    max?: number;
+    currency?: string;
+    interval?: string;
+  };
+  salaryDescription?: string;
+}
+
+const WORKPLACE_LABELS: Record<string, string> = {
+  remote: 'Remote',
+  hybrid: 'Hybrid',
+  onsite: 'On-site'
+};
+
+export const leverAdapter: PlatformAdapter = {
+  id: 'lever.co',
+  aliases: ['jobs.lever.co'],
+  displayName: 'Lever',
+  siteFilter: 'site:lever.co',
+  companySlugPattern: /jobs\.lever\.co\/([^/]+)/,
+  boardTokenPattern: /^[a-z0-9][a-z0-9._-]*$/i,
+  directJobPatterns: [/\/posting\/[a-zA-Z0-9-_]+/],
+  logoSelectors: [
+    '.company-logo img',
+    '.posting-header img',
+    '.header img',
+    'img[alt*="logo" i]',
+    '.company-img img'
+  ],
+
+  matchesUrl(url) {
+    return url.includes('lever.co');
+  },
+
+  isJobUrl(url) {
+    return url.includes('jobs.lever.co') && url.includes('/posting/');
+  },
+
+  jobIdFromUrl(url) {
+    const idMatch = url.match(/lever\.co\/[^/]+\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i);
+    return idMatch ? idMatch[1].toLowerCase() : null;
+  },
+
+  boardTokenFromUrl(url) {
+    const siteMatch = url.match(/jobs(?:\.eu)?\.lever\.co\/([^/?#]+)/);
+    return siteMatch ? siteMatch[1].toLowerCase() : null;
+  },
+
+  async fetchBoardJobs(token, options = {}) {
+    // EU-hosted sites only answer on the EU API, so try it when the global one has nothing
+    const postings = await fetchLeverPostings('https://api.lever.co', token, options.signal)
+      .catch(() => fetchLeverPostings('https://api.eu.lever.co', token, options.signal));
+
+    const jobs = parseLeverPostings(postings, token);
+    console.log(`🎚️ Lever site "${token}": ${jobs.length} open postings`);
+    return jobs;
+  },
+
+  async isPostingOpen(url) {
+    const site = leverAdapter.boardTokenFromUrl?.(url);
+    const postingId = leverAdapter.jobIdFromUrl?.(url);
+    if (!site || !postingId) return null;
+
+    const apiBase = url.includes('jobs.eu.lever.co') ? 'https://api.eu.lever.co' : 'https://api.lever.co';
+    return boardPostingExists(`${apiBase}/v0/postings/${encodeURIComponent(site)}/${postingId}`);
+  },
+
+  // Lever serves its 404 page with a 200 for some removed postings
+  closedPagePatterns: [/sorry, we couldn't find anything here/i, /the job posting you're looking for might have closed/i],
+
+  extractDetails({ $, url }) {
+    // Lever uses different selectors - try multiple approaches
+    const title = $('h2.posting-headline').text().trim() ||
+                  $('.posting-headline').text().trim() ||
+                  $('h1').first().text().trim() ||
+                  $('[data-qa="job-title"]').text().trim() ||
+                  $('.posting-header h2').text().trim();
+
+    // Company extraction for Lever
+    const companyFromTitle = $('.main-header-mobile .posting-headline a').text().trim();
+    let company = companyFromTitle ||
+                  $('.posting-company').text().trim() ||
+                  $('meta[property="og:site_name"]').attr('content') ||
+                  $('[data-qa="company-name"]').text().trim() ||
+                  '';
+
+    // Extract company from URL if not found
+    if (!company) {
+      const leverMatch = url.match(/jobs\.lever\.co\/([^/]+)/);
+      if (leverMatch) {
+        const extracted = companyFromSlug(leverMatch[1]);
+
+        // Only use if it's a real company name
+        if (isLikelyCompanyName(extracted)) {
+          company = extracted;
+        }
+      }
+    }
+
+    const location = $('.posting-categories .location').text().trim() ||
+                     $('.posting-location').text().trim() ||
+                     $('[data-qa="location"]').text().trim() ||
+                     $('.location').text().trim() ||
+                     'Location not specified';
+
+    const description = $('div[data-qa="job-description"]').html() ||
+                        $('.posting-description').html() ||
+                        $('[data-qa="description"]').html() ||
+                        $('.content').html() ||
+                        '';
+
+    return { title, company, location, description };
+  }
+};
+
+async function fetchLeverPostings(apiBase: string, site: string, signal?: AbortSignal): Promise<LeverPosting[]> {
+  return fetchBoardJson<LeverPosting[]>(`${apiBase}/v0/postings/${encodeURIComponent(site)}?mode=json`, { signal });
+}
+
+/**
+ * Map a Lever postings API response onto our job shape
+ */
+export function parseLeverPostings(postings: LeverPosting[], site: string, companyName?: string | null): InsertJob[] {
+  const company = companyName?.trim() || companyFromSlug(site);
+
+  return (postings || []).map(posting => {
+    const categories = posting.categories || {};
+    const workplace = posting.workplaceType ? WORKPLACE_LABELS[posting.workplaceType] : undefined;
+
+    const place = categories.location || categories.allLocations?.join('; ') || '';
+    const location = [place, workplace && !place.toLowerCase().includes(workplace.toLowerCase()) ? workplace : '']
+      .filter(Boolean)
+      .join(' · ') || 'Location not specified';
+
+    // Lever splits the posting into an intro, bullet lists and a closing section
+    const descriptionHtml = [
+      posting.description || '',
+      ...(posting.lists || []).map(list => `<h3>${list.text}</h3><ul>${list.content}</ul>`),
+      posting.additional || ''
+    ].join('');
+    const plainText = posting.descriptionPlain || cheerio.load(descriptionHtml).text();
+
+    const tags = [
+      categories.commitment,
+      categories.team,
+      categories.department,
+      workplace,
+      ...extractTags(posting.text, plainText)
+    ].filter((tag): tag is string => !!tag);
+
+    const range = posting.salaryRange;
+    const salary = extractSalary({
+      structured: range ? buildSalary(range.min ?? null, range.max ?? null, range.currency || 'USD', parseSalaryPeriod(range.interval) || 'year', 'ats') : null,
+      text: `${posting.salaryDescription || ''} ${plainText}`
+    });
+
+    return {
+      title: posting.text.trim(),
+      company,
+      location,
+      description: toDescription(descriptionHtml),
+      url: posting.hostedUrl,
+      logo: extractCompanyLogo(cheerio.load(''), company, posting.hostedUrl, 'Lever').logo,
+      platform: 'Lever',
+      tags: Array.from(new Set(tags)),
+      postedAt: parseDate(posting.createdAt) || new Date(),
+      salary,
+      normalizedLocation: normalizeLocation(location, { workplaceType: posting.workplaceType })
+    };
+  });
+}
@@ -0,0 +1,73 @@
+import { getPlatformInfo } from '@shared/platforms';
+import type { PlatformAdapter } from './types';
+
+/**
+ * Platforms we only discover through search. Postings found on them are
+ * scraped with the career-page extractor.
+ */
+function searchOnlyAdapter(
+  id: string,
+  options: { siteFilter?: string; host?: string | null } = {}
+): PlatformAdapter {
+  const host = options.host === undefined ? id : options.host;
+
+  return {
+    id,
+    displayName: getPlatformInfo(id)?.name || id,
+    siteFilter: options.siteFilter || `site:${id}`,
+    matchesUrl: host ? (url) => hostMatches(url, host) : undefined
+  };
+}
+
+function hostMatches(url: string, host: string): boolean {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase();
+    return hostname === host || hostname.endsWith(`.${host}`);
+  } catch {
+    return false;
+  }
+}
+
+export const searchOnlyAdapters: PlatformAdapter[] = [
+  searchOnlyAdapter('icims.com'),
+  searchOnlyAdapter('jobvite.com'),
+
+  searchOnlyAdapter('remoterocketship.com'),
+  searchOnlyAdapter('wellfound.com'),
+  searchOnlyAdapter('workatastartup.com'),
+  searchOnlyAdapter('builtin.com', { siteFilter: 'site:builtin.com/job/' }),
+  searchOnlyAdapter('rippling-ats.com'),
+  searchOnlyAdapter('jobs.gusto.com'),
+  searchOnlyAdapter('dover.io'),
+
+  searchOnlyAdapter('recruiting.paylocity.com'),
+  searchOnlyAdapter('breezy.hr'),
+  searchOnlyAdapter('applytojob.com'),
+  searchOnlyAdapter('jobs.smartrecruiters.com'),
+  searchOnlyAdapter('trinethire.com'),
+  searchOnlyAdapter('recruitee.com'),
+  searchOnlyAdapter('teamtailor.com'),
+  searchOnlyAdapter('homerun.co'),
+
+  searchOnlyAdapter('pinpointhq.com'),
+  searchOnlyAdapter('keka.com'),
+  searchOnlyAdapter('oraclecloud.com'),
+  searchOnlyAdapter('careerpuck.com'),
+  searchOnlyAdapter('jobappnetwork.com'),
+  searchOnlyAdapter('gem.com'),
+  searchOnlyAdapter('trakstar.com'),
+  searchOnlyAdapter('catsone.com'),
+  searchOnlyAdapter('notion.site'),
+
+  searchOnlyAdapter('linkedin.com'),
+  searchOnlyAdapter('glassdoor.com', { siteFilter: 'site:glassdoor.com/job-listing/' }),
+
+  // Generic patterns match too many hosts to claim URLs
+  searchOnlyAdapter('jobs.*', { host: null }),
+  searchOnlyAdapter('people.*', { host: null }),
+  searchOnlyAdapter('talent.*', { host: null }),
+  searchOnlyAdapter('other-pages', {
+    host: null,
+    siteFilter: '(site:*/employment/* OR site:*/opportunities/* OR site:*/openings/* OR site:*/join-us/* OR site:*/work-with-us/*)'
+  })
+];
@@ -0,0 +1,81 @@
+import type * as cheerio from 'cheerio';
+import type { InsertJob } from '@shared/schema';
+
+/**
+ * Fields a platform can pull off a fetched job page. Anything left empty is
+ * filled in by the shared post-processing in scrapeJobDetails.
+ */
+export interface ExtractedJobDetails {
+  title?: string;
+  company?: string;
+  location?: string;
+  description?: string | null;
+}
+
+export interface DetailExtractionContext {
+  $: cheerio.CheerioAPI;
+  url: string;
+  searchQuery?: string;
+  // Company from og:site_name / JSON-LD, when the page has one
+  metaCompany: string;
+}
+
+export interface BoardFetchOptions {
+  query?: string;
+  // Postings discovered on this board, for adapters that read them one by one (ADP)
+  postingUrls?: string[];
+  // Cancels the board's API requests along with the search
+  signal?: AbortSignal;
+}
+
+/**
+ * Everything the search pipeline needs to know about one job platform.
+ * Register new platforms in server/platforms/index.ts.
+ */
+export interface PlatformAdapter {
+  // `site` value from the search form (see shared/platforms.ts)
+  id: string;
+  // Other `site` values that select this platform
+  aliases?: string[];
+  // Name stored on jobs as `platform`
+  displayName: string;
+  // Google `site:` clause used to discover postings
+  siteFilter: string;
+
+  // Whether a URL is hosted on this platform
+  matchesUrl?(url: string): boolean;
+  // Whether a URL on this platform is a single posting worth scraping
+  isJobUrl?(url: string): boolean;
+  // Rewrite a URL into the platform's canonical posting URL (e.g. gh_jid links)
+  canonicalizeUrl?(url: string): string | null;
+  // The platform's own id for the posting, identical wherever the posting is embedded
+  jobIdFromUrl?(url: string): string | null;
+  // URL patterns that identify a specific posting rather than a listing page
+  directJobPatterns?: RegExp[];
+  // Captures the company slug from a posting URL
+  companySlugPattern?: RegExp;
+  // Selectors tried when looking for the company logo on a posting page
+  logoSelectors?: string[];
+
+  // Client-rendered pages that need a longer fetch timeout
+  slowToFetch?: boolean;
+  // Search results can't name the company, so postings never become jobs
+  // from their title and snippet; they come from the API or the page
+  noSnippetJobs?: boolean;
+
+  // Company board (Greenhouse board token, Lever site, ...) a posting URL belongs to
+  boardTokenFromUrl?(url: string): string | null;
+  // Shape of this platform's board tokens; tokens from callers must match it
+  boardTokenPattern?: RegExp;
+  // Every open posting on a company board, read from the platform's public API.
+  // Boards that can only be searched (Workday) or read per posting (ADP)
+  // narrow the list with `query`.
+  fetchBoardJobs?(token: string, options?: BoardFetchOptions): Promise<InsertJob[]>;
+  // Ask the platform's API whether a posting is still open; null when it can't tell
+  isPostingOpen?(url: string): Promise<boolean | null>;
+  // Text shown on this platform's pages for postings that were taken down
+  closedPagePatterns?: RegExp[];
+
+  // Pull job fields out of a fetched posting page
+  extractDetails?(context: DetailExtractionContext): ExtractedJobDetails;
+}
@@ -0,0 +1,79 @@
+import { companyFromSlug } from '../job-extraction';
+import type { PlatformAdapter } from './types';
+
+export const workableAdapter: PlatformAdapter = {
+  id: 'jobs.workable.com',
+  displayName: 'Workable',
+  siteFilter: 'site:jobs.workable.com',
+  companySlugPattern: /jobs\.workable\.com\/([^/]+)/,
+  logoSelectors: [
+    '[data-ui="company-logo"] img',
+    '[data-ui*="logo"] img',
+    '.company-logo img',
+    '.header-logo img',
+    'header img[alt*="logo" i]',
+    '.company-header img',
+    'img[src*="logo" i]'
+  ],
+  slowToFetch: true,
+
+  matchesUrl(url) {
+    return url.includes('jobs.workable.com');
+  },
+
+  isJobUrl(url) {
+    return url.includes('jobs.workable.com');
+  },
+
+  jobIdFromUrl(url) {
+    const idMatch = url.match(/workable\.com\/(?:view\/|[^/]+\/j\/)([A-Za-z0-9]+)/);
+    return idMatch ? idMatch[1].toUpperCase() : null;
+  },
+
+  closedPagePatterns: [/this job is no longer available/i, /job you are looking for is not available/i],
+
+  extractDetails({ $, url }) {
+    // Updated Workable selectors for 2024+ - they now use data attributes and modern CSS
+    const title = $('[data-ui="job-title"]').text().trim() ||
+                  $('h1[data-ui*="title"]').text().trim() ||
+                  $('h1').text().trim() ||
+                  $('.job-title').text().trim() ||
+                  $('.posting-title').text().trim() ||
+                  $('[class*="JobTitle"]').text().trim() ||
+                  $('meta[property="og:title"]').attr('content')?.split(' - ')[0] ||
+                  $('title').text().split(' - ')[0].split(' | ')[0].trim();
+
+    let company = $('[data-ui="company-name"]').text().trim() ||
+                  $('[data-ui*="company"]').text().trim() ||
+                  $('.company-name').text().trim() ||
+                  $('.company').text().trim() ||
+                  $('[class*="Company"]').text().trim() ||
+                  $('meta[property="og:site_name"]').attr('content') ||
+                  '';
+
+    // Extract company from URL if not found
+    if (!company) {
+      const workableMatch = url.match(/jobs\.workable\.com\/([^/]+)/);
+      if (workableMatch) {
+        company = companyFromSlug(workableMatch[1]);
+      }
+    }
+
+    const location = $('[data-ui="job-location"]').text().trim() ||
+                     $('[data-ui*="location"]').text().trim() ||
+                     $('.job-location').text().trim() ||
+                     $('.location').text().trim() ||
+                     $('[class*="Location"]').text().trim() ||
+                     'Location not specified';
+
+    const description = $('[data-ui="job-description"]').html() ||
+                        $('.job-description').html() ||
+                        $('.description').html() ||
+                        $('[class*="Description"]').html() ||
+                        $('.content').html() ||
+                        $('.posting-content').html() ||
+                        '';
+
+    return { title, company, location, description };
+  }
+};
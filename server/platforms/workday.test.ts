@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import './index';
+import { parseWorkdayPostedOn, parseWorkdaySite, workdayAdapter } from './workday';
+import { loadFixture, mockBoardApi, requestedUrls } from './__fixtures__/board-api-mock';
+
+const POSTING_URL = 'https://globex.wd1.myworkdayjobs.com/en-US/Careers/job/Austin-TX/Senior-Data-Engineer_JR-104233';
+const CXS = 'https://globex.wd1.myworkdayjobs.com/wday/cxs/globex/Careers';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('workday URL parsing', () => {
+  it('reads the career site with or without a locale segment', () => {
+    const site = { host: 'globex.wd1.myworkdayjobs.com', tenant: 'globex', site: 'Careers' };
+    expect(parseWorkdaySite(POSTING_URL)).toEqual(site);
+    expect(parseWorkdaySite('https://Globex.wd1.myworkdayjobs.com/Careers')).toEqual(site);
+    expect(parseWorkdaySite('https://globex.wd1.myworkdayjobs.com/wday/cxs/globex/Careers/jobs')).toBeNull();
+    expect(parseWorkdaySite('https://www.workday.com/en-us/careers.html')).toBeNull();
+  });
+
+  it('builds the board token from the host and site', () => {
+    expect(workdayAdapter.boardTokenFromUrl!(POSTING_URL)).toBe('globex.wd1.myworkdayjobs.com/Careers');
+  });
+
+  it('qualifies requisition ids with the tenant', () => {
+    expect(workdayAdapter.jobIdFromUrl!(POSTING_URL)).toBe('globex:JR-104233');
+    expect(workdayAdapter.jobIdFromUrl!('https://globex.wd1.myworkdayjobs.com/Careers/job/Remote-US/Payroll-Specialist_r5521?source=google')).toBe('globex:R5521');
+    expect(workdayAdapter.jobIdFromUrl!('https://globex.wd1.myworkdayjobs.com/Careers')).toBeNull();
+  });
+
+  it('turns relative "posted" labels into dates', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+    expect(parseWorkdayPostedOn('Posted Today', now)).toEqual(now);
+    expect(parseWorkdayPostedOn('Posted Yesterday', now)).toEqual(new Date('2026-10-18T12:00:00Z'));
+    expect(parseWorkdayPostedOn('Posted 30+ Days Ago', now)).toEqual(new Date('2026-09-19T12:00:00Z'));
+    expect(parseWorkdayPostedOn(undefined, now)).toBeNull();
+  });
+});
+
+describe('workday fetchBoardJobs', () => {
+  it('only requests Workday hosts', async () => {
+    const spy = mockBoardApi({});
+
+    for (const token of ['169.254.169.254/x', 'evilmyworkdayjobs.com/Careers', 'globex.wd1.myworkdayjobs.com/Careers/extra', 'globex.wd1.myworkdayjobs.com']) {
+      await expect(workdayAdapter.fetchBoardJobs!(token)).rejects.toThrow('Invalid Workday board token');
+    }
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it('searches the site and reads each posting', async () => {
+    const searches: unknown[] = [];
+    const spy = mockBoardApi({
+      [`${CXS}/jobs`]: (body: unknown) => {
+        searches.push(body);
+        return loadFixture('workday-jobs.json');
+      },
+      [`${CXS}/job/Austin-TX/Senior-Data-Engineer_JR-104233`]: loadFixture('workday-job-detail.json')
+    });
+
+    const jobs = await workdayAdapter.fetchBoardJobs!('globex.wd1.myworkdayjobs.com/Careers', { query: 'engineer' });
+
+    expect(searches).toEqual([{ appliedFacets: {}, limit: 20, offset: 0, searchText: 'engineer' }]);
+    expect(requestedUrls(spy)).toEqual([
+      `${CXS}/jobs`,
+      `${CXS}/job/Austin-TX/Senior-Data-Engineer_JR-104233`,
+      `${CXS}/job/Remote-US/Payroll-Specialist_R5521`
+    ]);
+    expect(jobs).toHaveLength(2);
+
+    const [engineer, payroll] = jobs;
+    expect(engineer).toMatchObject({
+      title: 'Senior Data Engineer',
+      company: 'Globex Corporation',
+      location: 'Austin, TX; Denver, CO',
+      url: 'https://globex.wd1.myworkdayjobs.com/Careers/job/Austin-TX/Senior-Data-Engineer_JR-104233',
+      platform: 'Workday'
+    });
+    expect(engineer.tags).toContain('Full time');
+    expect(engineer.postedAt).toEqual(new Date('2026-10-16'));
+    expect(engineer.salary).toMatchObject({ min: 140000, max: 175000, currency: 'USD', period: 'year' });
+
+    // The detail request failed: the search result alone still makes a job
+    expect(payroll).toMatchObject({
+      title: 'Payroll Specialist',
+      company: 'Globex',
+      location: 'Remote - US',
+      url: 'https://globex.wd1.myworkdayjobs.com/Careers/job/Remote-US/Payroll-Specialist_R5521',
+      description: null
+    });
+  });
+
+  it('pages through search results up to the job cap', async () => {
+    const summary = loadFixture<{ jobPostings: unknown[] }>('workday-jobs.json').jobPostings[1];
+    const offsets: number[] = [];
+    mockBoardApi({
+      [`${CXS}/jobs`]: (body: { offset: number }) => {
+        offsets.push(body.offset);
+        return { total: 500, jobPostings: Array.from({ length: 20 }, () => summary) };
+      }
+    });
+
+    const jobs = await workdayAdapter.fetchBoardJobs!('globex.wd1.myworkdayjobs.com/Careers');
+
+    expect(offsets).toEqual([0, 20, 40]);
+    expect(jobs).toHaveLength(60);
+  });
+
+  it('rejects a token without a site', async () => {
+    await expect(workdayAdapter.fetchBoardJobs!('globex.wd1.myworkdayjobs.com')).rejects.toThrow('Invalid Workday board token');
+  });
+});
+
+describe('workday isPostingOpen', () => {
+  it('asks the CXS endpoint behind the posting page', async () => {
+    const spy = mockBoardApi({
+      [`${CXS}/job/Austin-TX/Senior-Data-Engineer_JR-104233`]: loadFixture('workday-job-detail.json')
+    });
+
+    await expect(workdayAdapter.isPostingOpen!(POSTING_URL)).resolves.toBe(true);
+    await expect(workdayAdapter.isPostingOpen!('https://globex.wd1.myworkdayjobs.com/Careers/job/Remote-US/Payroll-Specialist_R5521')).resolves.toBe(false);
+    expect(requestedUrls(spy)).toEqual([
+      `${CXS}/job/Austin-TX/Senior-Data-Engineer_JR-104233`,
+      `${CXS}/job/Remote-US/Payroll-Specialist_R5521`
+    ]);
+  });
+});
@@ -0,0 +1,270 @@
+import * as cheerio from 'cheerio';
+import type { InsertJob } from '@shared/schema';
+import { extractCompanyLogo } from '../logo-extractor';
+import { companyFromSlug, extractPostingDateFromText, extractTags } from '../job-extraction';
+import { extractSalaryFromText } from '../salary-extraction';
+import { normalizeLocation } from '../location-normalizer';
+import { boardPostingExists, fetchBoardJson, parseDate, toDescription } from './board-api';
+import type { PlatformAdapter } from './types';
+
+// Workday refuses pages larger than 20
+const WORKDAY_PAGE_SIZE = 20;
+const WORKDAY_MAX_JOBS = 60;
+const WORKDAY_DETAIL_BATCH = 5;
+
+/**
+ * Responses of the CXS endpoints behind every myworkdayjobs.com career site
+ */
+export interface WorkdaySearchResponse {
+  total: number;
+  jobPostings: WorkdayJobSummary[];
+}
+
+export interface WorkdayJobSummary {
+  title: string;
+  externalPath: string;
+  locationsText?: string;
+  postedOn?: string;
+  bulletFields?: string[];
+}
+
+export interface WorkdayJobDetail {
+  jobPostingInfo: {
+    title: string;
+    jobDescription?: string;
+    location?: string;
+    additionalLocations?: string[];
+    postedOn?: string;
+    startDate?: string;
+    timeType?: string;
+    // "Remote", "Hybrid", "Flexible" on sites that set it
+    remoteType?: string;
+    jobReqId?: string;
+    externalUrl?: string;
+  };
+  hiringOrganization?: { name?: string };
+}
+
+/**
+ * Career site a posting URL belongs to, e.g.
+ * https://nvidia.wd5.myworkdayjobs.com/en-US/NVIDIAExternalCareerSite/job/...
+ */
+export interface WorkdaySite {
+  host: string;
+  tenant: string;
+  site: string;
+}
+
+function isWorkdayHost(host: string): boolean {
+  return host.toLowerCase().endsWith('.myworkdayjobs.com');
+}
+
+export function parseWorkdaySite(url: string): WorkdaySite | null {
+  try {
+    const { hostname, pathname } = new URL(url);
+    if (!isWorkdayHost(hostname)) return null;
+
+    // Skip the optional locale segment (en-US, fr-CA, ...)
+    const segments = pathname.split('/').filter(Boolean);
+    const site = /^[a-z]{2}-[A-Z]{2}$/.test(segments[0] || '') ? segments[1] : segments[0];
+    if (!site || site === 'wday') return null;
+
+    return { host: hostname.toLowerCase(), tenant: hostname.split('.')[0].toLowerCase(), site };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Turn Workday's "Posted 3 Days Ago" / "Posted Yesterday" / "Posted 30+ Days Ago" into a date
+ */
+export function parseWorkdayPostedOn(postedOn: string | undefined, now: Date = new Date()): Date | null {
+  if (!postedOn) return null;
+
+  const date = new Date(now);
+  if (/today/i.test(postedOn)) return date;
+  if (/yesterday/i.test(postedOn)) {
+    date.setDate(date.getDate() - 1);
+    return date;
+  }
+
+  const daysMatch = postedOn.match(/(\d+)\+?\s+days?\s+ago/i);
+  if (daysMatch) {
+    date.setDate(date.getDate() - parseInt(daysMatch[1]));
+    return date;
+  }
+
+  return extractPostingDateFromText(postedOn);
+}
+
+export const workdayAdapter: PlatformAdapter = {
+  id: 'myworkdayjobs.com',
+  displayName: 'Workday',
+  siteFilter: 'site:myworkdayjobs.com',
+  companySlugPattern: /myworkdayjobs\.com\/([^/]+)/,
+  // "<host>/<site>", e.g. globex.wd1.myworkdayjobs.com/Careers
+  boardTokenPattern: /^[a-z0-9-]+(\.[a-z0-9-]+)*\.myworkdayjobs\.com\/[a-z0-9_-]+$/i,
+  logoSelectors: [
+    '.company-logo img',
+    '[data-automation-id="company-logo"] img',
+    'header img',
+    '.wd-header img'
+  ],
+
+  matchesUrl(url) {
+    return url.includes('myworkdayjobs.com');
+  },
+
+  isJobUrl(url) {
+    return url.includes('myworkdayjobs.com');
+  },
+
+  // Requisition ids are only unique within a tenant, e.g. .../Data-Engineer_R12345
+  jobIdFromUrl(url) {
+    const site = parseWorkdaySite(url);
+    const reqMatch = url.match(/\/job\/[^?#]*_([A-Za-z]*-?\d+(?:-\d+)?)(?:[/?#]|$)/);
+    return site && reqMatch ? `${site.tenant}:${reqMatch[1].toUpperCase()}` : null;
+  },
+
+  // Token is "<host>/<site>" since the tenant alone does not identify a career site
+  boardTokenFromUrl(url) {
+    const site = parseWorkdaySite(url);
+    return site ? `${site.host}/${site.site}` : null;
+  },
+
+  async fetchBoardJobs(token, options = {}) {
+    const [host, siteName, ...rest] = token.split('/');
+    // The host is requested as is, so it has to be a Workday one
+    if (!host || !siteName || rest.length > 0 || !isWorkdayHost(host)) {
+      throw new Error(`Invalid Workday board token: ${token}`);
+    }
+
+    const site: WorkdaySite = { host, tenant: host.split('.')[0], site: siteName };
+    const summaries = await searchWorkdaySite(site, options.query || '', options.signal);
+
+    // The search endpoint has no descriptions, so read each posting
+    const details: Array<WorkdayJobDetail | null> = [];
+    for (let i = 0; i < summaries.length; i += WORKDAY_DETAIL_BATCH) {
+      const batch = summaries.slice(i, i + WORKDAY_DETAIL_BATCH);
+      const results = await Promise.allSettled(batch.map(summary =>
+        fetchBoardJson<WorkdayJobDetail>(`${cxsBase(site)}${summary.externalPath}`, { signal: options.signal })
+      ));
+      results.forEach(result => details.push(result.status === 'fulfilled' ? result.value : null));
+    }
+
+    const jobs = parseWorkdayJobs(site, summaries, details);
+    console.log(`🏢 Workday site "${token}": ${jobs.length} jobs${options.query ? ` for "${options.query}"` : ''}`);
+    return jobs;
+  },
+
+  // Posting pages are rendered client-side, so ask the CXS endpoint behind them
+  async isPostingOpen(url) {
+    const site = parseWorkdaySite(url);
+    const jobPath = url.match(/(\/job\/[^?#]+)/);
+    if (!site || !jobPath) return null;
+    return boardPostingExists(`${cxsBase(site)}${jobPath[1]}`);
+  },
+
+  extractDetails({ $, url }) {
+    // Workday uses data-automation-id attributes
+    const title = $('h1[data-automation-id="jobPostingHeader"]').text().trim() ||
+                  $('[data-automation-id="jobTitle"]').text().trim() ||
+                  $('h1').first().text().trim() ||
+                  $('.job-title').text().trim() ||
+                  $('[title]').first().attr('title');
+
+    let company = $('span[data-automation-id="jobPostingCompany"]').text().trim() ||
+                  $('[data-automation-id="company"]').text().trim() ||
+                  $('.company-name').text().trim() ||
+                  $('meta[property="og:site_name"]').attr('content') ||
+                  '';
+
+    // Extract company from URL if not found
+    if (!company) {
+      const workdayMatch = url.match(/myworkdayjobs\.com\/([^/]+)/);
+      if (workdayMatch) {
+        company = companyFromSlug(workdayMatch[1]);
+      }
+    }
+
+    const location = $('span[data-automation-id="jobPostingLocation"]').text().trim() ||
+                     $('[data-automation-id="location"]').text().trim() ||
+                     $('.location').text().trim() ||
+                     $('[class*="location"]').text().trim() ||
+                     'Location not specified';
+
+    const description = $('div[data-automation-id="jobPostingDescription"]').html() ||
+                        $('[data-automation-id="description"]').html() ||
+                        $('.job-description').html() ||
+                        $('[class*="description"]').html() ||
+                        $('.content').html() ||
+                        '';
+
+    return { title, company, location, description };
+  }
+};
+
+function cxsBase(site: WorkdaySite): string {
+  return `https://${site.host}/wday/cxs/${site.tenant}/${site.site}`;
+}
+
+async function searchWorkdaySite(site: WorkdaySite, searchText: string, signal?: AbortSignal): Promise<WorkdayJobSummary[]> {
+  const summaries: WorkdayJobSummary[] = [];
+
+  for (let offset = 0; offset < WORKDAY_MAX_JOBS; offset += WORKDAY_PAGE_SIZE) {
+    const page = await fetchBoardJson<WorkdaySearchResponse>(`${cxsBase(site)}/jobs`, {
+      method: 'POST',
+      body: { appliedFacets: {}, limit: WORKDAY_PAGE_SIZE, offset, searchText },
+      signal
+    });
+
+    summaries.push(...(page.jobPostings || []));
+    if (!page.jobPostings?.length || offset + WORKDAY_PAGE_SIZE >= page.total) break;
+  }
+
+  return summaries;
+}
+
+/**
+ * Map Workday search results (and their detail responses, when fetched) onto our job shape
+ */
+export function parseWorkdayJobs(
+  site: WorkdaySite,
+  summaries: WorkdayJobSummary[],
+  details: Array<WorkdayJobDetail | null> = []
+): InsertJob[] {
+  return summaries.map((summary, index) => {
+    const detail = details[index];
+    const info = detail?.jobPostingInfo;
+    const company = detail?.hiringOrganization?.name?.trim() || companyFromSlug(site.tenant);
+    const url = info?.externalUrl || `https://${site.host}/${site.site}${summary.externalPath}`;
+
+    const locations = info?.location
+      ? [info.location, ...(info.additionalLocations || [])].join('; ')
+      : summary.locationsText;
+    const descriptionHtml = info?.jobDescription || '';
+
+    const tags = [
+      info?.timeType,
+      ...extractTags(summary.title, descriptionHtml ? cheerio.load(descriptionHtml).text() : '')
+    ].filter((tag): tag is string => !!tag);
+
+    const postedAt = parseDate(info?.startDate) ||
+                     parseWorkdayPostedOn(info?.postedOn || summary.postedOn) ||
+                     new Date();
+
+    return {
+      title: (info?.title || summary.title).trim(),
+      company,
+      location: locations || 'Location not specified',
+      description: toDescription(descriptionHtml),
+      url,
+      logo: extractCompanyLogo(cheerio.load(''), company, url, 'Workday').logo,
+      platform: 'Workday',
+      tags: Array.from(new Set(tags)),
+      postedAt,
+      salary: extractSalaryFromText(descriptionHtml),
+      normalizedLocation: normalizeLocation(locations, { workplaceType: info?.remoteType })
+    };
+  });
+}
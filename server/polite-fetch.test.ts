@@ -0,0 +1,169 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Readable } from 'stream';
+import fetch, { Headers } from 'node-fetch';
+import './platforms';
+import { PoliteFetcher, PoliteFetchError } from './polite-fetch';
+import { fakeResponse } from './platforms/__fixtures__/board-api-mock';
+
+// The fixtures build their responses with the real module
+vi.mock('node-fetch', async importOriginal => ({ ...await importOriginal<typeof import('node-fetch')>(), default: vi.fn() }));
+
+const ROBOTS_TXT = 'User-agent: *\nDisallow: /internal/\n';
+
+interface FakeRoute {
+  status: number;
+  body?: string;
+  location?: string;
+}
+
+/**
+ * Answer node-fetch from `routes`; anything else (robots.txt included) is a 404
+ */
+function mockNetwork(routes: Record<string, FakeRoute>) {
+  return vi.mocked(fetch).mockImplementation((async (url: string) => {
+    const route = routes[url] || { status: 404 };
+    return {
+      url,
+      status: route.status,
+      ok: route.status >= 200 && route.status < 300,
+      headers: new Headers(route.location ? { location: route.location } : {}),
+      body: Readable.from([Buffer.from(route.body || '')])
+    };
+  }) as any);
+}
+
+function fetcherWithRobots(robotsTxt: string): PoliteFetcher {
+  const fetcher = new PoliteFetcher();
+  vi.spyOn(fetcher, 'fetch').mockImplementation(async url => fakeResponse(url, 200, robotsTxt));
+  return fetcher;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('PoliteFetcher.withHostSlot', () => {
+  it('runs the load when robots.txt allows the page', async () => {
+    const fetcher = fetcherWithRobots(ROBOTS_TXT);
+    const load = vi.fn(async () => 'rendered');
+
+    await expect(fetcher.withHostSlot('https://careers.example.com/jobs/42', load)).resolves.toBe('rendered');
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(fetcher.hostStats()).toMatchObject([{ host: 'careers.example.com', requests: 1 }]);
+  });
+
+  it('refuses pages robots.txt disallows without loading them', async () => {
+    const fetcher = fetcherWithRobots(ROBOTS_TXT);
+    const load = vi.fn(async () => 'rendered');
+
+    const result = fetcher.withHostSlot('https://careers.example.com/internal/jobs/42', load);
+    await expect(result).rejects.toBeInstanceOf(PoliteFetchError);
+    await expect(result).rejects.toMatchObject({ reason: 'robots' });
+    expect(load).not.toHaveBeenCalled();
+    expect(fetcher.hostStats()).toMatchObject([{ robotsBlocked: 1, requests: 0 }]);
+  });
+
+  it('holds loads on one host to its request slots', async () => {
+    vi.useFakeTimers();
+    const fetcher = fetcherWithRobots('');
+    let started = 0;
+    let finishLoads: () => void = () => {};
+    const loadsFinished = new Promise<void>(resolve => { finishLoads = resolve; });
+    const load = async () => {
+      started++;
+      await loadsFinished;
+    };
+
+    const loads = Promise.all([1, 2, 3].map(id => fetcher.withHostSlot(`https://careers.example.com/jobs/${id}`, load)));
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(started).toBe(2);
+
+    finishLoads();
+    await vi.advanceTimersByTimeAsync(5000);
+    await loads;
+    expect(started).toBe(3);
+  });
+
+  it('drops a load queued for a slot once its signal aborts', async () => {
+    vi.useFakeTimers();
+    const fetcher = fetcherWithRobots('');
+    const started: number[] = [];
+    let finishLoads: () => void = () => {};
+    const loadsFinished = new Promise<void>(resolve => { finishLoads = resolve; });
+    const load = (id: number) => async () => {
+      started.push(id);
+      await loadsFinished;
+    };
+
+    const running = Promise.all([1, 2].map(id => fetcher.withHostSlot(`https://careers.example.com/jobs/${id}`, load(id))));
+    const controller = new AbortController();
+    const queued = fetcher.withHostSlot('https://careers.example.com/jobs/3', load(3), controller.signal);
+    const cancelled = expect(queued).rejects.toMatchObject({ reason: 'aborted' });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    controller.abort();
+    await cancelled;
+    finishLoads();
+    await vi.advanceTimersByTimeAsync(5000);
+    await running;
+    expect(started).toEqual([1, 2]);
+  });
+
+  it('gives back the turn of a load aborted while waiting for it', async () => {
+    vi.useFakeTimers();
+    const fetcher = fetcherWithRobots('');
+    const load = vi.fn(async () => 'rendered');
+    await fetcher.withHostSlot('https://careers.example.com/jobs/1', load);
+
+    const controller = new AbortController();
+    const waiting = fetcher.withHostSlot('https://careers.example.com/jobs/2', load, controller.signal);
+    const cancelled = expect(waiting).rejects.toMatchObject({ reason: 'aborted' });
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+    await cancelled;
+
+    // The next load takes the turn the cancelled one had, not the one after it
+    const next = fetcher.withHostSlot('https://careers.example.com/jobs/3', load);
+    await vi.advanceTimersByTimeAsync(400);
+    expect(load).toHaveBeenCalledTimes(2);
+    await next;
+  });
+});
+
+describe('PoliteFetcher.fetch redirects', () => {
+  it('follows a relative redirect and reports where it ended up', async () => {
+    vi.useFakeTimers();
+    mockNetwork({
+      'https://jobs.example.org/openings/42': { status: 301, location: '/careers/42' },
+      'https://jobs.example.org/careers/42': { status: 200, body: 'Backend Engineer' }
+    });
+
+    const response = new PoliteFetcher().fetch('https://jobs.example.org/openings/42');
+    await vi.advanceTimersByTimeAsync(5000);
+    await expect(response).resolves.toMatchObject({ url: 'https://jobs.example.org/careers/42', status: 200, body: 'Backend Engineer' });
+  });
+
+  it('checks robots.txt on the host a redirect leads to', async () => {
+    const network = mockNetwork({
+      'https://apply.example.org/jobs/7': { status: 302, location: 'https://ats.example.net/private/7' },
+      'https://ats.example.net/robots.txt': { status: 200, body: 'User-agent: *\nDisallow: /private/\n' }
+    });
+
+    await expect(new PoliteFetcher().fetch('https://apply.example.org/jobs/7')).rejects.toMatchObject({ reason: 'robots' });
+    expect(network.mock.calls.map(([url]) => url)).not.toContain('https://ats.example.net/private/7');
+  });
+
+  it('gives up on a redirect loop', async () => {
+    vi.useFakeTimers();
+    mockNetwork({
+      'https://loop.example.org/a': { status: 302, location: '/b' },
+      'https://loop.example.org/b': { status: 302, location: '/a' }
+    });
+
+    const response = new PoliteFetcher().fetch('https://loop.example.org/a');
+    const rejected = expect(response).rejects.toMatchObject({ reason: 'redirects' });
+    await vi.advanceTimersByTimeAsync(10000);
+    await rejected;
+  });
+});
@@ -0,0 +1,473 @@
+/**
+ * Shared HTTP fetching for everything that reads other people's sites:
+ * career pages, ATS board APIs and liveness checks. Requests identify
+ * themselves, follow robots.txt (on every redirect hop), take turns per
+ * host, back off on 429/5xx (honoring Retry-After) and stop reading
+ * oversized responses. Per-host counts are kept for /api/admin/fetch-hosts.
+ */
+
+import fetch, { type Headers } from 'node-fetch';
+import { createCache } from './cache';
+import { ALLOW_ALL, isPathAllowed, parseRobotsTxt, type RobotsRules } from './robots-txt';
+
+export const POLITE_USER_AGENT = 'Mozilla/5.0 (compatible; FindHiddenJobs/1.0; +https://findhiddenjobs.com)';
+const ROBOTS_AGENT_TOKEN = 'FindHiddenJobs';
+
+const HOST_CONCURRENCY = 2;
+const HOST_MIN_DELAY = 500; // Between request starts on one host
+// A Crawl-delay longer than this is capped so one site can't stall a search
+const MAX_CRAWL_DELAY = 10 * 1000; // 10 seconds
+const DEFAULT_TIMEOUT = 10 * 1000; // 10 seconds
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024; // 2 MB
+const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE = 1000; // 1s, 2s, 4s...
+// Past this a Retry-After isn't waited out; the response is returned as is
+const MAX_RETRY_WAIT = 15 * 1000; // 15 seconds
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+const MAX_REDIRECTS = 5;
+const MAX_TRACKED_HOSTS = 1000;
+
+const ROBOTS_TTL = 24 * 60 * 60 * 1000; // 24 hours
+// A robots.txt that couldn't be read is retried sooner
+const ROBOTS_FAILURE_TTL = 10 * 60 * 1000; // 10 minutes
+const ROBOTS_MAX_BYTES = 500 * 1024; // RFC 9309 only asks parsers to read 500 KiB
+// Used when robots.txt can't be reached, which RFC 9309 treats as "disallow all"
+const DISALLOW_ALL: RobotsRules = { rules: [{ allow: false, path: '/' }], crawlDelay: null };
+
+export type PoliteFetchFailure = 'robots' | 'too-large' | 'timeout' | 'aborted' | 'redirects' | 'network';
+
+export class PoliteFetchError extends Error {
+  url: string;
+  reason: PoliteFetchFailure;
+
+  constructor(url: string, reason: PoliteFetchFailure, message: string) {
+    super(message);
+    this.name = 'PoliteFetchError';
+    this.url = url;
+    this.reason = reason;
+  }
+}
+
+export interface PoliteFetchOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  // Per attempt, including reading the body
+  timeoutMs?: number;
+  maxBytes?: number;
+  retries?: number;
+  // Check robots.txt first; public JSON APIs meant for programs opt out
+  robots?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface PoliteResponse {
+  // Where redirects ended up
+  url: string;
+  status: number;
+  ok: boolean;
+  headers: Headers;
+  body: string;
+  json<T>(): T;
+}
+
+export interface HostStats {
+  host: string;
+  requests: number;
+  retries: number;
+  errors: number;
+  robotsBlocked: number;
+  statuses: Record<string, number>;
+  bytes: number;
+  averageLatencyMs: number;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+}
+
+interface HostState {
+  active: number;
+  waiters: Array<() => void>;
+  // Earliest time the next request to this host may start
+  nextStartAt: number;
+  crawlDelayMs: number;
+  lastUsedAt: number;
+  totalLatencyMs: number;
+  stats: HostStats;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * Milliseconds a Retry-After header asks for (seconds or an HTTP date)
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null;
+  if (/^\d+$/.test(value.trim())) return parseInt(value, 10) * 1000;
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+function backoffDelay(attempt: number): number {
+  return BACKOFF_BASE * Math.pow(2, attempt) + Math.floor(Math.random() * 250);
+}
+
+/**
+ * Read a response body, giving up once it passes `maxBytes`
+ */
+function readCapped(stream: NodeJS.ReadableStream, maxBytes: number, url: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        (stream as NodeJS.ReadableStream & { destroy?(): void }).destroy?.();
+        reject(new PoliteFetchError(url, 'too-large', `Response from ${url} is over ${maxBytes} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
+
+export class PoliteFetcher {
+  private hosts = new Map<string, HostState>();
+  private robotsCache = createCache<RobotsRules>('robots-txt', { ttlMs: ROBOTS_TTL, maxEntries: 1000 });
+  private robotsLookups = new Map<string, Promise<RobotsRules>>();
+
+  async fetch(url: string, options: PoliteFetchOptions = {}): Promise<PoliteResponse> {
+    // Redirects are followed here, so every hop gets its own robots.txt check and host turn
+    let hopUrl = url;
+    let hopOptions = options;
+    for (let hops = 0; ; hops++) {
+      const response = await this.fetchOnce(hopUrl, hopOptions);
+      const location = REDIRECT_STATUSES.includes(response.status) ? response.headers.get('location') : null;
+      if (!location) return response;
+      if (hops >= MAX_REDIRECTS) {
+        throw new PoliteFetchError(url, 'redirects', `Fetch of ${url} redirected more than ${MAX_REDIRECTS} times`);
+      }
+
+      hopUrl = new URL(location, hopUrl).toString();
+      // 303, and 301/302 after a POST, turn into a GET the way browsers do it
+      if (response.status === 303 || (response.status <= 302 && hopOptions.method === 'POST')) {
+        hopOptions = { ...hopOptions, method: 'GET', body: undefined };
+      }
+    }
+  }
+
+  private async fetchOnce(url: string, options: PoliteFetchOptions): Promise<PoliteResponse> {
+    const target = new URL(url);
+    const host = this.hostState(target.host);
+
+    if (options.robots !== false) await this.checkRobots(url, target, host);
+
+    const retries = options.retries ?? DEFAULT_RETRIES;
+    for (let attempt = 0; ; attempt++) {
+      let response: PoliteResponse;
+      try {
+        response = await this.attempt(url, host, options);
+      } catch (error) {
+        const retryable = error instanceof PoliteFetchError && (error.reason === 'network' || error.reason === 'timeout');
+        if (!retryable || attempt >= retries || options.signal?.aborted) throw error;
+
+        host.stats.retries++;
+        await sleep(backoffDelay(attempt), options.signal);
+        continue;
+      }
+
+      if (!RETRYABLE_STATUSES.includes(response.status) || attempt >= retries || options.signal?.aborted) {
+        return response;
+      }
+
+      const wait = parseRetryAfter(response.headers.get('retry-after')) ?? backoffDelay(attempt);
+      if (wait > MAX_RETRY_WAIT) {
+        console.log(`⏳ ${target.host} asked us to wait ${Math.round(wait / 1000)}s, not retrying ${url}`);
+        return response;
+      }
+
+      // Everyone queued for this host waits, not just this request
+      host.nextStartAt = Math.max(host.nextStartAt, Date.now() + wait);
+      host.stats.retries++;
+      await sleep(wait, options.signal);
+    }
+  }
+
+  /**
+   * Load a page some other way (a headless browser) under the same rules as
+   * fetch(): robots.txt must allow it, and it takes one of the host's request
+   * slots and its turn in the spacing between requests
+   */
+  async withHostSlot<T>(url: string, load: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const target = new URL(url);
+    const host = this.hostState(target.host);
+    await this.checkRobots(url, target, host);
+
+    const release = await this.acquire(host, url, signal);
+    const startedAt = Date.now();
+    host.stats.requests++;
+    try {
+      return await load();
+    } catch (error) {
+      if (!signal?.aborted) this.recordError(host, error instanceof Error ? error.message : String(error));
+      throw error;
+    } finally {
+      host.totalLatencyMs += Date.now() - startedAt;
+      host.stats.averageLatencyMs = Math.round(host.totalLatencyMs / host.stats.requests);
+      release();
+    }
+  }
+
+  hostStats(): HostStats[] {
+    return Array.from(this.hosts.values())
+      .map(host => host.stats)
+      .sort((a, b) => b.requests - a.requests);
+  }
+
+  private async attempt(url: string, host: HostState, options: PoliteFetchOptions): Promise<PoliteResponse> {
+    const release = await this.acquire(host, url, options.signal);
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, options.timeoutMs || DEFAULT_TIMEOUT);
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort);
+
+    const startedAt = Date.now();
+    host.stats.requests++;
+
+    try {
+      const response = await fetch(url, {
+        method: options.method || 'GET',
+        headers: { 'User-Agent': POLITE_USER_AGENT, ...options.headers },
+        body: options.body,
+        redirect: 'manual',
+        signal: controller.signal
+      });
+
+      const maxBytes = options.maxBytes || DEFAULT_MAX_BYTES;
+      const declaredLength = parseInt(response.headers.get('content-length') || '', 10);
+      if (declaredLength > maxBytes) {
+        controller.abort();
+        throw new PoliteFetchError(url, 'too-large', `Response from ${url} is ${declaredLength} bytes, over ${maxBytes}`);
+      }
+      const raw = response.body ? await readCapped(response.body, maxBytes, url) : Buffer.alloc(0);
+      const body = raw.toString('utf8');
+
+      host.stats.bytes += raw.length;
+      host.stats.statuses[response.status] = (host.stats.statuses[response.status] || 0) + 1;
+      if (response.status >= 400) this.recordError(host, `HTTP ${response.status}`);
+
+      return {
+        url: response.url,
+        status: response.status,
+        ok: response.ok,
+        headers: response.headers,
+        body,
+        json: <T>() => JSON.parse(body) as T
+      };
+    } catch (error) {
+      const failure = error instanceof PoliteFetchError
+        ? error
+        : timedOut
+          ? new PoliteFetchError(url, 'timeout', `Fetch of ${url} timed out`)
+          : options.signal?.aborted
+            ? new PoliteFetchError(url, 'aborted', `Fetch of ${url} was cancelled`)
+            : new PoliteFetchError(url, 'network', error instanceof Error ? error.message : String(error));
+      if (failure.reason !== 'aborted') this.recordError(host, failure.message);
+      throw failure;
+    } finally {
+      host.totalLatencyMs += Date.now() - startedAt;
+      host.stats.averageLatencyMs = Math.round(host.totalLatencyMs / host.stats.requests);
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', onAbort);
+      release();
+    }
+  }
+
+  /**
+   * Wait for a free slot on the host and for its turn to start; returns the
+   * function that frees the slot again. Rejects as soon as `signal` aborts,
+   * giving back the slot and the turn.
+   */
+  private async acquire(host: HostState, url: string, signal?: AbortSignal): Promise<() => void> {
+    const cancelled = () => new PoliteFetchError(url, 'aborted', `Request for ${url} was cancelled`);
+
+    while (host.active >= HOST_CONCURRENCY) {
+      await this.waitForSlot(host, signal, cancelled);
+    }
+    if (signal?.aborted) throw cancelled();
+    host.active++;
+    host.lastUsedAt = Date.now();
+
+    const release = () => {
+      host.active--;
+      host.waiters.shift()?.();
+    };
+
+    // Claim the start time before waiting, so queued requests stay spaced out
+    const startAt = Math.max(Date.now(), host.nextStartAt);
+    const nextStartAt = startAt + Math.max(HOST_MIN_DELAY, host.crawlDelayMs);
+    host.nextStartAt = nextStartAt;
+    if (startAt > Date.now()) await sleep(startAt - Date.now(), signal);
+
+    if (signal?.aborted) {
+      // Hand the turn back unless someone has already queued behind it
+      if (host.nextStartAt === nextStartAt) host.nextStartAt = startAt;
+      release();
+      throw cancelled();
+    }
+    return release;
+  }
+
+  private waitForSlot(host: HostState, signal: AbortSignal | undefined, cancelled: () => PoliteFetchError): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(cancelled());
+        return;
+      }
+      const onAbort = () => {
+        host.waiters = host.waiters.filter(waiter => waiter !== wake);
+        reject(cancelled());
+      };
+      const wake = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      host.waiters.push(wake);
+      signal?.addEventListener('abort', onAbort);
+    });
+  }
+
+  private recordError(host: HostState, message: string): void {
+    host.stats.errors++;
+    host.stats.lastError = message;
+    host.stats.lastErrorAt = new Date();
+  }
+
+  private hostState(hostname: string): HostState {
+    let host = this.hosts.get(hostname);
+    if (host) return host;
+
+    if (this.hosts.size >= MAX_TRACKED_HOSTS) this.forgetIdleHost();
+    host = {
+      active: 0,
+      waiters: [],
+      nextStartAt: 0,
+      crawlDelayMs: 0,
+      lastUsedAt: Date.now(),
+      totalLatencyMs: 0,
+      stats: {
+        host: hostname,
+        requests: 0,
+        retries: 0,
+        errors: 0,
+        robotsBlocked: 0,
+        statuses: {},
+        bytes: 0,
+        averageLatencyMs: 0,
+        lastError: null,
+        lastErrorAt: null
+      }
+    };
+    this.hosts.set(hostname, host);
+    return host;
+  }
+
+  private forgetIdleHost(): void {
+    let oldest: string | null = null;
+    let oldestUsedAt = Infinity;
+    this.hosts.forEach((host, hostname) => {
+      if (host.active === 0 && host.lastUsedAt < oldestUsedAt) {
+        oldest = hostname;
+        oldestUsedAt = host.lastUsedAt;
+      }
+    });
+    if (oldest) this.hosts.delete(oldest);
+  }
+
+  private async checkRobots(url: string, target: URL, host: HostState): Promise<void> {
+    const robots = await this.robotsFor(target);
+    if (!isPathAllowed(robots, target.pathname + target.search)) {
+      host.stats.robotsBlocked++;
+      throw new PoliteFetchError(url, 'robots', `robots.txt disallows ${url}`);
+    }
+  }
+
+  /**
+   * robots.txt rules for the URL's origin, cached; simultaneous lookups for
+   * one origin share a single fetch
+   */
+  private async robotsFor(target: URL): Promise<RobotsRules> {
+    const origin = target.origin;
+    const cached = await this.robotsCache.get(origin);
+    const robots = cached || await this.lookUpRobots(origin);
+
+    const host = this.hostState(target.host);
+    host.crawlDelayMs = Math.min((robots.crawlDelay || 0) * 1000, MAX_CRAWL_DELAY);
+    return robots;
+  }
+
+  private lookUpRobots(origin: string): Promise<RobotsRules> {
+    let lookup = this.robotsLookups.get(origin);
+    if (!lookup) {
+      lookup = this.fetchRobots(origin).finally(() => this.robotsLookups.delete(origin));
+      this.robotsLookups.set(origin, lookup);
+    }
+    return lookup;
+  }
+
+  private async fetchRobots(origin: string): Promise<RobotsRules> {
+    let robots: RobotsRules;
+    let ttlMs = ROBOTS_TTL;
+
+    try {
+      const response = await this.fetch(`${origin}/robots.txt`, {
+        robots: false,
+        retries: 1,
+        maxBytes: ROBOTS_MAX_BYTES,
+        headers: { 'Accept': 'text/plain' }
+      });
+
+      if (response.ok) {
+        robots = parseRobotsTxt(response.body, ROBOTS_AGENT_TOKEN);
+      } else if (response.status < 500) {
+        // No robots.txt (or not ours to read) means no restrictions
+        robots = ALLOW_ALL;
+      } else {
+        robots = DISALLOW_ALL;
+        ttlMs = ROBOTS_FAILURE_TTL;
+      }
+    } catch (error) {
+      // A robots.txt over the size cap is read as allowing everything
+      if (error instanceof PoliteFetchError && error.reason === 'too-large') {
+        robots = ALLOW_ALL;
+      } else {
+        console.warn(`⚠️ Could not read ${origin}/robots.txt, holding off for now:`, error instanceof Error ? error.message : error);
+        robots = DISALLOW_ALL;
+        ttlMs = ROBOTS_FAILURE_TTL;
+      }
+    }
+
+    await this.robotsCache.set(origin, robots, ttlMs);
+    return robots;
+  }
+}
+
+export const politeFetcher = new PoliteFetcher();
@@ -1,5 +1,10 @@
 import { storage } from './storage';
+import { createCache } from './cache';
 import { scrapeJobsFromAllPlatforms } from './routes';
+import { SeenJobs } from './job-dedup';
+import { salaryMeetsMinimum } from './salary-extraction';
+import { jobLocationOf, matchLocation, normalizeLocation } from './location-normalizer';
+import type { JobSalary } from '@shared/schema';
 
 export interface UserProfile {
   userId: string;
@@ -22,16 +27,20 @@ export interface JobRecommendation {
   company: string;
   location: string;
   url: string;
+  canonicalId?: string;
   platform: string;
   tags: string[];
   logo?: string;
+  salary?: JobSalary | null;
   score: number; // Relevance score 0-100
   reasons: string[]; // Why this job was recommended
 }
 
 // Cache for recommendations - store for 24 hours
-const recommendationCache = new Map<string, { recommendations: JobRecommendation[], timestamp: number }>();
-const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+const recommendationCache = createCache<JobRecommendation[]>('recommendations', {
+  ttlMs: 24 * 60 * 60 * 1000, // 24 hours
+  maxEntries: 1000
+});
 
 export class JobRecommendationEngine {
   /**
@@ -48,7 +57,7 @@ export class JobRecommendationEngine {
       const cachedRecommendations = await this.getCachedRecommendations(userId);
       if (cachedRecommendations && cachedRecommendations.length > 0) {
         console.log(`📦 Using cached recommendations for user ${userId}`);
-        return cachedRecommendations.slice(0, limit);
+        return (await this.dropClosedJobs(cachedRecommendations)).slice(0, limit);
       }
       
       // Get user profile
@@ -67,7 +76,7 @@ export class JobRecommendationEngine {
       const filteredJobs = this.filterAndDeduplicate(scoredJobs, userProfile);
       
       // Return top recommendations
-      const recommendations = filteredJobs
+      const recommendations = (await this.dropClosedJobs(filteredJobs))
         .sort((a, b) => b.score - a.score)
         .slice(0, 50); // Cache more than needed
         
@@ -83,6 +92,14 @@ export class JobRecommendationEngine {
     }
   }
 
+  /**
+   * Leave out postings the liveness checker found taken down
+   */
+  private async dropClosedJobs(recommendations: JobRecommendation[]): Promise<JobRecommendation[]> {
+    const closedUrls = await storage.getClosedJobUrls(recommendations.map(job => job.url));
+    return recommendations.filter(job => !closedUrls.has(job.url));
+  }
+
   /**
    * Build comprehensive user profile from preferences, applications, and resume
    */
@@ -128,7 +145,7 @@ export class JobRecommendationEngine {
    */
   private async getCandidateJobs(userProfile: UserProfile): Promise<any[]> {
     const allJobs: any[] = [];
-    const seenUrls = new Set<string>();
+    const seenJobs = new SeenJobs();
     
     // Build comprehensive job title list from multiple sources
     let jobTypesToSearch: string[] = [];
@@ -205,18 +222,15 @@ export class JobRecommendationEngine {
         
         // Deduplicate and add jobs with source tracking
         let newJobsCount = 0;
-        for (const job of jobs) {
-          if (!seenUrls.has(job.url)) {
-            seenUrls.add(job.url);
-            allJobs.push({
-              ...job,
-              // Mark the search source for scoring
-              searchSource: i < 3 ? 'primary' : 'secondary',
-              searchTitle: jobTitle,
-              sourceIndex: i
-            });
-            newJobsCount++;
-          }
+        for (const job of seenJobs.filterNew(jobs)) {
+          allJobs.push({
+            ...job,
+            // Mark the search source for scoring
+            searchSource: i < 3 ? 'primary' : 'secondary',
+            searchTitle: jobTitle,
+            sourceIndex: i
+          });
+          newJobsCount++;
         }
         
         console.log(`✅ Found ${newJobsCount} new unique jobs for "${jobTitle}"`);
@@ -319,30 +333,50 @@ export class JobRecommendationEngine {
       }
       
       // Location and work preference matching
-      const jobLocation = (job.location || '').toLowerCase();
+      const jobLocation = jobLocationOf(job);
       const workPref = userProfile.workPreference.toLowerCase();
-      const allLocations = userProfile.allPreferredLocations.map(loc => loc.toLowerCase());
       
       // Work preference matching
-      if (workPref === 'remote' && jobLocation.includes('remote')) {
+      if (workPref === 'remote' && jobLocation.remoteType === 'remote') {
         score += 20;
         reasons.push(`Remote work as preferred`);
-      } else if (workPref === 'hybrid' && (jobLocation.includes('hybrid') || jobLocation.includes('remote'))) {
+      } else if (workPref === 'hybrid' && (jobLocation.remoteType === 'hybrid' || jobLocation.remoteType === 'remote')) {
         score += 15;
         reasons.push(`Hybrid/remote work option available`);
-      } else if (workPref === 'onsite' && !jobLocation.includes('remote')) {
+      } else if (workPref === 'onsite' && jobLocation.remoteType === 'onsite') {
         score += 10;
         reasons.push(`On-site position as preferred`);
       } else if (workPref === 'flexible') {
         score += 5; // Small boost for flexible users
       }
       
-      // Specific location matching
-      for (const prefLocation of allLocations) {
-        if (jobLocation.includes(prefLocation)) {
+      // Specific location matching: same city, same state, or remote work open to their country
+      for (const prefLocation of userProfile.allPreferredLocations) {
+        const match = matchLocation(jobLocation, normalizeLocation(prefLocation));
+        if (match === 'city' || match === 'country') {
           score += 12;
           reasons.push(`Located in ${prefLocation}`);
           break;
+        } else if (match === 'region') {
+          score += 8;
+          reasons.push(`In the same state/province as ${prefLocation}`);
+          break;
+        } else if (match === 'remote') {
+          score += 8;
+          reasons.push(`Remote role open to candidates in ${prefLocation}`);
+          break;
+        }
+      }
+      
+      // Pay against the desired salary from onboarding
+      const desiredMin = userProfile.desiredSalary?.min;
+      if (desiredMin) {
+        const meetsMinimum = salaryMeetsMinimum(job.salary, desiredMin, userProfile.desiredSalary?.currency);
+        if (meetsMinimum === true) {
+          score += 12;
+          reasons.push('Pays within your desired salary');
+        } else if (meetsMinimum === false) {
+          score -= 20;
         }
       }
       
@@ -403,9 +437,11 @@ export class JobRecommendationEngine {
         company: job.company,
         location: job.location || 'Location not specified',
         url: job.url,
+        canonicalId: job.canonicalId,
         platform: job.platform || 'Unknown',
         tags: job.tags || [],
         logo: job.logo,
+        salary: job.salary || null,
         score,
         reasons
       };
@@ -416,10 +452,10 @@ export class JobRecommendationEngine {
    * Get cached recommendations for a user
    */
   public async getCachedRecommendations(userId: string): Promise<JobRecommendation[] | null> {
-    const cached = recommendationCache.get(userId);
-    if (cached && (Date.now() - cached.timestamp) < CACHE_DURATION) {
+    const cached = await recommendationCache.get(userId);
+    if (cached) {
       console.log(`📦 Found valid cached recommendations for user ${userId}`);
-      return cached.recommendations;
+      return cached;
     }
     return null;
   }
@@ -428,22 +464,19 @@ export class JobRecommendationEngine {
    * Cache recommendations for a user
    */
   private async cacheRecommendations(userId: string, recommendations: JobRecommendation[]): Promise<void> {
-    recommendationCache.set(userId, {
-      recommendations,
-      timestamp: Date.now()
-    });
+    await recommendationCache.set(userId, recommendations);
     console.log(`💾 Cached ${recommendations.length} recommendations for user ${userId}`);
   }
 
   /**
    * Clear cache for a specific user or all users
    */
-  public clearCache(userId?: string): void {
+  public async clearCache(userId?: string): Promise<void> {
     if (userId) {
-      recommendationCache.delete(userId);
+      await recommendationCache.delete(userId);
       console.log(`🗑️ Cleared cache for user ${userId}`);
     } else {
-      recommendationCache.clear();
+      await recommendationCache.clear();
       console.log(`🗑️ Cleared all recommendation caches`);
     }
   }
@@ -459,8 +492,8 @@ export class JobRecommendationEngine {
     const filtered: JobRecommendation[] = [];
     
     for (const job of jobs) {
-      // Create unique key for deduplication
-      const key = `${job.title.toLowerCase()}_${job.company.toLowerCase()}`;
+      // Same role from several platforms shares a canonical id
+      const key = job.canonicalId || `${job.title.toLowerCase()}_${job.company.toLowerCase()}`;
       
       if (seen.has(key)) {
         continue; // Skip duplicate
@@ -8,6 +8,14 @@ interface EmailOptions {
   replyTo?: string;
 }
 
+interface SearchAlertJob {
+  title: string;
+  company: string;
+  location: string | null;
+  url: string;
+  platform: string;
+}
+
 interface JobRecommendation {
   title: string;
   company: string;
@@ -103,6 +111,20 @@ export class ResendEmailService {
     console.log(`✅ Welcome email sent to ${userEmail}`);
   }
 
+  async sendSavedSearchAlert(
+    userEmail: string,
+    title: string,
+    jobs: SearchAlertJob[]
+  ): Promise<void> {
+    await this.sendEmail({
+      to: userEmail,
+      subject: `🔔 ${title}`,
+      html: this.generateSavedSearchAlertEmail(title, jobs),
+    });
+
+    console.log(`✅ Saved search alert sent to ${userEmail}`);
+  }
+
   private generateRecommendationEmail(
     firstName: string,
     recommendations: JobRecommendation[],
@@ -177,6 +199,57 @@ export class ResendEmailService {
     `;
   }
 
+  private generateSavedSearchAlertEmail(title: string, jobs: SearchAlertJob[]): string {
+    return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1">
+      <title>${title}</title>
+      <style>
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: linear-gradient(135deg, #3b82f6 0%, #1d4ed8 100%); color: white; padding: 30px; border-radius: 12px 12px 0 0; text-align: center; }
+        .content { background: white; padding: 30px; border: 1px solid #e5e7eb; }
+        .job-card { background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 8px; padding: 16px 20px; margin: 12px 0; }
+        .job-title { font-size: 17px; font-weight: 600; color: #1f2937; margin: 0 0 4px 0; }
+        .company { color: #3b82f6; font-weight: 500; margin: 0 0 4px 0; }
+        .location { color: #6b7280; font-size: 14px; margin: 0 0 8px 0; }
+        .apply-button { background: #3b82f6; color: white; padding: 10px 20px; border-radius: 6px; text-decoration: none; display: inline-block; font-weight: 500; }
+        .footer { background: #f9fafb; padding: 20px; border-radius: 0 0 12px 12px; text-align: center; font-size: 14px; color: #6b7280; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1 style="margin: 0; font-size: 22px;">🔔 ${title}</h1>
+        </div>
+        
+        <div class="content">
+          ${jobs.map(job => `
+            <div class="job-card">
+              <h3 class="job-title">${job.title}</h3>
+              <p class="company">${job.company}</p>
+              ${job.location ? `<p class="location">📍 ${job.location}</p>` : ''}
+              <a href="${job.url}" class="apply-button" target="_blank" rel="noopener">View Job</a>
+              <p style="font-size: 12px; color: #9ca3af; margin: 8px 0 0 0;">Via ${job.platform}</p>
+            </div>
+          `).join('')}
+        </div>
+        
+        <div class="footer">
+          <p style="margin: 0 0 8px 0;">You're receiving this because you saved this search with email alerts on.</p>
+          <p style="margin: 0;">
+            <a href="https://findhiddenjobs.com/dashboard" style="color: #6b7280;">Manage Saved Searches</a>
+          </p>
+        </div>
+      </div>
+    </body>
+    </html>
+    `;
+  }
+
   private generateWelcomeEmail(firstName: string): string {
     return `
     <!DOCTYPE html>
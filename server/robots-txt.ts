@@ -0,0 +1,100 @@
+/**
+ * robots.txt parsing: the group that applies to our user agent, its
+ * Allow/Disallow rules (with * and $ wildcards) and any Crawl-delay
+ */
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsRules {
+  rules: RobotsRule[];
+  // Seconds between requests the site asked for, if any
+  crawlDelay: number | null;
+}
+
+export const ALLOW_ALL: RobotsRules = { rules: [], crawlDelay: null };
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay: number | null;
+}
+
+/**
+ * Parse robots.txt and keep the group for `agentToken`, falling back to the
+ * "*" group, as RFC 9309 describes
+ */
+export function parseRobotsTxt(text: string, agentToken: string): RobotsRules {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      return;
+    }
+
+    lastWasAgent = false;
+    if (!current) return;
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow allows everything, so it adds no rule
+      if (value) current.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (delay >= 0) current.crawlDelay = delay;
+    }
+  });
+
+  const token = agentToken.toLowerCase();
+  const matching = groups.filter(group => group.agents.some(agent => agent !== '*' && token.includes(agent)));
+  const applicable = matching.length > 0 ? matching : groups.filter(group => group.agents.includes('*'));
+  if (applicable.length === 0) return ALLOW_ALL;
+
+  const delays = applicable.map(group => group.crawlDelay).filter((delay): delay is number => delay !== null);
+  return {
+    rules: applicable.reduce<RobotsRule[]>((rules, group) => rules.concat(group.rules), []),
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : null
+  };
+}
+
+function ruleMatches(rulePath: string, path: string): boolean {
+  const anchored = rulePath.endsWith('$');
+  const pattern = rulePath
+    .replace(/\$$/, '')
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${pattern}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Whether the rules let us fetch `path` (path plus query). The longest
+ * matching rule wins, and Allow wins a tie.
+ */
+export function isPathAllowed(robots: RobotsRules, path: string): boolean {
+  let best: RobotsRule | null = null;
+  robots.rules.forEach(rule => {
+    if (!ruleMatches(rule.path, path)) return;
+    if (!best || rule.path.length > best.path.length || (rule.path.length === best.path.length && rule.allow)) {
+      best = rule;
+    }
+  });
+  return best === null || (best as RobotsRule).allow;
+}
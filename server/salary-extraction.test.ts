@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { buildSalary, extractSalaryFromText } from './salary-extraction';
+
+describe('extractSalaryFromText', () => {
+  it('reads a range with the period after it', () => {
+    expect(extractSalaryFromText('The salary range is $120,000 - $150,000 per year.')).toMatchObject({
+      min: 120000,
+      max: 150000,
+      currency: 'USD',
+      period: 'year',
+      annualMin: 120000,
+      annualMax: 150000
+    });
+  });
+
+  it('applies a trailing k to both ends of a range', () => {
+    expect(extractSalaryFromText('Compensation: $90-120k')).toMatchObject({ min: 90000, max: 120000 });
+  });
+
+  it('reads "up to" as the top of the range only', () => {
+    expect(extractSalaryFromText('Up to $200K')).toMatchObject({
+      min: null,
+      max: 200000,
+      currency: 'USD',
+      period: 'year',
+      annualMin: null,
+      annualMax: 200000
+    });
+    expect(extractSalaryFromText('We pay as much as £45/hr for senior contractors.')).toMatchObject({
+      min: null,
+      max: 45,
+      currency: 'GBP',
+      period: 'hour',
+      annualMax: 93600
+    });
+  });
+
+  it('rejects amounts no salary reaches', () => {
+    expect(extractSalaryFromText('Base salary: $1,000,000 annual')).toBeNull();
+    expect(extractSalaryFromText('Compensation between $200,000 and $1,500,000 per year')).toBeNull();
+    expect(extractSalaryFromText('We raised $40M and pay a competitive salary.')).toBeNull();
+  });
+
+  it('ignores a lone amount with nothing saying it is pay', () => {
+    expect(extractSalaryFromText('We have helped customers save $250,000 so far.')).toBeNull();
+  });
+
+  it('still records equity when no amount is given', () => {
+    expect(extractSalaryFromText('Competitive pay plus stock options.')).toMatchObject({ min: null, max: null, equity: true });
+  });
+});
+
+describe('buildSalary', () => {
+  it('orders a two-ended range and keeps a one-ended range one-ended', () => {
+    expect(buildSalary(150000, 120000, 'usd', 'year', 'ats')).toMatchObject({ min: 120000, max: 150000, currency: 'USD' });
+    expect(buildSalary(null, 60, 'USD', 'hour', 'ats')).toMatchObject({ min: null, max: 60, annualMin: null, annualMax: 124800 });
+    expect(buildSalary(100000, null, 'USD', 'year', 'ats')).toMatchObject({ min: 100000, max: null });
+    expect(buildSalary(null, null, 'USD', 'year', 'ats')).toBeNull();
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Compensation parsing: ATS pay fields, JSON-LD `baseSalary`, and ranges
+ * written in the posting text ("$120k - $150k", "£45/hr", "USD 90,000")
+ */
+
+import * as cheerio from 'cheerio';
+import type { JobSalary } from '@shared/schema';
+
+type SalaryPeriod = JobSalary['period'];
+
+// Working time used to turn hourly/daily/... pay into yearly pay
+const PERIODS_PER_YEAR: Record<SalaryPeriod, number> = {
+  hour: 2080,
+  day: 260,
+  week: 52,
+  month: 12,
+  year: 1
+};
+
+// Yearly pay outside this range is a funding round, a price or a typo, not a salary
+const MIN_ANNUAL_SALARY = 10000;
+const MAX_ANNUAL_SALARY = 750000;
+// Currencies with small units run to much larger numbers
+const SMALL_UNIT_CURRENCIES = ['JPY', 'INR'];
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  'US$': 'USD',
+  'CA$': 'CAD',
+  'C$': 'CAD',
+  'AU$': 'AUD',
+  'A$': 'AUD',
+  '$': 'USD',
+  '£': 'GBP',
+  '€': 'EUR',
+  '₹': 'INR',
+  '¥': 'JPY'
+};
+const CURRENCY_CODES = 'USD|CAD|EUR|GBP|AUD|INR|JPY|CHF|SGD|NZD|SEK|NOK|DKK|PLN';
+
+// An amount with its currency written before ($, USD) or after (USD) it, and
+// any k/M/B suffix so "$40M" is read as forty million rather than $40
+const SUFFIX_MULTIPLIERS: Record<string, number> = { k: 1e3, m: 1e6, million: 1e6, b: 1e9, billion: 1e9 };
+const MONEY_PATTERN = new RegExp(
+  String.raw`(?:(US\$|CA\$|C\$|AU\$|A\$|\$|£|€|₹|¥)\s?|\b(${CURRENCY_CODES})\s?)?` +
+  String.raw`(\d{1,3}(?:,\d{2,3})+(?:\.\d{1,2})?|\d+(?:\.\d{1,2})?)(\s?(?:[kKmMbB]|million|billion)\b)?` +
+  String.raw`(?:\s?(${CURRENCY_CODES})\b)?`,
+  'g'
+);
+const RANGE_SEPARATOR = /^\s*(?:-|–|—|to|and)\s*$/i;
+// "Up to $200K": the amount is only the top of the range
+const UP_TO_PATTERN = /\b(?:up to|as much as|maximum of)\s*$/i;
+const PAY_CONTEXT = /\b(salary|pay|compensation|base|wage|rate|OTE|earn|earning|stipend)\b/i;
+const EQUITY_PATTERN = /\b(equity|stock options?|RSUs?|ESOP|ownership stake)\b/i;
+
+const PERIOD_PATTERNS: Array<[SalaryPeriod, RegExp]> = [
+  ['hour', /^\s*(?:\/\s*h(?:ou)?r\b|per hour|an hour|hourly|p\/h\b)/i],
+  ['day', /^\s*(?:\/\s*day\b|per day|a day|daily)/i],
+  ['week', /^\s*(?:\/\s*w(?:ee)?k\b|per week|a week|weekly)/i],
+  ['month', /^\s*(?:\/\s*mo(?:nth)?\b|per month|a month|monthly)/i],
+  ['year', /^\s*(?:\/\s*y(?:ea)?r\b|per year|a year|annually|per annum|p\.a\.|annual|yearly)/i]
+];
+
+interface MoneyMatch {
+  start: number;
+  end: number;
+  amount: number;
+  // Written with a "k" suffix (120k)
+  thousands: boolean;
+  currency: string | null;
+}
+
+function roundPay(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Build a salary record, ordering min/max and adding the yearly figures.
+ * A range with one end missing ("up to $200K") keeps the other end null.
+ */
+export function buildSalary(
+  min: number | null,
+  max: number | null,
+  currency: string,
+  period: SalaryPeriod,
+  source: JobSalary['source'],
+  equity: boolean = false
+): JobSalary | null {
+  const validMin = typeof min === 'number' && min > 0 ? min : null;
+  const validMax = typeof max === 'number' && max > 0 ? max : null;
+  if (validMin === null && validMax === null && !equity) return null;
+
+  const bothEnds = validMin !== null && validMax !== null;
+  const low = bothEnds ? Math.min(validMin, validMax) : validMin;
+  const high = bothEnds ? Math.max(validMin, validMax) : validMax;
+  const perYear = PERIODS_PER_YEAR[period];
+
+  return {
+    min: low,
+    max: high,
+    currency: currency.toUpperCase(),
+    period,
+    annualMin: low !== null ? roundPay(low * perYear) : null,
+    annualMax: high !== null ? roundPay(high * perYear) : null,
+    equity,
+    source
+  };
+}
+
+/**
+ * Map ATS interval labels ("per-year-salary", "1 HOUR", "YEAR") onto a period
+ */
+export function parseSalaryPeriod(label: string | null | undefined): SalaryPeriod | null {
+  if (!label) return null;
+  if (/hour/i.test(label)) return 'hour';
+  if (/day|daily/i.test(label)) return 'day';
+  if (/week/i.test(label)) return 'week';
+  if (/month/i.test(label)) return 'month';
+  if (/year|annual|annum/i.test(label)) return 'year';
+  return null;
+}
+
+function toAmount(value: unknown): number | null {
+  const amount = typeof value === 'string' ? parseFloat(value.replace(/[^\d.]/g, '')) : value;
+  return typeof amount === 'number' && isFinite(amount) && amount > 0 ? amount : null;
+}
+
+/**
+ * Read a schema.org JobPosting `baseSalary` (a MonetaryAmount)
+ */
+export function salaryFromJsonLd(baseSalary: any): JobSalary | null {
+  if (!baseSalary) return null;
+  if (typeof baseSalary === 'number' || typeof baseSalary === 'string') {
+    return buildSalary(toAmount(baseSalary), toAmount(baseSalary), 'USD', 'year', 'json-ld');
+  }
+
+  const value = baseSalary.value;
+  const amounts = typeof value === 'object' && value !== null
+    ? { min: toAmount(value.minValue ?? value.value), max: toAmount(value.maxValue ?? value.value) }
+    : { min: toAmount(value ?? baseSalary.minValue), max: toAmount(value ?? baseSalary.maxValue) };
+
+  const period = parseSalaryPeriod(value?.unitText || baseSalary.unitText) || 'year';
+  const currency = baseSalary.currency || value?.currency || 'USD';
+  return buildSalary(amounts.min, amounts.max, currency, period, 'json-ld');
+}
+
+function findMoney(text: string): MoneyMatch[] {
+  const matches: MoneyMatch[] = [];
+  for (const match of Array.from(text.matchAll(MONEY_PATTERN))) {
+    const [raw, symbol, codeBefore, number, suffix, codeAfter] = match;
+    const index = match.index ?? 0;
+    const multiplier = suffix ? SUFFIX_MULTIPLIERS[suffix.trim().toLowerCase()] : 1;
+    matches.push({
+      start: index,
+      end: index + raw.length,
+      amount: parseFloat(number.replace(/,/g, '')) * multiplier,
+      thousands: multiplier === 1e3,
+      currency: (symbol && CURRENCY_SYMBOLS[symbol]) || codeBefore?.toUpperCase() || codeAfter?.toUpperCase() || null
+    });
+  }
+  return matches;
+}
+
+function periodAfter(text: string, index: number): SalaryPeriod | null {
+  const following = text.slice(index, index + 30);
+  const found = PERIOD_PATTERNS.find(([, pattern]) => pattern.test(following));
+  return found ? found[0] : null;
+}
+
+function isPlausible(salary: JobSalary): boolean {
+  const annual = [salary.annualMin, salary.annualMax].filter((amount): amount is number => amount !== null);
+  const scale = SMALL_UNIT_CURRENCIES.includes(salary.currency) ? 100 : 1;
+  return annual.length > 0 && annual.every(amount => amount >= MIN_ANNUAL_SALARY && amount <= MAX_ANNUAL_SALARY * scale);
+}
+
+/**
+ * Find the pay range written in a posting's text or HTML
+ */
+export function extractSalaryFromText(textOrHtml: string | null | undefined): JobSalary | null {
+  if (!textOrHtml) return null;
+  const text = (/<[a-z][^>]*>/i.test(textOrHtml) ? cheerio.load(textOrHtml).text() : textOrHtml).replace(/\s+/g, ' ');
+  const equity = EQUITY_PATTERN.test(text);
+  const money = findMoney(text);
+
+  for (let i = 0; i < money.length; i++) {
+    const first = money[i];
+    const second = money[i + 1];
+    const isRange = second && RANGE_SEPARATOR.test(text.slice(first.end, second.start));
+    const currency = first.currency || (isRange ? second.currency : null);
+    // Bare numbers are only pay when a currency is attached
+    if (!currency) continue;
+
+    let salary: JobSalary | null;
+    if (isRange) {
+      // "$90-120k": the k applies to both ends
+      const low = second.thousands && !first.thousands && first.amount < 1000 ? first.amount * 1000 : first.amount;
+      const period = periodAfter(text, second.end) || (second.amount < 500 ? 'hour' : 'year');
+      salary = buildSalary(low, second.amount, currency, period, 'description', equity);
+      i++;
+    } else {
+      // A single amount needs wording around it that says it is pay
+      const context = text.slice(Math.max(0, first.start - 60), first.end + 30);
+      const upTo = UP_TO_PATTERN.test(text.slice(Math.max(0, first.start - 20), first.start));
+      if (!upTo && !PAY_CONTEXT.test(context)) continue;
+      const period = periodAfter(text, first.end) || (first.amount < 500 ? 'hour' : 'year');
+      salary = buildSalary(upTo ? null : first.amount, first.amount, currency, period, 'description', equity);
+    }
+
+    if (salary && isPlausible(salary)) return salary;
+  }
+
+  // No amount, but the posting still offers equity
+  return equity ? buildSalary(null, null, 'USD', 'year', 'description', true) : null;
+}
+
+/**
+ * Structured pay (ATS fields or JSON-LD) when there is some, otherwise the
+ * pay written in the text
+ */
+export function extractSalary(sources: {
+  structured?: JobSalary | null;
+  text?: string | null;
+}): JobSalary | null {
+  const textSalary = extractSalaryFromText(sources.text);
+  const structured = sources.structured;
+  if (!structured) return textSalary;
+
+  // Structured pay fields rarely mention equity; the text often does
+  return textSalary?.equity && !structured.equity ? { ...structured, equity: true } : structured;
+}
+
+/**
+ * Whether a job pays at least `minimum` a year: false when its listed pay tops
+ * out below it, null when the job lists no pay (or pays in another currency)
+ */
+export function salaryMeetsMinimum(
+  salary: JobSalary | null | undefined,
+  minimum: number,
+  currency?: string
+): boolean | null {
+  const top = salary ? salary.annualMax ?? salary.annualMin : null;
+  if (!salary || top === null) return null;
+  if (currency && currency.toUpperCase() !== salary.currency) return null;
+  return top >= minimum;
+}
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { InsertJob } from '@shared/schema';
+import { scrapeJobsFromAllPlatforms } from './routes';
+import { storage } from './storage';
+import { savedSearchRunner } from './saved-searches';
+
+vi.mock('./routes', () => ({ scrapeJobsFromAllPlatforms: vi.fn() }));
+
+const USER_ID = '00000000-0000-0000-0000-000000000002';
+
+function job(id: number): InsertJob {
+  return {
+    title: 'Backend Engineer',
+    company: 'Acme Robotics',
+    location: 'Remote',
+    url: `https://boards.greenhouse.io/acmerobotics/jobs/${id}`,
+    platform: 'Greenhouse'
+  };
+}
+
+afterEach(() => {
+  vi.mocked(scrapeJobsFromAllPlatforms).mockReset();
+});
+
+describe('saved search runs', () => {
+  it('takes the baseline from the first successful run, not the first attempt', async () => {
+    const search = await storage.addSavedSearch({
+      userId: USER_ID,
+      name: 'Backend',
+      query: 'backend engineer',
+      site: 'all',
+      emailAlerts: false
+    });
+    const scrape = vi.mocked(scrapeJobsFromAllPlatforms);
+
+    // Search failed: the attempt is recorded but there is no baseline yet
+    scrape.mockRejectedValueOnce(new Error('Search providers unavailable'));
+    const failed = await savedSearchRunner.runSearch(search);
+    expect(failed.lastRunAt).toBeInstanceOf(Date);
+    expect(failed.lastSuccessfulRunAt).toBeNull();
+    expect(failed.lastRunError).toBe('Search providers unavailable');
+    // Saved searches ask for one failed platform to fail the run
+    expect(scrape).toHaveBeenCalledWith('backend engineer', 'all', 'all', 'all', true, undefined, true);
+
+    // First successful run: its results are the baseline, not alerts
+    scrape.mockResolvedValueOnce([job(1)]);
+    const baseline = await savedSearchRunner.runSearch(failed);
+    expect(baseline.lastSuccessfulRunAt).toBeInstanceOf(Date);
+    expect(await storage.getUserSearchAlerts(USER_ID)).toEqual([]);
+
+    // The next run alerts on the job that appeared since
+    scrape.mockResolvedValueOnce([job(1), job(2)]);
+    await savedSearchRunner.runSearch(baseline);
+    const alerts = await storage.getUserSearchAlerts(USER_ID);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].jobs?.map(alertJob => alertJob.url)).toEqual(['https://boards.greenhouse.io/acmerobotics/jobs/2']);
+  });
+});
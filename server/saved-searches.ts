@@ -0,0 +1,258 @@
+/**
+ * Saved searches: re-runs a user's searches on their schedule, diffs the
+ * results against the job URLs seen before and turns new ones into inbox
+ * alerts (and emails)
+ */
+
+import type {
+  InsertJob,
+  InsertSavedSearch,
+  JobSalary,
+  SavedSearch,
+  SavedSearchFrequency,
+  SavedSearchRequest,
+  WatchlistJob
+} from '@shared/schema';
+import { storage } from './storage';
+import { emailService } from './email-service';
+import { scrapeJobsFromAllPlatforms } from './routes';
+import { salaryMeetsMinimum } from './salary-extraction';
+import { parseSearchQuery } from './search-query';
+import { toWatchlistJob } from './watchlist';
+
+const CHECK_INTERVAL = 15 * 60 * 1000; // 15 minutes
+const SEARCH_DELAY = 5000; // Pause between searches; each one already spans every platform
+const MAX_SAVED_SEARCHES = 20;
+const MAX_ALERT_JOBS = 25;
+// Enough to remember every result of a busy search for weeks
+const MAX_SEEN_URLS = 2000;
+
+const FREQUENCY_INTERVALS: Record<SavedSearchFrequency, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+export class SavedSearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SavedSearchError';
+  }
+}
+
+/**
+ * Default name for a saved search, e.g. "Staff Data Engineer, remote"
+ */
+export function describeSavedSearch(search: { query: string; location?: string | null }): string {
+  const location = search.location && search.location !== 'all' ? search.location : null;
+  return location ? `${search.query}, ${location}` : search.query;
+}
+
+export function nextRunAfter(frequency: SavedSearchFrequency, from: Date): Date {
+  return new Date(from.getTime() + FREQUENCY_INTERVALS[frequency]);
+}
+
+/**
+ * Validate a new saved search and turn it into a row. `seenJobUrls` are the
+ * results the user is looking at, so the first run only alerts on newer ones.
+ */
+export async function buildSavedSearch(
+  userId: string,
+  request: SavedSearchRequest,
+  seenJobUrls: string[] | null = null,
+  now: Date = new Date()
+): Promise<InsertSavedSearch> {
+  // Throws QueryParseError for malformed operators
+  parseSearchQuery(request.query);
+
+  const existing = await storage.getUserSavedSearches(userId);
+  if (existing.length >= MAX_SAVED_SEARCHES) {
+    throw new SavedSearchError(`You can save up to ${MAX_SAVED_SEARCHES} searches. Remove one to add another.`);
+  }
+
+  return {
+    userId,
+    name: request.name || describeSavedSearch(request),
+    query: request.query,
+    site: request.site,
+    location: request.location,
+    timeFilter: request.timeFilter || null,
+    filters: {
+      ...(request.minSalary !== undefined && { minSalary: request.minSalary }),
+      ...(request.salaryCurrency && { salaryCurrency: request.salaryCurrency }),
+      ...(request.salaryListed !== undefined && { salaryListed: request.salaryListed })
+    },
+    frequency: request.frequency,
+    emailAlerts: request.emailAlerts,
+    email: request.email || null,
+    seenJobUrls: seenJobUrls ? seenJobUrls.slice(0, MAX_SEEN_URLS) : [],
+    // Known results count as the first run; otherwise it runs soon to record them
+    lastRunAt: seenJobUrls ? now : null,
+    lastSuccessfulRunAt: seenJobUrls ? now : null,
+    nextRunAt: seenJobUrls ? nextRunAfter(request.frequency, now) : now,
+    lastRunError: null
+  };
+}
+
+/**
+ * Apply the search's pay filters the same way /api/search does
+ */
+export function applySavedSearchFilters(search: SavedSearch, jobs: InsertJob[]): InsertJob[] {
+  const { minSalary, salaryCurrency, salaryListed } = search.filters || {};
+  if (!minSalary && !salaryListed) return jobs;
+
+  return jobs.filter(job => {
+    const meetsMinimum = salaryMeetsMinimum(job.salary as JobSalary | null, minSalary || 0, salaryCurrency);
+    return salaryListed ? meetsMinimum === true : meetsMinimum !== false;
+  });
+}
+
+/**
+ * Compare a run's results with the URLs the search has seen before
+ */
+export function diffSavedSearchResults(search: SavedSearch, jobs: InsertJob[], now: Date = new Date()): {
+  seenJobUrls: string[];
+  newJobs: WatchlistJob[];
+} {
+  const seen = new Set(search.seenJobUrls || []);
+  // Failed runs never recorded a baseline, so they don't count
+  const firstRun = !search.lastSuccessfulRunAt;
+
+  // The first run only records the baseline; everything after it is new
+  const fresh = firstRun ? [] : jobs.filter(job => !seen.has(job.url));
+  const currentUrls = jobs.map(job => job.url);
+
+  return {
+    // Newest first, so the cap forgets the oldest results
+    seenJobUrls: Array.from(new Set([...currentUrls, ...(search.seenJobUrls || [])])).slice(0, MAX_SEEN_URLS),
+    newJobs: fresh.map(job => toWatchlistJob(job, now))
+  };
+}
+
+export function alertTitle(search: Pick<SavedSearch, 'name'>, count: number): string {
+  return `${count} new job${count === 1 ? '' : 's'} for '${search.name}'`;
+}
+
+export class SavedSearchRunner {
+  private isRunning: boolean = false;
+  private isChecking: boolean = false;
+  private intervalId: NodeJS.Timeout | null = null;
+
+  start(): void {
+    if (this.isRunning) {
+      console.log('🔔 Saved search runner is already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('🚀 Starting saved search runner...');
+
+    this.intervalId = setInterval(() => {
+      this.runDue();
+    }, CHECK_INTERVAL);
+
+    // Initial check after two minutes so startup stays quick
+    setTimeout(() => {
+      this.runDue();
+    }, 2 * 60 * 1000);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.isRunning = false;
+    console.log('🛑 Saved search runner stopped');
+  }
+
+  /**
+   * Run every saved search whose next run is due, one at a time
+   */
+  async runDue(): Promise<void> {
+    if (this.isChecking) return;
+    this.isChecking = true;
+
+    try {
+      const due = await storage.getDueSavedSearches(new Date());
+      if (due.length === 0) return;
+
+      console.log(`🔔 Running ${due.length} due saved searches`);
+
+      for (const search of due) {
+        await this.runSearch(search);
+        await new Promise(resolve => setTimeout(resolve, SEARCH_DELAY));
+      }
+    } catch (error) {
+      console.error('❌ Error in saved search runner:', error);
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  /**
+   * Run one saved search now and deliver an alert for anything new
+   */
+  async runSearch(search: SavedSearch): Promise<SavedSearch> {
+    const startedAt = new Date();
+    const frequency = search.frequency as SavedSearchFrequency;
+
+    let jobs: InsertJob[];
+    try {
+      // A platform that failed would hide its jobs, so the run counts as failed
+      jobs = await scrapeJobsFromAllPlatforms(
+        search.query, search.site, search.location || 'all', search.timeFilter || 'all', true, undefined, true
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.log(`⚠️ Saved search "${search.name}" failed: ${message}`);
+      // Try again at the next regular run rather than hammering a failing search
+      const failed = await storage.updateSavedSearch(search.id, {
+        lastRunAt: startedAt,
+        nextRunAt: nextRunAfter(frequency, startedAt),
+        lastRunError: message
+      });
+      return failed || search;
+    }
+
+    const closedUrls = await storage.getClosedJobUrls(jobs.map(job => job.url));
+    const matching = applySavedSearchFilters(search, jobs.filter(job => !closedUrls.has(job.url)));
+    const { seenJobUrls, newJobs } = diffSavedSearchResults(search, matching, startedAt);
+
+    const updated = await storage.updateSavedSearch(search.id, {
+      seenJobUrls,
+      lastRunAt: startedAt,
+      lastSuccessfulRunAt: startedAt,
+      nextRunAt: nextRunAfter(frequency, startedAt),
+      lastRunError: null
+    });
+
+    if (newJobs.length > 0) {
+      await this.deliverAlert(search, newJobs);
+    }
+
+    console.log(`✅ Saved search "${search.name}": ${matching.length} results, ${newJobs.length} new`);
+    return updated || search;
+  }
+
+  private async deliverAlert(search: SavedSearch, newJobs: WatchlistJob[]): Promise<void> {
+    const title = alertTitle(search, newJobs.length);
+    const alert = await storage.addSearchAlert({
+      userId: search.userId,
+      savedSearchId: search.id,
+      title,
+      jobs: newJobs.slice(0, MAX_ALERT_JOBS)
+    });
+
+    if (!search.emailAlerts || !search.email) return;
+
+    try {
+      await emailService.sendSavedSearchAlert(search.userId, search.email, title, newJobs.slice(0, MAX_ALERT_JOBS));
+      await storage.updateSearchAlert(alert.id, { emailedAt: new Date() });
+    } catch {
+      // The alert is still in the inbox; the email service logged the failure
+    }
+  }
+}
+
+export const savedSearchRunner = new SavedSearchRunner();
@@ -0,0 +1,30 @@
+/**
+ * Offline provider serving fixture results, for local development without
+ * API keys (SEARCH_PROVIDERS=fake). Honors `site:` clauses and paging only.
+ */
+
+import type { SearchProvider } from './types';
+import { FIXTURE_RESULTS } from './fixtures';
+
+function siteFilters(query: string): string[] {
+  return Array.from(query.matchAll(/\bsite:([^\s()]+)/g)).map(match => match[1].toLowerCase());
+}
+
+export const fakeProvider: SearchProvider = {
+  id: 'fake',
+  displayName: 'Fixture results',
+
+  isConfigured() {
+    return true;
+  },
+
+  async search({ query, start, num }) {
+    const sites = siteFilters(query);
+    const matching = FIXTURE_RESULTS.filter(result => {
+      if (sites.length === 0) return true;
+      const { hostname, pathname } = new URL(result.url);
+      return sites.some(site => `${hostname}${pathname}`.includes(site.replace(/^\*\./, '')));
+    });
+    return matching.slice(start - 1, start - 1 + num);
+  }
+};
@@ -0,0 +1,45 @@
+import type { SearchResultItem } from './types';
+
+// Canned results for the fake provider; fictional companies on real ATS URL shapes
+export const FIXTURE_RESULTS: SearchResultItem[] = [
+  {
+    url: 'https://boards.greenhouse.io/northwindlabs/jobs/4102001',
+    title: 'Senior Backend Engineer - Northwind Labs',
+    snippet: 'Northwind Labs is hiring a Senior Backend Engineer (Remote - US). Apply to build the APIs behind our logistics platform. $160,000 - $190,000 a year.'
+  },
+  {
+    url: 'https://boards.greenhouse.io/northwindlabs/jobs/4102002',
+    title: 'Data Engineer - Northwind Labs',
+    snippet: 'Austin, TX · Hybrid. Apply now to join the data platform team working on Spark and Airflow pipelines.'
+  },
+  {
+    url: 'https://jobs.lever.co/contosohealth/6a1f2c3d-1111-4e5f-8a9b-0c1d2e3f4a5b',
+    title: 'Contoso Health - Staff Software Engineer, Platform',
+    snippet: 'New York, NY. Apply for the Staff Software Engineer role on the platform team at Contoso Health. Requirements: 8+ years building distributed systems.'
+  },
+  {
+    url: 'https://jobs.lever.co/contosohealth/6a1f2c3d-2222-4e5f-8a9b-0c1d2e3f4a5b',
+    title: 'Contoso Health - Product Designer',
+    snippet: 'Remote (US or Canada). Apply to design patient-facing experiences. Job description and qualifications inside.'
+  },
+  {
+    url: 'https://jobs.ashbyhq.com/fabrikam/0b7c9d3e-3333-4a2b-9c8d-7e6f5a4b3c2d',
+    title: 'Machine Learning Engineer @ Fabrikam',
+    snippet: 'San Francisco, CA. Fabrikam is hiring a Machine Learning Engineer to apply LLMs to document workflows. Apply today.'
+  },
+  {
+    url: 'https://apply.workable.com/tailspin/j/A1B2C3D4E5/',
+    title: 'Frontend Developer - Tailspin Toys',
+    snippet: 'London, United Kingdom. Apply for the Frontend Developer position working with React and TypeScript.'
+  },
+  {
+    url: 'https://adventureworks.wd5.myworkdayjobs.com/en-US/External/job/Seattle-WA/Senior-Data-Analyst_R-10042',
+    title: 'Senior Data Analyst - Adventure Works',
+    snippet: 'Seattle, WA. Apply now. Adventure Works is hiring a Senior Data Analyst; requirements include SQL and Tableau.'
+  },
+  {
+    url: 'https://boards.greenhouse.io/woodgrove/jobs/5200310',
+    title: 'Site Reliability Engineer - Woodgrove Bank',
+    snippet: 'Toronto, ON, Canada. Apply to keep Woodgrove Bank payments online. Kubernetes, Terraform and on-call experience required.'
+  }
+];
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import '../platforms';
+import { GoogleKeyPool, quotaDay } from './google';
+
+// 05:00 in Los Angeles, so the Pacific quota day is the 10th
+const MORNING = new Date('2026-03-10T12:00:00Z');
+const TEN_MINUTES = 10 * 60 * 1000;
+
+let keyCounter = 0;
+
+/**
+ * A pool over fresh keys, so usage saved by other tests doesn't carry over
+ */
+function poolWithKeys(count: number): { pool: GoogleKeyPool; keys: string[] } {
+  const keys = Array.from({ length: count }, () => `test-google-key-${++keyCounter}`);
+  vi.stubEnv('GOOGLE_SEARCH_API_KEYS', keys.join(','));
+  vi.stubEnv('GOOGLE_SEARCH_API_KEY', '');
+  vi.stubEnv('GOOGLE_SEARCH_API_KEYS_FILE', '');
+  return { pool: new GoogleKeyPool(), keys };
+}
+
+async function acquireKeys(pool: GoogleKeyPool, times: number): Promise<Array<string | null>> {
+  const chosen: Array<string | null> = [];
+  for (let i = 0; i < times; i++) {
+    chosen.push((await pool.acquire())?.key ?? null);
+    await vi.advanceTimersByTimeAsync(1);
+  }
+  return chosen;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: MORNING });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('quotaDay', () => {
+  it.each([
+    ['2026-03-10T06:59:00Z', '2026-03-09'],
+    ['2026-03-10T07:00:00Z', '2026-03-10'],
+    // Standard time: midnight Pacific is 08:00 UTC
+    ['2026-01-15T07:59:00Z', '2026-01-14'],
+    ['2026-01-15T08:00:00Z', '2026-01-15']
+  ])('puts %s in %s', (moment, expected) => {
+    expect(quotaDay(new Date(moment))).toBe(expected);
+  });
+});
+
+describe('GoogleKeyPool', () => {
+  it('rotates to the key with the most budget left', async () => {
+    const { pool, keys: [a, b, c] } = poolWithKeys(3);
+
+    expect(await acquireKeys(pool, 6)).toEqual([a, b, c, a, b, c]);
+  });
+
+  it('skips keys already tried for a search', async () => {
+    const { pool, keys: [, b] } = poolWithKeys(2);
+    const first = await pool.acquire();
+    const second = await pool.acquire(new Set([first!.id]));
+
+    expect(second?.key).toBe(b);
+    expect(await pool.acquire(new Set([first!.id, second!.id]))).toBeNull();
+  });
+
+  it('stops handing out a key once its daily quota is spent', async () => {
+    vi.stubEnv('GOOGLE_SEARCH_DAILY_QUOTA', '2');
+    const { pool, keys: [a, b] } = poolWithKeys(2);
+
+    expect(await acquireKeys(pool, 5)).toEqual([a, b, a, b, null]);
+  });
+
+  it('rests a key for ten minutes after a per-minute 429', async () => {
+    const { pool, keys: [a, b] } = poolWithKeys(2);
+    pool.markRateLimited((await pool.acquire())!, false);
+
+    expect(await acquireKeys(pool, 2)).toEqual([b, b]);
+    await vi.advanceTimersByTimeAsync(TEN_MINUTES);
+    expect((await pool.acquire())?.key).toBe(a);
+  });
+
+  it('benches a key for the day after a daily 429 and brings it back after the Pacific-time reset', async () => {
+    const { pool, keys: [a, b] } = poolWithKeys(2);
+    pool.markRateLimited((await pool.acquire())!, true);
+
+    expect(await acquireKeys(pool, 2)).toEqual([b, b]);
+    expect((await pool.status()).find(key => !key.available)).toMatchObject({ remaining: 0 });
+
+    // 23:59 Pacific is still the same quota day
+    vi.setSystemTime(new Date('2026-03-11T06:59:00Z'));
+    expect(await acquireKeys(pool, 1)).toEqual([b]);
+
+    vi.setSystemTime(new Date('2026-03-11T07:00:00Z'));
+    const status = await pool.status();
+    expect(status.map(key => key.requestsToday)).toEqual([0, 0]);
+    expect((await pool.acquire())?.key).toBe(a);
+  });
+
+  it('picks up what was spent today before a restart', async () => {
+    const { pool } = poolWithKeys(2);
+    await acquireKeys(pool, 3);
+
+    const restarted = new GoogleKeyPool();
+    expect((await restarted.status()).map(key => key.requestsToday)).toEqual([2, 1]);
+  });
+});
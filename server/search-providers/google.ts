@@ -0,0 +1,375 @@
+/**
+ * Google Custom Search JSON API, spreading requests over a pool of API keys
+ * with per-key daily budgets that survive restarts
+ */
+
+import fetch from 'node-fetch';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { storage } from '../storage';
+import { SearchProviderError, type SearchProvider, type SearchResultItem } from './types';
+
+// Free tier allowance per key; GOOGLE_SEARCH_DAILY_QUOTA overrides it
+const DEFAULT_DAILY_QUOTA = 100;
+// Google resets Custom Search quotas at midnight Pacific time
+const QUOTA_TIMEZONE = 'America/Los_Angeles';
+// How long a key rests after a per-minute 429
+const RATE_LIMIT_COOLDOWN = 10 * 60 * 1000; // 10 minutes
+
+interface PooledKey {
+  key: string;
+  // Fingerprint stored in place of the key itself
+  id: string;
+  masked: string;
+  requests: number;
+  cooldownUntil: number;
+  lastUsedAt: number;
+}
+
+export interface GoogleKeyStatus {
+  id: string;
+  key: string;
+  requestsToday: number;
+  dailyQuota: number;
+  remaining: number;
+  cooldownUntil: string | null;
+  lastUsedAt: string | null;
+  available: boolean;
+}
+
+/**
+ * API keys from GOOGLE_SEARCH_API_KEYS (comma or newline separated), the
+ * secrets file named by GOOGLE_SEARCH_API_KEYS_FILE, and GOOGLE_SEARCH_API_KEY
+ */
+export function loadGoogleApiKeys(): string[] {
+  const sources = [process.env.GOOGLE_SEARCH_API_KEYS || '', process.env.GOOGLE_SEARCH_API_KEY || ''];
+
+  const keysFile = process.env.GOOGLE_SEARCH_API_KEYS_FILE;
+  if (keysFile) {
+    try {
+      sources.push(readFileSync(keysFile, 'utf8'));
+    } catch (error) {
+      console.error(`❌ Could not read GOOGLE_SEARCH_API_KEYS_FILE (${keysFile}):`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  const keys = sources
+    .join('\n')
+    .split(/[,\n]/)
+    .map(key => key.trim())
+    .filter(Boolean);
+  return keys.filter((key, index) => keys.indexOf(key) === index);
+}
+
+export function maskApiKey(key: string): string {
+  return key.length <= 8 ? '****' : `${key.slice(0, 4)}…${key.slice(-4)}`;
+}
+
+function fingerprint(key: string): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+/**
+ * The quota day a moment falls in, as YYYY-MM-DD in Pacific time
+ */
+export function quotaDay(date: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: QUOTA_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(item => item.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+/**
+ * Hands out the key with the most budget left, so load is spread across keys
+ * and none is run into the ground before the others. Every request counts
+ * against the key's daily quota, since Google bills failed queries too.
+ */
+export class GoogleKeyPool {
+  private keys: PooledKey[] | null = null;
+  private day = '';
+  private loading: Promise<void> | null = null;
+
+  get dailyQuota(): number {
+    const quota = parseInt(process.env.GOOGLE_SEARCH_DAILY_QUOTA || '', 10);
+    return quota > 0 ? quota : DEFAULT_DAILY_QUOTA;
+  }
+
+  get size(): number {
+    return this.getKeys().length;
+  }
+
+  /**
+   * Key with the most remaining budget that isn't cooling down, skipping
+   * ones already tried for this search. Reserves one request on it.
+   */
+  async acquire(exclude: Set<string> = new Set()): Promise<PooledKey | null> {
+    await this.sync();
+    const now = Date.now();
+    const quota = this.dailyQuota;
+
+    const candidates = this.getKeys()
+      .filter(key => !exclude.has(key.id) && key.requests < quota && key.cooldownUntil <= now)
+      .sort((a, b) => a.requests - b.requests || a.lastUsedAt - b.lastUsedAt);
+
+    const chosen = candidates[0];
+    if (!chosen) return null;
+
+    this.charge(chosen);
+    return chosen;
+  }
+
+  /**
+   * Count one request against a key's budget for today
+   */
+  charge(key: PooledKey): void {
+    key.requests++;
+    key.lastUsedAt = Date.now();
+    this.persist(key);
+  }
+
+  /**
+   * Bench a key after a 429: for the rest of the day when the daily quota is
+   * gone, otherwise for a short cooldown
+   */
+  markRateLimited(key: PooledKey, dailyLimitHit: boolean): void {
+    if (dailyLimitHit) {
+      key.requests = Math.max(key.requests, this.dailyQuota);
+      console.log(`🚫 Google key ${key.masked} is out of quota until the Pacific-time reset`);
+    } else {
+      key.cooldownUntil = Date.now() + RATE_LIMIT_COOLDOWN;
+      console.log(`⏰ Google key ${key.masked} is cooling down for ${RATE_LIMIT_COOLDOWN / 60000} minutes`);
+    }
+    this.persist(key);
+  }
+
+  async status(): Promise<GoogleKeyStatus[]> {
+    await this.sync();
+    const now = Date.now();
+    const quota = this.dailyQuota;
+
+    return this.getKeys().map(key => ({
+      id: key.id,
+      key: key.masked,
+      requestsToday: key.requests,
+      dailyQuota: quota,
+      remaining: Math.max(0, quota - key.requests),
+      cooldownUntil: key.cooldownUntil > now ? new Date(key.cooldownUntil).toISOString() : null,
+      lastUsedAt: key.lastUsedAt ? new Date(key.lastUsedAt).toISOString() : null,
+      available: key.requests < quota && key.cooldownUntil <= now
+    }));
+  }
+
+  logUsage(): void {
+    const quota = this.dailyQuota;
+    console.log('📊 Google API key usage today:');
+    this.getKeys().forEach(key => {
+      console.log(`   ${key.masked}: ${key.requests}/${quota} requests`);
+    });
+  }
+
+  private getKeys(): PooledKey[] {
+    // Read lazily so keys set after this module loads are still picked up
+    if (!this.keys) {
+      this.keys = loadGoogleApiKeys().map(key => ({
+        key,
+        id: fingerprint(key),
+        masked: maskApiKey(key),
+        requests: 0,
+        cooldownUntil: 0,
+        lastUsedAt: 0
+      }));
+      console.log(`🔑 Loaded ${this.keys.length} Google API key(s)`);
+    }
+    return this.keys;
+  }
+
+  /**
+   * Start a fresh budget when the quota day rolls over, picking up whatever
+   * was already spent today before a restart
+   */
+  private async sync(): Promise<void> {
+    const today = quotaDay();
+    if (this.day === today) return;
+    if (this.loading) return this.loading;
+
+    this.loading = (async () => {
+      const keys = this.getKeys();
+      keys.forEach(key => {
+        key.requests = 0;
+        key.cooldownUntil = 0;
+      });
+
+      try {
+        const saved = await storage.getApiKeyUsage(today);
+        saved.forEach(usage => {
+          const key = keys.find(candidate => candidate.id === usage.keyId);
+          if (!key) return;
+          key.requests = Math.max(key.requests, usage.requests);
+          key.cooldownUntil = usage.cooldownUntil ? usage.cooldownUntil.getTime() : 0;
+        });
+      } catch (error) {
+        console.error('❌ Could not load saved Google key usage:', error);
+      }
+
+      this.day = today;
+    })();
+
+    try {
+      await this.loading;
+    } finally {
+      this.loading = null;
+    }
+  }
+
+  private persist(key: PooledKey): void {
+    storage.saveApiKeyUsage({
+      keyId: key.id,
+      day: this.day || quotaDay(),
+      requests: key.requests,
+      cooldownUntil: key.cooldownUntil ? new Date(key.cooldownUntil) : null,
+      updatedAt: new Date()
+    }).catch(error => console.error('❌ Could not save Google key usage:', error));
+  }
+}
+
+const googleKeyPool = new GoogleKeyPool();
+
+/**
+ * Usage and remaining budget for each configured key, with keys masked
+ */
+export async function getGoogleKeyStatus(): Promise<{
+  quotaDay: string;
+  dailyQuota: number;
+  keys: GoogleKeyStatus[];
+}> {
+  const keys = await googleKeyPool.status();
+  return { quotaDay: quotaDay(), dailyQuota: googleKeyPool.dailyQuota, keys };
+}
+
+/**
+ * Check whether a failing key works at all, to tell a bad query from a bad key
+ */
+async function testSimpleQuery(currentKey: string, searchEngineId: string): Promise<void> {
+  try {
+    console.log('🧪 Testing with very simple query: "jobs"');
+    const testUrl = `https://www.googleapis.com/customsearch/v1?key=${currentKey}&cx=${searchEngineId}&q=jobs&num=3`;
+    const testResponse = await fetch(testUrl);
+
+    if (testResponse.ok) {
+      const testData = await testResponse.json() as { items?: Array<{ link: string }> };
+      console.log(`✅ Simple test query succeeded! Found ${testData.items?.length || 0} results`);
+      if (testData.items && testData.items.length > 0) {
+        console.log(`📋 Sample result: ${testData.items[0].link}`);
+      }
+    } else {
+      const testError = await testResponse.text();
+      console.error(`❌ Even simple test query failed: ${testResponse.status} - ${testError}`);
+    }
+  } catch (error) {
+    console.error('❌ Test query network error:', error);
+  }
+}
+
+export const googleProvider: SearchProvider = {
+  id: 'google',
+  displayName: 'Google Custom Search',
+
+  isConfigured() {
+    return !!process.env.GOOGLE_SEARCH_ENGINE_ID && googleKeyPool.size > 0;
+  },
+
+  async search({ query, start, num, timeFilter }) {
+    const searchEngineId = process.env.GOOGLE_SEARCH_ENGINE_ID;
+    if (!searchEngineId) {
+      throw new SearchProviderError('google', 'Missing Google Search Engine ID');
+    }
+
+    // Try each API key with budget left until one works
+    const maxRetries = googleKeyPool.size;
+    const tried = new Set<string>();
+    let lastError: unknown = null;
+    let rateLimited = false;
+
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      const pooledKey = await googleKeyPool.acquire(tried);
+      if (!pooledKey) {
+        // Nothing left to try means every key is spent or cooling down
+        if (tried.size === 0) rateLimited = true;
+        break;
+      }
+      tried.add(pooledKey.id);
+      console.log(`🔑 Using Google API key ${pooledKey.masked} (${pooledKey.requests}/${googleKeyPool.dailyQuota} today, attempt ${attempt + 1}/${maxRetries})`);
+
+      try {
+        // Build URL with time filter if provided
+        let url = `https://www.googleapis.com/customsearch/v1?key=${pooledKey.key}&cx=${searchEngineId}&q=${encodeURIComponent(query)}&num=${num}&start=${start}`;
+        if (timeFilter && timeFilter !== 'all') {
+          url += `&tbs=qdr:${timeFilter}`;
+        }
+
+        const response = await fetch(url);
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          console.error(`❌ Google Search API error: ${response.status}`);
+          console.error(`❌ Error details: ${errorText}`);
+
+          // Quota exceeded: bench this key and try the next one
+          if (response.status === 429) {
+            googleKeyPool.markRateLimited(pooledKey, /per day/i.test(errorText));
+            rateLimited = true;
+            lastError = { status: 429, error: errorText };
+            continue;
+          }
+
+          // A complex query failing may be the query rather than the key
+          if (query.includes('site:') || query.includes('inurl:')) {
+            console.log('🔄 Complex query failed, trying simple test query...');
+            googleKeyPool.charge(pooledKey);
+            await testSimpleQuery(pooledKey.key, searchEngineId);
+            throw new SearchProviderError('google', `Google rejected the query (${response.status})`);
+          }
+
+          lastError = { status: response.status, error: errorText };
+          continue;
+        }
+
+        console.log(`✅ Google API key ${pooledKey.masked} successful`);
+
+        const data = await response.json() as {
+          items?: Array<{
+            link: string;
+            title?: string;
+            snippet?: string;
+          }>;
+        };
+
+        return (data.items || [])
+          .filter(item => item.link)
+          .map((item): SearchResultItem => ({
+            url: item.link,
+            title: item.title || '',
+            snippet: item.snippet || ''
+          }));
+      } catch (error) {
+        if (error instanceof SearchProviderError) throw error;
+        console.error(`❌ Network error with key ${pooledKey.masked}:`, error);
+        lastError = error;
+      }
+    }
+
+    // If we get here, all keys failed
+    console.error('❌ No Google API key could run this search.');
+    googleKeyPool.logUsage();
+    if (lastError) console.error('❌ Last error:', lastError);
+    throw new SearchProviderError(
+      'google',
+      tried.size === 0 ? 'Every Google API key is out of budget or cooling down' : 'All Google API keys failed',
+      rateLimited
+    );
+  }
+};
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getSearchProviders, searchWithFailover, SearchProviderError } from './index';
+import { fakeProvider } from './fake';
+import { searxngProvider } from './searxng';
+import { scrapeJobsFromAllPlatforms } from '../routes';
+
+beforeEach(() => {
+  vi.stubEnv('SEARCH_PROVIDERS', 'fake');
+  vi.stubEnv('SEARXNG_URL', '');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('fake provider', () => {
+  it('serves the fixture results for the site: clauses in the query', async () => {
+    const items = await fakeProvider.search({ query: 'engineer (site:lever.co OR site:ashbyhq.com)', start: 1, num: 10 });
+
+    expect(items.map(item => new URL(item.url).hostname)).toEqual(['jobs.lever.co', 'jobs.lever.co', 'jobs.ashbyhq.com']);
+  });
+
+  it('pages through the results', async () => {
+    const firstPage = await fakeProvider.search({ query: 'engineer', start: 1, num: 5 });
+    const secondPage = await fakeProvider.search({ query: 'engineer', start: 6, num: 5 });
+
+    expect(firstPage).toHaveLength(5);
+    expect(secondPage).toHaveLength(3);
+    expect(new Set([...firstPage, ...secondPage].map(item => item.url)).size).toBe(8);
+  });
+});
+
+describe('search provider priority', () => {
+  it('keeps the configured providers in SEARCH_PROVIDERS order', () => {
+    vi.stubEnv('SEARCH_PROVIDERS', 'google, searxng, fake');
+    expect(getSearchProviders().map(provider => provider.id)).toEqual(['fake']);
+
+    vi.stubEnv('SEARXNG_URL', 'https://searx.example.org');
+    expect(getSearchProviders().map(provider => provider.id)).toEqual(['searxng', 'fake']);
+  });
+
+  it('fails when no provider is configured', async () => {
+    vi.stubEnv('SEARCH_PROVIDERS', 'google');
+
+    await expect(searchWithFailover({ query: 'engineer', start: 1, num: 10 })).rejects.toThrow('No search provider is configured');
+  });
+
+  it('fails over past a provider that hit its limit and leaves it alone for a while', async () => {
+    vi.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z') });
+    vi.stubEnv('SEARCH_PROVIDERS', 'searxng,fake');
+    vi.stubEnv('SEARXNG_URL', 'https://searx.example.org');
+    const searxng = vi.spyOn(searxngProvider, 'search')
+      .mockRejectedValue(new SearchProviderError('searxng', 'SearXNG returned 429', true));
+
+    const request = { query: 'site:greenhouse.io engineer', start: 1, num: 10 };
+    await expect(searchWithFailover(request)).resolves.toMatchObject({ provider: 'fake' });
+    await expect(searchWithFailover(request)).resolves.toMatchObject({ provider: 'fake' });
+    expect(searxng).toHaveBeenCalledTimes(1);
+
+    // Tried again once the cooldown is over
+    vi.setSystemTime(new Date('2026-10-19T12:16:00Z'));
+    await searchWithFailover(request);
+    expect(searxng).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('discovery through the fake provider', () => {
+  it('turns fixture search results for a platform into jobs', async () => {
+    const jobs = await scrapeJobsFromAllPlatforms('engineer', 'greenhouse.io', 'all');
+
+    expect(jobs.map(job => [job.title, job.company, job.url]).sort()).toEqual([
+      ['Data Engineer', 'Northwind Labs', 'https://boards.greenhouse.io/northwindlabs/jobs/4102002'],
+      ['Senior Backend Engineer', 'Northwind Labs', 'https://boards.greenhouse.io/northwindlabs/jobs/4102001'],
+      ['Site Reliability Engineer', 'Woodgrove Bank', 'https://boards.greenhouse.io/woodgrove/jobs/5200310']
+    ]);
+    expect(jobs.every(job => job.platform === 'Greenhouse')).toBe(true);
+  });
+});
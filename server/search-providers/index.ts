@@ -0,0 +1,78 @@
+/**
+ * Registry of search discovery providers. SEARCH_PROVIDERS lists them in
+ * priority order (default "google,searxng"); each search goes to the first
+ * configured provider that answers, skipping ones that recently hit quota.
+ */
+
+import { googleProvider, getGoogleKeyStatus } from './google';
+import { searxngProvider } from './searxng';
+import { fakeProvider } from './fake';
+import { SearchProviderError, type SearchProvider, type SearchProviderRequest, type SearchResultItem } from './types';
+
+export type { SearchProvider, SearchProviderRequest, SearchResultItem } from './types';
+export type { GoogleKeyStatus } from './google';
+export { SearchProviderError, getGoogleKeyStatus };
+
+const providers: SearchProvider[] = [googleProvider, searxngProvider, fakeProvider];
+
+const DEFAULT_PRIORITY = ['google', 'searxng'];
+// How long a provider that ran out of quota is left alone
+const RATE_LIMIT_COOLDOWN = 15 * 60 * 1000; // 15 minutes
+
+const cooldownUntil = new Map<string, number>();
+
+/**
+ * Configured providers in the order they are tried
+ */
+export function getSearchProviders(): SearchProvider[] {
+  const ids = (process.env.SEARCH_PROVIDERS || '')
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  return (ids.length > 0 ? ids : DEFAULT_PRIORITY)
+    .map(id => {
+      const provider = providers.find(candidate => candidate.id === id);
+      if (!provider) console.warn(`⚠️ Unknown search provider "${id}" in SEARCH_PROVIDERS`);
+      return provider;
+    })
+    .filter((provider): provider is SearchProvider => !!provider && provider.isConfigured());
+}
+
+/**
+ * Run a search on the first provider that answers. Throws the last
+ * provider's error when none do.
+ */
+export async function searchWithFailover(request: SearchProviderRequest): Promise<{
+  provider: string;
+  items: SearchResultItem[];
+}> {
+  const available = getSearchProviders();
+  if (available.length === 0) {
+    throw new SearchProviderError('none', 'No search provider is configured');
+  }
+
+  let lastError: unknown = null;
+  for (const provider of available) {
+    if ((cooldownUntil.get(provider.id) || 0) > Date.now()) {
+      console.log(`⏭️ Skipping ${provider.displayName}, still cooling down after hitting its limit`);
+      continue;
+    }
+
+    try {
+      const items = await provider.search(request);
+      console.log(`🔎 ${provider.displayName} returned ${items.length} results`);
+      return { provider: provider.id, items };
+    } catch (error) {
+      lastError = error;
+      console.log(`⚠️ ${provider.displayName} failed: ${error instanceof Error ? error.message : error}`);
+      if (error instanceof SearchProviderError && error.rateLimited) {
+        cooldownUntil.set(provider.id, Date.now() + RATE_LIMIT_COOLDOWN);
+      }
+    }
+  }
+
+  throw lastError instanceof Error
+    ? lastError
+    : new SearchProviderError('none', 'Every search provider is cooling down after hitting its limit', true);
+}
@@ -0,0 +1,87 @@
+/**
+ * SearXNG metasearch instance (SEARXNG_URL) queried through its JSON API.
+ * The instance must have `json` enabled under `search.formats`.
+ */
+
+import fetch from 'node-fetch';
+import { SearchProviderError, type SearchProvider, type SearchResultItem } from './types';
+
+const SEARXNG_TIMEOUT = 15000; // 15 seconds
+// SearXNG pages are about this long whatever the engines return
+const PAGE_SIZE = 10;
+
+// SearXNG only has day/week/month/year windows, so round up to the nearest one
+const TIME_RANGES: Record<string, string> = {
+  h1: 'day',
+  h4: 'day',
+  h8: 'day',
+  h12: 'day',
+  d: 'day',
+  h48: 'week',
+  h72: 'week',
+  w: 'week',
+  m: 'month'
+};
+
+/**
+ * Drop the Google-only `intext:` operator; its quoted phrase still applies
+ */
+export function toSearxngQuery(query: string): string {
+  return query.replace(/\bintext:/g, '').replace(/\s+/g, ' ').trim();
+}
+
+export const searxngProvider: SearchProvider = {
+  id: 'searxng',
+  displayName: 'SearXNG',
+
+  isConfigured() {
+    return !!process.env.SEARXNG_URL;
+  },
+
+  async search({ query, start, num, timeFilter }) {
+    const baseUrl = (process.env.SEARXNG_URL || '').replace(/\/+$/, '');
+    if (!baseUrl) {
+      throw new SearchProviderError('searxng', 'SEARXNG_URL is not set');
+    }
+
+    const params = new URLSearchParams({
+      q: toSearxngQuery(query),
+      format: 'json',
+      pageno: String(Math.floor((start - 1) / PAGE_SIZE) + 1)
+    });
+    const timeRange = timeFilter ? TIME_RANGES[timeFilter] : undefined;
+    if (timeRange) params.set('time_range', timeRange);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), SEARXNG_TIMEOUT);
+
+    try {
+      const response = await fetch(`${baseUrl}/search?${params.toString()}`, {
+        headers: { 'Accept': 'application/json' },
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new SearchProviderError('searxng', `SearXNG returned ${response.status}`, response.status === 429);
+      }
+
+      const data = await response.json() as {
+        results?: Array<{ url?: string; title?: string; content?: string }>;
+      };
+
+      return (data.results || [])
+        .filter(result => result.url)
+        .slice(0, num)
+        .map((result): SearchResultItem => ({
+          url: result.url!,
+          title: result.title || '',
+          snippet: result.content || ''
+        }));
+    } catch (error) {
+      if (error instanceof SearchProviderError) throw error;
+      throw new SearchProviderError('searxng', `SearXNG request failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+};
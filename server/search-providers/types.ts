@@ -0,0 +1,42 @@
+/**
+ * A web search backend used to discover job posting URLs. Register new
+ * providers in server/search-providers/index.ts.
+ */
+
+// One organic search result
+export interface SearchResultItem {
+  url: string;
+  title: string;
+  snippet: string;
+}
+
+export interface SearchProviderRequest {
+  // Query in Google syntax (site:, intext:, intitle:, OR, -term)
+  query: string;
+  // 1-based index of the first result, as in Google's `start`
+  start: number;
+  num: number;
+  // Search form value: h1, h4, h8, h12, d, h48, h72, w, m or all
+  timeFilter?: string;
+}
+
+export interface SearchProvider {
+  id: string;
+  displayName: string;
+  // Whether the environment has what the provider needs (keys, instance URL)
+  isConfigured(): boolean;
+  search(request: SearchProviderRequest): Promise<SearchResultItem[]>;
+}
+
+export class SearchProviderError extends Error {
+  provider: string;
+  // Quota or rate limit hit; the provider is skipped for a while
+  rateLimited: boolean;
+
+  constructor(provider: string, message: string, rateLimited: boolean = false) {
+    super(message);
+    this.name = 'SearchProviderError';
+    this.provider = provider;
+    this.rateLimited = rateLimited;
+  }
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { matchesSearchQuery, parseSearchQuery, QueryParseError, toGoogleQuery } from './search-query';
+
+function term(value: string, field: 'any' | 'title' | 'company' = 'any', phrase = false) {
+  return { type: 'term', value, phrase, field };
+}
+
+describe('parseSearchQuery', () => {
+  it('keeps plain words as one plain query', () => {
+    expect(parseSearchQuery('  backend engineer ')).toMatchObject({ text: 'backend engineer', plain: true });
+    expect(parseSearchQuery('back-end engineer').plain).toBe(true);
+  });
+
+  it.each([
+    ['(backend OR platform) engineer', { type: 'and', children: [{ type: 'or', children: [term('backend'), term('platform')] }, term('engineer')] }],
+    ['backend | frontend', { type: 'or', children: [term('backend'), term('frontend')] }],
+    ['backend AND go', { type: 'and', children: [term('backend'), term('go')] }],
+    ['rust OR go engineer', { type: 'or', children: [term('rust'), { type: 'and', children: [term('go'), term('engineer')] }] }]
+  ])('groups %s', (query, root) => {
+    expect(parseSearchQuery(query).root).toEqual(root);
+  });
+
+  it.each([
+    ['engineer -senior', { type: 'and', children: [term('engineer'), { type: 'not', child: term('senior') }] }],
+    ['engineer NOT senior', { type: 'and', children: [term('engineer'), { type: 'not', child: term('senior') }] }],
+    ['engineer -(senior OR staff)', {
+      type: 'and',
+      children: [term('engineer'), { type: 'not', child: { type: 'or', children: [term('senior'), term('staff')] } }]
+    }]
+  ])('negates %s', (query, root) => {
+    expect(parseSearchQuery(query).root).toEqual(root);
+  });
+
+  it.each([
+    ['title:rust company:acme', { type: 'and', children: [term('rust', 'title'), term('acme', 'company')] }],
+    ['title:"staff engineer"', term('staff engineer', 'title', true)],
+    ['title:(rust OR go)', { type: 'or', children: [term('rust', 'title'), term('go', 'title')] }],
+    ['engineer -company:acme', { type: 'and', children: [term('engineer'), { type: 'not', child: term('acme', 'company') }] }]
+  ])('applies the field prefixes in %s', (query, root) => {
+    const parsed = parseSearchQuery(query);
+    expect(parsed.root).toEqual(root);
+    expect(parsed.plain).toBe(false);
+  });
+
+  it.each([
+    ['', 'Query is empty', 0],
+    ['"staff engineer', 'Unclosed quote', 0],
+    ['engineer ""', 'Empty quoted phrase', 9],
+    ['backend OR', 'OR needs a term on both sides', 10],
+    ['OR backend', 'OR needs a term on both sides', 0],
+    ['backend AND', 'AND needs a term on both sides', 11],
+    ['(backend engineer', 'Unclosed parenthesis', 0],
+    ['backend) engineer', 'Unmatched closing parenthesis', 7],
+    ['engineer ()', 'Empty parentheses', 9],
+    ['rust title:', 'title: needs a term', 5],
+    ['-senior -staff', 'Query needs at least one term to search for, not only exclusions', 0]
+  ])('rejects %j: %s at %i', (query, message, position) => {
+    let error: unknown;
+    try {
+      parseSearchQuery(query);
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(QueryParseError);
+    expect(error).toMatchObject({ message, position });
+  });
+});
+
+describe('toGoogleQuery', () => {
+  it.each([
+    ['backend engineer', 'intext:"backend engineer"'],
+    ['(backend OR platform) engineer -senior', '(intext:"backend" OR intext:"platform") intext:"engineer" -"senior"'],
+    ['title:rust -title:intern', 'intitle:"rust" -intitle:"intern"'],
+    ['company:acme engineer', '"acme" intext:"engineer"'],
+    // Google can't rule out a company by text, or negate a group
+    ['engineer -company:acme', 'intext:"engineer"'],
+    ['engineer -(senior staff)', 'intext:"engineer"'],
+    // An OR with an alternative Google can't express is left to the post-filter
+    ['(rust OR -(senior staff)) engineer', 'intext:"engineer"']
+  ])('compiles %s', (query, expected) => {
+    expect(toGoogleQuery(parseSearchQuery(query))).toBe(expected);
+  });
+});
+
+describe('matchesSearchQuery', () => {
+  const job = {
+    title: 'Senior Backend Engineer',
+    company: 'Acme Robotics',
+    location: 'Remote',
+    description: 'We write Go and Rust.'
+  };
+
+  it.each([
+    ['(backend OR platform) engineer', true],
+    ['engineer -senior', false],
+    ['title:rust', false],
+    ['rust company:acme', true],
+    ['python', false]
+  ])('%s → %s', (query, expected) => {
+    expect(matchesSearchQuery(job, parseSearchQuery(query))).toBe(expected);
+  });
+
+  it('does not rule a job out on a term its cut-off description may hold', () => {
+    const truncated = { ...job, description: 'x'.repeat(1000) };
+    expect(matchesSearchQuery(truncated, parseSearchQuery('python'))).toBe(true);
+    expect(matchesSearchQuery(truncated, parseSearchQuery('engineer -senior'))).toBe(false);
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * Job search query language:
+ *   (backend OR platform) engineer -senior -clearance
+ *   "staff engineer" title:rust -company:acme
+ * Terms are ANDed; OR (or |) joins alternatives, parentheses group, a leading
+ * - (or NOT) excludes, quotes make phrases, and title:/company: limit a term
+ * to one field. Queries are compiled into the Google query where Google can
+ * express them and enforced on the scraped jobs either way.
+ */
+
+import type { InsertJob } from '@shared/schema';
+
+export type QueryField = 'any' | 'title' | 'company';
+
+export type QueryNode =
+  | { type: 'term'; value: string; phrase: boolean; field: QueryField }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+export interface ParsedSearchQuery {
+  text: string;
+  // Plain words with no operators, searched as one phrase as before
+  plain: boolean;
+  root: QueryNode;
+}
+
+export class QueryParseError extends Error {
+  // Character offset in the query where parsing failed
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'QueryParseError';
+    this.position = position;
+  }
+}
+
+type Token =
+  | { kind: 'word' | 'phrase'; value: string; position: number }
+  | { kind: 'field'; value: QueryField; position: number }
+  | { kind: 'or' | 'and' | 'not' | 'open' | 'close'; position: number };
+
+const FIELD_PREFIX = /^(title|company):/i;
+// Scraped descriptions are cut at this length, so terms missing from longer ones may be past the cut
+const DESCRIPTION_LIMIT = 1000;
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(') {
+      tokens.push({ kind: 'open', position: i++ });
+    } else if (char === ')') {
+      tokens.push({ kind: 'close', position: i++ });
+    } else if (char === '|') {
+      tokens.push({ kind: 'or', position: i++ });
+    } else if (char === '-' && i + 1 < text.length && !/\s/.test(text[i + 1])) {
+      tokens.push({ kind: 'not', position: i++ });
+    } else if (char === '"') {
+      const end = text.indexOf('"', i + 1);
+      if (end === -1) throw new QueryParseError('Unclosed quote', i);
+      const value = text.slice(i + 1, end).trim();
+      if (!value) throw new QueryParseError('Empty quoted phrase', i);
+      tokens.push({ kind: 'phrase', value, position: i });
+      i = end + 1;
+    } else {
+      const start = i;
+      while (i < text.length && !/[\s()"|]/.test(text[i])) i++;
+      let word = text.slice(start, i);
+
+      const field = word.match(FIELD_PREFIX);
+      if (field) {
+        tokens.push({ kind: 'field', value: field[1].toLowerCase() as QueryField, position: start });
+        word = word.slice(field[0].length);
+        if (!word) continue;
+      }
+
+      if (!field && word === 'OR') tokens.push({ kind: 'or', position: start });
+      else if (!field && word === 'AND') tokens.push({ kind: 'and', position: start });
+      else if (!field && word === 'NOT') tokens.push({ kind: 'not', position: start });
+      else tokens.push({ kind: 'word', value: word, position: start + (field ? field[0].length : 0) });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent over the tokens: or := and (OR and)*, and := unary+,
+ * unary := (- | NOT) unary | field? primary, primary := word | phrase | ( or )
+ */
+class QueryParser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private length: number) {}
+
+  parse(): QueryNode {
+    if (this.tokens.length === 0) throw new QueryParseError('Query is empty', 0);
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new QueryParseError(extra.kind === 'close' ? 'Unmatched closing parenthesis' : 'Unexpected input', extra.position);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private position(): number {
+    return this.peek()?.position ?? this.length;
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.kind === 'or') {
+      this.index++;
+      if (!this.startsOperand()) throw new QueryParseError('OR needs a term on both sides', this.position());
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(): QueryNode {
+    const children: QueryNode[] = [];
+    while (this.startsOperand() || this.peek()?.kind === 'and') {
+      if (this.peek()?.kind === 'and') {
+        this.index++;
+        if (!this.startsOperand()) throw new QueryParseError('AND needs a term on both sides', this.position());
+        continue;
+      }
+      children.push(this.parseUnary());
+    }
+    if (children.length === 0) {
+      const token = this.peek();
+      throw new QueryParseError(token?.kind === 'or' ? 'OR needs a term on both sides' : 'Expected a search term', this.position());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private startsOperand(): boolean {
+    const kind = this.peek()?.kind;
+    return kind === 'word' || kind === 'phrase' || kind === 'field' || kind === 'not' || kind === 'open';
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek()!;
+    if (token.kind === 'not') {
+      this.index++;
+      if (!this.startsOperand()) throw new QueryParseError('Nothing to exclude after "-"', this.position());
+      return { type: 'not', child: this.parseUnary() };
+    }
+    if (token.kind === 'field') {
+      this.index++;
+      const next = this.peek();
+      if (!next || (next.kind !== 'word' && next.kind !== 'phrase' && next.kind !== 'open')) {
+        throw new QueryParseError(`${token.value}: needs a term`, token.position);
+      }
+      return withField(this.parsePrimary(), token.value);
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.peek();
+    if (!token) throw new QueryParseError('Expected a search term', this.length);
+
+    if (token.kind === 'word' || token.kind === 'phrase') {
+      this.index++;
+      return { type: 'term', value: token.value, phrase: token.kind === 'phrase', field: 'any' };
+    }
+    if (token.kind === 'open') {
+      this.index++;
+      if (this.peek()?.kind === 'close') throw new QueryParseError('Empty parentheses', token.position);
+      const node = this.parseOr();
+      if (this.peek()?.kind !== 'close') throw new QueryParseError('Unclosed parenthesis', token.position);
+      this.index++;
+      return node;
+    }
+    throw new QueryParseError('Expected a search term', token.position);
+  }
+}
+
+function withField(node: QueryNode, field: QueryField): QueryNode {
+  switch (node.type) {
+    case 'term':
+      return { ...node, field };
+    case 'not':
+      return { type: 'not', child: withField(node.child, field) };
+    default:
+      return { type: node.type, children: node.children.map(child => withField(child, field)) };
+  }
+}
+
+function hasPositiveTerm(node: QueryNode): boolean {
+  switch (node.type) {
+    case 'term':
+      return true;
+    case 'not':
+      return false;
+    case 'and':
+      return node.children.some(hasPositiveTerm);
+    case 'or':
+      return node.children.every(hasPositiveTerm);
+  }
+}
+
+/**
+ * Parse a search box query; throws QueryParseError with the offending position
+ */
+export function parseSearchQuery(text: string): ParsedSearchQuery {
+  const trimmed = text.trim();
+  const tokens = tokenize(trimmed);
+  const root = new QueryParser(tokens, trimmed.length).parse();
+  if (!hasPositiveTerm(root)) {
+    throw new QueryParseError('Query needs at least one term to search for, not only exclusions', 0);
+  }
+
+  return {
+    text: trimmed,
+    plain: tokens.every(token => token.kind === 'word'),
+    root
+  };
+}
+
+function quoted(value: string): string {
+  return `"${value.replace(/"/g, '')}"`;
+}
+
+function compileNode(node: QueryNode): string | null {
+  switch (node.type) {
+    case 'term':
+      if (node.field === 'title') return `intitle:${quoted(node.value)}`;
+      // Google has no company operator; the name still has to be on the page
+      if (node.field === 'company') return quoted(node.value);
+      return `intext:${quoted(node.value)}`;
+    case 'not':
+      // Google only negates single terms, and a company name can't be ruled out by text
+      if (node.child.type !== 'term' || node.child.field === 'company') return null;
+      return `-${node.child.field === 'title' ? 'intitle:' : ''}${quoted(node.child.value)}`;
+    case 'and': {
+      // Leaving out part of an AND only widens the search; the post-filter narrows it again
+      const parts = node.children.map(compileNode).filter((part): part is string => !!part);
+      return parts.length > 0 ? parts.join(' ') : null;
+    }
+    case 'or': {
+      // Leaving out an alternative would narrow it, so the whole OR goes
+      const parts = node.children.map(compileNode);
+      return parts.every(part => !!part) ? `(${parts.join(' OR ')})` : null;
+    }
+  }
+}
+
+/**
+ * The query's part of the Google query
+ */
+export function toGoogleQuery(query: ParsedSearchQuery): string {
+  if (query.plain) return `intext:${quoted(query.text)}`;
+  return compileNode(query.root) || '';
+}
+
+/**
+ * Words worth sending to a platform's own keyword search (Workday boards)
+ */
+export function positiveSearchText(query: ParsedSearchQuery): string {
+  const terms: string[] = [];
+  const visit = (node: QueryNode) => {
+    if (node.type === 'term') {
+      if (node.field !== 'company') terms.push(node.value);
+    } else if (node.type !== 'not') {
+      node.children.forEach(visit);
+    }
+  };
+  visit(query.root);
+  return terms.join(' ');
+}
+
+function normalizeText(text: string): string {
+  return ` ${text.toLowerCase().replace(/<[^>]*>/g, ' ').replace(/[^a-z0-9+#.]+/g, ' ').replace(/\.(\s|$)/g, ' ').trim()} `;
+}
+
+function containsTerm(haystack: string, value: string): boolean {
+  const needle = normalizeText(value).trim();
+  return !!needle && haystack.includes(` ${needle} `);
+}
+
+interface JobText {
+  title: string;
+  company: string;
+  any: string;
+  // Whether `any` holds everything the posting says (the description wasn't cut short)
+  complete: boolean;
+}
+
+// true/false, or null when the job's text doesn't tell (e.g. a truncated description)
+function evaluate(node: QueryNode, text: JobText): boolean | null {
+  switch (node.type) {
+    case 'term': {
+      if (node.field === 'title') return containsTerm(text.title, node.value);
+      if (node.field === 'company') return containsTerm(text.company, node.value);
+      return containsTerm(text.any, node.value) ? true : text.complete ? false : null;
+    }
+    case 'not': {
+      const result = evaluate(node.child, text);
+      return result === null ? null : !result;
+    }
+    case 'and': {
+      const results = node.children.map(child => evaluate(child, text));
+      if (results.includes(false)) return false;
+      return results.includes(null) ? null : true;
+    }
+    case 'or': {
+      const results = node.children.map(child => evaluate(child, text));
+      if (results.includes(true)) return true;
+      return results.includes(null) ? null : false;
+    }
+  }
+}
+
+/**
+ * Whether a scraped job satisfies the query. Terms missing from a description
+ * that was cut short (or never fetched) can't rule a job out, but exclusions
+ * found anywhere do. `titleOnly` matches plain terms against the title alone.
+ */
+export function matchesSearchQuery(
+  job: Pick<InsertJob, 'title' | 'company' | 'description' | 'location'> & { tags?: unknown },
+  query: ParsedSearchQuery,
+  options: { titleOnly?: boolean } = {}
+): boolean {
+  const tags = Array.isArray(job.tags) ? job.tags.join(' ') : '';
+  const description = job.description || '';
+  const text: JobText = options.titleOnly
+    ? { title: normalizeText(job.title), company: normalizeText(job.company), any: normalizeText(job.title), complete: true }
+    : {
+        title: normalizeText(job.title),
+        company: normalizeText(job.company),
+        any: normalizeText([job.title, job.company, job.location || '', tags, description].join(' ')),
+        complete: !!job.description && description.length < DESCRIPTION_LIMIT
+      };
+
+  return evaluate(query.root, text) !== false;
+}
@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { describeSearchError, SearchSessionManager, sessionMatchesSearch, type SearchSessionParams } from './search-sessions';
+import { PlatformSearchError } from './platform-scheduler';
+import { SearchProviderError } from './search-providers/types';
+
+const params: SearchSessionParams = { query: 'data engineer', site: 'all', location: 'Remote', timeFilter: 'week' };
+
+describe('sessionMatchesSearch', () => {
+  const manager = new SearchSessionManager();
+
+  afterEach(() => {
+    manager.stop();
+  });
+
+  it('matches the search a session ran', () => {
+    const session = manager.start(params, async () => []);
+    expect(sessionMatchesSearch(session, { ...params })).toBe(true);
+  });
+
+  it.each([
+    ['query', { query: 'product designer' }],
+    ['site', { site: 'greenhouse' }],
+    ['location', { location: 'all' }],
+    ['time filter', { timeFilter: 'all' }]
+  ])('rejects a session that ran a different %s', (_field, change) => {
+    const session = manager.start(params, async () => []);
+    expect(sessionMatchesSearch(session, { ...params, ...change })).toBe(false);
+  });
+});
+
+describe('describeSearchError', () => {
+  const outOfBudget = new SearchProviderError('google', 'Every Google API key is out of budget or cooling down', true);
+  const quota = { error: 'Search quota reached. Please try again in a few minutes.', code: 'QUOTA_EXCEEDED' };
+
+  it.each([
+    ['a rate-limited provider', outOfBudget, quota],
+    ['a search where every platform hit the limit', new PlatformSearchError([{ platform: 'greenhouse', jobs: [], error: outOfBudget, durationMs: 5 }]), quota],
+    ['a 429 in the message', new Error('Google Search API error: 429'), quota],
+    ['a daily limit', new Error('Daily limit exceeded'), { error: 'Daily search limit reached. The limit will reset tomorrow.', code: 'SEARCH_ERROR' }],
+    ['anything else', new Error('socket hang up'), { error: 'Search temporarily unavailable', code: 'SEARCH_ERROR' }]
+  ])('describes %s', (_, error, expected) => {
+    expect(describeSearchError(error)).toEqual(expected);
+  });
+});
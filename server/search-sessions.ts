@@ -0,0 +1,284 @@
+/**
+ * Streaming searches run as server-side sessions. Every event a session
+ * emits is numbered and kept, so a client that reconnects with
+ * Last-Event-ID gets the events it missed before live ones, and the final
+ * jobs stay around for /api/search pagination.
+ */
+
+import { randomUUID } from 'crypto';
+import type { InsertJob } from '@shared/schema';
+import { PlatformSearchError } from './platform-scheduler';
+import { SearchProviderError } from './search-providers/types';
+
+// A session nobody is listening to is cancelled after this long
+const DISCONNECT_GRACE = 15 * 1000; // 15 seconds
+// Finished sessions are kept this long for replay and pagination
+const SESSION_TTL = 30 * 60 * 1000; // 30 minutes
+const MAX_SESSIONS = 100;
+const SWEEP_INTERVAL = 60 * 1000; // 1 minute
+
+// Events after which a session has nothing more to say
+const TERMINAL_EVENTS = ['complete', 'error', 'cancelled'];
+
+export type SearchSessionStatus = 'running' | 'complete' | 'cancelled' | 'error';
+
+export interface SearchSessionParams {
+  query: string;
+  site: string;
+  location: string;
+  timeFilter: string;
+}
+
+export interface SearchSessionEvent {
+  // "<sessionId>:<seq>", sent as the SSE id so reconnects name their session
+  id: string;
+  seq: number;
+  event: string;
+  data: any;
+}
+
+export type SearchRun = (
+  sendEvent: (event: string, data: any) => void,
+  signal: AbortSignal
+) => Promise<InsertJob[]>;
+
+type SessionListener = (event: SearchSessionEvent) => void;
+
+export interface SearchSession {
+  id: string;
+  params: SearchSessionParams;
+  status: SearchSessionStatus;
+  events: SearchSessionEvent[];
+  // Everything found so far; the full result set once complete
+  jobs: InsertJob[];
+  createdAt: number;
+  finishedAt: number | null;
+  // Settles when the run ends, however it ends
+  done: Promise<void>;
+}
+
+interface SessionState extends SearchSession {
+  controller: AbortController;
+  listeners: Set<SessionListener>;
+  graceTimer: ReturnType<typeof setTimeout> | null;
+}
+
+export function isTerminalEvent(event: string): boolean {
+  return TERMINAL_EVENTS.includes(event);
+}
+
+/**
+ * Whether a session ran the given search, so a stale or mistyped session id
+ * never serves another search's results
+ */
+export function sessionMatchesSearch(session: SearchSession, params: SearchSessionParams): boolean {
+  return session.params.query === params.query &&
+    session.params.site === params.site &&
+    session.params.location === params.location &&
+    session.params.timeFilter === params.timeFilter;
+}
+
+/**
+ * Split an SSE event id back into its session and sequence number
+ */
+export function parseEventId(eventId: string | undefined): { sessionId: string; seq: number } | null {
+  if (!eventId) return null;
+  const separator = eventId.lastIndexOf(':');
+  if (separator <= 0) return null;
+
+  const seq = parseInt(eventId.slice(separator + 1), 10);
+  if (isNaN(seq)) return null;
+  return { sessionId: eventId.slice(0, separator), seq };
+}
+
+/**
+ * User-facing message and code for a search that failed outright
+ */
+export function describeSearchError(error: unknown): { error: string; code: string } {
+  // A search where every platform failed reports why the first one did
+  const cause = error instanceof PlatformSearchError ? error.firstError : error;
+  const originalError = cause instanceof Error ? cause.message : 'Unknown error';
+  const rateLimited = (cause instanceof SearchProviderError && cause.rateLimited) || originalError.includes('429');
+
+  let message = 'Search temporarily unavailable';
+  if (rateLimited || originalError.includes('Quota exceeded')) {
+    message = 'Search quota reached. Please try again in a few minutes.';
+  } else if (originalError.includes('Daily limit')) {
+    message = 'Daily search limit reached. The limit will reset tomorrow.';
+  }
+
+  return { error: message, code: rateLimited ? 'QUOTA_EXCEEDED' : 'SEARCH_ERROR' };
+}
+
+export class SearchSessionManager {
+  private sessions = new Map<string, SessionState>();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Create a session and start its run in the background
+   */
+  start(params: SearchSessionParams, run: SearchRun): SearchSession {
+    this.ensureSweeping();
+    this.evictOverflow();
+
+    let settle: () => void = () => {};
+    const session: SessionState = {
+      id: randomUUID(),
+      params,
+      status: 'running',
+      events: [],
+      jobs: [],
+      createdAt: Date.now(),
+      finishedAt: null,
+      done: new Promise<void>(resolve => { settle = resolve; }),
+      controller: new AbortController(),
+      listeners: new Set(),
+      graceTimer: null
+    };
+    this.sessions.set(session.id, session);
+    console.log(`🎬 Search session ${session.id} started for "${params.query}" on ${params.site}`);
+
+    this.emit(session, 'session', { sessionId: session.id, ...params });
+
+    const sendEvent = (event: string, data: any) => {
+      if (session.status !== 'running') return;
+      if (event === 'jobs' && Array.isArray(data?.jobs)) {
+        session.jobs.push(...data.jobs);
+      }
+      if (event === 'jobs-updated' && Array.isArray(data?.updates)) {
+        for (const { url, job } of data.updates) {
+          const index = session.jobs.findIndex(sent => sent.url === url);
+          if (index !== -1) session.jobs[index] = job;
+        }
+      }
+      this.emit(session, event, data);
+    };
+
+    run(sendEvent, session.controller.signal)
+      .then(jobs => {
+        if (session.status !== 'running') return;
+        session.jobs = jobs;
+        this.finish(session, 'complete', { totalJobs: jobs.length });
+      })
+      .catch(error => {
+        if (session.status !== 'running') return;
+        console.error(`❌ Search session ${session.id} failed:`, error);
+        this.finish(session, 'error', describeSearchError(error));
+      })
+      .finally(() => settle());
+
+    return session;
+  }
+
+  get(id: string): SearchSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  /**
+   * Replay events after `afterSeq`, then pass on new ones as they happen.
+   * Returns a function that stops listening.
+   */
+  subscribe(id: string, afterSeq: number, listener: SessionListener): () => void {
+    const session = this.sessions.get(id);
+    if (!session) return () => {};
+
+    if (session.graceTimer) {
+      clearTimeout(session.graceTimer);
+      session.graceTimer = null;
+    }
+
+    session.events
+      .filter(event => event.seq > afterSeq)
+      .forEach(listener);
+
+    if (session.status !== 'running') return () => {};
+
+    session.listeners.add(listener);
+    return () => {
+      session.listeners.delete(listener);
+      if (session.listeners.size === 0 && session.status === 'running' && !session.graceTimer) {
+        // Give EventSource a moment to reconnect before giving up on the run
+        session.graceTimer = setTimeout(() => {
+          session.graceTimer = null;
+          if (session.listeners.size === 0) {
+            console.log(`🔌 Search session ${session.id} lost its client`);
+            this.cancel(session.id);
+          }
+        }, DISCONNECT_GRACE);
+      }
+    };
+  }
+
+  /**
+   * Stop a running session; false when there is no such session or it
+   * already finished
+   */
+  cancel(id: string): boolean {
+    const session = this.sessions.get(id);
+    if (!session || session.status !== 'running') return false;
+
+    session.controller.abort();
+    this.finish(session, 'cancelled', { totalJobs: session.jobs.length });
+    console.log(`🛑 Search session ${id} cancelled with ${session.jobs.length} jobs found`);
+    return true;
+  }
+
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    Array.from(this.sessions.keys()).forEach(id => this.cancel(id));
+  }
+
+  private emit(session: SessionState, event: string, data: any): void {
+    const seq = session.events.length + 1;
+    const sessionEvent: SearchSessionEvent = { id: `${session.id}:${seq}`, seq, event, data };
+    session.events.push(sessionEvent);
+    session.listeners.forEach(listener => listener(sessionEvent));
+  }
+
+  private finish(session: SessionState, status: Exclude<SearchSessionStatus, 'running'>, data: any): void {
+    session.status = status;
+    session.finishedAt = Date.now();
+    if (session.graceTimer) {
+      clearTimeout(session.graceTimer);
+      session.graceTimer = null;
+    }
+    this.emit(session, status, data);
+    session.listeners.clear();
+  }
+
+  private ensureSweeping(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL);
+    // Sessions shouldn't keep the process alive on their own
+    this.sweepTimer.unref?.();
+  }
+
+  private sweep(): void {
+    const cutoff = Date.now() - SESSION_TTL;
+    this.sessions.forEach((session, id) => {
+      if (session.finishedAt && session.finishedAt < cutoff) {
+        this.sessions.delete(id);
+      }
+    });
+  }
+
+  /**
+   * Make room for a new session by dropping the oldest finished ones
+   */
+  private evictOverflow(): void {
+    if (this.sessions.size < MAX_SESSIONS) return;
+
+    const finished = Array.from(this.sessions.values())
+      .filter(session => session.status !== 'running')
+      .sort((a, b) => (a.finishedAt || 0) - (b.finishedAt || 0));
+
+    while (this.sessions.size >= MAX_SESSIONS && finished.length > 0) {
+      this.sessions.delete(finished.shift()!.id);
+    }
+  }
+}
+
+export const searchSessions = new SearchSessionManager();
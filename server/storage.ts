@@ -1,15 +1,25 @@
-import { type Job, type InsertJob, type Search, type InsertSearch, type UserPreferences, type SavedJob, type JobApplication, type ResumeAnalysisResult } from "@shared/schema";
+import { type Job, type InsertJob, type Search, type InsertSearch, type UserPreferences, type SavedJob, type JobApplication, type ResumeAnalysisResult, type WatchlistEntry, type InsertWatchlistEntry, type SavedSearch, type InsertSavedSearch, type SearchAlert, type InsertSearchAlert, type ApiKeyUsage, type JobSalary, type JobLocation } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { rankJobs, type JobIndexQuery, type JobIndexResult } from "./job-index";
+import { mergeStoredJob, withCanonicalId } from "./job-dedup";
+import { normalizeLocation } from "./location-normalizer";
 
 export interface IStorage {
   getJob(id: string): Promise<Job | undefined>;
   getJobsByQuery(query: string): Promise<Job[]>;
   createJob(job: InsertJob): Promise<Job>;
+  // Ranked full-text search over stored jobs
+  searchJobs(params: JobIndexQuery): Promise<JobIndexResult>;
   getSearch(id: string): Promise<Search | undefined>;
   getRecentSearches(): Promise<Search[]>;
   createSearch(search: InsertSearch): Promise<Search>;
   clearOldJobs(): Promise<void>;
   
+  // Job liveness (see server/job-liveness.ts)
+  getUrlsDueForVerification(verifiedBefore: Date, limit: number): Promise<string[]>;
+  recordJobLiveness(url: string, closedAt: Date | null, verifiedAt: Date): Promise<void>;
+  getClosedJobUrls(urls: string[]): Promise<Set<string>>;
+  
   // User preferences
   saveUserPreferences(userId: string, preferences: {
     jobTypes?: string[];
@@ -63,8 +73,34 @@ export interface IStorage {
     platform?: string;
     savedAt: Date;
     applied: boolean;
+    closedAt?: Date | null;
+    lastVerifiedAt?: Date | null;
   }>>;
   
+  // Company watchlist
+  getUserWatchlist(userId: string): Promise<WatchlistEntry[]>;
+  getAllWatchlistEntries(): Promise<WatchlistEntry[]>;
+  addWatchlistEntry(entry: InsertWatchlistEntry): Promise<WatchlistEntry>;
+  updateWatchlistEntry(id: string, updates: Partial<InsertWatchlistEntry>): Promise<WatchlistEntry | undefined>;
+  removeWatchlistEntry(userId: string, id: string): Promise<boolean>;
+  
+  // Saved searches and their alert inbox
+  getUserSavedSearches(userId: string): Promise<SavedSearch[]>;
+  // Saved searches whose next run is at or before `now`
+  getDueSavedSearches(now: Date): Promise<SavedSearch[]>;
+  addSavedSearch(search: InsertSavedSearch): Promise<SavedSearch>;
+  updateSavedSearch(id: string, updates: Partial<InsertSavedSearch>): Promise<SavedSearch | undefined>;
+  removeSavedSearch(userId: string, id: string): Promise<boolean>;
+  getUserSearchAlerts(userId: string, limit?: number): Promise<SearchAlert[]>;
+  addSearchAlert(alert: InsertSearchAlert): Promise<SearchAlert>;
+  updateSearchAlert(id: string, updates: Partial<InsertSearchAlert>): Promise<SearchAlert | undefined>;
+  // Mark the given alerts (or all of them) read; returns how many changed
+  markSearchAlertsRead(userId: string, ids?: string[]): Promise<number>;
+  
+  // Search API key budgets (see server/search-providers/google.ts)
+  getApiKeyUsage(day: string): Promise<ApiKeyUsage[]>;
+  saveApiKeyUsage(usage: ApiKeyUsage): Promise<void>;
+  
   // Job applications
   trackApplication(applicationData: {
     userId: string;
@@ -141,6 +177,10 @@ export class MemStorage implements IStorage {
   private savedJobs: Map<string, any>;
   private applications: Map<string, any>;
   private resumeAnalyses: Map<string, any>;
+  private watchlist: Map<string, WatchlistEntry>;
+  private savedSearches: Map<string, SavedSearch>;
+  private searchAlerts: Map<string, SearchAlert>;
+  private apiKeyUsage: Map<string, ApiKeyUsage>;
 
   constructor() {
     this.jobs = new Map();
@@ -149,6 +189,10 @@ export class MemStorage implements IStorage {
     this.savedJobs = new Map();
     this.applications = new Map();
     this.resumeAnalyses = new Map();
+    this.watchlist = new Map();
+    this.savedSearches = new Map();
+    this.searchAlerts = new Map();
+    this.apiKeyUsage = new Map();
   }
 
   async getJob(id: string): Promise<Job | undefined> {
@@ -163,21 +207,38 @@ export class MemStorage implements IStorage {
   }
 
   async createJob(insertJob: InsertJob): Promise<Job> {
-    const id = randomUUID();
+    // The same role found again (here or on another site) updates the stored copy
+    const foundJob = withCanonicalId(insertJob);
+    const existing = Array.from(this.jobs.values()).find(job =>
+      job.canonicalId === foundJob.canonicalId || job.url === foundJob.url
+    );
+    const dedupedJob = mergeStoredJob(existing, foundJob);
+    const id = existing?.id || randomUUID();
     const job: Job = { 
-      ...insertJob, 
+      ...dedupedJob, 
       id,
-      description: insertJob.description || null,
-      location: insertJob.location || null,
-      logo: insertJob.logo || null,
-      tags: Array.isArray(insertJob.tags) ? insertJob.tags as string[] : [],
-      postedAt: insertJob.postedAt || null,
+      description: dedupedJob.description || null,
+      location: dedupedJob.location || null,
+      logo: dedupedJob.logo || null,
+      tags: Array.isArray(dedupedJob.tags) ? dedupedJob.tags as string[] : [],
+      postedAt: dedupedJob.postedAt || null,
+      sourceUrls: dedupedJob.sourceUrls,
+      salary: (dedupedJob.salary as JobSalary | null) || null,
+      validThrough: dedupedJob.validThrough || null,
+      normalizedLocation: (dedupedJob.normalizedLocation as JobLocation | null) ||
+                          normalizeLocation(dedupedJob.location, { tags: dedupedJob.tags as string[] }),
+      closedAt: existing?.closedAt || null,
+      lastVerifiedAt: existing?.lastVerifiedAt || null,
       scrapedAt: new Date()
     };
     this.jobs.set(id, job);
     return job;
   }
 
+  async searchJobs(params: JobIndexQuery): Promise<JobIndexResult> {
+    return rankJobs(Array.from(this.jobs.values()), params);
+  }
+
   async getSearch(id: string): Promise<Search | undefined> {
     return this.searches.get(id);
   }
@@ -213,6 +274,46 @@ export class MemStorage implements IStorage {
     entriesToDelete.forEach(id => this.jobs.delete(id));
   }
 
+  // Job liveness implementation
+  async getUrlsDueForVerification(verifiedBefore: Date, limit: number): Promise<string[]> {
+    const candidates = [
+      ...Array.from(this.jobs.values()).map(job => ({ url: job.url, closedAt: job.closedAt, lastVerifiedAt: job.lastVerifiedAt })),
+      ...Array.from(this.savedJobs.values()).map(job => ({ url: job.jobUrl, closedAt: job.closedAt, lastVerifiedAt: job.lastVerifiedAt }))
+    ];
+
+    const due = candidates
+      .filter(job => !job.closedAt && (!job.lastVerifiedAt || job.lastVerifiedAt < verifiedBefore))
+      .sort((a, b) => (a.lastVerifiedAt?.getTime() || 0) - (b.lastVerifiedAt?.getTime() || 0))
+      .map(job => job.url);
+
+    return Array.from(new Set(due)).slice(0, limit);
+  }
+
+  async recordJobLiveness(url: string, closedAt: Date | null, verifiedAt: Date): Promise<void> {
+    Array.from(this.jobs.values())
+      .filter(job => job.url === url)
+      .forEach(job => {
+        job.closedAt = closedAt;
+        job.lastVerifiedAt = verifiedAt;
+      });
+
+    Array.from(this.savedJobs.values())
+      .filter(job => job.jobUrl === url)
+      .forEach(job => {
+        job.closedAt = closedAt;
+        job.lastVerifiedAt = verifiedAt;
+      });
+  }
+
+  async getClosedJobUrls(urls: string[]): Promise<Set<string>> {
+    const wanted = new Set(urls);
+    const closed = [
+      ...Array.from(this.jobs.values()).filter(job => job.closedAt).map(job => job.url),
+      ...Array.from(this.savedJobs.values()).filter(job => job.closedAt).map(job => job.jobUrl)
+    ];
+    return new Set(closed.filter(url => wanted.has(url)));
+  }
+
   // User preferences implementation
   async saveUserPreferences(userId: string, preferences: {
     jobTypes?: string[];
@@ -311,12 +412,173 @@ export class MemStorage implements IStorage {
     platform?: string;
     savedAt: Date;
     applied: boolean;
+    closedAt?: Date | null;
+    lastVerifiedAt?: Date | null;
   }>> {
     return Array.from(this.savedJobs.values())
       .filter(job => job.userId === userId)
       .sort((a, b) => b.savedAt.getTime() - a.savedAt.getTime());
   }
 
+  // Company watchlist implementation
+  async getUserWatchlist(userId: string): Promise<WatchlistEntry[]> {
+    return Array.from(this.watchlist.values())
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => a.company.localeCompare(b.company));
+  }
+
+  async getAllWatchlistEntries(): Promise<WatchlistEntry[]> {
+    return Array.from(this.watchlist.values());
+  }
+
+  async addWatchlistEntry(entry: InsertWatchlistEntry): Promise<WatchlistEntry> {
+    const existing = Array.from(this.watchlist.values()).find(item =>
+      item.userId === entry.userId && item.platform === entry.platform && item.boardToken === entry.boardToken
+    );
+    if (existing) return existing;
+
+    const id = randomUUID();
+    const watchlistEntry: WatchlistEntry = {
+      id,
+      userId: entry.userId,
+      company: entry.company,
+      platform: entry.platform,
+      boardToken: entry.boardToken,
+      boardUrl: entry.boardUrl ?? null,
+      knownJobUrls: entry.knownJobUrls ?? [],
+      newJobs: entry.newJobs ?? [],
+      openJobCount: entry.openJobCount ?? 0,
+      lastPolledAt: entry.lastPolledAt ?? null,
+      lastSuccessfulPollAt: entry.lastSuccessfulPollAt ?? null,
+      lastPollError: entry.lastPollError ?? null,
+      createdAt: new Date()
+    };
+    this.watchlist.set(id, watchlistEntry);
+    return watchlistEntry;
+  }
+
+  async updateWatchlistEntry(id: string, updates: Partial<InsertWatchlistEntry>): Promise<WatchlistEntry | undefined> {
+    const existing = this.watchlist.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates, id };
+    this.watchlist.set(id, updated);
+    return updated;
+  }
+
+  async removeWatchlistEntry(userId: string, id: string): Promise<boolean> {
+    const existing = this.watchlist.get(id);
+    if (!existing || existing.userId !== userId) return false;
+    return this.watchlist.delete(id);
+  }
+  // Saved searches implementation
+  async getUserSavedSearches(userId: string): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values())
+      .filter(search => search.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+  }
+
+  async getDueSavedSearches(now: Date): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values())
+      .filter(search => !search.nextRunAt || search.nextRunAt.getTime() <= now.getTime());
+  }
+
+  async addSavedSearch(search: InsertSavedSearch): Promise<SavedSearch> {
+    const id = randomUUID();
+    const savedSearch: SavedSearch = {
+      id,
+      userId: search.userId,
+      name: search.name,
+      query: search.query,
+      site: search.site,
+      location: search.location ?? 'all',
+      timeFilter: search.timeFilter ?? null,
+      filters: search.filters ?? {},
+      frequency: search.frequency ?? 'daily',
+      emailAlerts: search.emailAlerts ?? true,
+      email: search.email ?? null,
+      seenJobUrls: search.seenJobUrls ?? [],
+      lastRunAt: search.lastRunAt ?? null,
+      lastSuccessfulRunAt: search.lastSuccessfulRunAt ?? null,
+      nextRunAt: search.nextRunAt ?? null,
+      lastRunError: search.lastRunError ?? null,
+      createdAt: new Date()
+    };
+    this.savedSearches.set(id, savedSearch);
+    return savedSearch;
+  }
+
+  async updateSavedSearch(id: string, updates: Partial<InsertSavedSearch>): Promise<SavedSearch | undefined> {
+    const existing = this.savedSearches.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates, id };
+    this.savedSearches.set(id, updated);
+    return updated;
+  }
+
+  async removeSavedSearch(userId: string, id: string): Promise<boolean> {
+    const existing = this.savedSearches.get(id);
+    if (!existing || existing.userId !== userId) return false;
+
+    Array.from(this.searchAlerts.values())
+      .filter(alert => alert.savedSearchId === id)
+      .forEach(alert => this.searchAlerts.delete(alert.id));
+    return this.savedSearches.delete(id);
+  }
+
+  async getUserSearchAlerts(userId: string, limit: number = 50): Promise<SearchAlert[]> {
+    return Array.from(this.searchAlerts.values())
+      .filter(alert => alert.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))
+      .slice(0, limit);
+  }
+
+  async addSearchAlert(alert: InsertSearchAlert): Promise<SearchAlert> {
+    const id = randomUUID();
+    const searchAlert: SearchAlert = {
+      id,
+      userId: alert.userId,
+      savedSearchId: alert.savedSearchId,
+      title: alert.title,
+      jobs: alert.jobs ?? [],
+      read: alert.read ?? false,
+      emailedAt: alert.emailedAt ?? null,
+      createdAt: new Date()
+    };
+    this.searchAlerts.set(id, searchAlert);
+    return searchAlert;
+  }
+
+  async updateSearchAlert(id: string, updates: Partial<InsertSearchAlert>): Promise<SearchAlert | undefined> {
+    const existing = this.searchAlerts.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates, id };
+    this.searchAlerts.set(id, updated);
+    return updated;
+  }
+
+  async markSearchAlertsRead(userId: string, ids?: string[]): Promise<number> {
+    let count = 0;
+    this.searchAlerts.forEach(alert => {
+      if (alert.userId === userId && !alert.read && (!ids || ids.includes(alert.id))) {
+        alert.read = true;
+        count++;
+      }
+    });
+    return count;
+  }
+
+  async getApiKeyUsage(day: string): Promise<ApiKeyUsage[]> {
+    return Array.from(this.apiKeyUsage.values()).filter(usage => usage.day === day);
+  }
+
+  async saveApiKeyUsage(usage: ApiKeyUsage): Promise<void> {
+    this.apiKeyUsage.set(`${usage.keyId}:${usage.day}`, { ...usage });
+  }
+
+
   // Job applications implementation
   async trackApplication(applicationData: {
     userId: string;
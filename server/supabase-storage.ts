@@ -1,7 +1,13 @@
 import { createClient } from '@supabase/supabase-js';
 import type { IStorage } from './storage';
-import type { Job, InsertJob, Search, InsertSearch } from '@shared/schema';
+import type { Job, InsertJob, JobLocation, JobSalary, Search, InsertSearch, WatchlistEntry, InsertWatchlistEntry, SavedSearch, InsertSavedSearch, SearchAlert, InsertSearchAlert, ApiKeyUsage } from '@shared/schema';
 import { randomUUID } from 'crypto';
+import { rankJobs, tokenize, type JobIndexQuery, type JobIndexResult } from './job-index';
+import { mergeStoredJob, withCanonicalId } from './job-dedup';
+import { normalizeLocation } from './location-normalizer';
+
+// Rows pulled from Postgres full-text search before ranking them here
+const INDEX_CANDIDATE_LIMIT = 500;
 
 // Initialize Supabase client for server-side operations
 const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
@@ -11,7 +17,7 @@ if (!supabaseUrl || !supabaseServiceKey) {
   console.warn('⚠️ Missing Supabase credentials, falling back to in-memory storage');
 }
 
-const supabase = supabaseUrl && supabaseServiceKey 
+export const supabase = supabaseUrl && supabaseServiceKey 
   ? createClient(supabaseUrl, supabaseServiceKey)
   : null;
 
@@ -80,38 +86,59 @@ export class SupabaseStorage implements IStorage {
   }
 
   async createJob(insertJob: InsertJob): Promise<Job> {
+    const dedupedJob = withCanonicalId(insertJob);
+    const normalizedLocation = (dedupedJob.normalizedLocation as JobLocation | null) ||
+                               normalizeLocation(dedupedJob.location, { tags: dedupedJob.tags as string[] });
+
     if (!supabase) {
       // Fallback for when Supabase is not available
       const job: Job = { 
-        ...insertJob, 
+        ...dedupedJob, 
         id: randomUUID(),
-        description: insertJob.description || null,
-        location: insertJob.location || null,
-        logo: insertJob.logo || null,
-        tags: Array.isArray(insertJob.tags) ? insertJob.tags as string[] : [],
-        postedAt: insertJob.postedAt || null,
+        description: dedupedJob.description || null,
+        location: dedupedJob.location || null,
+        logo: dedupedJob.logo || null,
+        tags: Array.isArray(dedupedJob.tags) ? dedupedJob.tags as string[] : [],
+        postedAt: dedupedJob.postedAt || null,
+        salary: (dedupedJob.salary as JobSalary | null) || null,
+        validThrough: dedupedJob.validThrough || null,
+        normalizedLocation,
+        closedAt: null,
+        lastVerifiedAt: null,
         scrapedAt: new Date()
       };
       return job;
     }
     
+    // The same role found again (here or on another site) updates the stored copy
+    const { data: existing } = await supabase
+      .from('jobs')
+      .select('*')
+      .eq('canonical_id', dedupedJob.canonicalId)
+      .maybeSingle();
+    const mergedJob = mergeStoredJob(existing ? toJob(existing) : undefined, dedupedJob);
+    
     const jobData = {
-      id: randomUUID(),
-      title: insertJob.title,
-      company: insertJob.company,
-      location: insertJob.location,
-      description: insertJob.description,
-      url: insertJob.url,
-      logo: insertJob.logo,
-      platform: insertJob.platform,
-      tags: insertJob.tags,
-      posted_at: insertJob.postedAt,
+      title: mergedJob.title,
+      company: mergedJob.company,
+      location: mergedJob.location,
+      description: mergedJob.description,
+      url: mergedJob.url,
+      logo: mergedJob.logo,
+      platform: mergedJob.platform,
+      tags: mergedJob.tags,
+      posted_at: mergedJob.postedAt,
+      ...(mergedJob.salary ? { salary: mergedJob.salary } : {}),
+      ...(mergedJob.validThrough ? { valid_through: mergedJob.validThrough } : {}),
+      normalized_location: (mergedJob.normalizedLocation as JobLocation | null) || normalizedLocation,
+      canonical_id: mergedJob.canonicalId,
+      source_urls: mergedJob.sourceUrls,
       scraped_at: new Date().toISOString()
     };
     
     const { data, error } = await supabase
       .from('jobs')
-      .insert(jobData)
+      .upsert(jobData, { onConflict: 'canonical_id' })
       .select()
       .single();
     
@@ -120,19 +147,44 @@ export class SupabaseStorage implements IStorage {
       throw error;
     }
     
-    return {
-      id: data.id,
-      title: data.title,
-      company: data.company,
-      location: data.location,
-      description: data.description,
-      url: data.url,
-      logo: data.logo,
-      platform: data.platform,
-      tags: data.tags,
-      postedAt: data.posted_at ? new Date(data.posted_at) : null,
-      scrapedAt: new Date(data.scraped_at)
-    };
+    return toJob(data);
+  }
+
+  async searchJobs(params: JobIndexQuery): Promise<JobIndexResult> {
+    if (!supabase) return { jobs: [], total: 0 };
+
+    let request = supabase
+      .from('jobs')
+      .select('*');
+
+    if (tokenize(params.query).length > 0) {
+      request = request.textSearch('search_vector', params.query, { type: 'websearch', config: 'english' });
+    }
+    if (params.platform) {
+      request = request.ilike('platform', params.platform);
+    }
+    if (params.postedAfter) {
+      const after = params.postedAfter.toISOString();
+      request = request.or(`posted_at.gte.${after},and(posted_at.is.null,scraped_at.gte.${after})`);
+    }
+    if (params.remote) {
+      // Rows from before locations were normalized only have the text to go on
+      request = request.or('normalized_location->>remoteType.eq.remote,and(normalized_location.is.null,or(location.ilike.%remote%,tags.cs.{Remote}))');
+    }
+    request = request
+      .is('closed_at', null)
+      .or(`valid_through.is.null,valid_through.gte.${new Date().toISOString()}`);
+
+    const { data, error } = await request
+      .order('scraped_at', { ascending: false })
+      .limit(INDEX_CANDIDATE_LIMIT);
+
+    if (error) {
+      console.error('Error searching job index:', error);
+      return { jobs: [], total: 0 };
+    }
+
+    return rankJobs((data || []).map(toJob), params);
   }
 
   // Search-related methods
@@ -229,6 +281,73 @@ export class SupabaseStorage implements IStorage {
     }
   }
 
+  // Job liveness
+  async getUrlsDueForVerification(verifiedBefore: Date, limit: number): Promise<string[]> {
+    if (!supabase) return [];
+
+    const staleFilter = `last_verified_at.is.null,last_verified_at.lt.${verifiedBefore.toISOString()}`;
+    const [jobsResult, savedResult] = await Promise.all([
+      supabase
+        .from('jobs')
+        .select('url')
+        .is('closed_at', null)
+        .or(staleFilter)
+        .order('last_verified_at', { ascending: true, nullsFirst: true })
+        .limit(limit),
+      supabase
+        .from('saved_jobs')
+        .select('job_url')
+        .is('closed_at', null)
+        .or(staleFilter)
+        .order('last_verified_at', { ascending: true, nullsFirst: true })
+        .limit(limit)
+    ]);
+
+    if (jobsResult.error || savedResult.error) {
+      console.error('Error fetching jobs due for verification:', jobsResult.error || savedResult.error);
+      return [];
+    }
+
+    // Saved jobs first: those are the ones users come back to
+    const urls = [
+      ...(savedResult.data || []).map(item => item.job_url as string),
+      ...(jobsResult.data || []).map(item => item.url as string)
+    ];
+    return Array.from(new Set(urls)).slice(0, limit);
+  }
+
+  async recordJobLiveness(url: string, closedAt: Date | null, verifiedAt: Date): Promise<void> {
+    if (!supabase) return;
+
+    const liveness = {
+      closed_at: closedAt ? closedAt.toISOString() : null,
+      last_verified_at: verifiedAt.toISOString()
+    };
+
+    const [jobsResult, savedResult] = await Promise.all([
+      supabase.from('jobs').update(liveness).eq('url', url),
+      supabase.from('saved_jobs').update(liveness).eq('job_url', url)
+    ]);
+
+    if (jobsResult.error || savedResult.error) {
+      console.error('Error recording job liveness:', jobsResult.error || savedResult.error);
+    }
+  }
+
+  async getClosedJobUrls(urls: string[]): Promise<Set<string>> {
+    if (!supabase || urls.length === 0) return new Set();
+
+    const [jobsResult, savedResult] = await Promise.all([
+      supabase.from('jobs').select('url').in('url', urls).not('closed_at', 'is', null),
+      supabase.from('saved_jobs').select('job_url').in('job_url', urls).not('closed_at', 'is', null)
+    ]);
+
+    return new Set([
+      ...(jobsResult.data || []).map(item => item.url as string),
+      ...(savedResult.data || []).map(item => item.job_url as string)
+    ]);
+  }
+
   // User preferences
   async saveUserPreferences(preferences: {
     userId: string;
@@ -363,10 +482,313 @@ export class SupabaseStorage implements IStorage {
       applied: item.applied || false,
       appliedAt: item.applied_at ? new Date(item.applied_at) : undefined,
       applicationStatus: item.application_status,
-      notes: item.notes
+      notes: item.notes,
+      closedAt: item.closed_at ? new Date(item.closed_at) : null,
+      lastVerifiedAt: item.last_verified_at ? new Date(item.last_verified_at) : null
+    }));
+  }
+
+  // Company watchlist
+  async getUserWatchlist(userId: string): Promise<WatchlistEntry[]> {
+    if (!supabase) return [];
+
+    const { data, error } = await supabase
+      .from('company_watchlist')
+      .select('*')
+      .eq('user_id', userId)
+      .order('company', { ascending: true });
+
+    if (error) return [];
+
+    return (data || []).map(toWatchlistEntry);
+  }
+
+  async getAllWatchlistEntries(): Promise<WatchlistEntry[]> {
+    if (!supabase) return [];
+
+    const { data, error } = await supabase
+      .from('company_watchlist')
+      .select('*');
+
+    if (error) {
+      console.error('Error fetching watchlist entries:', error);
+      return [];
+    }
+
+    return (data || []).map(toWatchlistEntry);
+  }
+
+  async addWatchlistEntry(entry: InsertWatchlistEntry): Promise<WatchlistEntry> {
+    if (!supabase) {
+      return toWatchlistEntry({ id: randomUUID(), ...toWatchlistRow(entry), created_at: new Date().toISOString() });
+    }
+
+    const { data, error } = await supabase
+      .from('company_watchlist')
+      .upsert(toWatchlistRow(entry), { onConflict: 'user_id,platform,board_token' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding watchlist entry:', error);
+      throw error;
+    }
+
+    return toWatchlistEntry(data);
+  }
+
+  async updateWatchlistEntry(id: string, updates: Partial<InsertWatchlistEntry>): Promise<WatchlistEntry | undefined> {
+    if (!supabase) return undefined;
+
+    const { data, error } = await supabase
+      .from('company_watchlist')
+      .update(toWatchlistRow(updates))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating watchlist entry:', error);
+      return undefined;
+    }
+
+    return toWatchlistEntry(data);
+  }
+
+  async removeWatchlistEntry(userId: string, id: string): Promise<boolean> {
+    if (!supabase) return false;
+
+    const { data, error } = await supabase
+      .from('company_watchlist')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      console.error('Error removing watchlist entry:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  }
+
+  // Saved searches
+  async getUserSavedSearches(userId: string): Promise<SavedSearch[]> {
+    if (!supabase) return [];
+
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) return [];
+
+    return (data || []).map(toSavedSearch);
+  }
+
+  async getDueSavedSearches(now: Date): Promise<SavedSearch[]> {
+    if (!supabase) return [];
+
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .select('*')
+      .or(`next_run_at.is.null,next_run_at.lte.${now.toISOString()}`);
+
+    if (error) {
+      console.error('Error fetching due saved searches:', error);
+      return [];
+    }
+
+    return (data || []).map(toSavedSearch);
+  }
+
+  async addSavedSearch(search: InsertSavedSearch): Promise<SavedSearch> {
+    if (!supabase) {
+      return toSavedSearch({ id: randomUUID(), ...toSavedSearchRow(search), created_at: new Date().toISOString() });
+    }
+
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .insert(toSavedSearchRow(search))
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding saved search:', error);
+      throw error;
+    }
+
+    return toSavedSearch(data);
+  }
+
+  async updateSavedSearch(id: string, updates: Partial<InsertSavedSearch>): Promise<SavedSearch | undefined> {
+    if (!supabase) return undefined;
+
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .update(toSavedSearchRow(updates))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating saved search:', error);
+      return undefined;
+    }
+
+    return toSavedSearch(data);
+  }
+
+  async removeSavedSearch(userId: string, id: string): Promise<boolean> {
+    if (!supabase) return false;
+
+    const { data, error } = await supabase
+      .from('saved_searches')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      console.error('Error removing saved search:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  }
+
+  async getUserSearchAlerts(userId: string, limit: number = 50): Promise<SearchAlert[]> {
+    if (!supabase) return [];
+
+    const { data, error } = await supabase
+      .from('search_alerts')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) return [];
+
+    return (data || []).map(toSearchAlert);
+  }
+
+  async addSearchAlert(alert: InsertSearchAlert): Promise<SearchAlert> {
+    const row = {
+      user_id: alert.userId,
+      saved_search_id: alert.savedSearchId,
+      title: alert.title,
+      jobs: alert.jobs ?? [],
+      read: alert.read ?? false,
+      emailed_at: alert.emailedAt ? alert.emailedAt.toISOString() : null
+    };
+
+    if (!supabase) {
+      return toSearchAlert({ id: randomUUID(), ...row, created_at: new Date().toISOString() });
+    }
+
+    const { data, error } = await supabase
+      .from('search_alerts')
+      .insert(row)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding search alert:', error);
+      throw error;
+    }
+
+    return toSearchAlert(data);
+  }
+
+  async updateSearchAlert(id: string, updates: Partial<InsertSearchAlert>): Promise<SearchAlert | undefined> {
+    if (!supabase) return undefined;
+
+    const row: Record<string, unknown> = {
+      title: updates.title,
+      jobs: updates.jobs,
+      read: updates.read,
+      emailed_at: updates.emailedAt instanceof Date ? updates.emailedAt.toISOString() : updates.emailedAt
+    };
+    Object.keys(row).forEach(key => row[key] === undefined && delete row[key]);
+
+    const { data, error } = await supabase
+      .from('search_alerts')
+      .update(row)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating search alert:', error);
+      return undefined;
+    }
+
+    return toSearchAlert(data);
+  }
+
+  async markSearchAlertsRead(userId: string, ids?: string[]): Promise<number> {
+    if (!supabase) return 0;
+
+    let request = supabase
+      .from('search_alerts')
+      .update({ read: true })
+      .eq('user_id', userId)
+      .eq('read', false);
+    if (ids) request = request.in('id', ids);
+
+    const { data, error } = await request.select('id');
+
+    if (error) {
+      console.error('Error marking search alerts read:', error);
+      return 0;
+    }
+
+    return (data || []).length;
+  }
+
+  // Search API key budgets
+  async getApiKeyUsage(day: string): Promise<ApiKeyUsage[]> {
+    if (!supabase) return [];
+
+    const { data, error } = await supabase
+      .from('api_key_usage')
+      .select('*')
+      .eq('day', day);
+
+    if (error) {
+      console.error('Error fetching API key usage:', error);
+      return [];
+    }
+
+    return (data || []).map(item => ({
+      keyId: item.key_id,
+      day: item.day,
+      requests: item.requests || 0,
+      cooldownUntil: item.cooldown_until ? new Date(item.cooldown_until) : null,
+      updatedAt: item.updated_at ? new Date(item.updated_at) : null
     }));
   }
 
+  async saveApiKeyUsage(usage: ApiKeyUsage): Promise<void> {
+    if (!supabase) return;
+
+    const { error } = await supabase
+      .from('api_key_usage')
+      .upsert({
+        key_id: usage.keyId,
+        day: usage.day,
+        requests: usage.requests,
+        cooldown_until: usage.cooldownUntil ? usage.cooldownUntil.toISOString() : null,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'key_id,day' });
+
+    if (error) {
+      console.error('Error saving API key usage:', error);
+    }
+  }
+
   // Job applications
   async trackApplication(applicationData: {
     userId: string;
@@ -700,5 +1122,125 @@ export class SupabaseStorage implements IStorage {
   }
 }
 
+function toJob(item: any): Job {
+  return {
+    id: item.id,
+    title: item.title,
+    company: item.company,
+    location: item.location,
+    description: item.description,
+    url: item.url,
+    logo: item.logo,
+    platform: item.platform,
+    tags: item.tags || [],
+    postedAt: item.posted_at ? new Date(item.posted_at) : null,
+    scrapedAt: item.scraped_at ? new Date(item.scraped_at) : null,
+    canonicalId: item.canonical_id || null,
+    sourceUrls: item.source_urls || [],
+    salary: item.salary || null,
+    validThrough: item.valid_through ? new Date(item.valid_through) : null,
+    normalizedLocation: item.normalized_location || null,
+    closedAt: item.closed_at ? new Date(item.closed_at) : null,
+    lastVerifiedAt: item.last_verified_at ? new Date(item.last_verified_at) : null
+  };
+}
+
+function toWatchlistRow(entry: Partial<InsertWatchlistEntry>) {
+  const row: Record<string, unknown> = {
+    user_id: entry.userId,
+    company: entry.company,
+    platform: entry.platform,
+    board_token: entry.boardToken,
+    board_url: entry.boardUrl,
+    known_job_urls: entry.knownJobUrls,
+    new_jobs: entry.newJobs,
+    open_job_count: entry.openJobCount,
+    last_polled_at: entry.lastPolledAt instanceof Date ? entry.lastPolledAt.toISOString() : entry.lastPolledAt,
+    last_successful_poll_at: entry.lastSuccessfulPollAt instanceof Date ? entry.lastSuccessfulPollAt.toISOString() : entry.lastSuccessfulPollAt,
+    last_poll_error: entry.lastPollError
+  };
+
+  // Leave columns that were not part of the update untouched
+  Object.keys(row).forEach(key => row[key] === undefined && delete row[key]);
+  return row;
+}
+
+function toWatchlistEntry(item: any): WatchlistEntry {
+  return {
+    id: item.id,
+    userId: item.user_id,
+    company: item.company,
+    platform: item.platform,
+    boardToken: item.board_token,
+    boardUrl: item.board_url || null,
+    knownJobUrls: item.known_job_urls || [],
+    newJobs: item.new_jobs || [],
+    openJobCount: item.open_job_count || 0,
+    lastPolledAt: item.last_polled_at ? new Date(item.last_polled_at) : null,
+    lastSuccessfulPollAt: item.last_successful_poll_at ? new Date(item.last_successful_poll_at) : null,
+    lastPollError: item.last_poll_error || null,
+    createdAt: item.created_at ? new Date(item.created_at) : null
+  };
+}
+
+function toSavedSearchRow(search: Partial<InsertSavedSearch>) {
+  const row: Record<string, unknown> = {
+    user_id: search.userId,
+    name: search.name,
+    query: search.query,
+    site: search.site,
+    location: search.location,
+    time_filter: search.timeFilter,
+    filters: search.filters,
+    frequency: search.frequency,
+    email_alerts: search.emailAlerts,
+    email: search.email,
+    seen_job_urls: search.seenJobUrls,
+    last_run_at: search.lastRunAt instanceof Date ? search.lastRunAt.toISOString() : search.lastRunAt,
+    last_successful_run_at: search.lastSuccessfulRunAt instanceof Date ? search.lastSuccessfulRunAt.toISOString() : search.lastSuccessfulRunAt,
+    next_run_at: search.nextRunAt instanceof Date ? search.nextRunAt.toISOString() : search.nextRunAt,
+    last_run_error: search.lastRunError
+  };
+
+  // Leave columns that were not part of the update untouched
+  Object.keys(row).forEach(key => row[key] === undefined && delete row[key]);
+  return row;
+}
+
+function toSavedSearch(item: any): SavedSearch {
+  return {
+    id: item.id,
+    userId: item.user_id,
+    name: item.name,
+    query: item.query,
+    site: item.site,
+    location: item.location || 'all',
+    timeFilter: item.time_filter || null,
+    filters: item.filters || {},
+    frequency: item.frequency || 'daily',
+    emailAlerts: item.email_alerts ?? true,
+    email: item.email || null,
+    seenJobUrls: item.seen_job_urls || [],
+    lastRunAt: item.last_run_at ? new Date(item.last_run_at) : null,
+    lastSuccessfulRunAt: item.last_successful_run_at ? new Date(item.last_successful_run_at) : null,
+    nextRunAt: item.next_run_at ? new Date(item.next_run_at) : null,
+    lastRunError: item.last_run_error || null,
+    createdAt: item.created_at ? new Date(item.created_at) : null
+  };
+}
+
+function toSearchAlert(item: any): SearchAlert {
+  return {
+    id: item.id,
+    userId: item.user_id,
+    savedSearchId: item.saved_search_id,
+    title: item.title,
+    jobs: item.jobs || [],
+    read: item.read ?? false,
+    emailedAt: item.emailed_at ? new Date(item.emailed_at) : null,
+    createdAt: item.created_at ? new Date(item.created_at) : null
+  };
+}
+
 // Create the storage instance
 export const supabaseStorage = new SupabaseStorage();
\ No newline at end of file
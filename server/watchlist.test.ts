@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { storage } from './storage';
+import { watchlistPoller } from './watchlist';
+import { loadFixture, mockBoardApi } from './platforms/__fixtures__/board-api-mock';
+
+const BOARD_URL = 'https://boards-api.greenhouse.io/v1/boards/acmerobotics/jobs?content=true';
+
+interface BoardFixture {
+  jobs: unknown[];
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('watchlist polling', () => {
+  it('takes the baseline from the first successful poll, not the first attempt', async () => {
+    const board = loadFixture<BoardFixture>('greenhouse-board.json');
+    const entry = await storage.addWatchlistEntry({
+      userId: '00000000-0000-0000-0000-000000000001',
+      company: 'Acme Robotics',
+      platform: 'greenhouse.io',
+      boardToken: 'acmerobotics'
+    });
+
+    // Board API down: the attempt is recorded but there is no baseline yet
+    mockBoardApi({});
+    const failed = await watchlistPoller.pollEntry(entry);
+    expect(failed.lastPolledAt).toBeInstanceOf(Date);
+    expect(failed.lastSuccessfulPollAt).toBeNull();
+    expect(failed.lastPollError).toContain('404');
+
+    // First successful poll: every open job is baseline, none are new
+    vi.restoreAllMocks();
+    mockBoardApi({ [BOARD_URL]: { jobs: board.jobs.slice(0, 1) } });
+    const baseline = await watchlistPoller.pollEntry(failed);
+    expect(baseline.lastSuccessfulPollAt).toBeInstanceOf(Date);
+    expect(baseline.newJobs).toEqual([]);
+    expect(baseline.openJobCount).toBe(1);
+
+    // A failure after that keeps the baseline
+    vi.restoreAllMocks();
+    mockBoardApi({});
+    const failedAgain = await watchlistPoller.pollEntry(baseline);
+    expect(failedAgain.lastSuccessfulPollAt).toEqual(baseline.lastSuccessfulPollAt);
+
+    // The next successful poll reports only the role that opened since the baseline
+    vi.restoreAllMocks();
+    mockBoardApi({ [BOARD_URL]: board });
+    const polled = await watchlistPoller.pollEntry(failedAgain);
+    expect(polled.newJobs.map(job => job.url)).toEqual(['https://boards.greenhouse.io/acmerobotics/jobs/4056789']);
+    expect(polled.lastPollError).toBeNull();
+  });
+});
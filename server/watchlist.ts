@@ -0,0 +1,209 @@
+/**
+ * Company watchlist: resolves followed companies to their ATS boards and
+ * polls those boards for roles that opened since the last check
+ */
+
+import type { InsertJob, WatchlistEntry, WatchlistEntryRequest, WatchlistJob } from '@shared/schema';
+import { storage } from './storage';
+import { getPlatformAdapter, refreshCompanyBoard, resolveBoardFromUrl } from './platforms';
+
+// Boards tried when the user only gives us a company name
+const PROBED_PLATFORM_IDS = ['greenhouse.io', 'lever.co', 'ashbyhq.com'];
+const POLL_INTERVAL = 6 * 60 * 60 * 1000; // 6 hours
+const BOARD_DELAY = 1500; // Pause between boards to stay polite
+const MAX_NEW_JOBS = 50;
+
+export class WatchlistError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WatchlistError';
+  }
+}
+
+/**
+ * Board slugs a company is likely published under, e.g. "Scale AI" -> scaleai, scale-ai
+ */
+function boardTokenCandidates(company: string): string[] {
+  const words = company
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/\b(inc|llc|ltd|corp|corporation|co)\b\.?/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+  return Array.from(new Set([words.join(''), words.join('-'), words[0]].filter(Boolean)));
+}
+
+/**
+ * Work out which board a new watchlist entry should poll
+ */
+export async function resolveWatchlistBoard(request: WatchlistEntryRequest): Promise<{
+  platform: string;
+  boardToken: string;
+  boardUrl: string | null;
+}> {
+  if (request.boardUrl) {
+    const board = resolveBoardFromUrl(request.boardUrl);
+    if (!board) {
+      throw new WatchlistError('That URL is not on a job board we can follow (Greenhouse, Lever, Ashby or Workday)');
+    }
+    return { platform: board.adapter.id, boardToken: board.token, boardUrl: request.boardUrl };
+  }
+
+  for (const token of boardTokenCandidates(request.company)) {
+    for (const platformId of PROBED_PLATFORM_IDS) {
+      try {
+        const jobs = await refreshCompanyBoard(platformId, token);
+        // Empty boards are indistinguishable from a wrong guess, so keep looking
+        if (jobs.length > 0) {
+          console.log(`🔎 Resolved "${request.company}" to ${platformId} board "${token}"`);
+          return { platform: platformId, boardToken: token, boardUrl: null };
+        }
+      } catch {
+        // Not on this platform
+      }
+    }
+  }
+
+  throw new WatchlistError(`Could not find a job board for ${request.company}. Paste a link to one of their job postings instead.`);
+}
+
+export function toWatchlistJob(job: InsertJob, foundAt: Date): WatchlistJob {
+  return {
+    title: job.title,
+    company: job.company,
+    location: job.location || null,
+    url: job.url,
+    platform: job.platform,
+    postedAt: job.postedAt ? new Date(job.postedAt).toISOString() : null,
+    foundAt: foundAt.toISOString()
+  };
+}
+
+/**
+ * Compare a fresh board listing with what the entry saw last time
+ */
+export function diffWatchlistBoard(entry: WatchlistEntry, jobs: InsertJob[], now: Date = new Date()): {
+  knownJobUrls: string[];
+  newJobs: WatchlistJob[];
+  openJobCount: number;
+} {
+  const openUrls = new Set(jobs.map(job => job.url));
+  const knownUrls = new Set(entry.knownJobUrls || []);
+  // Failed polls never recorded a baseline, so they don't count
+  const firstPoll = !entry.lastSuccessfulPollAt;
+
+  // The first poll only records the baseline; everything after it is new
+  const opened = firstPoll ? [] : jobs.filter(job => !knownUrls.has(job.url));
+  const stillOpen = (entry.newJobs || []).filter(job => openUrls.has(job.url));
+
+  return {
+    knownJobUrls: Array.from(openUrls),
+    newJobs: [...opened.map(job => toWatchlistJob(job, now)), ...stillOpen].slice(0, MAX_NEW_JOBS),
+    openJobCount: openUrls.size
+  };
+}
+
+export class WatchlistPoller {
+  private isRunning: boolean = false;
+  private isPolling: boolean = false;
+  private intervalId: NodeJS.Timeout | null = null;
+
+  start(): void {
+    if (this.isRunning) {
+      console.log('👀 Watchlist poller is already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('🚀 Starting company watchlist poller...');
+
+    this.intervalId = setInterval(() => {
+      this.pollAll();
+    }, POLL_INTERVAL);
+
+    // Initial poll after a minute so startup stays quick
+    setTimeout(() => {
+      this.pollAll();
+    }, 60 * 1000);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.isRunning = false;
+    console.log('🛑 Watchlist poller stopped');
+  }
+
+  /**
+   * Poll every watched board once; users following the same company share one fetch
+   */
+  async pollAll(): Promise<void> {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      const entries = await storage.getAllWatchlistEntries();
+      if (entries.length === 0) return;
+
+      const boards = new Map<string, WatchlistEntry[]>();
+      entries.forEach(entry => {
+        const key = `${entry.platform}:${entry.boardToken}`;
+        boards.set(key, [...(boards.get(key) || []), entry]);
+      });
+
+      console.log(`👀 Polling ${boards.size} watched boards for ${entries.length} watchlist entries`);
+
+      for (const boardEntries of Array.from(boards.values())) {
+        await this.pollBoard(boardEntries);
+        await new Promise(resolve => setTimeout(resolve, BOARD_DELAY));
+      }
+    } catch (error) {
+      console.error('❌ Error in watchlist poller:', error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /**
+   * Poll a single entry now (used by the "check now" button)
+   */
+  async pollEntry(entry: WatchlistEntry): Promise<WatchlistEntry> {
+    const [updated] = await this.pollBoard([entry]);
+    return updated || entry;
+  }
+
+  private async pollBoard(entries: WatchlistEntry[]): Promise<WatchlistEntry[]> {
+    const { platform, boardToken } = entries[0];
+    const now = new Date();
+
+    let jobs: InsertJob[];
+    try {
+      jobs = await refreshCompanyBoard(platform, boardToken);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.log(`⚠️ Watchlist board ${platform}:${boardToken} failed: ${message}`);
+      const failed = await Promise.all(entries.map(entry =>
+        storage.updateWatchlistEntry(entry.id, { lastPolledAt: now, lastPollError: message })
+      ));
+      return failed.filter((entry): entry is WatchlistEntry => !!entry);
+    }
+
+    const updated = await Promise.all(entries.map(entry =>
+      storage.updateWatchlistEntry(entry.id, {
+        ...diffWatchlistBoard(entry, jobs, now),
+        lastPolledAt: now,
+        lastSuccessfulPollAt: now,
+        lastPollError: null
+      })
+    ));
+
+    const displayName = getPlatformAdapter(platform)?.displayName || platform;
+    console.log(`✅ ${displayName} board "${boardToken}": ${jobs.length} open roles`);
+    return updated.filter((entry): entry is WatchlistEntry => !!entry);
+  }
+}
+
+export const watchlistPoller = new WatchlistPoller();
@@ -0,0 +1,85 @@
+// Catalog of searchable job platforms shared by the search form and the
+// server-side adapter registry (server/platforms). The `id` is the value
+// sent as `site` in search requests.
+
+export type PlatformGroup =
+  | "Major ATS"
+  | "Modern Platforms"
+  | "HR Systems"
+  | "Specialized"
+  | "Job Boards"
+  | "Generic Patterns";
+
+export interface PlatformInfo {
+  id: string;
+  name: string;
+  icon: string;
+  group: PlatformGroup;
+}
+
+export const platformGroups: PlatformGroup[] = [
+  "Major ATS",
+  "Modern Platforms",
+  "HR Systems",
+  "Specialized",
+  "Job Boards",
+  "Generic Patterns",
+];
+
+// Ordered as searched by "All Platforms"
+export const platformCatalog: PlatformInfo[] = [
+  // Major ATS Platforms
+  { id: "greenhouse.io", name: "Greenhouse", icon: "🌱", group: "Major ATS" },
+  { id: "lever.co", name: "Lever", icon: "🎯", group: "Major ATS" },
+  { id: "ashbyhq.com", name: "Ashby", icon: "💼", group: "Major ATS" },
+  { id: "myworkdayjobs.com", name: "Workday", icon: "📊", group: "Major ATS" },
+  { id: "jobs.workable.com", name: "Workable", icon: "⚡", group: "Major ATS" },
+  { id: "adp", name: "ADP", icon: "🏢", group: "Major ATS" },
+  { id: "icims.com", name: "iCIMS", icon: "📝", group: "Major ATS" },
+  { id: "jobvite.com", name: "Jobvite", icon: "🎨", group: "Major ATS" },
+
+  // Modern Platforms
+  { id: "remoterocketship.com", name: "Remote Rocketship", icon: "🚀", group: "Modern Platforms" },
+  { id: "wellfound.com", name: "Wellfound (AngelList)", icon: "💡", group: "Modern Platforms" },
+  { id: "workatastartup.com", name: "Y Combinator", icon: "⚡", group: "Modern Platforms" },
+  { id: "builtin.com", name: "Built In", icon: "🏗️", group: "Modern Platforms" },
+  { id: "rippling-ats.com", name: "Rippling", icon: "💫", group: "Modern Platforms" },
+  { id: "jobs.gusto.com", name: "Gusto", icon: "🎯", group: "Modern Platforms" },
+  { id: "dover.io", name: "Dover", icon: "🌊", group: "Modern Platforms" },
+
+  // HR Systems
+  { id: "recruiting.paylocity.com", name: "Paylocity", icon: "💰", group: "HR Systems" },
+  { id: "breezy.hr", name: "BreezyHR", icon: "🌬️", group: "HR Systems" },
+  { id: "applytojob.com", name: "JazzHR", icon: "🎺", group: "HR Systems" },
+  { id: "jobs.smartrecruiters.com", name: "SmartRecruiters", icon: "🧠", group: "HR Systems" },
+  { id: "trinethire.com", name: "TriNet", icon: "🔺", group: "HR Systems" },
+  { id: "recruitee.com", name: "Recruitee", icon: "👥", group: "HR Systems" },
+  { id: "teamtailor.com", name: "Teamtailor", icon: "✨", group: "HR Systems" },
+  { id: "homerun.co", name: "Homerun", icon: "🏃", group: "HR Systems" },
+
+  // Specialized
+  { id: "pinpointhq.com", name: "Pinpoint", icon: "📍", group: "Specialized" },
+  { id: "keka.com", name: "Keka", icon: "🎯", group: "Specialized" },
+  { id: "oraclecloud.com", name: "Oracle Cloud", icon: "☁️", group: "Specialized" },
+  { id: "careerpuck.com", name: "CareerPuck", icon: "🏒", group: "Specialized" },
+  { id: "jobappnetwork.com", name: "TalentReef", icon: "🌐", group: "Specialized" },
+  { id: "gem.com", name: "Gem", icon: "💎", group: "Specialized" },
+  { id: "trakstar.com", name: "Trakstar", icon: "⭐", group: "Specialized" },
+  { id: "catsone.com", name: "CATS", icon: "🐱", group: "Specialized" },
+  { id: "notion.site", name: "Notion Sites", icon: "📝", group: "Specialized" },
+
+  // Job Boards
+  { id: "linkedin.com", name: "LinkedIn", icon: "💼", group: "Job Boards" },
+  { id: "glassdoor.com", name: "Glassdoor", icon: "🚪", group: "Job Boards" },
+
+  // Generic Patterns (these will cover many more sites)
+  { id: "jobs.*", name: "Jobs Subdomains", icon: "🔍", group: "Generic Patterns" },
+  { id: "careers.*", name: "Career Pages", icon: "🚀", group: "Generic Patterns" },
+  { id: "people.*", name: "People Subdomains", icon: "👥", group: "Generic Patterns" },
+  { id: "talent.*", name: "Talent Subdomains", icon: "⭐", group: "Generic Patterns" },
+  { id: "other-pages", name: "Other Job Pages", icon: "📋", group: "Generic Patterns" },
+];
+
+export function getPlatformInfo(id: string): PlatformInfo | undefined {
+  return platformCatalog.find(platform => platform.id === id);
+}
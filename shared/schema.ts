@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, json, timestamp, boolean, uuid, integer, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, json, timestamp, boolean, uuid, integer, jsonb, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -15,6 +15,16 @@ export const jobs = pgTable("jobs", {
   tags: json("tags").$type<string[]>().default([]),
   postedAt: timestamp("posted_at"),
   scrapedAt: timestamp("scraped_at").defaultNow(),
+  // Same role found on several sites shares one canonical id (see server/job-dedup.ts)
+  canonicalId: varchar("canonical_id"),
+  sourceUrls: json("source_urls").$type<string[]>().default([]),
+  // Set by the liveness checker (see server/job-liveness.ts) once the posting is taken down
+  closedAt: timestamp("closed_at"),
+  lastVerifiedAt: timestamp("last_verified_at"),
+  salary: json("salary").$type<JobSalary>(),
+  // JSON-LD validThrough: the date the employer stops taking applications
+  validThrough: timestamp("valid_through"),
+  normalizedLocation: json("normalized_location").$type<JobLocation>(),
 });
 
 export const searches = pgTable("searches", {
@@ -75,9 +85,74 @@ export const savedJobs = pgTable('saved_jobs', {
   appliedAt: timestamp('applied_at'),
   applicationStatus: varchar('application_status', { length: 50 }),
   notes: text('notes'),
-  jobData: jsonb('job_data').$type<any>()
+  jobData: jsonb('job_data').$type<any>(),
+  closedAt: timestamp('closed_at'),
+  lastVerifiedAt: timestamp('last_verified_at')
 });
 
+// Companies a user follows; each entry is polled straight from its ATS board
+export const companyWatchlist = pgTable('company_watchlist', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').notNull(),
+  company: text('company').notNull(),
+  platform: varchar('platform', { length: 50 }).notNull(),
+  boardToken: text('board_token').notNull(),
+  boardUrl: text('board_url'),
+  knownJobUrls: jsonb('known_job_urls').$type<string[]>().default([]),
+  newJobs: jsonb('new_jobs').$type<WatchlistJob[]>().default([]),
+  openJobCount: integer('open_job_count').default(0),
+  lastPolledAt: timestamp('last_polled_at'),
+  // Last poll that read the board; failed polls only set lastPolledAt
+  lastSuccessfulPollAt: timestamp('last_successful_poll_at'),
+  lastPollError: text('last_poll_error'),
+  createdAt: timestamp('created_at').defaultNow()
+});
+
+// Searches a user re-runs on a schedule; new matches become inbox alerts
+export const savedSearches = pgTable('saved_searches', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').notNull(),
+  name: text('name').notNull(),
+  query: text('query').notNull(),
+  site: text('site').notNull(),
+  location: text('location').default('all'),
+  timeFilter: varchar('time_filter', { length: 10 }),
+  filters: jsonb('filters').$type<SavedSearchFilters>().default({}),
+  frequency: varchar('frequency', { length: 10 }).$type<SavedSearchFrequency>().notNull().default('daily'),
+  emailAlerts: boolean('email_alerts').default(true),
+  // Where email alerts go; the inbox always gets them
+  email: text('email'),
+  seenJobUrls: jsonb('seen_job_urls').$type<string[]>().default([]),
+  lastRunAt: timestamp('last_run_at'),
+  // Last run that got results; failed runs only set lastRunAt
+  lastSuccessfulRunAt: timestamp('last_successful_run_at'),
+  nextRunAt: timestamp('next_run_at'),
+  lastRunError: text('last_run_error'),
+  createdAt: timestamp('created_at').defaultNow()
+});
+
+// In-app inbox of "N new jobs for ..." alerts from saved searches
+export const searchAlerts = pgTable('search_alerts', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').notNull(),
+  savedSearchId: uuid('saved_search_id').notNull(),
+  title: text('title').notNull(),
+  jobs: jsonb('jobs').$type<WatchlistJob[]>().default([]),
+  read: boolean('read').default(false),
+  emailedAt: timestamp('emailed_at'),
+  createdAt: timestamp('created_at').defaultNow()
+});
+
+// Requests made with each search API key per quota day, so budgets survive restarts.
+// Keys are stored by fingerprint, never in full.
+export const apiKeyUsage = pgTable('api_key_usage', {
+  keyId: varchar('key_id', { length: 32 }).notNull(),
+  day: varchar('day', { length: 10 }).notNull(),
+  requests: integer('requests').notNull().default(0),
+  cooldownUntil: timestamp('cooldown_until'),
+  updatedAt: timestamp('updated_at').defaultNow()
+}, (table) => [primaryKey({ columns: [table.keyId, table.day] })]);
+
 // Job applications table
 export const jobApplications = pgTable('job_applications', {
   id: uuid('id').defaultRandom().primaryKey(),
@@ -158,6 +233,55 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
+export const jobIndexSearchSchema = z.object({
+  query: z.string().trim().min(1, "Search query is required"),
+  // Platform id from shared/platforms.ts or display name, e.g. "lever.co" or "Lever"
+  platform: z.string().optional(),
+  postedWithinDays: z.coerce.number().int().min(1).max(365).optional(),
+  remote: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+  // Same presets and places as the live search, e.g. "Austin, TX within 50 miles"
+  location: z.string().trim().max(100).optional(),
+  // Set to "false" to answer from the index only
+  live: z.enum(["true", "false"]).transform(value => value === "true").default("true"),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(50).default(25),
+});
+
+export const watchlistEntryRequestSchema = z.object({
+  company: z.string().trim().min(1, "Company name is required").max(100),
+  // Any posting or board URL of the company (boards.greenhouse.io/acme, jobs.lever.co/acme/...)
+  boardUrl: z.string().url("Please enter a valid URL").optional(),
+});
+
+export const watchlistEntryUpdateSchema = z.object({
+  company: z.string().trim().min(1).max(100).optional(),
+  clearNewJobs: z.boolean().optional(),
+});
+
+export const savedSearchRequestSchema = z.object({
+  // Defaults to a summary of the query and location
+  name: z.string().trim().min(1).max(100).optional(),
+  query: z.string().trim().min(1, "Job title is required").max(200),
+  site: z.string().min(1, "Platform is required").default("all"),
+  location: z.string().trim().max(100).default("all"),
+  timeFilter: z.enum(["all", "h1", "h4", "h8", "h12", "d", "h48", "h72", "w", "m"]).optional(),
+  minSalary: z.coerce.number().min(0).optional(),
+  salaryCurrency: z.string().length(3).optional(),
+  salaryListed: z.boolean().optional(),
+  frequency: z.enum(["hourly", "daily", "weekly"]).default("daily"),
+  emailAlerts: z.boolean().default(true),
+  email: z.string().email("Please enter a valid email address").optional(),
+  // Results already on screen when saving, so the first alert only has newer jobs
+  seenJobUrls: z.array(z.string()).max(2000).optional(),
+});
+
+export const savedSearchUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  frequency: z.enum(["hourly", "daily", "weekly"]).optional(),
+  emailAlerts: z.boolean().optional(),
+  email: z.string().email("Please enter a valid email address").optional(),
+});
+
 export const registerSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
   password: z.string().min(8, "Password must be at least 8 characters"),
@@ -173,8 +297,15 @@ export const loginSchema = z.object({
 export const searchRequestSchema = z.object({
   query: z.string().min(1, "Job title is required"),
   site: z.string().min(1, "Platform is required"),
-  location: z.enum(["all", "remote", "onsite", "hybrid", "united-states"]).default("all").optional(),
+  // A preset (all, remote, onsite, hybrid, united-states) or a place such as
+  // "Austin, TX within 50 miles" or "Remote (US or Canada only)"
+  location: z.string().trim().max(100).default("all").optional(),
   timeFilter: z.enum(["all", "h1", "h4", "h8", "h12", "d", "h48", "h72", "w", "m"]).optional(),
+  // Yearly pay floor; jobs whose listed pay tops out below it are left out
+  minSalary: z.coerce.number().min(0).optional(),
+  salaryCurrency: z.string().length(3).optional(),
+  // Set to "true" to only return jobs that list pay
+  salaryListed: z.enum(["true", "false"]).optional(),
   page: z.number().min(1).default(1),
   limit: z.number().min(1).max(50).default(25),
 });
@@ -184,6 +315,7 @@ export type Job = typeof jobs.$inferSelect;
 export type InsertSearch = z.infer<typeof insertSearchSchema>;
 export type Search = typeof searches.$inferSelect;
 export type SearchRequest = z.infer<typeof searchRequestSchema>;
+export type JobIndexSearchRequest = z.infer<typeof jobIndexSearchSchema>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type RegisterRequest = z.infer<typeof registerSchema>;
@@ -195,4 +327,59 @@ export type SavedJob = typeof savedJobs.$inferSelect;
 export type JobApplication = typeof jobApplications.$inferSelect;
 export type EmailLog = typeof emailLogs.$inferSelect;
 export type SearchHistoryEntry = typeof searchHistory.$inferSelect;
+export type WatchlistEntry = typeof companyWatchlist.$inferSelect;
+export type InsertWatchlistEntry = Omit<typeof companyWatchlist.$inferInsert, 'id' | 'createdAt'>;
+export type WatchlistEntryRequest = z.infer<typeof watchlistEntryRequestSchema>;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type InsertSavedSearch = Omit<typeof savedSearches.$inferInsert, 'id' | 'createdAt'>;
+export type SavedSearchRequest = z.infer<typeof savedSearchRequestSchema>;
+export type SearchAlert = typeof searchAlerts.$inferSelect;
+export type InsertSearchAlert = Omit<typeof searchAlerts.$inferInsert, 'id' | 'createdAt'>;
+export type SavedSearchFrequency = 'hourly' | 'daily' | 'weekly';
+export type ApiKeyUsage = typeof apiKeyUsage.$inferSelect;
+
+// Pay filters a saved search applies to each run, as on /api/search
+export interface SavedSearchFilters {
+  minSalary?: number;
+  salaryCurrency?: string;
+  salaryListed?: boolean;
+}
+
+// Pay parsed from a posting (see server/salary-extraction.ts)
+export interface JobSalary {
+  min: number | null;
+  max: number | null;
+  // ISO 4217 code, e.g. "USD"
+  currency: string;
+  period: 'hour' | 'day' | 'week' | 'month' | 'year';
+  // min/max as yearly pay, so hourly and salaried roles compare
+  annualMin: number | null;
+  annualMax: number | null;
+  equity: boolean;
+  source: 'ats' | 'json-ld' | 'description';
+}
+
+// Place and workplace parsed from a posting's location (see server/location-normalizer.ts)
+export interface JobLocation {
+  city: string | null;
+  // State/province code, e.g. "TX" or "ON"
+  region: string | null;
+  // ISO 3166-1 alpha-2 code, e.g. "US"
+  country: string | null;
+  // null when the posting doesn't say
+  remoteType: 'remote' | 'hybrid' | 'onsite' | null;
+  // Where remote applicants may live: country codes or areas like "Europe"; empty when unrestricted or unknown
+  remoteRegions: string[];
+}
+
+// Snapshot of a role that opened on a watched board or turned up in a saved search
+export interface WatchlistJob {
+  title: string;
+  company: string;
+  location: string | null;
+  url: string;
+  platform: string;
+  postedAt: string | null;
+  foundAt: string;
+}
 export type ResumeAnalysisResult = typeof resumeAnalysis.$inferSelect;
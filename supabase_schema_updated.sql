@@ -21,6 +21,37 @@ create table if not exists public.jobs (
   created_at timestamptz default now()
 );
 
+-- Cross-platform identity: one row per role, with every URL it was found at
+alter table public.jobs add column if not exists canonical_id varchar;
+alter table public.jobs add column if not exists source_urls jsonb default '[]';
+create unique index if not exists idx_jobs_canonical_id on public.jobs(canonical_id);
+
+-- Liveness: when a posting was last re-checked and when it was found taken down
+alter table public.jobs add column if not exists closed_at timestamptz;
+alter table public.jobs add column if not exists last_verified_at timestamptz;
+
+-- Pay parsed from the posting (see server/salary-extraction.ts)
+alter table public.jobs add column if not exists salary jsonb;
+
+-- JSON-LD validThrough: when the employer stops taking applications
+alter table public.jobs add column if not exists valid_through timestamptz;
+
+-- City/region/country and remote type parsed from the location (see server/location-normalizer.ts)
+alter table public.jobs add column if not exists normalized_location jsonb;
+
+-- Full-text index over stored jobs (used by /api/jobs/search)
+create or replace function public.immutable_array_to_string(text[], text)
+returns text language sql immutable as $$ select array_to_string($1, $2) $$;
+
+alter table public.jobs add column if not exists search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(public.immutable_array_to_string(tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(company, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(location, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'D')
+  ) stored;
+
 -- Search history - existing from original schema
 create table if not exists public.searches (
   id uuid default uuid_generate_v4() primary key,
@@ -65,6 +96,88 @@ create table if not exists public.saved_jobs (
   unique(user_id, job_url)
 );
 
+alter table public.saved_jobs add column if not exists closed_at timestamptz;
+alter table public.saved_jobs add column if not exists last_verified_at timestamptz;
+
+-- Company watchlist table - matches Drizzle schema
+create table if not exists public.company_watchlist (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references auth.users not null,
+  company text not null,
+  platform varchar(50) not null,
+  board_token text not null,
+  board_url text,
+  known_job_urls jsonb default '[]',
+  new_jobs jsonb default '[]',
+  open_job_count integer default 0,
+  last_polled_at timestamptz,
+  last_successful_poll_at timestamptz,
+  last_poll_error text,
+  created_at timestamptz default now(),
+  unique(user_id, platform, board_token)
+);
+
+-- Failed polls set last_polled_at too, so new jobs are counted from the last successful one
+alter table public.company_watchlist add column if not exists last_successful_poll_at timestamptz;
+update public.company_watchlist set last_successful_poll_at = last_polled_at
+  where last_successful_poll_at is null and last_poll_error is null;
+
+-- Saved searches table - matches Drizzle schema
+create table if not exists public.saved_searches (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references auth.users not null,
+  name text not null,
+  query text not null,
+  site text not null,
+  location text default 'all',
+  time_filter varchar(10),
+  filters jsonb default '{}',
+  frequency varchar(10) not null default 'daily' check (frequency in ('hourly', 'daily', 'weekly')),
+  email_alerts boolean default true,
+  email text,
+  seen_job_urls jsonb default '[]',
+  last_run_at timestamptz,
+  last_successful_run_at timestamptz,
+  next_run_at timestamptz,
+  last_run_error text,
+  created_at timestamptz default now()
+);
+
+-- Failed runs set last_run_at too, so new jobs are counted from the last successful one
+alter table public.saved_searches add column if not exists last_successful_run_at timestamptz;
+update public.saved_searches set last_successful_run_at = last_run_at
+  where last_successful_run_at is null and last_run_error is null;
+
+-- Saved search alerts (in-app inbox) - matches Drizzle schema
+create table if not exists public.search_alerts (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references auth.users not null,
+  saved_search_id uuid references public.saved_searches on delete cascade not null,
+  title text not null,
+  jobs jsonb default '[]',
+  read boolean default false,
+  emailed_at timestamptz,
+  created_at timestamptz default now()
+);
+
+-- Daily request counts per search API key (server-only; keys stored as fingerprints)
+create table if not exists public.api_key_usage (
+  key_id varchar(32) not null,
+  day varchar(10) not null,
+  requests integer not null default 0,
+  cooldown_until timestamptz,
+  updated_at timestamptz default now(),
+  primary key (key_id, day)
+);
+
+-- Shared cache entries when CACHE_STORE=postgres (server-only)
+create table if not exists public.cache_entries (
+  key text primary key,
+  value text not null,
+  expires_at timestamptz not null,
+  updated_at timestamptz default now()
+);
+
 -- Job applications table - matches Drizzle schema
 create table if not exists public.job_applications (
   id uuid default uuid_generate_v4() primary key,
@@ -117,8 +230,16 @@ create table if not exists public.resume_analysis (
 create index if not exists idx_jobs_scraped_at on public.jobs(scraped_at desc);
 create index if not exists idx_jobs_company on public.jobs(company);
 create index if not exists idx_jobs_platform on public.jobs(platform);
+create index if not exists idx_jobs_search_vector on public.jobs using gin(search_vector);
+create index if not exists idx_jobs_posted_at on public.jobs(posted_at desc);
+create index if not exists idx_jobs_last_verified_at on public.jobs(last_verified_at nulls first) where closed_at is null;
 create index if not exists idx_saved_jobs_user_id on public.saved_jobs(user_id);
 create index if not exists idx_saved_jobs_saved_at on public.saved_jobs(saved_at desc);
+create index if not exists idx_company_watchlist_user_id on public.company_watchlist(user_id);
+create index if not exists idx_saved_searches_user_id on public.saved_searches(user_id);
+create index if not exists idx_saved_searches_next_run_at on public.saved_searches(next_run_at);
+create index if not exists idx_search_alerts_user_id on public.search_alerts(user_id, created_at desc);
+create index if not exists idx_cache_entries_expires_at on public.cache_entries(expires_at);
 create index if not exists idx_applications_user_id on public.job_applications(user_id);
 create index if not exists idx_applications_applied_at on public.job_applications(applied_at desc);
 create index if not exists idx_user_preferences_user_id on public.user_preferences(user_id);
@@ -129,6 +250,12 @@ create index if not exists idx_search_history_user_id on public.search_history(u
 -- Row Level Security (RLS) Policies
 alter table public.user_preferences enable row level security;
 alter table public.saved_jobs enable row level security;
+alter table public.company_watchlist enable row level security;
+alter table public.saved_searches enable row level security;
+alter table public.search_alerts enable row level security;
+-- No policies: only the service role reads or writes key usage and cache entries
+alter table public.api_key_usage enable row level security;
+alter table public.cache_entries enable row level security;
 alter table public.job_applications enable row level security;
 alter table public.resume_analysis enable row level security;
 alter table public.email_logs enable row level security;
@@ -166,6 +293,52 @@ create policy "Users can update own saved jobs" on public.saved_jobs
 create policy "Users can delete own saved jobs" on public.saved_jobs
   for delete using (auth.uid() = user_id);
 
+-- RLS Policies for company_watchlist
+drop policy if exists "Users can view own watchlist" on public.company_watchlist;
+drop policy if exists "Users can insert own watchlist" on public.company_watchlist;
+drop policy if exists "Users can update own watchlist" on public.company_watchlist;
+drop policy if exists "Users can delete own watchlist" on public.company_watchlist;
+
+create policy "Users can view own watchlist" on public.company_watchlist
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert own watchlist" on public.company_watchlist
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update own watchlist" on public.company_watchlist
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete own watchlist" on public.company_watchlist
+  for delete using (auth.uid() = user_id);
+
+-- RLS Policies for saved_searches
+drop policy if exists "Users can view own saved searches" on public.saved_searches;
+drop policy if exists "Users can insert own saved searches" on public.saved_searches;
+drop policy if exists "Users can update own saved searches" on public.saved_searches;
+drop policy if exists "Users can delete own saved searches" on public.saved_searches;
+
+create policy "Users can view own saved searches" on public.saved_searches
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert own saved searches" on public.saved_searches
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update own saved searches" on public.saved_searches
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete own saved searches" on public.saved_searches
+  for delete using (auth.uid() = user_id);
+
+-- RLS Policies for search_alerts
+drop policy if exists "Users can view own search alerts" on public.search_alerts;
+drop policy if exists "Users can update own search alerts" on public.search_alerts;
+
+create policy "Users can view own search alerts" on public.search_alerts
+  for select using (auth.uid() = user_id);
+
+create policy "Users can update own search alerts" on public.search_alerts
+  for update using (auth.uid() = user_id);
+
 -- RLS Policies for job_applications
 drop policy if exists "Users can view own applications" on public.job_applications;
 drop policy if exists "Users can insert own applications" on public.job_applications;